@@ -9,6 +9,13 @@
  *   DG_INBOUND     — inbound vessel has dangerous goods in active checklist
  *   DOC_OVERDUE    — any doc in voyage checklist is overdue
  *   HIGH_CONGESTION — port congestion level ≥ 'high'
+ *   AIS_GAP        — vessel last seen near the port has been silent longer
+ *                    than aisGapHours (default 2h, see ais/gaps.ts)
+ *   ECA_CHANGEOVER — inbound vessel is about to enter or leave an emission
+ *                    control area; raised by ais/eca-changeover.ts on the
+ *                    vessel's next port
+ *   RISK_ZONE_ENTRY — inbound vessel has entered a piracy, war-risk or
+ *                    sanctioned zone; raised by ais/risk-zone-watch.ts
  *
  * Severity:
  *   INFO, WARNING, CRITICAL
@@ -26,10 +33,14 @@ import { v4 as uuidv4 } from 'uuid';
 import { getPreArrivalVessels }     from './pre-arrival.js';
 import { listOpenChecklists }       from './documents.js';
 import { getPortCongestion }        from '../congestion/engine.js';
+import { findDarkVesselsNearPort, DEFAULT_GAP_OPTIONS } from '../ais/gaps.js';
+import { clockNow, clockDate } from '../lib/clock.js';
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 
-export type AlertType     = 'ETA_IMMINENT' | 'DG_INBOUND' | 'DOC_OVERDUE' | 'HIGH_CONGESTION';
+export type AlertType     =
+  'ETA_IMMINENT' | 'DG_INBOUND' | 'DOC_OVERDUE' | 'HIGH_CONGESTION' | 'AIS_GAP' | 'ECA_CHANGEOVER' |
+  'RISK_ZONE_ENTRY';
 export type AlertSeverity = 'INFO' | 'WARNING' | 'CRITICAL';
 
 export interface ArrivalAlert {
@@ -48,6 +59,7 @@ interface AlertRules {
   etaThresholdHours: number;      // fire ETA_IMMINENT when ETA < this
   congestionLevels:  string[];    // levels that trigger HIGH_CONGESTION alert
   disabledTypes:     AlertType[]; // alert types to suppress
+  aisGapHours?:      number;      // fire AIS_GAP after this much silence near the port
 }
 
 interface NotifyCfg {
@@ -81,6 +93,7 @@ function loadRules(): AlertRules {
     etaThresholdHours: 6,
     congestionLevels:  ['high', 'critical'],
     disabledTypes:     [],
+    aisGapHours:       DEFAULT_GAP_OPTIONS.portThresholdHours,
   };
 }
 
@@ -109,7 +122,7 @@ function loadAlerts(portCode: string): ArrivalAlert[] {
 
 /** Check recent alerts to avoid duplicate firing within DEDUP_WINDOW */
 function isDuplicate(existing: ArrivalAlert[], type: AlertType, imo: string): boolean {
-  const now = Date.now();
+  const now = clockNow();
   return existing.some(a =>
     a.type === type &&
     a.imo  === imo  &&
@@ -183,7 +196,7 @@ function makeAlert(
 ): ArrivalAlert {
   return {
     id:           uuidv4(),
-    ts:           new Date().toISOString(),
+    ts:           clockDate().toISOString(),
     portCode:     portCode.toUpperCase(),
     type, severity, imo,
     vesselName:   name,
@@ -234,6 +247,29 @@ export async function evaluateAlerts(portCode: string): Promise<ArrivalAlert[]>
     }
   }
 
+  // ── AIS_GAP alert ─────────────────────────────────────────────────────────
+
+  if (!rules.disabledTypes.includes('AIS_GAP')) {
+    const dark = await findDarkVesselsNearPort(portCode, 48, {
+      ...DEFAULT_GAP_OPTIONS,
+      portThresholdHours: rules.aisGapHours ?? DEFAULT_GAP_OPTIONS.portThresholdHours,
+    });
+    for (const gap of dark) {
+      if (isDuplicate(existing, 'AIS_GAP', gap.imo)) continue;
+      // Moored vessels switching AIS off alongside is common; anywhere else it is not
+      const sev: AlertSeverity = gap.lastFix.navStatus === 5 ? 'INFO' : 'WARNING';
+      const a = makeAlert(
+        portCode, 'AIS_GAP', sev, gap.imo, gap.name,
+        `${gap.name} (${gap.imo}) silent for ${gap.durationHours.toFixed(1)}h — ` +
+        `last fix ${gap.lastFix.lat.toFixed(4)}, ${gap.lastFix.lng.toFixed(4)} ` +
+        `(${gap.nearPort?.distanceNm ?? '?'}nm from port) at ${gap.lastFix.ts}`,
+      );
+      persistAlert(a);
+      deliverAlert(a);
+      fired.push(a);
+    }
+  }
+
   // ── Per-vessel alerts ─────────────────────────────────────────────────────
 
   for (const vessel of (preArrival?.vessels ?? [])) {
@@ -299,6 +335,25 @@ export async function evaluateAlerts(portCode: string): Promise<ArrivalAlert[]>
 
 // ── Public API ────────────────────────────────────────────────────────────────
 
+/**
+ * Fire an alert raised outside evaluateAlerts() (e.g. by the ECA and risk-zone watchers).
+ * The caller handles deduplication. Returns null when the type is disabled.
+ */
+export function raiseAlert(
+  portCode: string,
+  type:     AlertType,
+  severity: AlertSeverity,
+  imo:      string,
+  name:     string,
+  message:  string,
+): ArrivalAlert | null {
+  if (loadRules().disabledTypes.includes(type)) return null;
+  const a = makeAlert(portCode, type, severity, imo, name, message);
+  persistAlert(a);
+  deliverAlert(a);
+  return a;
+}
+
 /** Return active (optionally all) alerts for a port */
 export function getAlerts(portCode: string, includeAcknowledged = false): ArrivalAlert[] {
   const all = loadAlerts(portCode);
@@ -331,6 +386,7 @@ export function ensureDefaultRules(): void {
       etaThresholdHours: 6,
       congestionLevels:  ['high', 'critical'],
       disabledTypes:     [],
+      aisGapHours:       DEFAULT_GAP_OPTIONS.portThresholdHours,
     }, null, 2), 'utf-8');
   }
 }
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('fs', () => import('../test/mem-fs.js'));
+
+import { files } from '../test/mem-fs.js';
+import { setFxRate } from './fx-rates.js';
+import { addPortTariff } from './da-tariffs.js';
+import { registerVessel } from './vessel-registry.js';
+import { forecastDA, forecastDAForVessel, vesselSpecFor } from './da-forecast.js';
+
+const DAY    = '2026-10-01';
+const vessel = { grt: 50_000, loaMetres: 250 };
+
+beforeEach(() => files.clear());
+
+describe('forecastDA', () => {
+  it('prices a call from the region band', () => {
+    const f = forecastDA('sgsin', { ...vessel, cargoTonnes: 30_000 }, DAY);
+    expect(f.port).toEqual({ unlocode: 'SGSIN', region: 'APAC' });
+    expect(f.costs).toMatchObject({
+      portDues: 2_250, pilotage: 5_300, towage: 4_800, wharfage: 135_000, agencyFees: 1_800, misc: 600, totalUsd: 149_750,
+    });
+    expect(f.tariff).toMatchObject({ source: 'region', tariffId: null, asOf: DAY });
+    expect(f.reporting).toBeNull();
+  });
+
+  it('bases wharfage on TEU, then cargo tonnes, then GRT', () => {
+    expect(forecastDA('SGSIN', { ...vessel, teuCapacity: 4_000, cargoTonnes: 30_000 }, DAY).costs.wharfage).toBe(360_000);
+    expect(forecastDA('SGSIN', vessel, DAY).costs.wharfage).toBe(750);
+    expect(forecastDA('XXABC', vessel, DAY).port.region).toBe('DEFAULT');
+  });
+
+  it('uses the port tariff in force on the day, region rates for the rest', () => {
+    addPortTariff('SGSIN', { effectiveFrom: '2026-07-01', rates: { agencyFee: 2_500 } });
+    const f = forecastDA('SGSIN', vessel, DAY);
+    expect(f.costs).toMatchObject({ agencyFees: 2_500, misc: 600 });
+    expect(f.tariff).toMatchObject({ source: 'port', version: 1, effectiveFrom: '2026-07-01' });
+    expect(f.tariff.regionFallback).not.toContain('agencyFee');
+
+    expect(forecastDA('SGSIN', vessel, '2026-06-30').costs.agencyFees).toBe(1_800);
+  });
+
+  it('adds the costs in a reporting currency', () => {
+    setFxRate({ currency: 'EUR', date: '2020-01-01', usdPerUnit: 1.25 });
+    const f = forecastDA('SGSIN', vessel, DAY, 'eur');
+    expect(f.reporting).toMatchObject({ currency: 'EUR', agencyFees: 1_440, fx: { rate: 0.8 } });
+    expect(f.reporting?.total).toBe(f.costs.totalUsd * 0.8);
+    expect(forecastDA('SGSIN', vessel, DAY, 'USD').reporting).toBeNull();
+    expect(() => forecastDA('SGSIN', vessel, DAY, 'INR')).toThrow('No INR rate');
+  });
+});
+
+describe('vesselSpecFor', () => {
+  it('takes the registry particulars, with 60% of DWT as cargo', () => {
+    registerVessel({ imo: '9000001', name: 'MV BULK', type: 'BULKER', gt: 43_000, loaMetres: 229, dwt: 80_000 });
+    expect(vesselSpecFor('9000001')).toEqual({
+      spec:  { grt: 43_000, loaMetres: 229, cargoTonnes: 48_000 },
+      basis: { imo: '9000001', registered: true, vesselType: 'BULKER', defaulted: [], usedDefaults: false },
+    });
+  });
+
+  it('fills the gaps with typical figures for the type', () => {
+    registerVessel({ imo: '9000002', name: 'MV BOX', type: 'CONTAINER', gt: 60_000 });
+    registerVessel({ imo: '9000003', name: 'MT OIL', type: 'TANKER', gt: 30_000, loaMetres: 180 });
+
+    expect(vesselSpecFor('9000002')).toMatchObject({
+      spec:  { grt: 60_000, loaMetres: 250, teuCapacity: 4_000 },
+      basis: { defaulted: ['loaMetres', 'teuCapacity'], usedDefaults: true },
+    });
+    expect(vesselSpecFor('9000003')).toMatchObject({
+      spec:  { grt: 30_000, loaMetres: 180, cargoTonnes: 60_000 },
+      basis: { defaulted: ['cargoTonnes'] },
+    });
+  });
+
+  it('treats an unknown IMO as a typical OTHER vessel without cargo', () => {
+    expect(vesselSpecFor('9999999')).toEqual({
+      spec:  { grt: 50_000, loaMetres: 250 },
+      basis: { imo: '9999999', registered: false, vesselType: 'OTHER', defaulted: ['grt', 'loaMetres'], usedDefaults: true },
+    });
+    expect(vesselSpecFor(null).basis.imo).toBeNull();
+  });
+});
+
+describe('forecastDAForVessel', () => {
+  it('says where the particulars came from', () => {
+    registerVessel({ imo: '9000001', name: 'MV BULK', type: 'BULKER', gt: 43_000, dwt: 80_000 });
+    const f = forecastDAForVessel('SGSIN', '9000001', DAY);
+    expect(f.vessel.cargoTonnes).toBe(48_000);
+    expect(f.notes).toEqual(expect.arrayContaining([
+      'Typical BULKER figures used for loaMetres',
+      "Cargo tonnes taken as 60% of the vessel's DWT",
+    ]));
+
+    expect(forecastDAForVessel('SGSIN', '9999999', DAY).notes)
+      .toContain('IMO 9999999 not in the vessel registry — typical particulars used');
+  });
+});
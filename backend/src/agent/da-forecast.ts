@@ -2,7 +2,9 @@
  * Mari8X Disbursement Account (DA) Cost Forecaster
  *
  * Estimates port call costs (DA) for a given port and vessel particulars.
- * Uses a static tariff matrix based on UNLOCODE region + vessel size.
+ * Uses the port's own tariff in force on the date (da-tariffs.ts) where one
+ * has been entered; rates it does not give, and ports without one, fall
+ * back to the static tariff matrix based on UNLOCODE region + vessel size.
  *
  * Cost components:
  *   port_dues     — per GRT (or per TEU for container terminals)
@@ -12,12 +14,25 @@
  *   agency_fees   — fixed port-agent fee
  *   misc          — customs, health, security (flat)
  *
- * All figures in USD. Accuracy: ±25% (indicative only).
+ * All figures in USD. Accuracy: ±25% (indicative only). When a reporting
+ * currency is asked for, the costs are also given converted at the table
+ * rate for the tariff date (fx-rates.ts).
+ *
+ * forecastDAForVessel() takes the particulars of a vessel by IMO from the
+ * vessel registry (vessel-registry.ts): GT, LOA, type, and TEU capacity for
+ * container ships or DWT as cargo tonnes for the rest. Anything the registry
+ * does not have comes from typical figures for the vessel type, and the
+ * result says which particulars were defaulted.
  */
 
+import { getPortTariff, tariffDate, TARIFF_RATE_KEYS } from './da-tariffs.js';
+import { fxRate, type FxConversion } from './fx-rates.js';
+import { getVessel, type VesselType } from './vessel-registry.js';
+import { clockNow } from '../lib/clock.js';
+
 // ── Tariff matrix ─────────────────────────────────────────────────────────────
 
-interface TariffBand {
+export interface TariffBand {
   portDuesPerGrt:   number;
   pilotageFixed:    number;
   pilotagePerMetre: number;
@@ -29,7 +44,7 @@ interface TariffBand {
   miscFlat:         number;
 }
 
-type RegionCode = 'APAC' | 'MENA' | 'EU' | 'AMED' | 'SASC' | 'DEFAULT';
+export type RegionCode = 'APAC' | 'MENA' | 'EU' | 'AMED' | 'SASC' | 'DEFAULT';
 
 const TARIFFS: Record<RegionCode, TariffBand> = {
   // Asia-Pacific (Singapore, Hong Kong, Shanghai, etc.)
@@ -114,23 +129,107 @@ export interface DACostBreakdown {
   accuracy:    '±25%';
 }
 
+export interface DATariffUsed {
+  source:         'port' | 'region';
+  region:         RegionCode;
+  tariffId:       string | null;     // port tariff version applied
+  version:        number | null;
+  effectiveFrom:  string | null;
+  effectiveTo:    string | null;
+  asOf:           string;            // date the tariff was looked up for
+  regionFallback: string[];          // rates taken from the region band
+}
+
+/** The USD costs in the reporting currency, with the rate used. */
+export interface DAReportingCosts {
+  currency:   string;
+  portDues:   number;
+  pilotage:   number;
+  towage:     number;
+  wharfage:   number;
+  agencyFees: number;
+  misc:       number;
+  total:      number;
+  fx:         FxConversion;
+}
+
 export interface DAForecast {
   port: {
     unlocode: string;
     region:   RegionCode;
   };
+  tariff:    DATariffUsed;
   vessel:    VesselSpec;
   costs:     DACostBreakdown;
+  reporting: DAReportingCosts | null;   // only when a non-USD currency was asked for
   notes:     string[];
   generatedAt: string;
 }
 
+/** Where a registry-driven forecast got the vessel's particulars from. */
+export interface DAVesselBasis {
+  imo:          string | null;
+  registered:   boolean;             // vessel found in the registry
+  vesselType:   VesselType;
+  defaulted:    Array<'grt' | 'loaMetres' | 'teuCapacity' | 'cargoTonnes'>;   // typical figures for the type
+  usedDefaults: boolean;
+}
+
+export type DAVesselForecast = DAForecast & { basis: DAVesselBasis };
+
+// ── Typical particulars ───────────────────────────────────────────────────────
+
+// Used only for particulars the registry lacks. cargoTonnes is a typical
+// per-call cargo figure; types without one fall back to the GRT wharfage
+// estimate. OTHER (also used for unknown IMOs) keeps the former fixed
+// vessel's GRT and LOA but not its 4,000 TEU, so its wharfage is GRT-based.
+const TYPICAL: Record<VesselType, { grt: number; loaMetres: number; teuCapacity?: number; cargoTonnes?: number }> = {
+  BULKER:        { grt: 40000, loaMetres: 225, cargoTonnes: 45000 },
+  TANKER:        { grt: 60000, loaMetres: 245, cargoTonnes: 60000 },
+  CONTAINER:     { grt: 50000, loaMetres: 250, teuCapacity: 4000 },
+  RO_RO:         { grt: 45000, loaMetres: 200, cargoTonnes: 8000 },
+  GAS_CARRIER:   { grt: 50000, loaMetres: 230, cargoTonnes: 35000 },
+  GENERAL_CARGO: { grt: 10000, loaMetres: 140, cargoTonnes: 8000 },
+  PASSENGER:     { grt: 90000, loaMetres: 290 },
+  TUG:           { grt:   500, loaMetres:  32 },
+  OTHER:         { grt: 50000, loaMetres: 250 },
+};
+
+// Share of DWT taken as the cargo worked at one call: DWT includes bunkers,
+// stores and ballast, and a call rarely loads or discharges a full ship.
+const CARGO_LOAD_FACTOR = 0.6;
+
 // ── Core ──────────────────────────────────────────────────────────────────────
 
-export function forecastDA(unlocode: string, vessel: VesselSpec): DAForecast {
+/**
+ * `asOf` picks the port tariff version in force on that date (default: today
+ * on the platform clock), e.g. the call's ETA. `currency` adds the costs in
+ * that reporting currency; throws when the FX table has no rate for it.
+ */
+export function forecastDA(
+  unlocode:  string,
+  vessel:    VesselSpec,
+  asOf?:     Date | string | number,
+  currency?: string,
+): DAForecast {
   const region  = regionFor(unlocode);
-  const t       = TARIFFS[region];
+  const day     = tariffDate(asOf ?? clockNow());
+  const own     = getPortTariff(unlocode, day);
+  const t: TariffBand = { ...TARIFFS[region], ...own?.rates };
   const notes: string[] = [`Region: ${region}`, 'Figures are indicative ±25%'];
+  const tariff: DATariffUsed = {
+    source:         own ? 'port' : 'region',
+    region,
+    tariffId:       own?.id ?? null,
+    version:        own?.version ?? null,
+    effectiveFrom:  own?.effectiveFrom ?? null,
+    effectiveTo:    own?.effectiveTo ?? null,
+    asOf:           day,
+    regionFallback: own ? TARIFF_RATE_KEYS.filter(k => own.rates[k] == null) : [...TARIFF_RATE_KEYS],
+  };
+  if (own) {
+    notes.push(`Port tariff v${own.version} (effective ${own.effectiveFrom} – ${own.effectiveTo ?? 'open'})`);
+  }
 
   // Port dues
   const portDues = Math.round(vessel.grt * t.portDuesPerGrt);
@@ -159,15 +258,97 @@ export function forecastDA(unlocode: string, vessel: VesselSpec): DAForecast {
   const misc       = t.miscFlat;
   const totalUsd   = portDues + pilotage + towage + wharfage + agencyFees + misc;
 
+  let reporting: DAReportingCosts | null = null;
+  const fx = currency ? fxRate('USD', currency, day) : null;
+  if (fx && fx.to !== 'USD') {
+    const conv = (usd: number) => Math.round(usd * fx.rate * 100) / 100;
+    reporting = {
+      currency:   fx.to,
+      portDues:   conv(portDues),
+      pilotage:   conv(pilotage),
+      towage:     conv(towage),
+      wharfage:   conv(wharfage),
+      agencyFees: conv(agencyFees),
+      misc:       conv(misc),
+      total:      conv(totalUsd),
+      fx,
+    };
+    notes.push(`Reporting currency ${fx.to} at ${fx.rate} per USD (rate of ${fx.toRateDate})`);
+  }
+
   return {
     port:        { unlocode: unlocode.toUpperCase(), region },
+    tariff,
     vessel,
     costs: {
       portDues, pilotage, towage, wharfage,
       agencyFees, misc, totalUsd,
       currency: 'USD', accuracy: '±25%',
     },
+    reporting,
     notes,
     generatedAt: new Date().toISOString(),
   };
 }
+
+/**
+ * Vessel particulars for a DA forecast from the registry, with typical
+ * figures for the vessel type where it has none (or the IMO is unknown).
+ */
+export function vesselSpecFor(imo: string | null | undefined): { spec: VesselSpec; basis: DAVesselBasis } {
+  const v       = imo ? getVessel(imo) : null;
+  const type    = v?.type ?? 'OTHER';
+  const typical = TYPICAL[type] ?? TYPICAL.OTHER;
+  const defaulted: DAVesselBasis['defaulted'] = [];
+
+  const spec: VesselSpec = {
+    grt:       v?.gt ?? typical.grt,
+    loaMetres: v?.loaMetres ?? typical.loaMetres,
+  };
+  if (v?.gt == null)        defaulted.push('grt');
+  if (v?.loaMetres == null) defaulted.push('loaMetres');
+
+  if (type === 'CONTAINER') {
+    spec.teuCapacity = v?.teuCapacity ?? typical.teuCapacity;
+    if (v?.teuCapacity == null) defaulted.push('teuCapacity');
+  } else if (v?.dwt) {
+    spec.cargoTonnes = Math.round(v.dwt * CARGO_LOAD_FACTOR);
+  } else if (typical.cargoTonnes) {
+    spec.cargoTonnes = typical.cargoTonnes;
+    defaulted.push('cargoTonnes');
+  }
+
+  return {
+    spec,
+    basis: {
+      imo:          imo ?? null,
+      registered:   !!v,
+      vesselType:   type,
+      defaulted,
+      usedDefaults: defaulted.length > 0,
+    },
+  };
+}
+
+/**
+ * DA forecast for a vessel by IMO, from its registry particulars (see
+ * vesselSpecFor). `asOf` and `currency` as for forecastDA.
+ */
+export function forecastDAForVessel(
+  unlocode:  string,
+  imo:       string | null | undefined,
+  asOf?:     Date | string | number,
+  currency?: string,
+): DAVesselForecast {
+  const { spec, basis } = vesselSpecFor(imo);
+  const f = forecastDA(unlocode, spec, asOf, currency);
+  if (!basis.registered) {
+    f.notes.push(imo ? `IMO ${imo} not in the vessel registry — typical particulars used` : 'No IMO — typical particulars used');
+  } else if (basis.usedDefaults) {
+    f.notes.push(`Typical ${basis.vesselType} figures used for ${basis.defaulted.join(', ')}`);
+  }
+  if (spec.cargoTonnes && !basis.defaulted.includes('cargoTonnes')) {
+    f.notes.push(`Cargo tonnes taken as ${CARGO_LOAD_FACTOR * 100}% of the vessel's DWT`);
+  }
+  return { ...f, basis };
+}
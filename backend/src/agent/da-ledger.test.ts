@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('fs', () => import('../test/mem-fs.js'));
+
+import { files } from '../test/mem-fs.js';
+import { openPortCall, getPortCall, setDAEstimate } from './port-call.js';
+import { setFxRate } from './fx-rates.js';
+import {
+  addProformaDA, addFinalDA, requestDAFunds, recordDAFunds, getDALedger, getDAVariance,
+} from './da-ledger.js';
+
+let portCallId: string;
+
+beforeEach(() => {
+  files.clear();
+  portCallId = openPortCall({ voyageId: 'V100', vesselName: 'MV TEST', portCode: 'sgsin' }).portCallId;
+  addProformaDA(portCallId, {
+    items: [
+      { category: 'PORT_DUES', amountUsd: 10_000 },
+      { category: 'PILOTAGE',  amountUsd: 3_000 },
+      { category: 'TOWAGE',    amountUsd: 5_000 },
+    ],
+  });
+});
+
+describe('summary', () => {
+  it('totals the proforma and keeps the port call estimate in step', () => {
+    expect(getDALedger(portCallId)?.summary).toMatchObject({
+      status: 'PROFORMA', proformaUsd: 18_000, finalUsd: null, balanceUsd: 18_000, balanceType: 'DUE',
+    });
+    expect(getPortCall(portCallId)?.da?.totalUsd).toBe(18_000);
+  });
+
+  it('requests the outstanding proforma and tracks funds received', () => {
+    requestDAFunds(portCallId);
+    let s = recordDAFunds(portCallId, { amountUsd: 10_000, receivedAt: '2026-10-05' }).summary;
+    expect(s).toMatchObject({
+      status: 'FUNDS_REQUESTED', fundsRequestedUsd: 18_000, fundsReceivedUsd: 10_000, balanceUsd: 8_000,
+    });
+
+    s = recordDAFunds(portCallId, { amountUsd: 8_000 }).summary;
+    expect(s).toMatchObject({ fundsReceivedUsd: 18_000, balanceUsd: 0 });
+  });
+
+  it('balances against the final once there is one', () => {
+    recordDAFunds(portCallId, { amountUsd: 18_000 });
+    let s = addFinalDA(portCallId, { items: [{ category: 'PORT_DUES', amountUsd: 17_000 }] }).summary;
+    expect(s).toMatchObject({ status: 'FINAL', finalUsd: 17_000, balanceUsd: -1_000, balanceType: 'REFUND' });
+
+    s = addFinalDA(portCallId, { items: [{ category: 'PORT_DUES', amountUsd: 18_000 }] }).summary;
+    expect(s).toMatchObject({ status: 'SETTLED', balanceUsd: 0, balanceType: 'SETTLED' });
+  });
+
+  it('needs a proforma before a final or a funds request', () => {
+    const other = openPortCall({ voyageId: 'V200', vesselName: 'MV OTHER', portCode: 'NLRTM' }).portCallId;
+    expect(() => addFinalDA(other, { items: [{ category: 'MISC', amountUsd: 1 }] })).toThrow('no proforma');
+    expect(() => requestDAFunds(other)).toThrow('no proforma');
+  });
+
+  it('rejects empty or malformed items', () => {
+    expect(() => addProformaDA(portCallId, { items: [] })).toThrow('non-empty array');
+    expect(() => addProformaDA(portCallId, { items: [{ category: 'BUNKERS' as never, amountUsd: 1 }] })).toThrow('category must be one of');
+    expect(() => addProformaDA(portCallId, { items: [{ category: 'MISC', amountUsd: NaN }] })).toThrow('amountUsd must be a number');
+    expect(getDALedger(portCallId)?.proformas).toHaveLength(1);
+  });
+});
+
+describe('currencies', () => {
+  beforeEach(() => {
+    setFxRate({ currency: 'SGD', date: '2020-01-01', usdPerUnit: 0.75 });
+    setFxRate({ currency: 'EUR', date: '2020-01-01', usdPerUnit: 1.25 });
+  });
+
+  it('converts foreign items and funds to USD at the table rate', () => {
+    const l = addProformaDA(portCallId, {
+      items:  [{ category: 'PORT_DUES', amountUsd: 10_000 }, { category: 'PILOTAGE', amount: 4_000, currency: 'SGD' }],
+      fxDate: '2026-10-01',
+    });
+    expect(l.proformas[1].items[1]).toMatchObject({ currency: 'SGD', amount: 4_000, amountUsd: 3_000 });
+    expect(l.summary).toMatchObject({ proformaUsd: 13_000, reporting: null });
+
+    const s = recordDAFunds(portCallId, { amount: 8_000, currency: 'EUR', receivedAt: '2026-10-05' }).summary;
+    expect(s).toMatchObject({ fundsReceivedUsd: 10_000, balanceUsd: 3_000 });
+  });
+
+  it('gives the figures and the estimate in the reporting currency', () => {
+    const s = addProformaDA(portCallId, {
+      items: [{ category: 'PORT_DUES', amountUsd: 1_000 }],
+      reportingCurrency: 'eur',
+    }).summary;
+    expect(s.reporting).toMatchObject({ currency: 'EUR', proforma: 800, balance: 800 });
+    expect(s.reporting?.fx.rate).toBe(0.8);
+    expect(getPortCall(portCallId)?.da).toMatchObject({ totalUsd: 1_000, reporting: { currency: 'EUR', amount: 800 }, fxNote: null });
+  });
+
+  it('rejects a reporting currency without a rate and leaves the ledger as it was', () => {
+    expect(() => addProformaDA(portCallId, {
+      items: [{ category: 'PORT_DUES', amountUsd: 1_000 }],
+      reportingCurrency: 'INR',
+    })).toThrow('No INR rate');
+    expect(getDALedger(portCallId)?.proformas).toHaveLength(1);
+    expect(getPortCall(portCallId)?.da?.totalUsd).toBe(18_000);
+  });
+
+  it('keeps an estimate without a reporting rate, saying why', () => {
+    const { da } = setDAEstimate(portCallId, {
+      portDuesUsd: 1_000, pilotageUsd: 0, towageUsd: 0, agencyFeeUsd: 0, miscUsd: 0, totalUsd: 1_000, currency: 'USD',
+    }, 'INR');
+    expect(da).toMatchObject({ totalUsd: 1_000, reporting: null, fxNote: expect.stringContaining('No INR rate') });
+  });
+});
+
+describe('getDAVariance', () => {
+  it('is null until there is a final', () => {
+    expect(getDAVariance(portCallId)).toBeNull();
+  });
+
+  it('sets the latest final against the latest proforma by category', () => {
+    addFinalDA(portCallId, {
+      items: [
+        { category: 'PORT_DUES', amountUsd: 10_500 },
+        { category: 'PILOTAGE',  amountUsd: 3_000 },
+        { category: 'MISC',      amountUsd: 200 },
+      ],
+    });
+    const v = getDAVariance(portCallId)!;
+    expect(v.lines).toEqual([
+      { category: 'PORT_DUES', proformaUsd: 10_000, finalUsd: 10_500, varianceUsd: 500,    variancePct: 5,    flagged: false },
+      { category: 'PILOTAGE',  proformaUsd: 3_000,  finalUsd: 3_000,  varianceUsd: 0,      variancePct: 0,    flagged: false },
+      { category: 'TOWAGE',    proformaUsd: 5_000,  finalUsd: 0,      varianceUsd: -5_000, variancePct: -100, flagged: true },
+      { category: 'MISC',      proformaUsd: 0,      finalUsd: 200,    varianceUsd: 200,    variancePct: null, flagged: true },
+    ]);
+    expect(v.total).toMatchObject({ proformaUsd: 18_000, finalUsd: 13_700, varianceUsd: -4_300 });
+  });
+});
@@ -0,0 +1,533 @@
+/**
+ * Mari8X DA Ledger
+ *
+ * The disbursement account of a port call from proforma to settlement:
+ *
+ *   proforma  the agent's estimate sent to the principal, as line items per
+ *             cost category; may be revised (v1, v2, …) and can be drafted
+ *             from the DA forecaster (da-forecast.ts)
+ *   funds     funds requested from the principal against the proforma, and
+ *             funds received
+ *   final     the actual invoices after the call; may be revised too
+ *
+ *   balance   = final total (proforma total until there is one) − funds
+ *               received; positive is due from the principal, negative is
+ *               a refund owed to them
+ *
+ * The variance report sets the latest proforma against the latest final per
+ * category. The latest proforma also updates the port call's DA estimate
+ * (port-call.ts), so existing views keep showing it.
+ *
+ * The ledger is kept in USD. Invoices and remittances in other currencies
+ * keep their original amount and are converted at the FX table rate
+ * (fx-rates.ts) for their date, with the rate stored on the entry. The
+ * summary is also given in the principal's reporting currency at today's
+ * rate.
+ *
+ * Storage: /root/.ankr/state/mari8x-da-ledger/ledgers.json
+ *
+ * © 2026 ANKR Labs — Mari8X Community Edition
+ */
+
+import * as fs   from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { getPortCall, setDAEstimate } from './port-call.js';
+import { forecastDA, type VesselSpec } from './da-forecast.js';
+import { BASE_CURRENCY, currencyCode, fxRate, type FxConversion } from './fx-rates.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type DACategory =
+  | 'PORT_DUES'
+  | 'PILOTAGE'
+  | 'TOWAGE'
+  | 'WHARFAGE'
+  | 'AGENCY_FEE'
+  | 'MISC';
+
+export type DAStatus = 'OPEN' | 'PROFORMA' | 'FUNDS_REQUESTED' | 'FINAL' | 'SETTLED';
+
+/** Original amount and currency of an entry, and its USD value. */
+export interface DAMoney {
+  currency:  string;
+  amount:    number;            // in `currency`; negative for credits / rebates
+  amountUsd: number;
+  fx:        FxConversion | null; // currency → USD; null for USD entries
+}
+
+/** Either amountUsd, or amount in currency. */
+export interface DAMoneyInput {
+  amountUsd?: number;
+  amount?:    number;
+  currency?:  string;
+}
+
+export interface DALineItem extends DAMoney {
+  id:          string;
+  category:    DACategory;
+  description: string | null;
+  invoiceRef:  string | null;
+  supplier:    string | null;
+}
+
+export type DALineItemInput = Pick<DALineItem, 'category'> & DAMoneyInput &
+  Partial<Pick<DALineItem, 'description' | 'invoiceRef' | 'supplier'>>;
+
+export interface DAVersion {
+  version:   number;
+  items:     DALineItem[];
+  totalUsd:  number;
+  source:    'manual' | 'forecast';
+  notes:     string | null;
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface DAFundsRequest extends DAMoney {
+  id:          string;
+  reference:   string | null;
+  requestedBy: string;
+  requestedAt: string;
+}
+
+export interface DAFundsReceipt extends DAMoney {
+  id:         string;
+  reference:  string | null;
+  notes:      string | null;
+  receivedAt: string;
+  recordedBy: string;
+}
+
+export interface DALedger {
+  portCallId:         string;
+  voyageId:           string;
+  vesselName:         string;
+  portCode:           string;
+  principal:          string | null;
+  reportingCurrency?: string;        // principal's; USD when unset
+  proformas:          DAVersion[];   // oldest first
+  finals:             DAVersion[];   // oldest first
+  fundsRequests:      DAFundsRequest[];
+  fundsReceived:      DAFundsReceipt[];
+  createdAt:          string;
+  updatedAt:          string;
+}
+
+export interface DALedgerSummary {
+  status:            DAStatus;
+  proformaUsd:       number | null;   // latest proforma
+  finalUsd:          number | null;   // latest final
+  fundsRequestedUsd: number;
+  fundsReceivedUsd:  number;
+  balanceUsd:        number;          // > 0 due from the principal, < 0 refund to them
+  balanceType:       'DUE' | 'REFUND' | 'SETTLED';
+  reporting:         DAReportingSummary | null;  // null for USD, or when the FX table has no rate
+}
+
+/** The summary figures in the principal's reporting currency. */
+export interface DAReportingSummary {
+  currency:       string;
+  proforma:       number | null;
+  final:          number | null;
+  fundsRequested: number;
+  fundsReceived:  number;
+  balance:        number;
+  fx:             FxConversion;  // USD → currency
+}
+
+export type DALedgerView = DALedger & { summary: DALedgerSummary };
+
+export interface DAVarianceLine {
+  category:    DACategory;
+  proformaUsd: number;
+  finalUsd:    number;
+  varianceUsd: number;          // final − proforma
+  variancePct: number | null;   // null when nothing was budgeted
+  flagged:     boolean;         // |variance| over VARIANCE_FLAG_PCT
+}
+
+export interface DAVarianceReport {
+  portCallId:      string;
+  portCode:        string;
+  vesselName:      string;
+  proformaVersion: number;
+  finalVersion:    number;
+  lines:           DAVarianceLine[];
+  total:           Omit<DAVarianceLine, 'category'>;
+  generatedAt:     string;
+}
+
+// ── Config ────────────────────────────────────────────────────────────────────
+
+export const DA_CATEGORIES: DACategory[] = ['PORT_DUES', 'PILOTAGE', 'TOWAGE', 'WHARFAGE', 'AGENCY_FEE', 'MISC'];
+
+const VARIANCE_FLAG_PCT = 10;
+
+const LEDGER_DIR  = '/root/.ankr/state/mari8x-da-ledger';
+const LEDGER_FILE = path.join(LEDGER_DIR, 'ledgers.json');
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// ── Persistence ───────────────────────────────────────────────────────────────
+
+function ensureDir() {
+  if (!fs.existsSync(LEDGER_DIR)) fs.mkdirSync(LEDGER_DIR, { recursive: true });
+}
+
+function loadAll(): Record<string, DALedger> {
+  ensureDir();
+  if (!fs.existsSync(LEDGER_FILE)) return {};
+  try { return JSON.parse(fs.readFileSync(LEDGER_FILE, 'utf-8')); }
+  catch { return {}; }
+}
+
+function saveAll(data: Record<string, DALedger>) {
+  ensureDir();
+  fs.writeFileSync(LEDGER_FILE, JSON.stringify(data, null, 2));
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const latest = <T>(xs: T[]): T | null => xs[xs.length - 1] ?? null;
+const sumUsd = (xs: Array<{ amountUsd: number }>) => round2(xs.reduce((a, x) => a + x.amountUsd, 0));
+
+function summarise(l: DALedger): DALedgerSummary {
+  const proformaUsd       = latest(l.proformas)?.totalUsd ?? null;
+  const finalUsd          = latest(l.finals)?.totalUsd ?? null;
+  const fundsRequestedUsd = sumUsd(l.fundsRequests);
+  const fundsReceivedUsd  = sumUsd(l.fundsReceived);
+  const balanceUsd        = round2((finalUsd ?? proformaUsd ?? 0) - fundsReceivedUsd);
+
+  const status: DAStatus =
+    finalUsd != null             ? (balanceUsd === 0 ? 'SETTLED' : 'FINAL')
+    : l.fundsRequests.length > 0 ? 'FUNDS_REQUESTED'
+    : proformaUsd != null        ? 'PROFORMA'
+    : 'OPEN';
+
+  return {
+    status, proformaUsd, finalUsd, fundsRequestedUsd, fundsReceivedUsd, balanceUsd,
+    balanceType: balanceUsd > 0 ? 'DUE' : balanceUsd < 0 ? 'REFUND' : 'SETTLED',
+    reporting:   reportingSummary(l.reportingCurrency ?? BASE_CURRENCY, {
+      proforma: proformaUsd, final: finalUsd, fundsRequested: fundsRequestedUsd,
+      fundsReceived: fundsReceivedUsd, balance: balanceUsd,
+    }),
+  };
+}
+
+function reportingSummary(
+  currency: string,
+  usd:      Omit<DAReportingSummary, 'currency' | 'fx'>,
+): DAReportingSummary | null {
+  if (currency === BASE_CURRENCY) return null;
+  let fx: FxConversion;
+  try { fx = fxRate(BASE_CURRENCY, currency); }
+  catch { return null; }
+  const conv = (n: number) => round2(n * fx.rate);
+  return {
+    currency,
+    proforma:       usd.proforma != null ? conv(usd.proforma) : null,
+    final:          usd.final != null ? conv(usd.final) : null,
+    fundsRequested: conv(usd.fundsRequested),
+    fundsReceived:  conv(usd.fundsReceived),
+    balance:        conv(usd.balance),
+    fx,
+  };
+}
+
+const view = (l: DALedger): DALedgerView => ({ ...l, summary: summarise(l) });
+
+/**
+ * Original and USD amounts of an entry. A currency other than USD needs
+ * `amount` and is converted at the table rate for `fxDate`.
+ */
+function toMoney(input: DAMoneyInput, fxDate: string | undefined, label = ''): DAMoney {
+  const currency = input.currency != null ? currencyCode(input.currency) : BASE_CURRENCY;
+  const amount   = currency === BASE_CURRENCY ? input.amount ?? input.amountUsd : input.amount;
+  if (typeof amount !== 'number' || !isFinite(amount)) {
+    throw new Error(`${label}${currency === BASE_CURRENCY ? 'amountUsd' : 'amount'} must be a number`);
+  }
+  if (currency === BASE_CURRENCY) return { currency, amount: round2(amount), amountUsd: round2(amount), fx: null };
+  const fx = fxRate(currency, BASE_CURRENCY, fxDate);
+  return { currency, amount: round2(amount), amountUsd: round2(amount * fx.rate), fx };
+}
+
+function toItems(items: DALineItemInput[], fxDate?: string): DALineItem[] {
+  if (!Array.isArray(items) || items.length === 0) throw new Error('items must be a non-empty array');
+  if (fxDate && isNaN(Date.parse(fxDate))) throw new Error('fxDate must be an ISO date');
+  return items.map((it, i) => {
+    if (!DA_CATEGORIES.includes(it?.category)) {
+      throw new Error(`items[${i}]: category must be one of ${DA_CATEGORIES.join(', ')}`);
+    }
+    return {
+      id:          randomUUID(),
+      category:    it.category,
+      description: it.description ?? null,
+      ...toMoney(it, fxDate, `items[${i}]: `),
+      invoiceRef:  it.invoiceRef ?? null,
+      supplier:    it.supplier ?? null,
+    };
+  });
+}
+
+function checkAmount(m: DAMoney) {
+  if (!(m.amount > 0)) throw new Error(`${m.currency === BASE_CURRENCY ? 'amountUsd' : 'amount'} must be a positive number`);
+}
+
+/** Upper-cased reporting currency; it must have a rate on file already. */
+function checkReportingCurrency(currency: string): string {
+  const c = currencyCode(currency);
+  fxRate(BASE_CURRENCY, c);
+  return c;
+}
+
+/** Ledger for a port call, opened on first use. Throws for an unknown port call. */
+function ledgerFor(data: Record<string, DALedger>, portCallId: string): DALedger {
+  if (data[portCallId]) return data[portCallId];
+  const call = getPortCall(portCallId);
+  if (!call) throw new Error(`Port call "${portCallId}" not found`);
+  const now = new Date().toISOString();
+  data[portCallId] = {
+    portCallId,
+    voyageId:      call.voyageId,
+    vesselName:    call.vesselName,
+    portCode:      call.portCode,
+    principal:     null,
+    proformas:     [],
+    finals:        [],
+    fundsRequests: [],
+    fundsReceived: [],
+    createdAt:     now,
+    updatedAt:     now,
+  };
+  return data[portCallId];
+}
+
+function byCategory(items: DALineItem[]): Record<DACategory, number> {
+  const out = Object.fromEntries(DA_CATEGORIES.map(c => [c, 0])) as Record<DACategory, number>;
+  for (const it of items) out[it.category] = round2(out[it.category] + it.amountUsd);
+  return out;
+}
+
+function varianceLine(proformaUsd: number, finalUsd: number): Omit<DAVarianceLine, 'category'> {
+  const varianceUsd = round2(finalUsd - proformaUsd);
+  const variancePct = proformaUsd !== 0 ? round2(varianceUsd / Math.abs(proformaUsd) * 100) : null;
+  return {
+    proformaUsd, finalUsd, varianceUsd, variancePct,
+    flagged: variancePct == null ? varianceUsd !== 0 : Math.abs(variancePct) > VARIANCE_FLAG_PCT,
+  };
+}
+
+function addVersion(
+  portCallId: string,
+  kind:       'proformas' | 'finals',
+  items:      DALineItem[],
+  meta:       {
+    source:             DAVersion['source'];
+    notes?:             string | null;
+    createdBy?:         string;
+    principal?:         string | null;
+    reportingCurrency?: string;
+  },
+): DALedgerView {
+  const data   = loadAll();
+  const ledger = ledgerFor(data, portCallId);
+  const now    = new Date().toISOString();
+  if (meta.reportingCurrency) ledger.reportingCurrency = checkReportingCurrency(meta.reportingCurrency);
+  const list   = ledger[kind];
+  const version: DAVersion = {
+    version:   list.length + 1,
+    items,
+    totalUsd:  sumUsd(items),
+    source:    meta.source,
+    notes:     meta.notes ?? null,
+    createdBy: meta.createdBy ?? 'system',
+    createdAt: now,
+  };
+  list.push(version);
+  if (meta.principal !== undefined) ledger.principal = meta.principal;
+  ledger.updatedAt = now;
+
+  saveAll(data);
+
+  // The port call's estimate follows the latest proforma; this cannot fail on
+  // a missing reporting rate, so the ledger is never left half-written.
+  if (kind === 'proformas') {
+    const c = byCategory(items);
+    setDAEstimate(portCallId, {
+      portDuesUsd:  c.PORT_DUES,
+      pilotageUsd:  c.PILOTAGE,
+      towageUsd:    c.TOWAGE,
+      agencyFeeUsd: c.AGENCY_FEE,
+      miscUsd:      round2(c.WHARFAGE + c.MISC),
+      totalUsd:     version.totalUsd,
+      currency:     BASE_CURRENCY,
+    }, ledger.reportingCurrency);
+  }
+  return view(ledger);
+}
+
+// ── Core API ──────────────────────────────────────────────────────────────────
+
+export function getDALedger(portCallId: string): DALedgerView | null {
+  const l = loadAll()[portCallId];
+  return l ? view(l) : null;
+}
+
+/** Ledgers, most recently updated first. */
+export function listDALedgers(query: { portCode?: string; status?: DAStatus } = {}): DALedgerView[] {
+  const port = query.portCode?.toUpperCase();
+  return Object.values(loadAll())
+    .filter(l => !port || l.portCode === port)
+    .map(view)
+    .filter(l => !query.status || l.summary.status === query.status)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Add a proforma version with the given line items; foreign-currency items
+ * are converted at the rate for `fxDate` (default today).
+ */
+export function addProformaDA(
+  portCallId: string,
+  input: {
+    items:              DALineItemInput[];
+    fxDate?:            string;
+    notes?:             string | null;
+    createdBy?:         string;
+    principal?:         string | null;
+    reportingCurrency?: string;
+  },
+): DALedgerView {
+  return addVersion(portCallId, 'proformas', toItems(input?.items, input?.fxDate), { source: 'manual', ...input });
+}
+
+/**
+ * Draft a proforma version from the DA forecaster for this port, at the
+ * call's ETA.
+ */
+export function proformaDAFromForecast(
+  portCallId: string,
+  input: {
+    vessel:             VesselSpec;
+    notes?:             string | null;
+    createdBy?:         string;
+    principal?:         string | null;
+    reportingCurrency?: string;
+  },
+): DALedgerView {
+  const call = getPortCall(portCallId);
+  if (!call) throw new Error(`Port call "${portCallId}" not found`);
+  if (!(input?.vessel?.grt > 0) || !(input.vessel.loaMetres > 0)) throw new Error('vessel.grt and vessel.loaMetres are required');
+
+  const f = forecastDA(call.portCode, input.vessel, call.eta ?? undefined);
+  const items = toItems(([
+    { category: 'PORT_DUES',  amountUsd: f.costs.portDues },
+    { category: 'PILOTAGE',   amountUsd: f.costs.pilotage },
+    { category: 'TOWAGE',     amountUsd: f.costs.towage },
+    { category: 'WHARFAGE',   amountUsd: f.costs.wharfage },
+    { category: 'AGENCY_FEE', amountUsd: f.costs.agencyFees },
+    { category: 'MISC',       amountUsd: f.costs.misc },
+  ] as DALineItemInput[]).map(it => ({
+    ...it,
+    description: f.tariff.source === 'port' ? `Port tariff v${f.tariff.version}` : `Region ${f.tariff.region} estimate`,
+  })));
+  return addVersion(portCallId, 'proformas', items, { ...input, source: 'forecast' });
+}
+
+/**
+ * Add a final DA version from the actual invoices; foreign-currency items
+ * are converted at the rate for `fxDate` (default today), usually the
+ * invoice date.
+ */
+export function addFinalDA(
+  portCallId: string,
+  input: { items: DALineItemInput[]; fxDate?: string; notes?: string | null; createdBy?: string },
+): DALedgerView {
+  const l = loadAll()[portCallId];
+  if (!l?.proformas.length) throw new Error(`Port call "${portCallId}" has no proforma DA yet`);
+  return addVersion(portCallId, 'finals', toItems(input?.items, input?.fxDate), { source: 'manual', ...input });
+}
+
+/**
+ * Request funds from the principal; defaults to the latest proforma total
+ * less what has already been requested, in USD.
+ */
+export function requestDAFunds(
+  portCallId: string,
+  input: DAMoneyInput & { reference?: string | null; requestedBy?: string } = {},
+): DALedgerView {
+  const data   = loadAll();
+  const ledger = data[portCallId];
+  const pro    = ledger ? latest(ledger.proformas) : null;
+  if (!ledger || !pro) throw new Error(`Port call "${portCallId}" has no proforma DA yet`);
+
+  const money = input.amountUsd == null && input.amount == null
+    ? toMoney({ amountUsd: round2(pro.totalUsd - sumUsd(ledger.fundsRequests)) }, undefined)
+    : toMoney(input, undefined);
+  checkAmount(money);
+  const now = new Date().toISOString();
+  ledger.fundsRequests.push({
+    id:          randomUUID(),
+    ...money,
+    reference:   input.reference ?? null,
+    requestedBy: input.requestedBy ?? 'system',
+    requestedAt: now,
+  });
+  ledger.updatedAt = now;
+  saveAll(data);
+  return view(ledger);
+}
+
+/**
+ * Record funds received from the principal; a remittance in another
+ * currency is converted at the rate for the day it was received.
+ */
+export function recordDAFunds(
+  portCallId: string,
+  input: DAMoneyInput & { receivedAt?: string; reference?: string | null; notes?: string | null; recordedBy?: string },
+): DALedgerView {
+  if (input?.receivedAt && isNaN(Date.parse(input.receivedAt))) throw new Error('receivedAt must be an ISO date');
+  const money = toMoney(input ?? {}, input?.receivedAt);
+  checkAmount(money);
+
+  const data   = loadAll();
+  const ledger = ledgerFor(data, portCallId);
+  const now    = new Date().toISOString();
+  ledger.fundsReceived.push({
+    id:         randomUUID(),
+    ...money,
+    reference:  input.reference ?? null,
+    notes:      input.notes ?? null,
+    receivedAt: input.receivedAt ? new Date(input.receivedAt).toISOString() : now,
+    recordedBy: input.recordedBy ?? 'system',
+  });
+  ledger.updatedAt = now;
+  saveAll(data);
+  return view(ledger);
+}
+
+/**
+ * Latest proforma against latest final, per category. Null when the call
+ * has no final DA yet.
+ */
+export function getDAVariance(portCallId: string): DAVarianceReport | null {
+  const l     = loadAll()[portCallId];
+  const pro   = l ? latest(l.proformas) : null;
+  const final = l ? latest(l.finals) : null;
+  if (!l || !pro || !final) return null;
+
+  const p = byCategory(pro.items), f = byCategory(final.items);
+  return {
+    portCallId,
+    portCode:        l.portCode,
+    vesselName:      l.vesselName,
+    proformaVersion: pro.version,
+    finalVersion:    final.version,
+    lines:           DA_CATEGORIES
+      .filter(c => p[c] !== 0 || f[c] !== 0)
+      .map(c => ({ category: c, ...varianceLine(p[c], f[c]) })),
+    total:           varianceLine(pro.totalUsd, final.totalUsd),
+    generatedAt:     new Date().toISOString(),
+  };
+}
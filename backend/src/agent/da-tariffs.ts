@@ -0,0 +1,225 @@
+/**
+ * Mari8X Port DA Tariffs
+ *
+ * Port-level tariffs for the DA forecaster (da-forecast.ts), kept by the
+ * agents who know the real figures. Each port has numbered versions, each
+ * valid over an effective date range (inclusive; effectiveTo null = open):
+ *
+ *   v1  2025-01-01 → 2025-12-31
+ *   v2  2026-01-01 → open
+ *
+ * A version only needs the rates that differ from the port's region band;
+ * the rest fall back to the region. Adding a version that starts after an
+ * open-ended one closes the earlier version the day before; any other
+ * overlap is rejected.
+ *
+ * Storage: /root/.ankr/state/mari8x-da-tariffs/tariffs.json
+ *
+ * © 2026 ANKR Labs — Mari8X Community Edition
+ */
+
+import * as fs   from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { clockNow } from '../lib/clock.js';
+import type { TariffBand } from './da-forecast.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface PortTariff {
+  id:            string;
+  unlocode:      string;
+  version:       number;            // 1, 2, … per port
+  effectiveFrom: string;            // YYYY-MM-DD
+  effectiveTo:   string | null;     // YYYY-MM-DD inclusive; null = open
+  rates:         Partial<TariffBand>;
+  notes:         string | null;
+  createdBy:     string;
+  createdAt:     string;
+  updatedBy:     string;
+  updatedAt:     string;
+}
+
+export interface PortTariffInput {
+  effectiveFrom: string;
+  effectiveTo?:  string | null;
+  rates:         Partial<TariffBand>;
+  notes?:        string | null;
+  createdBy?:    string;
+}
+
+export type PortTariffUpdate = Partial<Omit<PortTariffInput, 'createdBy'>> & { updatedBy?: string };
+
+// ── Config ────────────────────────────────────────────────────────────────────
+
+export const TARIFF_RATE_KEYS: Array<keyof TariffBand> = [
+  'portDuesPerGrt', 'pilotageFixed', 'pilotagePerMetre', 'tugHourlyRate', 'tugsRequired',
+  'wharfagePerTeu', 'wharfagePerTonne', 'agencyFee', 'miscFlat',
+];
+
+const TARIFF_DIR  = '/root/.ankr/state/mari8x-da-tariffs';
+const TARIFF_FILE = path.join(TARIFF_DIR, 'tariffs.json');
+
+const DAY_MS = 86_400_000;
+
+// ── Persistence ───────────────────────────────────────────────────────────────
+
+function ensureDir() {
+  if (!fs.existsSync(TARIFF_DIR)) fs.mkdirSync(TARIFF_DIR, { recursive: true });
+}
+
+function loadAll(): PortTariff[] {
+  ensureDir();
+  if (!fs.existsSync(TARIFF_FILE)) return [];
+  try { return JSON.parse(fs.readFileSync(TARIFF_FILE, 'utf-8')); }
+  catch { return []; }
+}
+
+function saveAll(data: PortTariff[]) {
+  ensureDir();
+  fs.writeFileSync(TARIFF_FILE, JSON.stringify(data, null, 2));
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const isDate = (s: unknown): s is string =>
+  typeof s === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(s) && !isNaN(Date.parse(s));
+
+/** YYYY-MM-DD (UTC) of a date, ISO string or epoch ms. */
+export function tariffDate(d: Date | string | number): string {
+  const t = d instanceof Date ? d.getTime() : typeof d === 'number' ? d : Date.parse(d);
+  if (isNaN(t)) throw new Error(`Invalid date: ${d}`);
+  return new Date(t).toISOString().slice(0, 10);
+}
+
+const dayBefore = (day: string) => new Date(Date.parse(day) - DAY_MS).toISOString().slice(0, 10);
+
+const overlaps = (a: PortTariff, b: PortTariff) =>
+  a.effectiveFrom <= (b.effectiveTo ?? '9999-12-31') && b.effectiveFrom <= (a.effectiveTo ?? '9999-12-31');
+
+const range = (t: PortTariff) => `v${t.version} (${t.effectiveFrom} – ${t.effectiveTo ?? 'open'})`;
+
+function checkRates(rates: Partial<TariffBand>) {
+  if (!rates || typeof rates !== 'object') throw new Error('rates is required');
+  const keys = Object.keys(rates);
+  if (keys.length === 0) throw new Error('rates needs at least one figure');
+  for (const k of keys) {
+    if (!TARIFF_RATE_KEYS.includes(k as keyof TariffBand)) {
+      throw new Error(`Unknown rate ${k} (known: ${TARIFF_RATE_KEYS.join(', ')})`);
+    }
+    const v = (rates as Record<string, unknown>)[k];
+    if (typeof v !== 'number' || !(v >= 0)) throw new Error(`${k} must be a non-negative number`);
+    if (k === 'tugsRequired' && !Number.isInteger(v)) throw new Error('tugsRequired must be a whole number');
+  }
+}
+
+function checkRange(t: PortTariff) {
+  if (!isDate(t.effectiveFrom)) throw new Error('effectiveFrom must be a YYYY-MM-DD date');
+  if (t.effectiveTo != null && !isDate(t.effectiveTo)) throw new Error('effectiveTo must be a YYYY-MM-DD date or null');
+  if (t.effectiveTo != null && t.effectiveTo < t.effectiveFrom) throw new Error('effectiveTo is before effectiveFrom');
+}
+
+// ── Core API ──────────────────────────────────────────────────────────────────
+
+/** Tariff versions, by port then version; one port's only when given. */
+export function listPortTariffs(unlocode?: string): PortTariff[] {
+  const port = unlocode?.toUpperCase();
+  return loadAll()
+    .filter(t => !port || t.unlocode === port)
+    .sort((a, b) => a.unlocode.localeCompare(b.unlocode) || a.version - b.version);
+}
+
+export function getPortTariffVersion(id: string): PortTariff | null {
+  return loadAll().find(t => t.id === id) ?? null;
+}
+
+/**
+ * The port's tariff version in force on a date (default: today on the
+ * platform clock), or null when the port has none.
+ */
+export function getPortTariff(unlocode: string, asOf?: Date | string | number): PortTariff | null {
+  const day  = tariffDate(asOf ?? clockNow());
+  const port = unlocode.toUpperCase();
+  return loadAll()
+    .filter(t => t.unlocode === port && t.effectiveFrom <= day && (t.effectiveTo == null || day <= t.effectiveTo))
+    .sort((a, b) => b.version - a.version)[0] ?? null;
+}
+
+/**
+ * Add a new tariff version for a port.
+ */
+export function addPortTariff(unlocode: string, input: PortTariffInput): PortTariff {
+  const port = unlocode?.trim().toUpperCase();
+  if (!/^[A-Z]{2}[A-Z0-9]{3}$/.test(port ?? '')) throw new Error(`Invalid UN/LOCODE: ${unlocode}`);
+  checkRates(input?.rates);
+
+  const all   = loadAll();
+  const mine  = all.filter(t => t.unlocode === port);
+  const now   = new Date().toISOString();
+  const by    = input.createdBy ?? 'system';
+  const entry: PortTariff = {
+    id:            randomUUID(),
+    unlocode:      port,
+    version:       mine.reduce((m, t) => Math.max(m, t.version), 0) + 1,
+    effectiveFrom: input.effectiveFrom,
+    effectiveTo:   input.effectiveTo ?? null,
+    rates:         { ...input.rates },
+    notes:         input.notes ?? null,
+    createdBy:     by,
+    createdAt:     now,
+    updatedBy:     by,
+    updatedAt:     now,
+  };
+  checkRange(entry);
+
+  // An open-ended version that started earlier ends where this one begins
+  for (const t of mine) {
+    if (t.effectiveTo == null && t.effectiveFrom < entry.effectiveFrom) {
+      t.effectiveTo = dayBefore(entry.effectiveFrom);
+      t.updatedBy   = by;
+      t.updatedAt   = now;
+    }
+  }
+  const clash = mine.find(t => overlaps(t, entry));
+  if (clash) throw new Error(`${port}: ${entry.effectiveFrom} – ${entry.effectiveTo ?? 'open'} overlaps ${range(clash)}`);
+
+  all.push(entry);
+  saveAll(all);
+  return entry;
+}
+
+/**
+ * Edit a version's dates, rates or notes. `rates` replaces the version's
+ * rates as a whole.
+ */
+export function updatePortTariff(id: string, changes: PortTariffUpdate): PortTariff | null {
+  const all = loadAll();
+  const t   = all.find(x => x.id === id);
+  if (!t) return null;
+
+  if (changes.rates !== undefined) checkRates(changes.rates);
+  const next: PortTariff = {
+    ...t,
+    effectiveFrom: changes.effectiveFrom ?? t.effectiveFrom,
+    effectiveTo:   changes.effectiveTo !== undefined ? changes.effectiveTo : t.effectiveTo,
+    rates:         changes.rates ? { ...changes.rates } : t.rates,
+    notes:         changes.notes !== undefined ? changes.notes : t.notes,
+    updatedBy:     changes.updatedBy ?? 'system',
+    updatedAt:     new Date().toISOString(),
+  };
+  checkRange(next);
+  const clash = all.find(x => x.unlocode === t.unlocode && x.id !== id && overlaps(x, next));
+  if (clash) throw new Error(`${t.unlocode}: ${range(next)} overlaps ${range(clash)}`);
+
+  Object.assign(t, next);
+  saveAll(all);
+  return t;
+}
+
+export function deletePortTariff(id: string): boolean {
+  const all  = loadAll();
+  const next = all.filter(t => t.id !== id);
+  if (next.length === all.length) return false;
+  saveAll(next);
+  return true;
+}
@@ -12,8 +12,15 @@
  * Free time rules (carrier-configurable per trade lane):
  *   freeDaysDemurrage  — days at port before demurrage starts
  *   freeDaysDetention  — days with shipper before detention starts
- *   dailyRateDemurrage — USD/day/container after free days
- *   dailyRateDetention — USD/day/container after free days
+ *   dailyRateDemurrage — per day/container after free days, in rules.currency
+ *   dailyRateDetention — per day/container after free days, in rules.currency
+ *
+ * Liability is worked out in the rules' currency (totalLiability) and
+ * converted to USD at today's FX table rate (fx-rates.ts), with the rate kept
+ * on the record. A record may also name a reporting currency, e.g. the
+ * principal's, for its total; the dashboard can be totalled in any currency.
+ * A missing rate never blocks a record: the USD figures are then left in the
+ * rules' currency, unconverted, and fxNote says so.
  *
  * Storage:
  *   /root/.ankr/state/mari8x-dd/<blNumber>.json  — per-B/L D&D record
@@ -31,6 +38,7 @@
 
 import * as fs   from 'fs'
 import * as path from 'path'
+import { BASE_CURRENCY, currencyCode, tryConvert, type FxAmount, type FxConversion } from './fx-rates.js'
 
 // ── Config ────────────────────────────────────────────────────────────────────
 
@@ -46,8 +54,8 @@ export type DDStatus = 'FREE' | 'DEMURRAGE' | 'DETENTION' | 'BOTH' | 'CLEARED'
 export interface DDRules {
   freeDaysDemurrage:  number     // default 5
   freeDaysDetention:  number     // default 7
-  dailyRateDemurrage: number     // USD per container per day
-  dailyRateDetention: number     // USD per container per day
+  dailyRateDemurrage: number     // per container per day, in currency
+  dailyRateDetention: number     // per container per day, in currency
   currency:           string     // default 'USD'
 }
 
@@ -73,9 +81,14 @@ export interface DDRecord {
   status:            DDStatus
   demurrageDays:     number          // days accrued across all containers
   detentionDays:     number
+  totalLiability:    number          // in rules.currency
+  fx:                FxConversion | null   // rules.currency → USD; null for USD rules
   demurrageUsd:      number          // total liability
   detentionUsd:      number
   totalLiabilityUsd: number
+  reportingCurrency: string | null
+  reporting:         FxAmount | null // total in reportingCurrency
+  fxNote:            string | null   // why fx / reporting are missing
   alertThresholdUsd: number | null   // fire alert when total exceeds this
   alertFired:        boolean
   createdAt:         string
@@ -127,11 +140,17 @@ function daysBetween(from: string, to?: string): number {
   return Math.max(0, Math.floor((toMs - fromMs) / 86_400_000))
 }
 
+type DDLiability = Pick<DDRecord,
+  | 'demurrageDays' | 'detentionDays' | 'totalLiability' | 'fx' | 'demurrageUsd' | 'detentionUsd'
+  | 'totalLiabilityUsd' | 'reporting' | 'fxNote' | 'status'>
+
 /**
  * Compute D&D liability for the record based on current date.
- * Returns updated demurrageDays, detentionDays, USD totals, and status.
+ * Returns updated demurrageDays, detentionDays, totals in the rules' currency,
+ * USD and the reporting currency, and status. Without an FX rate the USD
+ * figures stay in the rules' currency and fxNote explains.
  */
-function computeLiability(record: DDRecord): Pick<DDRecord, 'demurrageDays' | 'detentionDays' | 'demurrageUsd' | 'detentionUsd' | 'totalLiabilityUsd' | 'status'> {
+function computeLiability(record: DDRecord): DDLiability {
   const r  = record.rules
   let totalDemurrageDays = 0
   let totalDetentionDays = 0
@@ -155,9 +174,19 @@ function computeLiability(record: DDRecord): Pick<DDRecord, 'demurrageDays' | 'd
     }
   }
 
-  const demurrageUsd = totalDemurrageDays * r.dailyRateDemurrage
-  const detentionUsd = totalDetentionDays * r.dailyRateDetention
-  const totalLiabilityUsd = demurrageUsd + detentionUsd
+  const demurrage      = totalDemurrageDays * r.dailyRateDemurrage
+  const detention      = totalDetentionDays * r.dailyRateDetention
+  const totalLiability = demurrage + detention
+
+  const currency     = r.currency ?? BASE_CURRENCY
+  const toUsd        = tryConvert(totalLiability, currency, BASE_CURRENCY)
+  const rate         = toUsd.value?.fx?.rate ?? 1
+  const demurrageUsd = Math.round(demurrage * rate * 100) / 100
+  const detentionUsd = Math.round(detention * rate * 100) / 100
+  const reporting    = record.reportingCurrency
+    ? tryConvert(totalLiability, currency, record.reportingCurrency)
+    : null
+  const notes        = [toUsd.note, reporting?.note].filter(Boolean)
 
   const status: DDStatus =
     record.status === 'CLEARED' ? 'CLEARED' :
@@ -165,7 +194,19 @@ function computeLiability(record: DDRecord): Pick<DDRecord, 'demurrageDays' | 'd
     totalDemurrageDays > 0 ? 'DEMURRAGE' :
     totalDetentionDays > 0 ? 'DETENTION' : 'FREE'
 
-  return { demurrageDays: totalDemurrageDays, detentionDays: totalDetentionDays, demurrageUsd, detentionUsd, totalLiabilityUsd, status }
+  return {
+    demurrageDays: totalDemurrageDays, detentionDays: totalDetentionDays,
+    totalLiability, fx: toUsd.value?.fx ?? null, demurrageUsd, detentionUsd,
+    totalLiabilityUsd: toUsd.value?.amount ?? Math.round(totalLiability * 100) / 100,
+    reporting: reporting?.value?.fx ? reporting.value : null,
+    fxNote:    notes.length ? notes.join('; ') : null,
+    status,
+  }
+}
+
+/** True once the USD figures are real USD, i.e. not left unconverted. */
+function hasUsd(record: DDRecord): boolean {
+  return record.fx !== null || (record.rules.currency ?? BASE_CURRENCY) === BASE_CURRENCY
 }
 
 function updateIndex(record: DDRecord): void {
@@ -196,6 +237,7 @@ export function upsertDD(input: {
   shipper?:       string
   containers:     DDContainer[]
   rules?:         Partial<DDRules>
+  reportingCurrency?: string | null
   alertThresholdUsd?: number
 }): DDRecord {
   const now  = new Date().toISOString()
@@ -214,6 +256,9 @@ export function upsertDD(input: {
     if (input.rules)             record.rules             = { ...record.rules, ...input.rules }
     if (input.consignee)         record.consignee         = input.consignee
     if (input.shipper)           record.shipper           = input.shipper
+    if (input.reportingCurrency !== undefined) {
+      record.reportingCurrency = input.reportingCurrency ? currencyCode(input.reportingCurrency) : null
+    }
     if (input.alertThresholdUsd !== undefined) record.alertThresholdUsd = input.alertThresholdUsd
     record.updatedAt = now
   } else {
@@ -230,9 +275,14 @@ export function upsertDD(input: {
       status:            'FREE',
       demurrageDays:     0,
       detentionDays:     0,
+      totalLiability:    0,
+      fx:                null,
       demurrageUsd:      0,
       detentionUsd:      0,
       totalLiabilityUsd: 0,
+      reportingCurrency: input.reportingCurrency ? currencyCode(input.reportingCurrency) : null,
+      reporting:         null,
+      fxNote:            null,
       alertThresholdUsd: input.alertThresholdUsd ?? null,
       alertFired:        false,
       createdAt:         now,
@@ -247,6 +297,7 @@ export function upsertDD(input: {
   // Alert check
   if (
     record.alertThresholdUsd !== null &&
+    hasUsd(record) &&
     record.totalLiabilityUsd >= record.alertThresholdUsd &&
     !record.alertFired
   ) {
@@ -298,6 +349,7 @@ export function refreshAllDD(): DDRecord[] {
     // Alert check
     if (
       record.alertThresholdUsd !== null &&
+      hasUsd(record) &&
       record.totalLiabilityUsd >= record.alertThresholdUsd &&
       !record.alertFired
     ) {
@@ -329,23 +381,35 @@ export function getDDAlerts(): DDRecord[] {
   return listAllDD().filter(r => r.status !== 'FREE' && r.status !== 'CLEARED')
 }
 
-export function getDDDashboard() {
+/**
+ * Totals across all B/Ls in USD; with a currency, the total liability is
+ * also given in it at today's rate (null with fxNote when there is none).
+ * Open B/Ls whose liability could not be converted to USD are left out of
+ * the total, the at-risk count and the top list, and counted in
+ * unconvertedBLs instead.
+ */
+export function getDDDashboard(currency?: string) {
   const all         = listAllDD()
   const open        = all.filter(r => r.status !== 'CLEARED')
-  const totalUsd    = open.reduce((a, r) => a + r.totalLiabilityUsd, 0)
+  const priced      = open.filter(hasUsd)
+  const totalUsd    = priced.reduce((a, r) => a + r.totalLiabilityUsd, 0)
   const demurrage   = open.filter(r => r.status === 'DEMURRAGE' || r.status === 'BOTH')
   const detention   = open.filter(r => r.status === 'DETENTION' || r.status === 'BOTH')
-  const atRisk      = open.filter(r => r.alertThresholdUsd !== null && r.totalLiabilityUsd >= r.alertThresholdUsd * 0.8)
+  const atRisk      = priced.filter(r => r.alertThresholdUsd !== null && r.totalLiabilityUsd >= r.alertThresholdUsd * 0.8)
+  const reporting   = currency ? tryConvert(totalUsd, BASE_CURRENCY, currency) : null
 
   return {
     totalBLs:         all.length,
     openBLs:          open.length,
     clearedBLs:       all.length - open.length,
+    unconvertedBLs:   open.length - priced.length,
     totalLiabilityUsd: Math.round(totalUsd * 100) / 100,
+    reporting:        reporting?.value ?? null,
+    fxNote:           reporting?.note ?? null,
     demurrageCount:   demurrage.length,
     detentionCount:   detention.length,
     atRiskCount:      atRisk.length,
-    topLiabilities:   open
+    topLiabilities:   priced
       .sort((a, b) => b.totalLiabilityUsd - a.totalLiabilityUsd)
       .slice(0, 10)
       .map(r => ({
@@ -44,6 +44,8 @@ export interface EtaRecord {
   deltaMins:   number    // currentETA - originalETA in minutes
   source:      string    // 'manual' | 'ais' | 'port' | 'agent'
   remarks?:    string
+  ata?:        string    // actual arrival, set by markArrived
+  arrivedBy?:  string    // who marked the arrival ('ais' when automatic)
   history:     EtaHistoryEntry[]
   createdAt:   string
   updatedAt:   string
@@ -235,13 +237,35 @@ export function getETADashboard() {
     ports: Object.values(byPort).sort((a, b) => b.vessels.length - a.vessels.length),
   }
 }
+/** Remove an ETA record, e.g. a planned call dropped from its rotation. */
+export function deleteETA(voyageId: string): boolean {
+  const record = getETA(voyageId)
+  if (!record) return false
+  fs.rmSync(etaFile(voyageId), { force: true })
+  const idx = loadIndex()
+  delete idx[voyageId]
+  saveIndex(idx)
+  _onEtaUpdate?.('ETA_REMOVED', record)
+  return true
+}
 
-/** Mark a voyage as arrived */
-export function markArrived(voyageId: string, remarks?: string): EtaRecord | null {
+/**
+ * Mark a voyage as arrived. `at` defaults to now; calling again with a new
+ * `at` corrects the arrival time (e.g. an agent overriding an AIS arrival).
+ */
+export function markArrived(
+  voyageId: string,
+  remarks?: string,
+  opts: { at?: string; updatedBy?: string } = {},
+): EtaRecord | null {
   const record = getETA(voyageId)
   if (!record) return null
+  const at = opts.at ? new Date(opts.at) : new Date()
+  if (isNaN(at.getTime())) throw new Error(`Invalid arrival time "${opts.at}"`)
   record.status    = 'ARRIVED'
   record.remarks   = remarks ?? record.remarks
+  record.ata       = at.toISOString()
+  record.arrivedBy = opts.updatedBy ?? 'manual'
   record.updatedAt = new Date().toISOString()
   fs.writeFileSync(etaFile(voyageId), JSON.stringify(record, null, 2))
   const idx = loadIndex()
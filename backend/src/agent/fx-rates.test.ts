@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('fs', () => import('../test/mem-fs.js'));
+
+import { files } from '../test/mem-fs.js';
+import { setVirtualClock, resetClock } from '../lib/clock.js';
+import { setFxRate, deleteFxRate, listFxRates, fxRate, convertAmount, tryConvert, currencyCode } from './fx-rates.js';
+
+beforeEach(() => {
+  files.clear();
+  setFxRate({ currency: 'EUR', date: '2026-09-01', usdPerUnit: 1.08 });
+  setFxRate({ currency: 'EUR', date: '2026-10-01', usdPerUnit: 1.085 });
+  setFxRate({ currency: 'SGD', date: '2026-10-01', usdPerUnit: 0.742 });
+});
+afterEach(() => resetClock());
+
+describe('fxRate', () => {
+  it('uses the latest rate dated on or before the day', () => {
+    expect(fxRate('EUR', 'USD', '2026-09-15').rate).toBe(1.08);
+    expect(fxRate('EUR', 'USD', '2026-10-10')).toMatchObject({ rate: 1.085, fromRateDate: '2026-10-01', toRateDate: null });
+  });
+
+  it('crosses two currencies through USD, unrounded', () => {
+    const fx = fxRate('eur', 'sgd', '2026-10-10');
+    expect(fx.from).toBe('EUR');
+    expect(fx.to).toBe('SGD');
+    expect(fx.rate).toBe(1.085 / 0.742);
+  });
+
+  it('keeps the precision of small-unit currencies', () => {
+    setFxRate({ currency: 'VND', date: '2026-10-01', usdPerUnit: 0.0000393 });
+    expect(fxRate('USD', 'VND', '2026-10-10').rate).toBe(1 / 0.0000393);
+    expect(convertAmount(1000, 'USD', 'VND', '2026-10-10').amount).toBe(25445292.62);
+  });
+
+  it('throws before a currency has any rate', () => {
+    expect(() => fxRate('EUR', 'USD', '2026-08-31')).toThrow('No EUR rate on or before 2026-08-31');
+    expect(() => fxRate('INR', 'USD', '2026-10-10')).toThrow('No INR rate');
+  });
+});
+
+describe('convertAmount', () => {
+  it('rounds the converted amount to cents and keeps the conversion', () => {
+    const out = convertAmount(1000, 'SGD', 'USD', '2026-10-10');
+    expect(out.amount).toBe(742);
+    expect(out.fx).toMatchObject({ from: 'SGD', to: 'USD', rate: 0.742, asOf: '2026-10-10' });
+  });
+
+  it('needs no conversion within one currency', () => {
+    expect(convertAmount(12.345, 'EUR', 'EUR')).toEqual({ currency: 'EUR', amount: 12.35, fx: null });
+  });
+});
+
+describe('tryConvert', () => {
+  it('converts at the rate in force on the platform clock', () => {
+    setVirtualClock(new Date('2026-09-15T12:00:00Z'), 0);
+    expect(tryConvert(1000, 'EUR', 'USD')).toEqual({
+      value: expect.objectContaining({ currency: 'USD', amount: 1080 }), note: null,
+    });
+  });
+
+  it('gives the reason instead of throwing when there is no rate', () => {
+    expect(tryConvert(1000, 'USD', 'INR')).toEqual({ value: null, note: expect.stringContaining('No INR rate') });
+  });
+});
+
+describe('rate table', () => {
+  it('replaces a rate for the same currency and date', () => {
+    setFxRate({ currency: 'SGD', date: '2026-10-01', usdPerUnit: 0.75 });
+    expect(listFxRates('SGD').map(r => r.usdPerUnit)).toEqual([0.75]);
+  });
+
+  it('lists by currency, newest first', () => {
+    expect(listFxRates().map(r => `${r.currency} ${r.date}`)).toEqual([
+      'EUR 2026-10-01', 'EUR 2026-09-01', 'SGD 2026-10-01',
+    ]);
+  });
+
+  it('deletes a rate', () => {
+    expect(deleteFxRate('eur', '2026-10-01')).toBe(true);
+    expect(deleteFxRate('EUR', '2026-10-01')).toBe(false);
+    expect(fxRate('EUR', 'USD', '2026-10-10').rate).toBe(1.08);
+  });
+
+  it('validates input', () => {
+    expect(() => setFxRate({ currency: 'USD', date: '2026-10-01', usdPerUnit: 1 })).toThrow('base currency');
+    expect(() => setFxRate({ currency: 'EUR', date: '01/10/2026', usdPerUnit: 1 })).toThrow('YYYY-MM-DD');
+    expect(() => setFxRate({ currency: 'EUR', date: '2026-10-01', usdPerUnit: 0 })).toThrow('positive');
+    expect(() => currencyCode('EURO')).toThrow('Invalid currency code');
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Mari8X FX Rates
+ *
+ * A locally maintained table of dated exchange rates, so DA and D&D figures
+ * in port currencies (SGD, EUR, INR, AED, …) can be shown in a principal's
+ * reporting currency. Every rate is held against USD:
+ *
+ *   EUR  2026-10-01  usdPerUnit 1.0850    → 1 EUR = 1.085 USD
+ *   SGD  2026-10-01  usdPerUnit 0.7420
+ *
+ * A conversion on a date uses, for each side, the latest rate dated on or
+ * before it and goes through USD (EUR → SGD = 1.085 / 0.742). There is no
+ * fallback to later rates: a date before a currency's first rate fails.
+ * Each conversion carries the rate and the rate dates it used (FxConversion)
+ * so the figure can be traced later.
+ *
+ * Storage: /root/.ankr/state/mari8x-fx/rates.json
+ *
+ * © 2026 ANKR Labs — Mari8X Community Edition
+ */
+
+import * as fs   from 'fs';
+import * as path from 'path';
+import { clockNow } from '../lib/clock.js';
+import { tariffDate } from './da-tariffs.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface FxRate {
+  currency:   string;            // ISO 4217, never USD
+  date:       string;            // YYYY-MM-DD the rate applies from
+  usdPerUnit: number;
+  source:     string | null;     // e.g. "MAS daily", "bank advice"
+  recordedBy: string;
+  recordedAt: string;
+}
+
+export interface FxRateInput {
+  currency:    string;
+  date:        string;
+  usdPerUnit:  number;
+  source?:     string | null;
+  recordedBy?: string;
+}
+
+export interface FxConversion {
+  from:         string;
+  to:           string;
+  rate:         number;          // units of `to` per unit of `from`, unrounded
+  asOf:         string;          // date the conversion was made for
+  fromRateDate: string | null;   // table rate used; null for USD
+  toRateDate:   string | null;
+}
+
+/** An amount in some currency, with the conversion that produced it. */
+export interface FxAmount {
+  currency: string;
+  amount:   number;
+  fx:       FxConversion | null; // null when no conversion was needed
+}
+
+// ── Config ────────────────────────────────────────────────────────────────────
+
+export const BASE_CURRENCY = 'USD';
+
+const FX_DIR  = '/root/.ankr/state/mari8x-fx';
+const FX_FILE = path.join(FX_DIR, 'rates.json');
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// ── Persistence ───────────────────────────────────────────────────────────────
+
+function ensureDir() {
+  if (!fs.existsSync(FX_DIR)) fs.mkdirSync(FX_DIR, { recursive: true });
+}
+
+function loadAll(): FxRate[] {
+  ensureDir();
+  if (!fs.existsSync(FX_FILE)) return [];
+  try { return JSON.parse(fs.readFileSync(FX_FILE, 'utf-8')); }
+  catch { return []; }
+}
+
+function saveAll(data: FxRate[]) {
+  ensureDir();
+  fs.writeFileSync(FX_FILE, JSON.stringify(data, null, 2));
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/** Upper-cased ISO 4217 code; throws on anything else. */
+export function currencyCode(code: unknown): string {
+  const c = typeof code === 'string' ? code.trim().toUpperCase() : '';
+  if (!/^[A-Z]{3}$/.test(c)) throw new Error(`Invalid currency code: ${code}`);
+  return c;
+}
+
+/** Latest table rate for a currency dated on or before `day`. */
+function rateOn(all: FxRate[], currency: string, day: string): FxRate {
+  const r = all
+    .filter(x => x.currency === currency && x.date <= day)
+    .sort((a, b) => b.date.localeCompare(a.date))[0];
+  if (!r) throw new Error(`No ${currency} rate on or before ${day}`);
+  return r;
+}
+
+// ── Core API ──────────────────────────────────────────────────────────────────
+
+/** Rates by currency, newest first; one currency's only when given. */
+export function listFxRates(currency?: string): FxRate[] {
+  const cur = currency ? currencyCode(currency) : null;
+  return loadAll()
+    .filter(r => !cur || r.currency === cur)
+    .sort((a, b) => a.currency.localeCompare(b.currency) || b.date.localeCompare(a.date));
+}
+
+/**
+ * Add a rate, or replace the one already held for that currency and date.
+ */
+export function setFxRate(input: FxRateInput): FxRate {
+  const currency = currencyCode(input?.currency);
+  if (currency === BASE_CURRENCY) throw new Error(`${BASE_CURRENCY} is the base currency and needs no rate`);
+  if (typeof input.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(input.date) || isNaN(Date.parse(input.date))) {
+    throw new Error('date must be a YYYY-MM-DD date');
+  }
+  if (typeof input.usdPerUnit !== 'number' || !(input.usdPerUnit > 0) || !isFinite(input.usdPerUnit)) {
+    throw new Error('usdPerUnit must be a positive number');
+  }
+
+  const rate: FxRate = {
+    currency,
+    date:       input.date,
+    usdPerUnit: input.usdPerUnit,
+    source:     input.source ?? null,
+    recordedBy: input.recordedBy ?? 'system',
+    recordedAt: new Date().toISOString(),
+  };
+  saveAll([...loadAll().filter(r => !(r.currency === currency && r.date === rate.date)), rate]);
+  return rate;
+}
+
+export function deleteFxRate(currency: string, date: string): boolean {
+  const cur  = currencyCode(currency);
+  const all  = loadAll();
+  const next = all.filter(r => !(r.currency === cur && r.date === date));
+  if (next.length === all.length) return false;
+  saveAll(next);
+  return true;
+}
+
+/**
+ * Rate from one currency to another on a date (default: today on the
+ * platform clock). Throws when either side has no rate on file by then.
+ */
+export function fxRate(from: string, to: string, asOf?: Date | string | number): FxConversion {
+  const f   = currencyCode(from);
+  const t   = currencyCode(to);
+  const day = tariffDate(asOf ?? clockNow());
+  if (f === t) return { from: f, to: t, rate: 1, asOf: day, fromRateDate: null, toRateDate: null };
+
+  const all = loadAll();
+  const fr  = f === BASE_CURRENCY ? null : rateOn(all, f, day);
+  const tr  = t === BASE_CURRENCY ? null : rateOn(all, t, day);
+  return {
+    from:         f,
+    to:           t,
+    rate:         (fr?.usdPerUnit ?? 1) / (tr?.usdPerUnit ?? 1),
+    asOf:         day,
+    fromRateDate: fr?.date ?? null,
+    toRateDate:   tr?.date ?? null,
+  };
+}
+
+/**
+ * Convert an amount, rounded to cents. `fx` is null when the currencies are
+ * the same.
+ */
+export function convertAmount(amount: number, from: string, to: string, asOf?: Date | string | number): FxAmount {
+  const fx = fxRate(from, to, asOf);
+  if (fx.from === fx.to) return { currency: fx.to, amount: round2(amount), fx: null };
+  return { currency: fx.to, amount: round2(amount * fx.rate), fx };
+}
+
+/** Conversion, or the reason there is none (no rate on file). */
+export function tryConvert(amount: number, from: string, to: string): { value: FxAmount | null; note: string | null } {
+  try { return { value: convertAmount(amount, from, to), note: null }; }
+  catch (e) { return { value: null, note: (e as Error).message }; }
+}
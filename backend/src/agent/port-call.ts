@@ -2,25 +2,32 @@
  * Port Call Management
  *
  * Tracks the full port call lifecycle for a vessel visit:
- *   NOA_RECEIVED → BERTHING_REQUESTED → BERTHED → CARGO_OPS → DEPARTURE_CLEARED → DEPARTED
+ *   NOA_RECEIVED → BERTHING_REQUESTED → ANCHORED → BERTHED → CARGO_OPS → DEPARTURE_CLEARED → DEPARTED
+ *   (advancing steps over ANCHORED; it is entered by setting the stage or from AIS)
  *
  * Key concepts:
  *   - Each port call is keyed by a unique portCallId (voyageId + portCode)
  *   - Stage transitions are timestamped and immutable (append-only log)
- *   - DA (Disbursement Account) estimates attached per call
+ *   - DA (Disbursement Account) estimates attached per call; the proforma /
+ *     funds / final ledger behind them lives in da-ledger.ts
  *   - Broadcast hook for WebSocket push (reuses /ws/eta channel)
+ *   - ANCHORED / BERTHED / DEPARTED may be recorded automatically from AIS
+ *     (updatedBy 'ais', see ais/port-events.ts); agents override by setting
+ *     the stage or times themselves, or switch it off with autoTracking
  *
  * © 2026 ANKR Labs — Mari8X Community Edition
  */
 
 import * as fs   from 'fs';
 import * as path from 'path';
+import { BASE_CURRENCY, currencyCode, tryConvert, type FxAmount } from './fx-rates.js';
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 
 export type PortCallStage =
   | 'NOA_RECEIVED'
   | 'BERTHING_REQUESTED'
+  | 'ANCHORED'
   | 'BERTHED'
   | 'CARGO_OPS'
   | 'DEPARTURE_CLEARED'
@@ -41,6 +48,8 @@ export interface DAEstimate {
   miscUsd:          number;
   totalUsd:         number;
   currency:         string;
+  reporting?:       FxAmount | null;  // total in the principal's reporting currency
+  fxNote?:          string | null;    // why reporting is missing (no rate on file)
   estimatedAt:      string;
 }
 
@@ -60,8 +69,10 @@ export interface PortCallRecord {
   portCode:         string;         // UNLOCODE
   portName:         string | null;
   eta:              string | null;
+  anchoredAt?:      string | null;  // arrival at anchorage (set on ANCHORED)
   ata:              string | null;  // actual time of arrival (set on BERTHED)
   atd:              string | null;  // actual time of departure (set on DEPARTED)
+  autoTracking?:    boolean;        // AIS may record stages (default true)
   currentStage:     PortCallStage;
   events:           PortCallEvent[];
   da:               DAEstimate | null;
@@ -173,15 +184,34 @@ async function enrichFromCarta(portCallId: string, vesselName: string, portCode:
 
 // ── Stage machine ─────────────────────────────────────────────────────────────
 
-const STAGE_ORDER: PortCallStage[] = [
-  'NOA_RECEIVED', 'BERTHING_REQUESTED', 'BERTHED',
+export const STAGE_ORDER: PortCallStage[] = [
+  'NOA_RECEIVED', 'BERTHING_REQUESTED', 'ANCHORED', 'BERTHED',
   'CARGO_OPS', 'DEPARTURE_CLEARED', 'DEPARTED',
 ];
 
+/** Stages only reached by setting them, never by advancing. */
+const SET_ONLY_STAGES: PortCallStage[] = ['ANCHORED'];
+
 function nextStage(current: PortCallStage): PortCallStage | null {
   const idx = STAGE_ORDER.indexOf(current);
-  if (idx < 0 || idx >= STAGE_ORDER.length - 1) return null;
-  return STAGE_ORDER[idx + 1];
+  if (idx < 0) return null;
+  return STAGE_ORDER.slice(idx + 1).find(s => !SET_ONLY_STAGES.includes(s)) ?? null;
+}
+
+/**
+ * Stamp the key times for a stage. An explicit `at` (agent correction or
+ * AIS fix time) replaces an earlier value; otherwise only unset times fill.
+ */
+function stampTimes(record: PortCallRecord, stage: PortCallStage, at: string, explicit: boolean) {
+  if (stage === 'ANCHORED' && (explicit || !record.anchoredAt)) record.anchoredAt = at;
+  if (stage === 'BERTHED'  && (explicit || !record.ata))        record.ata = at;
+  if (stage === 'DEPARTED' && (explicit || !record.atd))        record.atd = at;
+}
+
+function isoOrThrow(raw: string): string {
+  const d = new Date(raw);
+  if (isNaN(d.getTime())) throw new Error(`Invalid timestamp "${raw}"`);
+  return d.toISOString();
 }
 
 // ── Core API ──────────────────────────────────────────────────────────────────
@@ -206,8 +236,10 @@ export function openPortCall(input: PortCallInput): PortCallRecord {
     portCode:     input.portCode.toUpperCase(),
     portName:     input.portName ?? null,
     eta:          input.eta ?? null,
+    anchoredAt:   null,
     ata:          null,
     atd:          null,
+    autoTracking: true,
     currentStage: 'NOA_RECEIVED',
     events: [{
       stage:     'NOA_RECEIVED',
@@ -236,7 +268,7 @@ export function openPortCall(input: PortCallInput): PortCallRecord {
  */
 export function advancePortCall(
   portCallId: string,
-  options: { notes?: string | null; updatedBy?: string } = {}
+  options: { notes?: string | null; updatedBy?: string; at?: string } = {}
 ): PortCallRecord {
   const data = loadAll();
   const record = data[portCallId];
@@ -249,10 +281,11 @@ export function advancePortCall(
   if (!next) throw new Error('No next stage available');
 
   const now = new Date().toISOString();
+  const at  = options.at ? isoOrThrow(options.at) : now;
 
   record.events.push({
     stage:     next,
-    timestamp: now,
+    timestamp: at,
     notes:     options.notes ?? null,
     updatedBy: options.updatedBy ?? 'system',
   });
@@ -260,9 +293,8 @@ export function advancePortCall(
   record.currentStage = next;
   record.updatedAt    = now;
 
-  // Auto-set ATA when BERTHED, ATD when DEPARTED
-  if (next === 'BERTHED' && !record.ata)     record.ata = now;
-  if (next === 'DEPARTED' && !record.atd)    record.atd = now;
+  // Auto-set anchorage time, ATA when BERTHED, ATD when DEPARTED
+  stampTimes(record, next, at, !!options.at);
 
   data[portCallId] = record;
   saveAll(data);
@@ -276,24 +308,25 @@ export function advancePortCall(
 export function setPortCallStage(
   portCallId: string,
   stage: PortCallStage,
-  options: { notes?: string | null; updatedBy?: string } = {}
+  options: { notes?: string | null; updatedBy?: string; at?: string } = {}
 ): PortCallRecord {
   const data   = loadAll();
   const record = data[portCallId];
   if (!record) throw new Error(`Port call "${portCallId}" not found`);
+  if (!STAGE_ORDER.includes(stage)) throw new Error(`Unknown stage "${stage}"`);
 
   const now = new Date().toISOString();
+  const at  = options.at ? isoOrThrow(options.at) : now;
   record.events.push({
     stage,
-    timestamp: now,
+    timestamp: at,
     notes:     options.notes ?? null,
     updatedBy: options.updatedBy ?? 'system',
   });
   record.currentStage = stage;
   record.updatedAt    = now;
 
-  if (stage === 'BERTHED' && !record.ata)   record.ata = now;
-  if (stage === 'DEPARTED' && !record.atd)  record.atd = now;
+  stampTimes(record, stage, at, !!options.at);
 
   data[portCallId] = record;
   saveAll(data);
@@ -302,15 +335,43 @@ export function setPortCallStage(
 }
 
 /**
- * Attach or update a DA estimate.
+ * Turn automatic (AIS) stage tracking on or off for a port call.
+ */
+export function setPortCallAutoTracking(portCallId: string, enabled: boolean): PortCallRecord {
+  const data   = loadAll();
+  const record = data[portCallId];
+  if (!record) throw new Error(`Port call "${portCallId}" not found`);
+
+  record.autoTracking = enabled;
+  record.updatedAt    = new Date().toISOString();
+
+  data[portCallId] = record;
+  saveAll(data);
+  broadcast('PORT_CALL_AUTO_TRACKING', record);
+  return record;
+}
+
+/**
+ * Attach or update a DA estimate. With a reporting currency, the USD total is
+ * also converted at today's table rate; a missing rate leaves reporting null
+ * and says so in fxNote rather than failing the update.
  */
-export function setDAEstimate(portCallId: string, da: Omit<DAEstimate, 'estimatedAt'>): PortCallRecord {
+export function setDAEstimate(
+  portCallId:         string,
+  da:                 Omit<DAEstimate, 'estimatedAt' | 'reporting' | 'fxNote'>,
+  reportingCurrency?: string | null,
+): PortCallRecord {
   const data   = loadAll();
   const record = data[portCallId];
   if (!record) throw new Error(`Port call "${portCallId}" not found`);
 
+  const reporting = reportingCurrency
+    ? tryConvert(da.totalUsd, BASE_CURRENCY, currencyCode(reportingCurrency))
+    : null;
   const daFull: DAEstimate = {
     ...da,
+    reporting:   reporting?.value?.fx ? reporting.value : null,
+    fxNote:      reporting?.note ?? null,
     estimatedAt: new Date().toISOString(),
   };
 
@@ -360,7 +421,7 @@ export function listAllPortCalls(activeOnly = false): PortCallRecord[] {
 export function getPortCallDashboard(): PortCallDashboard {
   const all = Object.values(loadAll());
   const byStage: Record<PortCallStage, number> = {
-    NOA_RECEIVED: 0, BERTHING_REQUESTED: 0, BERTHED: 0,
+    NOA_RECEIVED: 0, BERTHING_REQUESTED: 0, ANCHORED: 0, BERTHED: 0,
     CARGO_OPS: 0, DEPARTURE_CLEARED: 0, DEPARTED: 0,
   };
   const activePorts = new Set<string>();
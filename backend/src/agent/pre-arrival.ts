@@ -2,17 +2,28 @@
  * Mari8X Pre-Arrival Intelligence
  *
  * Identifies vessels likely to arrive at a given port within a configurable
- * time window (default: 48 h) using their most-recent AIS position + heading.
+ * time window (default: 48 h) using their most-recent AIS position + heading
+ * and, when available, the destination the ship itself broadcasts (AIS type 5).
  *
  * Algorithm:
- *   1. Load the latest position of every vessel within 200 nm of the port.
- *   2. Compute bearing from vessel to port and compare with reported heading.
+ *   1. Load the best current position of every vessel (see ais/fusion.ts).
+ *   2. Destination first — if the vessel's voyage data (≤7 days old) names
+ *        this port  → inbound regardless of heading or distance (basis
+ *                     'destination'); high confidence when also heading
+ *                     roughly toward the port
+ *        another port → not inbound
+ *   3. Otherwise fall back to the bearing heuristic within 200 nm: compute
+ *      bearing from vessel to port and compare with reported heading.
  *      A vessel is "inbound" if |bearingDiff| ≤ 45° and speed ≥ 3 kt.
- *   3. Estimate ETA = distance (nm) / speed (kt) → hours.
- *   4. Return vessels with ETA ≤ windowHours, sorted by ETA asc.
+ *   4. Estimate ETA = distance (nm) / speed (kt) → hours. Destination
+ *      matches beyond 200 nm use the ship's reported ETA when it is in the
+ *      future, since the straight-line estimate is unreliable that far out.
+ *   5. Return vessels with ETA ≤ windowHours, sorted by ETA asc.
  */
 
 import { prisma } from '../lib/prisma.js';
+import { selectBestPerVessel } from '../ais/fusion.js';
+import { clockNow, clockDate, fixWindow } from '../lib/clock.js';
 
 // ── Haversine ────────────────────────────────────────────────────────────────
 
@@ -53,7 +64,13 @@ export interface PreArrivalVessel {
   bearingToPort: number;
   etaHours:     number;
   etaAt:        string;     // ISO timestamp
+  etaSource:    'computed' | 'reported';
   confidence:   'high' | 'medium' | 'low';
+  basis:        'destination' | 'heading';
+  destination:  string | null;     // raw AIS destination
+  destinationUnlocode: string | null;
+  reportedEta:  string | null;
+  draught:      number | null;
   lastSeen:     string;     // ISO timestamp of AIS fix
 }
 
@@ -75,6 +92,7 @@ export interface PreArrivalReport {
 const SEARCH_RADIUS_NM  = 200;  // scan up to 200 nm
 const MIN_SPEED_KT      = 3;    // ignore anchored/drifting vessels
 const MAX_HEADING_DIFF  = 45;   // ±45° tolerance for "inbound" classification
+const VOYAGE_DATA_MAX_AGE_MS = 7 * 86_400_000;   // older destinations are ignored
 
 export async function getPreArrivalVessels(
   unlocode:    string,
@@ -85,65 +103,85 @@ export async function getPreArrivalVessels(
   if (!port || port.lat == null || port.lng == null) return null;
 
   // Last 12 h of AIS data
-  const since = new Date(Date.now() - 12 * 3600_000);
+  const since = new Date(clockNow() - 12 * 3600_000);
   const rawPositions = await prisma.vesselPosition.findMany({
-    where:   { timestamp: { gte: since } },
+    where:   { ...fixWindow(since), quality: 'ok' },
     orderBy: { timestamp: 'desc' },
-    include: { vessel: { select: { imo: true, name: true } } },
+    include: {
+      vessel: {
+        select: {
+          imo: true, name: true, destination: true, destinationUnlocode: true,
+          reportedEta: true, draught: true, voyageDataAt: true,
+        },
+      },
+    },
     take:    8000,
   });
 
-  // Deduplicate — most recent position per vessel
-  const seen      = new Set<string>();
-  const positions = rawPositions.filter(p => {
-    if (seen.has(p.vesselId)) return false;
-    seen.add(p.vesselId);
-    return true;
-  });
+  // Best current position per vessel across AIS / satellite / manual sources
+  const positions = selectBestPerVessel(rawPositions);
 
   const vessels: PreArrivalVessel[] = [];
+  const now = clockNow();
 
   for (const p of positions) {
+    const v    = p.vessel;
     const dist = haversineNm(port.lat!, port.lng!, p.latitude, p.longitude);
-    if (dist > SEARCH_RADIUS_NM) continue;
+
+    const voyageFresh = v.voyageDataAt != null && now - v.voyageDataAt.getTime() <= VOYAGE_DATA_MAX_AGE_MS;
+    const declared    = voyageFresh ? v.destinationUnlocode : null;
+    if (declared && declared !== upper) continue;   // bound elsewhere
+    const destMatch   = declared === upper;
+
+    if (!destMatch && dist > SEARCH_RADIUS_NM) continue;
 
     const speed   = p.speed ?? 0;
     if (speed < MIN_SPEED_KT) continue;
 
     const bearing = bearingDeg(p.latitude, p.longitude, port.lat!, port.lng!);
     const hdg     = p.heading ?? null;
+    const diff    = hdg != null ? headingDiff(hdg, bearing) : null;
 
-    // Only include if heading roughly toward port
-    let inbound = true;
-    if (hdg != null) {
-      inbound = headingDiff(hdg, bearing) <= MAX_HEADING_DIFF;
-    }
-    if (!inbound) continue;
+    // Only include if heading roughly toward port (unless the ship says it is coming here)
+    if (!destMatch && diff != null && diff > MAX_HEADING_DIFF) continue;
 
-    const etaHours = dist / speed;
+    let etaHours  = dist / speed;
+    let etaSource: PreArrivalVessel['etaSource'] = 'computed';
+    if (destMatch && dist > SEARCH_RADIUS_NM && v.reportedEta && v.reportedEta.getTime() > now) {
+      etaHours  = (v.reportedEta.getTime() - now) / 3600_000;
+      etaSource = 'reported';
+    }
     if (etaHours > windowHours) continue;
 
-    const etaAt = new Date(Date.now() + etaHours * 3600_000).toISOString();
+    const etaAt = new Date(now + etaHours * 3600_000).toISOString();
 
-    // Confidence: high if heading within 15°, medium within 30°, low otherwise
-    let confidence: PreArrivalVessel['confidence'] = 'low';
-    if (hdg != null) {
-      const diff = headingDiff(hdg, bearing);
+    // Confidence: declared destination → high when also heading in (±30°), else medium.
+    // Heuristic only: high if heading within 15°, medium within 30°, low otherwise
+    let confidence: PreArrivalVessel['confidence'];
+    if (destMatch) {
+      confidence = diff == null || diff <= 30 ? 'high' : 'medium';
+    } else if (diff != null) {
       confidence = diff <= 15 ? 'high' : diff <= 30 ? 'medium' : 'low';
     } else {
       confidence = 'medium'; // no heading reported
     }
 
     vessels.push({
-      imo:           p.vessel.imo,
-      name:          p.vessel.name,
+      imo:           v.imo,
+      name:          v.name,
       distanceNm:    Math.round(dist * 10) / 10,
       speedKt:       Math.round(speed * 10) / 10,
       heading:       hdg,
       bearingToPort: Math.round(bearing),
       etaHours:      Math.round(etaHours * 10) / 10,
       etaAt,
+      etaSource,
       confidence,
+      basis:         destMatch ? 'destination' : 'heading',
+      destination:   v.destination,
+      destinationUnlocode: v.destinationUnlocode,
+      reportedEta:   v.reportedEta ? v.reportedEta.toISOString() : null,
+      draught:       v.draught,
       lastSeen:      p.timestamp.toISOString(),
     });
   }
@@ -155,6 +193,6 @@ export async function getPreArrivalVessels(
     windowHours,
     inboundVessels: vessels.length,
     vessels,
-    generatedAt:    new Date().toISOString(),
+    generatedAt:    clockDate().toISOString(),
   };
 }
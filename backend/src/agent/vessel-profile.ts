@@ -8,15 +8,21 @@
  *   - Pre-arrival ETA to that port (if heading toward it)
  *   - Congestion level at the destination port
  *   - Open document checklists linked to this IMO
- *   - DA forecast for the destination port
+ *   - DA forecast for the destination port, from the vessel's registry particulars
+ *   - AIS transmission gaps over the last 7 days (see ais/gaps.ts)
+ *   - Last five port visits reconstructed from AIS (see ais/port-visits.ts)
  *
  * All data is assembled in a single async call for the REST layer.
  */
 
 import { prisma } from '../lib/prisma.js';
 import { getPortCongestion } from '../congestion/engine.js';
-import { forecastDA }        from './da-forecast.js';
+import { forecastDAForVessel } from './da-forecast.js';
 import { listOpenChecklists } from './documents.js';
+import { pickBest, fuseTrack } from '../ais/fusion.js';
+import { getVesselGaps, type GapEvent } from '../ais/gaps.js';
+import { getVesselPortVisits, type PortVisit } from '../ais/port-visits.js';
+import { clockNow, clockDate, fixWindow } from '../lib/clock.js';
 
 // ── Haversine (copied locally to avoid circular dep) ─────────────────────────
 
@@ -73,6 +79,8 @@ export interface VesselProfile {
   daForecast: any | null;
   openChecklists: number;
   checklistSummary: { voyageId: string; readyPct: number; overdue: number }[];
+  aisGaps:     GapEvent[];
+  portVisits:  PortVisit[];
   generatedAt: string;
 }
 
@@ -84,16 +92,18 @@ export async function getVesselProfile(imo: string): Promise<VesselProfile | nul
   if (!vessel) return null;
 
   // All positions last 24h
-  const since = new Date(Date.now() - 24 * 3600_000);
-  const positions = await prisma.vesselPosition.findMany({
-    where:   { vesselId: vessel.id, timestamp: { gte: since } },
+  const since = new Date(clockNow() - 24 * 3600_000);
+  const rows = await prisma.vesselPosition.findMany({
+    where:   { vesselId: vessel.id, ...fixWindow(since), quality: 'ok' },
     orderBy: { timestamp: 'desc' },
     take:    500,
   });
 
-  if (positions.length === 0) return null;
+  if (rows.length === 0) return null;
 
-  const latest = positions[0];
+  // Best current position + one merged track across sources (newest first)
+  const latest    = pickBest(rows)!;
+  const positions = fuseTrack(rows).reverse();
 
   // Build thinned 24h track (max 100 points)
   const step  = Math.max(1, Math.floor(positions.length / 100));
@@ -143,7 +153,7 @@ export async function getVesselProfile(imo: string): Promise<VesselProfile | nul
     } catch { /* non-fatal */ }
 
     try {
-      daForecast = forecastDA(nearestPort.unlocode, { grt: 50000, loaMetres: 250, teuCapacity: 4000 });
+      daForecast = forecastDAForVessel(nearestPort.unlocode, imo);
     } catch { /* non-fatal */ }
   }
 
@@ -156,6 +166,18 @@ export async function getVesselProfile(imo: string): Promise<VesselProfile | nul
     overdue:  c.summary.overdue,
   }));
 
+  // AIS gaps (newest first)
+  let aisGaps: GapEvent[] = [];
+  try {
+    aisGaps = (await getVesselGaps(imo, 7)) ?? [];
+  } catch { /* non-fatal */ }
+
+  // Recent port visits (newest first)
+  let portVisits: PortVisit[] = [];
+  try {
+    portVisits = (await getVesselPortVisits(imo, { days: 90, limit: 5 })) ?? [];
+  } catch { /* non-fatal */ }
+
   return {
     imo,
     name:      vessel.name,
@@ -172,6 +194,8 @@ export async function getVesselProfile(imo: string): Promise<VesselProfile | nul
     daForecast,
     openChecklists:   myLists.length,
     checklistSummary: checkSummary,
-    generatedAt:      new Date().toISOString(),
+    aisGaps,
+    portVisits,
+    generatedAt:      clockDate().toISOString(),
   };
 }
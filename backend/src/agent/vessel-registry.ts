@@ -1,8 +1,8 @@
 /**
  * Mari8X Vessel Registry
  *
- * Persistent store of vessel static particulars (IMO, MMSI, DWT, flag,
- * class, type, call sign, owner). Provides a lookup layer so port calls
+ * Persistent store of vessel static particulars (IMO, MMSI, DWT, GT, LOA,
+ * TEU, flag, class, type, call sign, owner). Provides a lookup layer so port calls
  * and ETA records can reference authoritative vessel data without
  * re-entering the same info every time.
  *
@@ -36,6 +36,8 @@ export interface VesselParticulars {
   type:          VesselType;
   dwt:           number | null;   // Deadweight tonnage
   gt:            number | null;   // Gross tonnage
+  loaMetres?:    number | null;   // Length overall
+  teuCapacity?:  number | null;   // Container ships only
   builtYear:     number | null;
   classSociety:  string | null;   // Lloyd's, DNV, BV, etc.
   owner:         string | null;
@@ -53,6 +55,8 @@ export interface RegisterVesselInput {
   type?:        VesselType;
   dwt?:         number | null;
   gt?:          number | null;
+  loaMetres?:   number | null;
+  teuCapacity?: number | null;
   builtYear?:   number | null;
   classSociety?: string | null;
   owner?:       string | null;
@@ -104,6 +108,8 @@ export function registerVessel(input: RegisterVesselInput): VesselParticulars {
     type:         input.type          ?? existing?.type          ?? 'OTHER',
     dwt:          input.dwt           ?? existing?.dwt           ?? null,
     gt:           input.gt            ?? existing?.gt            ?? null,
+    loaMetres:    input.loaMetres     ?? existing?.loaMetres     ?? null,
+    teuCapacity:  input.teuCapacity   ?? existing?.teuCapacity   ?? null,
     builtYear:    input.builtYear     ?? existing?.builtYear     ?? null,
     classSociety: input.classSociety  ?? existing?.classSociety  ?? null,
     owner:        input.owner         ?? existing?.owner         ?? null,
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../lib/prisma.js', () => ({ prisma: {} }));
+
+import { buildPortIndex, matchDestination } from './destination.js';
+
+const index = buildPortIndex([
+  { unlocode: 'SGSIN', name: 'Singapore' },
+  { unlocode: 'NLRTM', name: 'Rotterdam' },
+  { unlocode: 'USLAX', name: 'Los Angeles' },
+  { unlocode: 'ITSPE', name: 'La Spezia' },
+  { unlocode: 'BRFOR', name: 'Fortaleza' },
+  { unlocode: 'INNSA', name: 'Nhava Sheva' },
+  { unlocode: 'CNSHA', name: 'Shanghai' },
+  { unlocode: 'USSHA', name: 'Shannon' },
+]);
+
+const match = (raw: string | null) => matchDestination(raw, index);
+
+describe('matchDestination', () => {
+  it('matches UNLOCODEs with or without a separator', () => {
+    expect(match('SGSIN')).toBe('SGSIN');
+    expect(match('sg sin')).toBe('SGSIN');
+    expect(match('SG-SIN')).toBe('SGSIN');
+  });
+
+  it('keeps the destination leg of FROM>TO forms', () => {
+    expect(match('NLRTM>SGSIN')).toBe('SGSIN');
+    expect(match('ROTTERDAM TO SINGAPORE')).toBe('SGSIN');
+  });
+
+  it('matches aliases and unique location codes given on their own', () => {
+    expect(match('SPORE')).toBe('SGSIN');
+    expect(match('LA')).toBe('USLAX');
+    expect(match('JNPT')).toBe('INNSA');
+    expect(match('RTM')).toBe('NLRTM');
+    expect(match('SHA')).toBeNull();   // CNSHA and USSHA share it
+  });
+
+  it('prefers a port name over an alias or location code in its first word', () => {
+    expect(match('LA SPEZIA')).toBe('ITSPE');
+    expect(match('SINGAPORE EOPL')).toBe('SGSIN');
+  });
+
+  it('falls back to the first word when no name matches', () => {
+    expect(match('SPORE EOPL')).toBe('SGSIN');
+    expect(match('SIN ANCH')).toBe('SGSIN');
+  });
+
+  it('treats crew placeholders as no destination', () => {
+    expect(match('FOR ORDERS')).toBeNull();
+    expect(match('ORDERS')).toBeNull();
+    expect(match('TBA')).toBeNull();
+    expect(match('')).toBeNull();
+    expect(match(null)).toBeNull();
+  });
+});
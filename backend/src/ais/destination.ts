@@ -0,0 +1,146 @@
+/**
+ * Mari8X AIS Destination Normalisation
+ *
+ * The AIS destination field is free text typed by the crew: "SGSIN",
+ * "SG SIN", "NLRTM>SGSIN", "SINGAPORE EOPL", "SPORE", "FOR ORDERS"...
+ * normalizeDestination() maps it onto a known port UNLOCODE, or null.
+ *
+ * Matching order (against the Port table):
+ *   1. Last leg of "FROM>TO" / "FROM TO TO" forms; "FOR ORDERS", "TBA"
+ *      and the like are no destination at all
+ *   2. Exact UNLOCODE, with or without separator ("SG SIN", "SG-SIN")
+ *   3. Common abbreviations (SPORE, RDAM, ...) as the whole destination
+ *   4. 3-letter location code, unique among known ports, as the whole
+ *      destination ("SIN")
+ *   5. Port name contained in the text (longest name wins)
+ *   6. Rules 3 and 4 on the first word only ("SPORE EOPL", "SIN ANCH") —
+ *      after names, so "LA SPEZIA" is not Los Angeles
+ *
+ * The port index is cached for an hour.
+ *
+ * © 2026 ANKR Labs — Mari8X Community Edition
+ */
+
+import { prisma } from '../lib/prisma.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface PortIndex {
+  codes:      Set<string>;
+  byLocation: Map<string, string[]>;   // 'SIN' → ['SGSIN']
+  byName:     Array<{ name: string; unlocode: string }>;   // longest first
+}
+
+// ── Config ────────────────────────────────────────────────────────────────────
+
+const INDEX_TTL_MS = 60 * 60_000;
+
+/** Frequently seen crew abbreviations that neither code nor name rules catch. */
+const ALIASES: Record<string, string> = {
+  SPORE:  'SGSIN',
+  SPR:    'SGSIN',
+  RDAM:   'NLRTM',
+  RTDM:   'NLRTM',
+  HK:     'HKHKG',
+  FUJ:    'AEFJR',
+  FUJAIRAH: 'AEFJR',
+  JNPT:   'INNSA',
+  NHAVA:  'INNSA',
+  LA:     'USLAX',
+  LB:     'USLGB',
+  NY:     'USNYC',
+};
+
+/** Crew entries meaning the next port is not known yet. */
+const NO_DESTINATION = new Set(['FOR ORDERS', 'ORDERS', 'TBA', 'TBN', 'TBC', 'TBD', 'UNKNOWN', 'NONE']);
+
+let cached: { index: PortIndex; ts: number } | null = null;
+
+// ── Index ─────────────────────────────────────────────────────────────────────
+
+export function buildPortIndex(ports: Array<{ unlocode: string; name: string }>): PortIndex {
+  const codes      = new Set<string>();
+  const byLocation = new Map<string, string[]>();
+  const byName: PortIndex['byName'] = [];
+
+  for (const p of ports) {
+    const code = p.unlocode.toUpperCase();
+    codes.add(code);
+    const loc = code.slice(2);
+    byLocation.set(loc, [...(byLocation.get(loc) ?? []), code]);
+    const name = p.name.toUpperCase().replace(/[^A-Z0-9 ]/g, ' ').replace(/\s+/g, ' ').trim();
+    if (name.length >= 3) byName.push({ name, unlocode: code });
+  }
+  byName.sort((a, b) => b.name.length - a.name.length);
+  return { codes, byLocation, byName };
+}
+
+async function portIndex(): Promise<PortIndex> {
+  if (cached && Date.now() - cached.ts < INDEX_TTL_MS) return cached.index;
+  const ports = await prisma.port.findMany({ select: { unlocode: true, name: true } });
+  cached = { index: buildPortIndex(ports), ts: Date.now() };
+  return cached.index;
+}
+
+// ── Matching ──────────────────────────────────────────────────────────────────
+
+/**
+ * Match a raw destination against a port index. Pure — exported for reuse
+ * with a pre-built index.
+ */
+export function matchDestination(raw: string | null | undefined, index: PortIndex): string | null {
+  if (!raw) return null;
+  let text = raw.toUpperCase().replace(/@/g, ' ').trim();
+  if (!text) return null;
+
+  // 1. Keep the destination leg only
+  if (text.includes('>')) text = text.slice(text.lastIndexOf('>') + 1);
+  const toIdx = text.lastIndexOf(' TO ');
+  if (toIdx >= 0) text = text.slice(toIdx + 4);
+  if (text.startsWith('TO ')) text = text.slice(3);
+
+  const clean  = text.replace(/[^A-Z0-9 ]/g, ' ').replace(/\s+/g, ' ').trim();
+  const tokens = clean.split(' ').filter(Boolean);
+  if (tokens.length === 0 || NO_DESTINATION.has(clean)) return null;
+
+  // 2. UNLOCODE — "SGSIN", "SG SIN", "SG-SIN", or first token
+  const compact = tokens.join('');
+  if (compact.length === 5 && index.codes.has(compact)) return compact;
+  if (tokens[0].length === 5 && index.codes.has(tokens[0])) return tokens[0];
+  if (tokens.length >= 2 && tokens[0].length === 2 && tokens[1].length === 3) {
+    const joined = tokens[0] + tokens[1];
+    if (index.codes.has(joined)) return joined;
+  }
+
+  // 3–4. Alias or location code as the whole destination
+  const whole = shortCode(compact, index);
+  if (whole) return whole;
+
+  // 5. Port name
+  const padded = ` ${clean} `;
+  for (const p of index.byName) {
+    if (padded.includes(` ${p.name} `)) return p.unlocode;
+  }
+
+  // 6. Alias or location code as the first word
+  return tokens.length > 1 ? shortCode(tokens[0], index) : null;
+}
+
+/** Alias, else unique 3-letter location code, for a single word. */
+function shortCode(word: string, index: PortIndex): string | null {
+  const alias = ALIASES[word];
+  if (alias && index.codes.has(alias)) return alias;
+  if (word.length === 3) {
+    const hits = index.byLocation.get(word);
+    if (hits?.length === 1) return hits[0];
+  }
+  return null;
+}
+
+/**
+ * Normalise a raw AIS destination to a known port UNLOCODE (null if unknown).
+ */
+export async function normalizeDestination(raw: string | null | undefined): Promise<string | null> {
+  if (!raw) return null;
+  return matchDestination(raw, await portIndex());
+}
@@ -0,0 +1,211 @@
+/**
+ * Mari8X ECA Fuel Changeover Reminders
+ *
+ * Watches the best current position of every tracked vessel (tracked.ts)
+ * and projects its course and speed ahead (routing/eca.ts):
+ *
+ *   entry  the vessel will cross into an emission control area within
+ *          leadHours → change over to compliant fuel (≤ 0.10% S) before
+ *          the boundary
+ *   exit   the vessel will leave the ECA within leadHours → it may change
+ *          back once outside
+ *
+ * Each reminder is stored and also raised as an ECA_CHANGEOVER alert on the
+ * vessel's next port (agent/alerts.ts), so it goes out through the configured
+ * notification channels. A vessel gets one reminder per ECA and direction
+ * every REPEAT_HOURS. Vessels that are stopped, have no fix newer than
+ * maxFixAgeHours, or report neither course nor heading are skipped.
+ *
+ * Environment: ECA_LEAD_HOURS
+ * Storage:     /root/.ankr/state/mari8x-eca/reminders.json
+ *
+ * © 2026 ANKR Labs — Mari8X Community Edition
+ */
+
+import * as fs   from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { clockNow } from '../lib/clock.js';
+import { trackedVessels, latestFix } from './tracked.js';
+import { ecaAhead, ECA_AREAS } from '../routing/eca.js';
+import { raiseAlert, type AlertSeverity } from '../agent/alerts.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface EcaWatchOptions {
+  leadHours:      number;     // remind when the boundary is this close in time
+  minSpeedKt:     number;     // slower vessels are not projected
+  maxFixAgeHours: number;
+}
+
+export interface EcaReminder {
+  id:              string;
+  imo:             string;
+  vesselName:      string;
+  portCode:        string;    // next port, where the alert is raised
+  kind:            'entry' | 'exit';
+  eca:             string;
+  ecaName:         string;
+  hoursToBoundary: number;
+  distanceNm:      number;
+  boundary:        { lat: number; lng: number };
+  position:        { lat: number; lng: number; speedKt: number; courseDeg: number; at: string };
+  message:         string;
+  issuedAt:        string;
+  acknowledged:    boolean;
+}
+
+export interface EcaWatchRun {
+  startedAt:  string;
+  finishedAt: string;
+  vessels:    number;         // tracked vessels examined
+  skipped:    number;         // no recent fix, stopped, or no course
+  reminders:  EcaReminder[];
+  errors:     string[];
+}
+
+// ── Config ────────────────────────────────────────────────────────────────────
+
+export const DEFAULT_ECA_WATCH_OPTIONS: EcaWatchOptions = {
+  leadHours:      parseFloat(process.env.ECA_LEAD_HOURS ?? '12'),
+  minSpeedKt:     3,
+  maxFixAgeHours: 6,
+};
+
+const REPEAT_HOURS = 24;
+const URGENT_HOURS = 4;
+const MAX_KEEP     = 1_000;
+
+const ECA_DIR  = '/root/.ankr/state/mari8x-eca';
+const ECA_FILE = path.join(ECA_DIR, 'reminders.json');
+
+// ── Persistence ───────────────────────────────────────────────────────────────
+
+function ensureDir() {
+  if (!fs.existsSync(ECA_DIR)) fs.mkdirSync(ECA_DIR, { recursive: true });
+}
+
+function loadAll(): EcaReminder[] {
+  ensureDir();
+  if (!fs.existsSync(ECA_FILE)) return [];
+  try { return JSON.parse(fs.readFileSync(ECA_FILE, 'utf-8')); }
+  catch { return []; }
+}
+
+function saveAll(data: EcaReminder[]) {
+  ensureDir();
+  fs.writeFileSync(ECA_FILE, JSON.stringify(data.slice(-MAX_KEEP), null, 2));
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+const validDeg = (d: number | null | undefined): d is number => d != null && d >= 0 && d < 360;
+
+function reminderMessage(r: Omit<EcaReminder, 'id' | 'message' | 'issuedAt' | 'acknowledged'>): string {
+  const when = `in ~${r.hoursToBoundary.toFixed(1)}h (${r.distanceNm}nm at ${r.position.speedKt.toFixed(1)}kt)`;
+  const limit = ECA_AREAS[r.eca].sulphurLimitPct.toFixed(2);
+  return r.kind === 'entry'
+    ? `${r.vesselName} (${r.imo}) enters the ${r.ecaName} ${when} — complete changeover to ≤ ${limit}% S fuel before the boundary`
+    : `${r.vesselName} (${r.imo}) leaves the ${r.ecaName} ${when} — changeover from ECA fuel may start once outside`;
+}
+
+// ── Run ───────────────────────────────────────────────────────────────────────
+
+let running = false;
+
+/**
+ * One pass over all tracked vessels. Returns the reminders issued in this run.
+ */
+export async function runEcaWatch(opts: EcaWatchOptions = DEFAULT_ECA_WATCH_OPTIONS): Promise<EcaWatchRun> {
+  if (running) throw new Error('ECA watch is already running');
+  running = true;
+
+  const now = clockNow();
+  const run: EcaWatchRun = {
+    startedAt: new Date().toISOString(), finishedAt: '',
+    vessels: 0, skipped: 0, reminders: [], errors: [],
+  };
+
+  try {
+    const store   = loadAll();
+    const repeat  = now - REPEAT_HOURS * 3600_000;
+    const recent  = (imo: string, eca: string, kind: string) => store.some(r =>
+      r.imo === imo && r.eca === eca && r.kind === kind && new Date(r.issuedAt).getTime() >= repeat);
+
+    for (const [imo, v] of trackedVessels()) {
+      run.vessels++;
+      try {
+        const fix    = await latestFix(imo, now - opts.maxFixAgeHours * 3600_000, now);
+        const course = fix ? (validDeg(fix.course) ? fix.course : fix.heading) : null;
+        const speed  = fix?.speed ?? 0;
+        if (!fix || !validDeg(course) || speed < opts.minSpeedKt) {
+          run.skipped++;
+          continue;
+        }
+
+        const crossing = ecaAhead({ lat: fix.latitude, lng: fix.longitude }, course, speed * opts.leadHours);
+        if (!crossing || recent(imo, crossing.eca, crossing.kind)) continue;
+
+        const base = {
+          imo,
+          vesselName:      v.vesselName,
+          portCode:        v.portCode,
+          kind:            crossing.kind,
+          eca:             crossing.eca,
+          ecaName:         crossing.name,
+          hoursToBoundary: round1(crossing.distanceNm / speed),
+          distanceNm:      crossing.distanceNm,
+          boundary:        crossing.point,
+          position:        {
+            lat: fix.latitude, lng: fix.longitude, speedKt: speed, courseDeg: course,
+            at:  fix.timestamp.toISOString(),
+          },
+        };
+        const reminder: EcaReminder = {
+          ...base,
+          id:           randomUUID(),
+          message:      reminderMessage(base),
+          issuedAt:     new Date(now).toISOString(),
+          acknowledged: false,
+        };
+
+        const sev: AlertSeverity = reminder.kind === 'exit' ? 'INFO'
+          : reminder.hoursToBoundary <= URGENT_HOURS ? 'CRITICAL' : 'WARNING';
+        raiseAlert(v.portCode, 'ECA_CHANGEOVER', sev, imo, v.vesselName, reminder.message);
+
+        store.push(reminder);
+        run.reminders.push(reminder);
+      } catch (e) {
+        run.errors.push(`${imo}: ${(e as Error).message}`);
+      }
+    }
+
+    if (run.reminders.length > 0) saveAll(store);
+  } finally {
+    running = false;
+  }
+
+  run.finishedAt = new Date().toISOString();
+  return run;
+}
+
+// ── Queries ───────────────────────────────────────────────────────────────────
+
+/** Stored reminders, newest first; unacknowledged only unless asked. */
+export function listEcaReminders(query: { imo?: string; includeAcknowledged?: boolean; limit?: number } = {}): EcaReminder[] {
+  return loadAll()
+    .filter(r => !query.imo || r.imo === query.imo)
+    .filter(r => query.includeAcknowledged || !r.acknowledged)
+    .reverse()
+    .slice(0, query.limit ?? 50);
+}
+
+export function acknowledgeEcaReminder(id: string): EcaReminder | null {
+  const store = loadAll();
+  const r = store.find(x => x.id === id);
+  if (!r) return null;
+  r.acknowledged = true;
+  saveAll(store);
+  return r;
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const db = vi.hoisted(() => ({ fixes: [] as Array<Record<string, unknown>> }));
+
+vi.mock('fs', () => import('../test/mem-fs.js'));
+vi.mock('../lib/prisma.js', () => ({
+  prisma: {
+    vesselPosition: { findMany: async () => db.fixes },
+    port:           { findMany: async () => [] },
+    vessel:         {
+      findMany: async () => [
+        { id: 'v1', imo: '9000001', name: 'TANKER ONE', type: 'Tanker' },
+        { id: 'v2', imo: '9000002', name: 'TANKER TWO', type: 'Oil/Chemical Tanker' },
+      ],
+    },
+  },
+}));
+
+import { files } from '../test/mem-fs.js';
+import { setVirtualClock, resetClock } from '../lib/clock.js';
+import { findEpisodes, runEncounterDetection, listEncounters, type EncounterOptions } from './encounters.js';
+
+const T0      = Date.parse('2026-10-01T00:00:00Z');
+const SLOT_MS = 10 * 60_000;
+const opts: EncounterOptions = { maxDistanceNm: 0.5, maxSpeedKt: 3, minDurationHours: 2, lookbackHours: 24 };
+
+/** Fix for `vesselId` at minute `m`, `nm` north of 20°N 60°E (open sea). */
+const fix = (vesselId: string, m: number, nm = 0) => ({
+  vesselId, latitude: 20 + nm / 60, longitude: 60, timestamp: new Date(T0 + m * 60_000), speed: 0.5,
+});
+
+/** Two vessels 0.1 nm apart every 10 minutes from minute `from` to `to`. */
+const together = (from: number, to: number) => {
+  const out = [];
+  for (let m = from; m <= to; m += 10) out.push(fix('v1', m), fix('v2', m, 0.1));
+  return out;
+};
+
+const slotAt = (m: number) => Math.floor((T0 + m * 60_000) / SLOT_MS);
+
+beforeEach(() => {
+  files.clear();
+  db.fixes = [];
+});
+afterEach(() => resetClock());
+
+describe('findEpisodes', () => {
+  it('finds a pair that stays together for the minimum duration', () => {
+    const [ep, ...rest] = findEpisodes(together(0, 180), opts, slotAt(180));
+    expect(rest).toEqual([]);
+    expect(ep).toMatchObject({ a: 'v1', b: 'v2', firstSlot: slotAt(0), lastSlot: slotAt(180), open: true });
+    expect(ep.points).toHaveLength(19);
+  });
+
+  it('ignores short meetings and vessels too far apart', () => {
+    expect(findEpisodes(together(0, 60), opts, slotAt(60))).toEqual([]);
+    const apart = together(0, 180).map(f => (f.vesselId === 'v2' ? { ...f, latitude: f.latitude + 1 / 60 } : f));
+    expect(findEpisodes(apart, opts, slotAt(180))).toEqual([]);
+  });
+
+  it('splits an episode at a break of more than three slots', () => {
+    const eps = findEpisodes([...together(0, 150), ...together(220, 370)], opts, slotAt(600));
+    expect(eps.map(e => [e.firstSlot, e.lastSlot, e.open])).toEqual([
+      [slotAt(0), slotAt(150), false],
+      [slotAt(220), slotAt(370), false],
+    ]);
+  });
+});
+
+describe('runEncounterDetection', () => {
+  it('stores an STS transfer between two tankers', async () => {
+    db.fixes = together(0, 180);
+    setVirtualClock(new Date(T0 + 180 * 60_000), 0);
+    expect(await runEncounterDetection(opts)).toMatchObject({ created: 1, updated: 0 });
+
+    const [e] = listEncounters();
+    expect(e).toMatchObject({
+      kind: 'sts', ongoing: true, samples: 19, durationHours: 3.2,
+      vessels: [{ imo: '9000001' }, { imo: '9000002' }],
+    });
+    expect(e.minDistanceNm).toBeCloseTo(0.1, 2);
+  });
+
+  it('extends a stored encounter without counting the same slots twice', async () => {
+    db.fixes = together(0, 180);
+    setVirtualClock(new Date(T0 + 180 * 60_000), 0);
+    await runEncounterDetection(opts);
+    expect(await runEncounterDetection(opts)).toMatchObject({ created: 0, updated: 1 });
+    expect(listEncounters()[0].samples).toBe(19);
+
+    db.fixes = together(0, 240);
+    setVirtualClock(new Date(T0 + 240 * 60_000), 0);
+    await runEncounterDetection(opts);
+    expect(listEncounters()).toHaveLength(1);
+    expect(listEncounters()[0]).toMatchObject({ samples: 25, durationHours: 4.2 });
+  });
+
+  it('filters stored encounters by vessel and kind', async () => {
+    db.fixes = together(0, 180);
+    setVirtualClock(new Date(T0 + 180 * 60_000), 0);
+    await runEncounterDetection(opts);
+    expect(listEncounters({ imo: '9000002' })).toHaveLength(1);
+    expect(listEncounters({ imo: '9999999' })).toHaveLength(0);
+    expect(listEncounters({ kind: 'rendezvous' })).toHaveLength(0);
+  });
+});
@@ -0,0 +1,382 @@
+/**
+ * Mari8X Vessel Encounters
+ *
+ * Flags ship-to-ship (STS) transfers and other rendezvous at sea: two
+ * vessels within maxDistanceNm of each other, both at or below maxSpeedKt,
+ * for at least minDurationHours, with neither inside any port's outer limit
+ * (alongside each other in port is normal; at sea it is not).
+ *
+ * Detection works on 10-minute slots: each vessel's last slow fix per slot,
+ * paired through a coarse lat/lng grid. A pair stays "together" across
+ * slots until it misses more than 30 minutes. Qualifying episodes are stored
+ * as encounter events; each run re-scans the last lookbackHours and merges
+ * with stored events of the same pair, so ongoing encounters grow instead
+ * of duplicating. Only slots after the stored event's end are merged, so
+ * re-scanned slots are not counted twice.
+ *
+ *   kind  sts         — both vessels are tankers (or gas carriers)
+ *         rendezvous  — any other pairing
+ *
+ * Environment: ENCOUNTER_MAX_NM, ENCOUNTER_MAX_SPEED_KT, ENCOUNTER_MIN_HOURS
+ * Storage:     /root/.ankr/state/mari8x-encounters/encounters.json
+ *
+ * © 2026 ANKR Labs — Mari8X Community Edition
+ */
+
+import * as fs   from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { prisma } from '../lib/prisma.js';
+import { clockNow, fixWindow } from '../lib/clock.js';
+import { haversineDistance } from '../lib/geo-utils.js';
+import { getPortGeofence, DEFAULT_RADII } from '../congestion/geofence.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type EncounterKind = 'sts' | 'rendezvous';
+
+export interface EncounterOptions {
+  maxDistanceNm:    number;
+  maxSpeedKt:       number;
+  minDurationHours: number;
+  lookbackHours:    number;
+}
+
+export interface EncounterVessel {
+  imo:  string;
+  name: string;
+  type: string | null;
+}
+
+export interface Encounter {
+  id:            string;
+  kind:          EncounterKind;
+  vessels:       [EncounterVessel, EncounterVessel];   // ordered by IMO
+  startedAt:     string;
+  endedAt:       string;      // last slot seen together
+  ongoing:       boolean;
+  durationHours: number;
+  location:      { lat: number; lng: number };   // mean midpoint
+  minDistanceNm: number;
+  samples:       number;
+  detectedAt:    string;
+  updatedAt:     string;
+}
+
+export interface EncounterQuery {
+  imo?:    string;
+  bbox?:   { minLat: number; maxLat: number; minLng: number; maxLng: number };
+  since?:  Date;
+  kind?:   EncounterKind;
+  limit?:  number;
+}
+
+export interface EncounterRun {
+  scannedFrom: string;
+  scannedTo:   string;
+  fixes:       number;
+  created:     number;
+  updated:     number;
+  durationMs:  number;
+}
+
+type SlowFix = { vesselId: string; latitude: number; longitude: number; timestamp: Date; speed: number | null };
+
+interface EpisodePoint { slot: number; lat: number; lng: number; nm: number }   // pair midpoint
+
+interface Episode {
+  a: string; b: string;
+  firstSlot: number; lastSlot: number;
+  points: EpisodePoint[];
+}
+
+// ── Config ────────────────────────────────────────────────────────────────────
+
+export const DEFAULT_ENCOUNTER_OPTIONS: EncounterOptions = {
+  maxDistanceNm:    parseFloat(process.env.ENCOUNTER_MAX_NM ?? '0.5'),
+  maxSpeedKt:       parseFloat(process.env.ENCOUNTER_MAX_SPEED_KT ?? '3'),
+  minDurationHours: parseFloat(process.env.ENCOUNTER_MIN_HOURS ?? '2'),
+  lookbackHours:    24,
+};
+
+const SLOT_MS        = 10 * 60_000;
+const MAX_GAP_SLOTS  = 3;
+const CELL_DEG       = 0.02;           // ≈ 1.2 nm — larger than any sensible maxDistanceNm
+const MAX_FIXES      = 200_000;
+const KEEP_DAYS      = 180;
+const STS_TYPES      = /tanker|gas carrier|lng|lpg/i;
+
+const ENC_DIR  = '/root/.ankr/state/mari8x-encounters';
+const ENC_FILE = path.join(ENC_DIR, 'encounters.json');
+
+// ── Persistence ───────────────────────────────────────────────────────────────
+
+function ensureDir() {
+  if (!fs.existsSync(ENC_DIR)) fs.mkdirSync(ENC_DIR, { recursive: true });
+}
+
+function loadAll(): Record<string, Encounter> {
+  ensureDir();
+  if (!fs.existsSync(ENC_FILE)) return {};
+  try { return JSON.parse(fs.readFileSync(ENC_FILE, 'utf-8')); }
+  catch { return {}; }
+}
+
+function saveAll(data: Record<string, Encounter>) {
+  ensureDir();
+  fs.writeFileSync(ENC_FILE, JSON.stringify(data, null, 2));
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+async function loadPortLimits(): Promise<Array<{ lat: number; lng: number; outerNm: number }>> {
+  const rows = await prisma.port.findMany({
+    where:  { lat: { not: null }, lng: { not: null } },
+    select: { unlocode: true, lat: true, lng: true },
+  });
+  return rows.map((p: any) => ({
+    lat: p.lat, lng: p.lng,
+    outerNm: (getPortGeofence(p.unlocode)?.radii ?? DEFAULT_RADII).outerNm,
+  }));
+}
+
+function kindOf(pair: [EncounterVessel, EncounterVessel]): EncounterKind {
+  return pair.every(v => v.type && STS_TYPES.test(v.type)) ? 'sts' : 'rendezvous';
+}
+
+/** Sample count, summed midpoint and closest approach of episode points. */
+function summarise(points: EpisodePoint[]) {
+  return {
+    samples: points.length,
+    sumLat:  points.reduce((a, p) => a + p.lat, 0),
+    sumLng:  points.reduce((a, p) => a + p.lng, 0),
+    minNm:   Math.min(...points.map(p => p.nm)),
+  };
+}
+
+function inPortLimits(lat: number, lng: number, ports: Array<{ lat: number; lng: number; outerNm: number }>): boolean {
+  return ports.some(p =>
+    Math.abs(p.lat - lat) * 60 <= p.outerNm &&
+    haversineDistance(p.lat, p.lng, lat, lng) <= p.outerNm);
+}
+
+// ── Detection ─────────────────────────────────────────────────────────────────
+
+/**
+ * Find encounter episodes in a set of slow fixes (any order). Pure; returns
+ * episodes that lasted at least minDurationHours, with `open` set when the
+ * pair was still together in the final slot.
+ */
+export function findEpisodes(
+  fixes:   SlowFix[],
+  opts:    EncounterOptions,
+  endSlot: number,
+): Array<Episode & { open: boolean }> {
+  // Last fix per vessel per slot
+  const slots = new Map<number, Map<string, SlowFix>>();
+  for (const f of fixes) {
+    const slot = Math.floor(f.timestamp.getTime() / SLOT_MS);
+    if (!slots.has(slot)) slots.set(slot, new Map());
+    const bySlot = slots.get(slot)!;
+    const prev   = bySlot.get(f.vesselId);
+    if (!prev || f.timestamp > prev.timestamp) bySlot.set(f.vesselId, f);
+  }
+
+  const active = new Map<string, Episode>();
+  const done: Array<Episode & { open: boolean }> = [];
+  const minSlots = (opts.minDurationHours * 3600_000) / SLOT_MS;
+  const finish = (ep: Episode, open: boolean) => {
+    if (ep.lastSlot - ep.firstSlot >= minSlots) done.push({ ...ep, open });
+  };
+
+  for (const slot of [...slots.keys()].sort((x, y) => x - y)) {
+    // Close episodes that went quiet
+    for (const [key, ep] of active) {
+      if (slot - ep.lastSlot > MAX_GAP_SLOTS) { finish(ep, false); active.delete(key); }
+    }
+
+    // Grid the slot's fixes and compare neighbours
+    const grid = new Map<string, SlowFix[]>();
+    const cell = (lat: number, lng: number) => `${Math.floor(lat / CELL_DEG)}:${Math.floor(lng / CELL_DEG)}`;
+    for (const f of slots.get(slot)!.values()) {
+      const k = cell(f.latitude, f.longitude);
+      if (!grid.has(k)) grid.set(k, []);
+      grid.get(k)!.push(f);
+    }
+
+    for (const f of slots.get(slot)!.values()) {
+      const ci = Math.floor(f.latitude / CELL_DEG), cj = Math.floor(f.longitude / CELL_DEG);
+      for (let di = -1; di <= 1; di++) for (let dj = -1; dj <= 1; dj++) {
+        for (const g of grid.get(`${ci + di}:${cj + dj}`) ?? []) {
+          if (g.vesselId <= f.vesselId) continue;   // each pair once
+          const nm = haversineDistance(f.latitude, f.longitude, g.latitude, g.longitude);
+          if (nm > opts.maxDistanceNm) continue;
+
+          const key = `${f.vesselId}|${g.vesselId}`;
+          const ep  = active.get(key) ?? { a: f.vesselId, b: g.vesselId, firstSlot: slot, lastSlot: slot, points: [] };
+          ep.lastSlot = slot;
+          ep.points.push({ slot, lat: (f.latitude + g.latitude) / 2, lng: (f.longitude + g.longitude) / 2, nm });
+          active.set(key, ep);
+        }
+      }
+    }
+  }
+
+  for (const ep of active.values()) finish(ep, endSlot - ep.lastSlot <= MAX_GAP_SLOTS);
+  return done;
+}
+
+// ── Run ───────────────────────────────────────────────────────────────────────
+
+let running = false;
+
+/**
+ * Scan the last lookbackHours of positions and store / extend encounters.
+ */
+export async function runEncounterDetection(
+  opts: EncounterOptions = DEFAULT_ENCOUNTER_OPTIONS,
+): Promise<EncounterRun> {
+  if (running) throw new Error('Encounter detection is already running');
+  running = true;
+  const started = Date.now();
+
+  try {
+    const now  = clockNow();
+    const from = now - opts.lookbackHours * 3600_000;
+
+    const rows: SlowFix[] = await prisma.vesselPosition.findMany({
+      where:   {
+        quality:   'ok',
+        speed:     { lte: opts.maxSpeedKt },
+        ...fixWindow(from, now),
+      },
+      select:  { vesselId: true, latitude: true, longitude: true, timestamp: true, speed: true },
+      orderBy: { timestamp: 'desc' },   // newest kept when capped
+      take:    MAX_FIXES,
+    });
+
+    const ports    = await loadPortLimits();
+    const atSea    = rows.filter(r => !inPortLimits(r.latitude, r.longitude, ports));
+    const episodes = findEpisodes(atSea, opts, Math.floor(now / SLOT_MS));
+
+    const vesselIds = [...new Set(episodes.flatMap(e => [e.a, e.b]))];
+    const vessels: Array<{ id: string; imo: string; name: string; type: string | null }> = vesselIds.length
+      ? await prisma.vessel.findMany({
+          where:  { id: { in: vesselIds } },
+          select: { id: true, imo: true, name: true, type: true },
+        })
+      : [];
+    const byId = new Map(vessels.map(v => [v.id, v]));
+
+    const store = loadAll();
+    const stamp = new Date(now).toISOString();
+    let created = 0, updated = 0;
+
+    for (const ep of episodes) {
+      const va = byId.get(ep.a), vb = byId.get(ep.b);
+      if (!va || !vb) continue;
+      const pair = [va, vb]
+        .map(v => ({ imo: v.imo, name: v.name, type: v.type ?? null }))
+        .sort((x, y) => x.imo.localeCompare(y.imo)) as [EncounterVessel, EncounterVessel];
+
+      const startMs = ep.firstSlot * SLOT_MS;
+      const endMs   = (ep.lastSlot + 1) * SLOT_MS;
+
+      // Same pair, overlapping or continuing a stored event → extend it
+      const existing = Object.values(store).find(e =>
+        e.vessels[0].imo === pair[0].imo && e.vessels[1].imo === pair[1].imo &&
+        new Date(e.endedAt).getTime() >= startMs - MAX_GAP_SLOTS * SLOT_MS &&
+        new Date(e.startedAt).getTime() <= endMs);
+
+      if (existing) {
+        // Only slots after the stored end are new; earlier ones were counted
+        const fromSlot = new Date(existing.endedAt).getTime() / SLOT_MS;
+        const fresh    = ep.points.filter(p => p.slot >= fromSlot);
+        const s = Math.min(new Date(existing.startedAt).getTime(), startMs);
+        const t = Math.max(new Date(existing.endedAt).getTime(), endMs);
+        if (fresh.length) {
+          const add = summarise(fresh);
+          const n   = existing.samples + add.samples;
+          existing.location      = {
+            lat: (existing.location.lat * existing.samples + add.sumLat) / n,
+            lng: (existing.location.lng * existing.samples + add.sumLng) / n,
+          };
+          existing.minDistanceNm = round2(Math.min(existing.minDistanceNm, add.minNm));
+          existing.samples       = n;
+        }
+        Object.assign(existing, {
+          kind:          kindOf(pair),
+          vessels:       pair,
+          startedAt:     new Date(s).toISOString(),
+          endedAt:       new Date(t).toISOString(),
+          ongoing:       ep.open,
+          durationHours: round1((t - s) / 3600_000),
+          updatedAt:     stamp,
+        });
+        updated++;
+      } else {
+        const sum = summarise(ep.points);
+        const e: Encounter = {
+          id:            randomUUID(),
+          kind:          kindOf(pair),
+          vessels:       pair,
+          startedAt:     new Date(startMs).toISOString(),
+          endedAt:       new Date(endMs).toISOString(),
+          ongoing:       ep.open,
+          durationHours: round1((endMs - startMs) / 3600_000),
+          location:      { lat: sum.sumLat / sum.samples, lng: sum.sumLng / sum.samples },
+          minDistanceNm: round2(sum.minNm),
+          samples:       sum.samples,
+          detectedAt:    stamp,
+          updatedAt:     stamp,
+        };
+        store[e.id] = e;
+        created++;
+      }
+    }
+
+    // Anything not seen this run is over; drop events past the keep window
+    const keepFrom = now - KEEP_DAYS * 86_400_000;
+    for (const [id, e] of Object.entries(store)) {
+      if (e.ongoing && e.updatedAt !== stamp) e.ongoing = false;
+      if (new Date(e.endedAt).getTime() < keepFrom) delete store[id];
+    }
+    saveAll(store);
+
+    return {
+      scannedFrom: new Date(from).toISOString(),
+      scannedTo:   stamp,
+      fixes:       atSea.length,
+      created,
+      updated,
+      durationMs:  Date.now() - started,
+    };
+  } finally {
+    running = false;
+  }
+}
+
+// ── Queries ───────────────────────────────────────────────────────────────────
+
+/**
+ * Stored encounters, newest first, filtered by vessel, area, start time and kind.
+ */
+export function listEncounters(query: EncounterQuery = {}): Encounter[] {
+  const { imo, bbox, since, kind } = query;
+  return Object.values(loadAll())
+    .filter(e => !imo   || e.vessels.some(v => v.imo === imo))
+    .filter(e => !kind  || e.kind === kind)
+    .filter(e => !since || new Date(e.endedAt) >= since)
+    .filter(e => !bbox  || (
+      e.location.lat >= bbox.minLat && e.location.lat <= bbox.maxLat &&
+      e.location.lng >= bbox.minLng && e.location.lng <= bbox.maxLng))
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+    .slice(0, query.limit ?? 50);
+}
+
+export function getEncounter(id: string): Encounter | null {
+  return loadAll()[id] ?? null;
+}
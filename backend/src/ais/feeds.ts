@@ -0,0 +1,214 @@
+/**
+ * Mari8X AIS Feeds
+ *
+ * Transports that deliver raw NMEA lines to the ingestion pipeline:
+ *   tcp  — connect to a feed server (AIS-catcher, rtl-ais, aggregator) and
+ *          reconnect with back-off when the connection drops
+ *   udp  — listen for datagrams forwarded by a local receiver
+ *   file — replay a captured NMEA log, line by line (for testing / backfill)
+ *
+ * Environment (read by startFeedsFromEnv):
+ *   AIS_TCP_FEEDS   host:port[@source][,host:port[@source]...]
+ *                   e.g. localhost:10110,sat.example.com:5631@ais_satellite
+ *   AIS_UDP_PORT    port to listen on
+ *   AIS_SOURCE      VesselPosition.source for live feeds (default ais_terrestrial)
+ *
+ * © 2026 ANKR Labs — Mari8X Community Edition
+ */
+
+import * as fs       from 'fs';
+import * as net      from 'net';
+import * as dgram    from 'dgram';
+import * as readline from 'readline';
+import { ingestNmeaLine, getIngestStats } from './ingest.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface FeedStatus {
+  id:         string;
+  kind:       'tcp' | 'udp';
+  address:    string;
+  source:     string;
+  connected:  boolean;
+  lines:      number;
+  lastLineAt: string | null;
+  lastError:  string | null;
+}
+
+export interface ReplaySummary {
+  file:             string;
+  source:           string;
+  lines:            number;
+  decoded:          number;
+  positionsWritten: number;
+  staticUpdates:    number;
+  vesselsCreated:   number;
+  errors:           number;
+  durationMs:       number;
+}
+
+// ── State ─────────────────────────────────────────────────────────────────────
+
+const feeds = new Map<string, { status: FeedStatus; stop: () => void }>();
+
+const RECONNECT_MIN_MS = 2_000;
+const RECONNECT_MAX_MS = 60_000;
+
+function onLine(status: FeedStatus, line: string) {
+  status.lines++;
+  status.lastLineAt = new Date().toISOString();
+  ingestNmeaLine(line, status.source).catch(() => { /* counted in ingest stats */ });
+}
+
+// ── TCP ───────────────────────────────────────────────────────────────────────
+
+/**
+ * Connect to a TCP NMEA feed. Returns the feed id.
+ */
+export function startTcpFeed(host: string, port: number, source = 'ais_terrestrial'): string {
+  const id = `tcp:${host}:${port}`;
+  if (feeds.has(id)) return id;
+
+  const status: FeedStatus = {
+    id, kind: 'tcp', address: `${host}:${port}`, source,
+    connected: false, lines: 0, lastLineAt: null, lastError: null,
+  };
+
+  let socket: net.Socket | null = null;
+  let timer:  NodeJS.Timeout | null = null;
+  let delay   = RECONNECT_MIN_MS;
+  let stopped = false;
+
+  const connect = () => {
+    let buffer = '';
+    socket = net.createConnection({ host, port });
+    socket.setEncoding('utf-8');
+    socket.on('connect', () => {
+      status.connected = true;
+      status.lastError = null;
+      delay = RECONNECT_MIN_MS;
+    });
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? '';
+      for (const l of lines) onLine(status, l);
+    });
+    socket.on('error', (e) => { status.lastError = e.message; });
+    socket.on('close', () => {
+      status.connected = false;
+      if (stopped) return;
+      timer = setTimeout(connect, delay);
+      delay = Math.min(delay * 2, RECONNECT_MAX_MS);
+    });
+  };
+
+  connect();
+  feeds.set(id, {
+    status,
+    stop: () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      socket?.destroy();
+    },
+  });
+  return id;
+}
+
+// ── UDP ───────────────────────────────────────────────────────────────────────
+
+/**
+ * Listen for NMEA datagrams on a UDP port. Returns the feed id.
+ */
+export function startUdpFeed(port: number, source = 'ais_terrestrial'): string {
+  const id = `udp:${port}`;
+  if (feeds.has(id)) return id;
+
+  const status: FeedStatus = {
+    id, kind: 'udp', address: `0.0.0.0:${port}`, source,
+    connected: false, lines: 0, lastLineAt: null, lastError: null,
+  };
+
+  const sock = dgram.createSocket('udp4');
+  sock.on('listening', () => { status.connected = true; });
+  sock.on('error', (e) => { status.lastError = e.message; status.connected = false; });
+  sock.on('message', (msg) => {
+    for (const l of msg.toString('utf-8').split(/\r?\n/)) {
+      if (l.trim()) onLine(status, l);
+    }
+  });
+  sock.bind(port);
+
+  feeds.set(id, { status, stop: () => sock.close() });
+  return id;
+}
+
+// ── Control ───────────────────────────────────────────────────────────────────
+
+export function stopFeed(id: string): boolean {
+  const feed = feeds.get(id);
+  if (!feed) return false;
+  feed.stop();
+  feeds.delete(id);
+  return true;
+}
+
+export function listFeeds(): FeedStatus[] {
+  return [...feeds.values()].map(f => ({ ...f.status }));
+}
+
+/**
+ * Start the feeds configured via AIS_TCP_FEEDS / AIS_UDP_PORT.
+ * Returns the ids started (empty when nothing is configured).
+ */
+export function startFeedsFromEnv(): string[] {
+  const source = process.env.AIS_SOURCE ?? 'ais_terrestrial';
+  const ids: string[] = [];
+
+  for (const raw of (process.env.AIS_TCP_FEEDS ?? '').split(',').map(s => s.trim()).filter(Boolean)) {
+    const [entry, feedSource] = raw.split('@');
+    const idx  = entry.lastIndexOf(':');
+    const port = parseInt(entry.slice(idx + 1), 10);
+    if (idx > 0 && port > 0) ids.push(startTcpFeed(entry.slice(0, idx), port, feedSource || source));
+  }
+
+  const udpPort = parseInt(process.env.AIS_UDP_PORT ?? '', 10);
+  if (udpPort > 0) ids.push(startUdpFeed(udpPort, source));
+
+  return ids;
+}
+
+// ── File replay ───────────────────────────────────────────────────────────────
+
+/**
+ * Replay an NMEA capture file through the full decode + ingest path.
+ * Lines are processed in order and each write completes before the next
+ * line is read, so the result reflects everything in the file.
+ */
+export async function replayNmeaFile(filePath: string, source = 'ais_terrestrial'): Promise<ReplaySummary> {
+  if (!fs.existsSync(filePath)) throw new Error(`File not found: ${filePath}`);
+
+  const before  = getIngestStats();
+  const started = Date.now();
+  let lines     = 0;
+
+  const rl = readline.createInterface({ input: fs.createReadStream(filePath, 'utf-8'), crlfDelay: Infinity });
+  for await (const line of rl) {
+    if (!line.trim()) continue;
+    lines++;
+    await ingestNmeaLine(line, source);
+  }
+
+  const after = getIngestStats();
+  return {
+    file:             filePath,
+    source,
+    lines,
+    decoded:          after.decoded          - before.decoded,
+    positionsWritten: after.positionsWritten - before.positionsWritten,
+    staticUpdates:    after.staticUpdates    - before.staticUpdates,
+    vesselsCreated:   after.vesselsCreated   - before.vesselsCreated,
+    errors:           after.errors           - before.errors,
+    durationMs:       Date.now() - started,
+  };
+}
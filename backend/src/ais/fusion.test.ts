@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const db = vi.hoisted(() => ({
+  prev:    null as null | { latitude: number; longitude: number; speed: number | null; timestamp: Date },
+  created: [] as Array<Record<string, unknown>>,
+}));
+
+vi.mock('fs', () => import('../test/mem-fs.js'));
+vi.mock('../lib/prisma.js', () => ({
+  prisma: {
+    vessel:         { findFirst: async () => ({ id: 'v1', imo: '9000001', type: 'Cargo' }) },
+    vesselPosition: {
+      findFirst: async () => db.prev,
+      create:    async ({ data }: { data: Record<string, unknown> }) => { db.created.push(data); return data; },
+    },
+  },
+}));
+
+import { files } from '../test/mem-fs.js';
+import { setVirtualClock, resetClock } from '../lib/clock.js';
+import { pickBest, selectBestPerVessel, fuseTrack, setFusionConfig, recordReportedPosition } from './fusion.js';
+
+const T0 = Date.parse('2026-10-01T12:00:00Z');
+
+/** Row `minutesAgo` before T0 from `source`, `nm` north of 1°N 104°E. */
+const row = (source: string, minutesAgo: number, nm = 0, vesselId = 'v1') => ({
+  vesselId, source, latitude: 1 + nm / 60, longitude: 104, timestamp: new Date(T0 - minutesAgo * 60_000),
+});
+
+beforeEach(() => {
+  files.clear();
+  db.prev = null;
+  db.created = [];
+  setVirtualClock(new Date(T0), 0);
+});
+afterEach(() => resetClock());
+
+describe('pickBest', () => {
+  it('prefers the higher-priority source among current fixes', () => {
+    expect(pickBest([row('ais_satellite', 2), row('ais_terrestrial', 10)], T0)?.source).toBe('ais_terrestrial');
+  });
+
+  it('takes a fresher lower-priority fix when the preferred one is well behind it', () => {
+    expect(pickBest([row('ais_satellite', 2), row('ais_terrestrial', 25)], T0)?.source).toBe('ais_satellite');
+  });
+
+  it('ignores sources older than their latency limit', () => {
+    expect(pickBest([row('ais_terrestrial', 45), row('manual', 120)], T0)?.source).toBe('manual');
+  });
+
+  it('falls back to the newest fix when nothing is current', () => {
+    expect(pickBest([row('ais_terrestrial', 300), row('ais_satellite', 600)], T0)?.source).toBe('ais_terrestrial');
+    expect(pickBest([], T0)).toBeNull();
+  });
+});
+
+describe('selectBestPerVessel', () => {
+  it('returns one fix per vessel', () => {
+    const best = selectBestPerVessel([
+      row('ais_satellite', 2, 0, 'v1'), row('ais_terrestrial', 5, 0, 'v1'), row('manual', 60, 0, 'v2'),
+    ], T0);
+    expect(best.map(r => `${r.vesselId} ${r.source}`)).toEqual(['v1 ais_terrestrial', 'v2 manual']);
+  });
+});
+
+describe('fuseTrack', () => {
+  it('orders by time and collapses near-identical fixes onto the higher-priority source', () => {
+    const track = fuseTrack([
+      row('ais_terrestrial', 10), row('ais_satellite', 11, 0.1), row('ais_satellite', 30, 5), row('ais_terrestrial', 0, 1),
+    ]);
+    expect(track.map(r => r.source)).toEqual(['ais_satellite', 'ais_terrestrial', 'ais_terrestrial']);
+  });
+});
+
+describe('setFusionConfig', () => {
+  it('rejects invalid rules', () => {
+    expect(() => setFusionConfig({ sources: [{ source: 'x', priority: 0, maxAgeMinutes: 10 }] })).toThrow('priority');
+    expect(() => setFusionConfig({
+      sources: [{ source: 'x', priority: 1, maxAgeMinutes: 10 }, { source: 'x', priority: 2, maxAgeMinutes: 10 }],
+    })).toThrow('duplicate source');
+    expect(() => setFusionConfig({ dedupNm: -1 })).toThrow('non-negative');
+  });
+});
+
+describe('recordReportedPosition', () => {
+  it('stamps a report without a timestamp with the platform clock', async () => {
+    await recordReportedPosition({ imo: '9000001', lat: 1, lng: 104 });
+    expect(db.created[0]).toMatchObject({ source: 'manual', quality: 'ok', timestamp: new Date(T0) });
+  });
+
+  it('flags a report that jumps impossibly far from the last good fix', async () => {
+    db.prev = { latitude: 1, longitude: 104, speed: 12, timestamp: new Date(T0 - 3600_000) };
+    await recordReportedPosition({ imo: '9000001', lat: 20, lng: 104, source: 'noon_report' });
+    expect(db.created[0]).toMatchObject({ source: 'noon_report', quality: 'speed' });
+  });
+
+  it('rejects null-island reports and unknown sources', async () => {
+    await expect(recordReportedPosition({ imo: '9000001', lat: 0, lng: 0 })).rejects.toThrow('null_island');
+    await expect(recordReportedPosition({ imo: '9000001', lat: 1, lng: 104, source: 'ais_terrestrial' }))
+      .rejects.toThrow('source must be one of');
+    expect(db.created).toHaveLength(0);
+  });
+});
@@ -0,0 +1,344 @@
+/**
+ * Mari8X Position Fusion
+ *
+ * A vessel's positions can arrive from several sources — terrestrial AIS,
+ * satellite AIS, manual entry by an agent, or a master's noon report — each
+ * stored in VesselPosition with its `source`. This module decides which fix
+ * is the vessel's "best current position" and merges tracks across sources.
+ *
+ * Rules (configurable, see SourceRule):
+ *   latency   — a source's fix only counts as current while it is younger
+ *               than that source's maxAgeMinutes (satellite and noon reports
+ *               are naturally older than terrestrial)
+ *   priority  — among current fixes, the highest-priority source (lowest
+ *               number) wins unless its fix is more than preferWindowMinutes
+ *               older than the freshest one
+ *   fallback  — no current fix from any source → the newest fix overall
+ *   dedup     — fixes from different sources within dedupSeconds and
+ *               dedupNm of each other are one observation; the higher-
+ *               priority source is kept
+ *
+ * Consumers (congestion, pre-arrival, dwell, vessel profile) load raw 'ok'
+ * rows as before and pass them through selectBestPerVessel() / fuseTrack().
+ * The helpers are generic over the row list so Prisma `include`s survive.
+ *
+ * Storage: /root/.ankr/state/mari8x-ais-sources/fusion.json
+ *
+ * © 2026 ANKR Labs — Mari8X Community Edition
+ */
+
+import * as fs   from 'fs';
+import * as path from 'path';
+import { prisma } from '../lib/prisma.js';
+import { haversineDistance } from '../lib/geo-utils.js';
+import { clockNow, clockDate, fixWindow } from '../lib/clock.js';
+import { assessFix, maxSpeedFor } from './quality.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface SourceRule {
+  source:        string;
+  priority:      number;   // 1 = most trusted
+  maxAgeMinutes: number;
+}
+
+export interface FusionConfig {
+  sources:             SourceRule[];
+  preferWindowMinutes: number;
+  dedupSeconds:        number;
+  dedupNm:             number;
+  updatedBy:           string;
+  updatedAt:           string;
+}
+
+export type FusionConfigInput = Partial<Omit<FusionConfig, 'updatedAt'>>;
+
+/** Minimal shape of a VesselPosition row the fusion rules need. */
+export interface FixRow {
+  vesselId:  string;
+  latitude:  number;
+  longitude: number;
+  timestamp: Date;
+  source:    string;
+}
+
+export interface SourceFix {
+  source:     string;
+  priority:   number;
+  current:    boolean;
+  ageMinutes: number;
+  lat:        number;
+  lng:        number;
+  speedKt:    number | null;
+  heading:    number | null;
+  timestamp:  string;
+}
+
+export interface BestPosition {
+  imo:      string;
+  name:     string;
+  best:     SourceFix | null;
+  bySource: SourceFix[];
+}
+
+export interface ReportedPositionInput {
+  imo:        string;
+  lat:        number;
+  lng:        number;
+  speedKt?:   number | null;
+  heading?:   number | null;
+  course?:    number | null;
+  timestamp?: string;
+  source?:    string;   // 'manual' (default) | 'noon_report'
+}
+
+// ── Defaults ──────────────────────────────────────────────────────────────────
+
+export const MANUAL_SOURCES = ['manual', 'noon_report'];
+
+const DEFAULT_CONFIG: FusionConfig = {
+  sources: [
+    { source: 'ais_terrestrial', priority: 1, maxAgeMinutes: 30 },
+    { source: 'ais_satellite',   priority: 2, maxAgeMinutes: 6 * 60 },
+    { source: 'ais_replay',      priority: 1, maxAgeMinutes: 30 },
+    { source: 'manual',          priority: 3, maxAgeMinutes: 24 * 60 },
+    { source: 'noon_report',     priority: 4, maxAgeMinutes: 36 * 60 },
+  ],
+  preferWindowMinutes: 15,
+  dedupSeconds:        120,
+  dedupNm:             0.25,
+  updatedBy:           'system',
+  updatedAt:           new Date(0).toISOString(),
+};
+
+const UNKNOWN_SOURCE: Omit<SourceRule, 'source'> = { priority: 99, maxAgeMinutes: 60 };
+
+// ── State ─────────────────────────────────────────────────────────────────────
+
+const FUSION_DIR  = '/root/.ankr/state/mari8x-ais-sources';
+const FUSION_FILE = path.join(FUSION_DIR, 'fusion.json');
+
+let cached: FusionConfig | null = null;
+
+function ensureDir() {
+  if (!fs.existsSync(FUSION_DIR)) fs.mkdirSync(FUSION_DIR, { recursive: true });
+}
+
+export function getFusionConfig(): FusionConfig {
+  if (cached) return cached;
+  ensureDir();
+  try {
+    cached = fs.existsSync(FUSION_FILE)
+      ? { ...DEFAULT_CONFIG, ...JSON.parse(fs.readFileSync(FUSION_FILE, 'utf-8')) }
+      : DEFAULT_CONFIG;
+  } catch {
+    cached = DEFAULT_CONFIG;
+  }
+  return cached!;
+}
+
+/**
+ * Update the fusion rules. `sources` replaces the whole list when given.
+ */
+export function setFusionConfig(input: FusionConfigInput): FusionConfig {
+  const base = getFusionConfig();
+  const next: FusionConfig = {
+    sources:             input.sources ?? base.sources,
+    preferWindowMinutes: input.preferWindowMinutes ?? base.preferWindowMinutes,
+    dedupSeconds:        input.dedupSeconds ?? base.dedupSeconds,
+    dedupNm:             input.dedupNm ?? base.dedupNm,
+    updatedBy:           input.updatedBy ?? 'system',
+    updatedAt:           new Date().toISOString(),
+  };
+
+  for (const r of next.sources) {
+    if (!r.source) throw new Error('each source rule needs a source name');
+    if (!(r.priority >= 1))      throw new Error(`priority for ${r.source} must be >= 1`);
+    if (!(r.maxAgeMinutes > 0))  throw new Error(`maxAgeMinutes for ${r.source} must be positive`);
+  }
+  if (new Set(next.sources.map(r => r.source)).size !== next.sources.length) {
+    throw new Error('duplicate source in rules');
+  }
+  if (next.preferWindowMinutes < 0 || next.dedupSeconds < 0 || next.dedupNm < 0) {
+    throw new Error('windows and tolerances must be non-negative');
+  }
+
+  ensureDir();
+  fs.writeFileSync(FUSION_FILE, JSON.stringify(next, null, 2));
+  cached = next;
+  return next;
+}
+
+function ruleFor(config: FusionConfig, source: string): SourceRule {
+  return config.sources.find(r => r.source === source) ?? { source, ...UNKNOWN_SOURCE };
+}
+
+// ── Fusion rules ──────────────────────────────────────────────────────────────
+
+/**
+ * Best current fix among one vessel's rows (any order).
+ */
+export function pickBest<L extends FixRow[]>(rows: L, now: number = clockNow()): L[number] | null {
+  type T = L[number];
+  if (rows.length === 0) return null;
+  const config = getFusionConfig();
+
+  // Latest fix per source
+  const latest = new Map<string, T>();
+  for (const r of rows) {
+    const prev = latest.get(r.source);
+    if (!prev || r.timestamp > prev.timestamp) latest.set(r.source, r);
+  }
+
+  const all     = [...latest.values()];
+  const current = all.filter(r => now - r.timestamp.getTime() <= ruleFor(config, r.source).maxAgeMinutes * 60_000);
+  if (current.length === 0) {
+    return all.reduce((a, b) => (b.timestamp > a.timestamp ? b : a));
+  }
+
+  const freshest = Math.max(...current.map(r => r.timestamp.getTime()));
+  const cutoff   = freshest - config.preferWindowMinutes * 60_000;
+  return current
+    .filter(r => r.timestamp.getTime() >= cutoff)
+    .sort((a, b) => ruleFor(config, a.source).priority - ruleFor(config, b.source).priority)[0];
+}
+
+/**
+ * Best current fix per vessel from a mixed list of rows (e.g. a
+ * "last N hours" query). Replaces the old newest-row-per-vessel dedupe.
+ */
+export function selectBestPerVessel<L extends FixRow[]>(rows: L, now: number = clockNow()): L[number][] {
+  type T = L[number];
+  const byVessel = new Map<string, T[]>();
+  for (const r of rows) {
+    if (!byVessel.has(r.vesselId)) byVessel.set(r.vesselId, []);
+    byVessel.get(r.vesselId)!.push(r);
+  }
+  const best: T[] = [];
+  for (const list of byVessel.values()) {
+    const b = pickBest(list, now);
+    if (b) best.push(b);
+  }
+  return best;
+}
+
+/**
+ * Merge one vessel's rows from several sources into a single track in time
+ * order, collapsing near-identical fixes onto the higher-priority source.
+ */
+export function fuseTrack<L extends FixRow[]>(rows: L): L[number][] {
+  type T = L[number];
+  const config = getFusionConfig();
+  const sorted = [...rows].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const out: T[] = [];
+
+  for (const r of sorted) {
+    const prev = out[out.length - 1];
+    if (prev && prev.source !== r.source &&
+        r.timestamp.getTime() - prev.timestamp.getTime() <= config.dedupSeconds * 1000 &&
+        haversineDistance(prev.latitude, prev.longitude, r.latitude, r.longitude) <= config.dedupNm) {
+      if (ruleFor(config, r.source).priority < ruleFor(config, prev.source).priority) {
+        out[out.length - 1] = r;
+      }
+      continue;
+    }
+    out.push(r);
+  }
+  return out;
+}
+
+// ── Queries ───────────────────────────────────────────────────────────────────
+
+/**
+ * Best current position of a vessel plus the latest fix from every source
+ * seen in the last 48 hours.
+ */
+export async function getBestPosition(imo: string): Promise<BestPosition | null> {
+  const vessel = await prisma.vessel.findFirst({ where: { imo } });
+  if (!vessel) return null;
+
+  const rows: Array<FixRow & { speed: number | null; heading: number | null }> =
+    await prisma.vesselPosition.findMany({
+      where:   { vesselId: vessel.id, quality: 'ok', ...fixWindow(clockNow() - 48 * 3600_000) },
+      orderBy: { timestamp: 'desc' },
+      take:    500,
+    });
+
+  const config = getFusionConfig();
+  const now    = clockNow();
+  const toFix  = (r: (typeof rows)[number]): SourceFix => {
+    const rule = ruleFor(config, r.source);
+    const age  = (now - r.timestamp.getTime()) / 60_000;
+    return {
+      source:     r.source,
+      priority:   rule.priority,
+      current:    age <= rule.maxAgeMinutes,
+      ageMinutes: Math.round(age),
+      lat:        r.latitude,
+      lng:        r.longitude,
+      speedKt:    r.speed,
+      heading:    r.heading,
+      timestamp:  r.timestamp.toISOString(),
+    };
+  };
+
+  const latest = new Map<string, (typeof rows)[number]>();
+  for (const r of rows) if (!latest.has(r.source)) latest.set(r.source, r);   // rows are newest first
+  const bySource = [...latest.values()].map(toFix);
+  const best     = pickBest(rows, now);
+
+  return {
+    imo:      vessel.imo,
+    name:     vessel.name,
+    best:     best ? toFix(best) : null,
+    bySource: bySource.sort((a, b) => a.priority - b.priority),
+  };
+}
+
+/**
+ * Store a position reported outside AIS (agent entry, noon report). It goes
+ * through the same quality check as AIS fixes, judged against the vessel's
+ * latest good fix at or before it from any source (reports are sparse and
+ * often entered late). Null-island and duplicate reports are rejected;
+ * other flagged reports are stored with their flag.
+ */
+export async function recordReportedPosition(input: ReportedPositionInput) {
+  const source = input.source ?? 'manual';
+  if (!MANUAL_SOURCES.includes(source)) {
+    throw new Error(`source must be one of ${MANUAL_SOURCES.join(', ')}`);
+  }
+  if (typeof input.lat !== 'number' || typeof input.lng !== 'number' ||
+      Math.abs(input.lat) > 90 || Math.abs(input.lng) > 180) {
+    throw new Error('lat / lng out of range');
+  }
+  const ts = input.timestamp ? new Date(input.timestamp) : clockDate();
+  if (isNaN(ts.getTime())) throw new Error('timestamp must be an ISO timestamp');
+
+  const vessel = await prisma.vessel.findFirst({ where: { imo: input.imo } });
+  if (!vessel) throw new Error(`Vessel IMO ${input.imo} not found`);
+
+  const prev = await prisma.vesselPosition.findFirst({
+    where:   { vesselId: vessel.id, quality: 'ok', timestamp: { lte: ts } },
+    orderBy: { timestamp: 'desc' },
+  });
+  const check = assessFix(
+    { lat: input.lat, lng: input.lng, sogKt: input.speedKt ?? null, ts: ts.getTime() },
+    prev ? { lat: prev.latitude, lng: prev.longitude, sogKt: prev.speed, ts: prev.timestamp.getTime() } : null,
+    maxSpeedFor(vessel.type),
+  );
+  if (check.drop) throw new Error(`Position rejected: ${check.quality}`);
+
+  return prisma.vesselPosition.create({
+    data: {
+      vesselId:  vessel.id,
+      latitude:  input.lat,
+      longitude: input.lng,
+      speed:     input.speedKt ?? null,
+      heading:   input.heading ?? null,
+      course:    input.course ?? null,
+      timestamp: ts,
+      source,
+      quality:   check.quality,
+    },
+  });
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('fs', () => import('../test/mem-fs.js'));
+vi.mock('../lib/prisma.js', () => ({ prisma: {} }));
+
+import { files } from '../test/mem-fs.js';
+import { detectGaps, type GapOptions, type GapPort } from './gaps.js';
+
+const T0     = Date.parse('2026-10-01T00:00:00Z');
+const vessel = { imo: '9000001', name: 'MV TEST' };
+const opts: GapOptions = { voyageThresholdHours: 6, portThresholdHours: 2, portRadiusNm: 30 };
+const ports: GapPort[] = [{ unlocode: 'SGSIN', name: 'Singapore', lat: 1.25, lng: 103.8 }];
+
+/** Fix `hours` after T0, `nm` north of `lat` on 103.8°E. */
+const fix = (hours: number, lat: number, nm = 0) => ({
+  vesselId: 'v1', source: 'ais_terrestrial', latitude: lat + nm / 60, longitude: 103.8,
+  timestamp: new Date(T0 + hours * 3600_000), speed: 12, navigationStatus: 0,
+});
+
+const atSea  = (hours: number, nm = 0) => fix(hours, 10, nm);     // far from any port
+const inPort = (hours: number) => fix(hours, 1.25, 5);
+
+beforeEach(() => files.clear());
+
+describe('detectGaps', () => {
+  it('reports a silence longer than the voyage threshold, with the implied run', () => {
+    const gaps = detectGaps(vessel, [atSea(0), atSea(1), atSea(9, 96)], ports, opts, T0 + 10 * 3600_000);
+    expect(gaps).toHaveLength(1);
+    expect(gaps[0]).toMatchObject({ context: 'voyage', nearPort: null, ongoing: false, durationHours: 8 });
+    expect(gaps[0].impliedDistanceNm).toBeCloseTo(96, 0);
+    expect(gaps[0].impliedSpeedKt).toBeCloseTo(12, 0);
+  });
+
+  it('uses the shorter threshold near a port', () => {
+    const gaps = detectGaps(vessel, [inPort(0), inPort(3)], ports, opts, T0 + 4 * 3600_000);
+    expect(gaps).toHaveLength(1);
+    expect(gaps[0]).toMatchObject({ context: 'port', nearPort: { unlocode: 'SGSIN', distanceNm: 5 }, durationHours: 3 });
+  });
+
+  it('reports a vessel still silent as an ongoing gap', () => {
+    const gaps = detectGaps(vessel, [atSea(1), atSea(0)], ports, opts, T0 + 12 * 3600_000);
+    expect(gaps).toEqual([expect.objectContaining({
+      ongoing: true, reappeared: null, durationHours: 11, impliedDistanceNm: null, impliedSpeedKt: null,
+    })]);
+  });
+
+  it('finds nothing in a track with regular fixes', () => {
+    expect(detectGaps(vessel, [atSea(0), atSea(4), atSea(8)], ports, opts, T0 + 9 * 3600_000)).toEqual([]);
+    expect(detectGaps(vessel, [], ports, opts, T0)).toEqual([]);
+  });
+});
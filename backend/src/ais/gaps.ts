@@ -0,0 +1,241 @@
+/**
+ * Mari8X AIS Gap Detection
+ *
+ * Finds periods where a vessel stopped transmitting ("went dark"). Gaps are
+ * measured on the fused track (see fusion.ts), so a terrestrial gap that a
+ * satellite or manual fix fills is not a gap.
+ *
+ * A gap opens when the time between two consecutive fixes exceeds the
+ * threshold for where the vessel was at its last fix:
+ *   port    — within portRadiusNm of a port (default 2 h; Class A ships at
+ *             anchor report every 3 min, so hours of silence stand out)
+ *   voyage  — anywhere else (default 6 h; satellite coverage is patchy)
+ * and closes when the vessel reappears. A vessel still silent at the clock's
+ * "now" has an ongoing gap (reappeared = null).
+ *
+ * For each gap: last fix, reappearance fix, duration, the straight-line
+ * distance between the two and the speed that implies.
+ *
+ * Environment: AIS_GAP_HOURS, AIS_GAP_PORT_HOURS, AIS_GAP_PORT_RADIUS_NM
+ *
+ * © 2026 ANKR Labs — Mari8X Community Edition
+ */
+
+import { prisma } from '../lib/prisma.js';
+import { haversineDistance } from '../lib/geo-utils.js';
+import { clockNow, fixWindow } from '../lib/clock.js';
+import { fuseTrack, type FixRow } from './fusion.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface GapOptions {
+  voyageThresholdHours: number;
+  portThresholdHours:   number;
+  portRadiusNm:         number;
+}
+
+export interface GapFix {
+  ts:        string;
+  lat:       number;
+  lng:       number;
+  speedKt:   number | null;
+  navStatus: number | null;
+  source:    string;
+}
+
+export interface GapEvent {
+  imo:               string;
+  name:              string;
+  context:           'port' | 'voyage';
+  nearPort:          { unlocode: string; name: string; distanceNm: number } | null;
+  lastFix:           GapFix;
+  reappeared:        GapFix | null;
+  ongoing:           boolean;
+  durationHours:     number;
+  impliedDistanceNm: number | null;
+  impliedSpeedKt:    number | null;
+}
+
+export interface GapPort {
+  unlocode: string;
+  name:     string;
+  lat:      number;
+  lng:      number;
+}
+
+type GapRow = FixRow & { speed: number | null; navigationStatus: number | null };
+
+// ── Config ────────────────────────────────────────────────────────────────────
+
+export const DEFAULT_GAP_OPTIONS: GapOptions = {
+  voyageThresholdHours: parseFloat(process.env.AIS_GAP_HOURS ?? '6'),
+  portThresholdHours:   parseFloat(process.env.AIS_GAP_PORT_HOURS ?? '2'),
+  portRadiusNm:         parseFloat(process.env.AIS_GAP_PORT_RADIUS_NM ?? '30'),
+};
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+function toGapFix(r: GapRow): GapFix {
+  return {
+    ts:        r.timestamp.toISOString(),
+    lat:       r.latitude,
+    lng:       r.longitude,
+    speedKt:   r.speed,
+    navStatus: r.navigationStatus,
+    source:    r.source,
+  };
+}
+
+function nearestPort(lat: number, lng: number, ports: GapPort[], radiusNm: number): GapEvent['nearPort'] {
+  let best: GapEvent['nearPort'] = null;
+  for (const p of ports) {
+    const d = haversineDistance(lat, lng, p.lat, p.lng);
+    if (d <= radiusNm && (!best || d < best.distanceNm)) {
+      best = { unlocode: p.unlocode, name: p.name, distanceNm: round1(d) };
+    }
+  }
+  return best;
+}
+
+async function loadPorts(): Promise<GapPort[]> {
+  const rows = await prisma.port.findMany({
+    where:  { lat: { not: null }, lng: { not: null } },
+    select: { unlocode: true, name: true, lat: true, lng: true },
+  });
+  return rows.map((p: any) => ({ unlocode: p.unlocode, name: p.name, lat: p.lat, lng: p.lng }));
+}
+
+// ── Detection ─────────────────────────────────────────────────────────────────
+
+/**
+ * Gaps in one vessel's track (rows in any order, any sources).
+ */
+export function detectGaps(
+  vessel: { imo: string; name: string },
+  rows:   GapRow[],
+  ports:  GapPort[],
+  opts:   GapOptions = DEFAULT_GAP_OPTIONS,
+  now:    number = clockNow(),
+): GapEvent[] {
+  const track = fuseTrack(rows);
+  const gaps: GapEvent[] = [];
+
+  const open = (from: GapRow, to: GapRow | null) => {
+    const endMs    = to ? to.timestamp.getTime() : now;
+    const hours    = (endMs - from.timestamp.getTime()) / 3600_000;
+    const nearPort = nearestPort(from.latitude, from.longitude, ports, opts.portRadiusNm);
+    const limit    = nearPort ? opts.portThresholdHours : opts.voyageThresholdHours;
+    if (hours <= limit) return;
+
+    const nm = to ? haversineDistance(from.latitude, from.longitude, to.latitude, to.longitude) : null;
+    gaps.push({
+      imo:               vessel.imo,
+      name:              vessel.name,
+      context:           nearPort ? 'port' : 'voyage',
+      nearPort,
+      lastFix:           toGapFix(from),
+      reappeared:        to ? toGapFix(to) : null,
+      ongoing:           !to,
+      durationHours:     round1(hours),
+      impliedDistanceNm: nm == null ? null : round1(nm),
+      impliedSpeedKt:    nm == null ? null : round1(nm / hours),
+    });
+  };
+
+  for (let i = 1; i < track.length; i++) open(track[i - 1], track[i]);
+  if (track.length > 0) open(track[track.length - 1], null);
+  return gaps;
+}
+
+// ── Queries ───────────────────────────────────────────────────────────────────
+
+/**
+ * Gaps for one vessel over the last `days` days, newest first.
+ */
+export async function getVesselGaps(
+  imo:  string,
+  days = 7,
+  opts: GapOptions = DEFAULT_GAP_OPTIONS,
+): Promise<GapEvent[] | null> {
+  const vessel = await prisma.vessel.findFirst({ where: { imo } });
+  if (!vessel) return null;
+
+  const since = new Date(clockNow() - days * 86_400_000);
+  const rows: GapRow[] = await prisma.vesselPosition.findMany({
+    where:   { vesselId: vessel.id, quality: 'ok', ...fixWindow(since) },
+    orderBy: { timestamp: 'desc' },   // newest kept when capped, else a false open gap
+    select:  {
+      vesselId: true, latitude: true, longitude: true, timestamp: true,
+      source: true, speed: true, navigationStatus: true,
+    },
+    take:    20_000,
+  });
+  rows.reverse();
+
+  const gaps = detectGaps(vessel, rows, await loadPorts(), opts);
+  return gaps.reverse();
+}
+
+/**
+ * Vessels whose last fix was within the port radius and that have been
+ * silent longer than the port threshold — the ongoing port gaps. Only
+ * vessels seen in the last `lookbackHours` are considered.
+ */
+export async function findDarkVesselsNearPort(
+  unlocode:      string,
+  lookbackHours = 48,
+  opts:          GapOptions = DEFAULT_GAP_OPTIONS,
+): Promise<GapEvent[]> {
+  const port = await prisma.port.findFirst({ where: { unlocode: unlocode.toUpperCase() } });
+  if (!port || port.lat == null || port.lng == null) return [];
+
+  const now   = clockNow();
+  const dLat  = opts.portRadiusNm / 60;
+  const dLng  = dLat / Math.max(Math.cos(port.lat * Math.PI / 180), 0.1);
+  const rows: GapRow[] = await prisma.vesselPosition.findMany({
+    where: {
+      quality:   'ok',
+      ...fixWindow(now - lookbackHours * 3600_000, now),
+      latitude:  { gte: port.lat - dLat, lte: port.lat + dLat },
+      longitude: { gte: port.lng - dLng, lte: port.lng + dLng },
+    },
+    orderBy: { timestamp: 'desc' },
+    select:  {
+      vesselId: true, latitude: true, longitude: true, timestamp: true,
+      source: true, speed: true, navigationStatus: true,
+    },
+    take: 20_000,
+  });
+
+  // Latest in-area fix per vessel, silent beyond the port threshold
+  const lastInArea = new Map<string, GapRow>();
+  for (const r of rows) if (!lastInArea.has(r.vesselId)) lastInArea.set(r.vesselId, r);
+  const cutoff     = now - opts.portThresholdHours * 3600_000;
+  const candidates = [...lastInArea.values()].filter(r =>
+    r.timestamp.getTime() < cutoff &&
+    haversineDistance(port.lat, port.lng, r.latitude, r.longitude) <= opts.portRadiusNm);
+  if (candidates.length === 0) return [];
+
+  // ...and not heard from anywhere else since
+  const latest: Array<{ vesselId: string; _max: { timestamp: Date | null } }> =
+    await prisma.vesselPosition.groupBy({
+      by:    ['vesselId'],
+      where: { vesselId: { in: candidates.map(r => r.vesselId) }, quality: 'ok', timestamp: { lte: new Date(now) } },
+      _max:  { timestamp: true },
+    });
+  const latestBy = new Map(latest.map(l => [l.vesselId, l._max.timestamp?.getTime() ?? 0]));
+  const dark     = candidates.filter(r => (latestBy.get(r.vesselId) ?? 0) <= r.timestamp.getTime());
+  if (dark.length === 0) return [];
+
+  const vessels: Array<{ id: string; imo: string; name: string }> = await prisma.vessel.findMany({
+    where:  { id: { in: dark.map(r => r.vesselId) } },
+    select: { id: true, imo: true, name: true },
+  });
+  const byId  = new Map(vessels.map(v => [v.id, v]));
+  const ports = [{ unlocode: port.unlocode, name: port.name, lat: port.lat, lng: port.lng }];
+
+  return dark
+    .filter(r => byId.has(r.vesselId))
+    .flatMap(r => detectGaps(byId.get(r.vesselId)!, [r], ports, opts, now))
+    .sort((a, b) => b.durationHours - a.durationHours);
+}
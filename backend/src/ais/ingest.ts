@@ -0,0 +1,309 @@
+/**
+ * Mari8X AIS Ingestion
+ *
+ * Turns decoded AIS messages into Vessel / VesselPosition rows, keyed by MMSI.
+ *
+ *   Position reports (1/2/3/18) → quality check (quality.ts) → VesselPosition insert
+ *     - null-island and duplicate fixes are dropped; stale / future /
+ *       impossible-speed fixes are stored with their quality flag
+ *     - good fixes are throttled per vessel (AIS_MIN_POSITION_INTERVAL_S,
+ *       default 30s) unless the navigation status changed
+ *   Static data (5/24)          → Vessel update (name, type, IMO, callsign,
+ *                                 dimensions; type 5 also draught, destination
+ *                                 normalised to UNLOCODE, and reported ETA)
+ *
+ * A vessel first seen via a position report is created with a placeholder
+ * IMO "MMSI<mmsi>". When a type 5 message later supplies the real IMO, the
+ * placeholder is renamed — or, if a vessel with that IMO already exists
+ * (e.g. seeded or registered), the placeholder's positions are merged into
+ * it and the placeholder is removed.
+ *
+ * All writes go through one serial queue so concurrent feeds cannot race to
+ * create the same vessel.
+ *
+ * © 2026 ANKR Labs — Mari8X Community Edition
+ */
+
+import { prisma } from '../lib/prisma.js';
+import {
+  createNmeaDecoder, shipTypeLabel, aisEtaToDate,
+  type AisMessage, type AisPositionReport, type AisStaticData,
+} from './nmea.js';
+import { normalizeDestination } from './destination.js';
+import { assessFix, maxSpeedFor, type FixQuality, type QualityFix, type TeleportRun } from './quality.js';
+import { ingestNow } from '../lib/clock.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface IngestStats {
+  startedAt:          string;
+  lines:              number;
+  decoded:            number;
+  positionsWritten:   number;
+  positionsThrottled: number;
+  staticUpdates:      number;
+  vesselsCreated:     number;
+  vesselsMerged:      number;
+  dropped:            number;   // queue overflow
+  errors:             number;
+  lastMessageAt:      string | null;
+  lastError:          string | null;
+  bySource:           Record<string, number>;
+  quality:            Record<FixQuality, number>;
+}
+
+// ── Config ────────────────────────────────────────────────────────────────────
+
+export const PLACEHOLDER_IMO_PREFIX = 'MMSI';
+
+const MIN_POSITION_INTERVAL_MS = parseInt(process.env.AIS_MIN_POSITION_INTERVAL_S ?? '30', 10) * 1000;
+const MAX_PENDING              = 5_000;
+const AIS_ORG_ID               = process.env.AIS_ORGANIZATION_ID ?? 'ais-ingest';
+
+// ── State ─────────────────────────────────────────────────────────────────────
+
+const stats: IngestStats = {
+  startedAt:          new Date().toISOString(),
+  lines:              0,
+  decoded:            0,
+  positionsWritten:   0,
+  positionsThrottled: 0,
+  staticUpdates:      0,
+  vesselsCreated:     0,
+  vesselsMerged:      0,
+  dropped:            0,
+  errors:             0,
+  lastMessageAt:      null,
+  lastError:          null,
+  bySource:           {},
+  quality:            { ok: 0, null_island: 0, duplicate: 0, stale: 0, future: 0, speed: 0 },
+};
+
+const decoders    = new Map<string, ReturnType<typeof createNmeaDecoder>>();   // per source
+const vessels      = new Map<string, { id: string; type: string }>();            // mmsi → vessel
+const lastWritten  = new Map<string, { ts: number; navStatus: number | null }>();
+const lastAccepted = new Map<string, QualityFix | null>();                      // `${mmsi}:${source}` → latest good fix
+const teleports    = new Map<string, TeleportRun>();                             // `${mmsi}:${source}` → agreeing rejected fixes
+
+let queue   = Promise.resolve();
+let pending = 0;
+let orgReady: Promise<void> | null = null;
+
+function ensureOrganization(): Promise<void> {
+  if (orgReady) return orgReady;
+  const ready = prisma.organization.upsert({
+    where:  { id: AIS_ORG_ID },
+    update: {},
+    create: { id: AIS_ORG_ID, name: 'AIS Ingest' },
+  }).then(() => undefined);
+  ready.catch(() => { orgReady = null; });   // retry on next call
+  orgReady = ready;
+  return ready;
+}
+
+function serial<T>(fn: () => Promise<T>): Promise<T | null> {
+  if (pending >= MAX_PENDING) {
+    stats.dropped++;
+    return Promise.resolve(null);
+  }
+  pending++;
+  const run = queue.then(fn).catch((e: Error) => {
+    stats.errors++;
+    stats.lastError = e.message;
+    return null;
+  }).finally(() => { pending--; });
+  queue = run.then(() => undefined);
+  return run;
+}
+
+// ── Vessel resolution ─────────────────────────────────────────────────────────
+
+export function isPlaceholderImo(imo: string): boolean {
+  return imo.startsWith(PLACEHOLDER_IMO_PREFIX);
+}
+
+async function findOrCreateVessel(mmsi: string, name: string | null): Promise<{ id: string; imo: string; type: string }> {
+  const existing = await prisma.vessel.findUnique({ where: { mmsi } });
+  if (existing) {
+    vessels.set(mmsi, { id: existing.id, type: existing.type });
+    return existing;
+  }
+
+  await ensureOrganization();
+  const created = await prisma.vessel.create({
+    data: {
+      imo:            `${PLACEHOLDER_IMO_PREFIX}${mmsi}`,
+      name:           name ?? `MMSI ${mmsi}`,
+      type:           'Unknown',
+      flag:           'Unknown',
+      mmsi,
+      organizationId: AIS_ORG_ID,
+    },
+  });
+  stats.vesselsCreated++;
+  vessels.set(mmsi, { id: created.id, type: created.type });
+  return created;
+}
+
+async function vesselFor(mmsi: string): Promise<{ id: string; type: string }> {
+  return vessels.get(mmsi) ?? await findOrCreateVessel(mmsi, null);
+}
+
+/**
+ * Previous good fix from the same source — from memory, else the latest
+ * stored 'ok' position. Per source, so a delayed satellite fix is not
+ * judged against a fresher terrestrial one.
+ */
+async function previousFix(key: string, vesselId: string, source: string): Promise<QualityFix | null> {
+  if (lastAccepted.has(key)) return lastAccepted.get(key)!;
+  const row = await prisma.vesselPosition.findFirst({
+    where:   { vesselId, source, quality: 'ok' },
+    orderBy: { timestamp: 'desc' },
+  });
+  const fix = row
+    ? { lat: row.latitude, lng: row.longitude, sogKt: row.speed, ts: row.timestamp.getTime() }
+    : null;
+  lastAccepted.set(key, fix);
+  return fix;
+}
+
+// ── Writers ───────────────────────────────────────────────────────────────────
+
+async function writePosition(msg: AisPositionReport, source: string, at: Date): Promise<void> {
+  const vessel = await vesselFor(msg.mmsi);
+  const fix    = { lat: msg.lat, lng: msg.lng, sogKt: msg.sogKt, ts: at.getTime() };
+  const key    = `${msg.mmsi}:${source}`;
+  const check  = assessFix(
+    fix, await previousFix(key, vessel.id, source), maxSpeedFor(vessel.type), ingestNow(source), teleports.get(key) ?? null,
+  );
+  if (check.run) teleports.set(key, check.run);
+  else           teleports.delete(key);
+  stats.quality[check.quality]++;
+  if (check.drop) return;
+
+  if (check.quality === 'ok') {
+    lastAccepted.set(key, fix);
+    const prev = lastWritten.get(key);
+    if (prev && fix.ts - prev.ts < MIN_POSITION_INTERVAL_MS && prev.navStatus === msg.navStatus) {
+      stats.positionsThrottled++;
+      return;
+    }
+  }
+
+  await prisma.vesselPosition.create({
+    data: {
+      vesselId:         vessel.id,
+      latitude:         msg.lat,
+      longitude:        msg.lng,
+      speed:            msg.sogKt,
+      course:           msg.cogDeg,
+      heading:          msg.headingDeg,
+      navigationStatus: msg.navStatus,
+      timestamp:        at,
+      source,
+      quality:          check.quality,
+    },
+  });
+  if (check.quality === 'ok') lastWritten.set(key, { ts: fix.ts, navStatus: msg.navStatus });
+  stats.positionsWritten++;
+}
+
+async function writeStatic(msg: AisStaticData, at: Date): Promise<void> {
+  const vessel = await findOrCreateVessel(msg.mmsi, msg.name);
+
+  const data: Record<string, unknown> = {};
+  if (msg.name)             data.name = msg.name;
+  if (msg.callsign)         data.callsign = msg.callsign;
+  if (msg.shipType != null) { data.type = shipTypeLabel(msg.shipType); data.shipType = msg.shipType; }
+  if (msg.lengthM != null)  data.lengthM = msg.lengthM;
+  if (msg.beamM   != null)  data.beamM   = msg.beamM;
+
+  // Voyage data — only type 5 carries it; blank fields clear stale values
+  if (msg.msgType === 5) {
+    data.draught             = msg.draughtM;
+    data.destination         = msg.destination;
+    data.destinationUnlocode = await normalizeDestination(msg.destination);
+    data.reportedEta         = msg.eta ? aisEtaToDate(msg.eta, at) : null;
+    data.voyageDataAt        = at;
+  }
+
+  if (msg.imo && isPlaceholderImo(vessel.imo)) {
+    const owner = await prisma.vessel.findUnique({ where: { imo: msg.imo } });
+    if (owner && owner.id !== vessel.id) {
+      // Known vessel (seeded / re-flagged) — fold the placeholder into it
+      await prisma.$transaction([
+        prisma.vesselPosition.updateMany({ where: { vesselId: vessel.id }, data: { vesselId: owner.id } }),
+        prisma.vessel.delete({ where: { id: vessel.id } }),
+        prisma.vessel.update({ where: { id: owner.id }, data: { ...data, mmsi: msg.mmsi } }),
+      ]);
+      if (owner.mmsi) vessels.delete(owner.mmsi);
+      vessels.set(msg.mmsi, { id: owner.id, type: (data.type as string | undefined) ?? owner.type });
+      stats.vesselsMerged++;
+      stats.staticUpdates++;
+      return;
+    }
+    data.imo = msg.imo;
+  }
+
+  if (Object.keys(data).length === 0) return;
+  await prisma.vessel.update({ where: { id: vessel.id }, data });
+  if (data.type) vessels.set(msg.mmsi, { id: vessel.id, type: data.type as string });
+  stats.staticUpdates++;
+}
+
+// ── Public API ────────────────────────────────────────────────────────────────
+
+/**
+ * Store one decoded AIS message. `receivedAt` defaults to now.
+ */
+export function ingestMessage(
+  msg: AisMessage,
+  opts: { source?: string; receivedAt?: Date | null } = {},
+): Promise<void | null> {
+  const source = opts.source ?? 'ais_terrestrial';
+  const at     = opts.receivedAt ?? new Date(ingestNow(source));
+
+  stats.decoded++;
+  stats.lastMessageAt = at.toISOString();
+  stats.bySource[source] = (stats.bySource[source] ?? 0) + 1;
+
+  return serial(() => msg.kind === 'position'
+    ? writePosition(msg, source, at)
+    : writeStatic(msg, at));
+}
+
+/**
+ * Feed one raw NMEA line. Multi-part sentences are assembled per source.
+ * Resolves once the resulting message (if any) has been written.
+ */
+export async function ingestNmeaLine(line: string, source = 'ais_terrestrial'): Promise<AisMessage | null> {
+  if (!line.trim()) return null;
+  stats.lines++;
+
+  let decode = decoders.get(source);
+  if (!decode) {
+    decode = createNmeaDecoder();
+    decoders.set(source, decode);
+  }
+
+  const out = decode(line);
+  if (!out) return null;
+  await ingestMessage(out.message, { source, receivedAt: out.receivedAt });
+  return out.message;
+}
+
+/**
+ * Forget per-source decoder, quality and throttle state — used before a
+ * replay re-runs a recording that was already ingested under `source`.
+ */
+export function resetSourceState(source: string): void {
+  decoders.delete(source);
+  for (const key of [...lastAccepted.keys()]) if (key.endsWith(`:${source}`)) lastAccepted.delete(key);
+  for (const key of [...lastWritten.keys()])  if (key.endsWith(`:${source}`)) lastWritten.delete(key);
+  for (const key of [...teleports.keys()])    if (key.endsWith(`:${source}`)) teleports.delete(key);
+}
+
+/** Running counters since process start. */
+export function getIngestStats(): IngestStats & { pending: number; knownVessels: number } {
+  return { ...stats, bySource: { ...stats.bySource }, quality: { ...stats.quality }, pending, knownVessels: vessels.size };
+}
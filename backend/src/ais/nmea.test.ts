@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { parseSentence, createAssembler, createNmeaDecoder, decodePayload, aisEtaToDate } from './nmea.js';
+
+// Reference sentences (gpsd / ITU-R M.1371 samples)
+const TYPE_1   = '!AIVDM,1,1,,B,177KQJ5000G?tO`K>RA1wUbN0TKH,0*5C';
+const TYPE_5_1 = '!AIVDM,2,1,1,A,55?MbV02;H;s<HtKR20EHE:0@T4@Dn2222222216L961O5Gf0NSQEp6ClRp8,0*1C';
+const TYPE_5_2 = '!AIVDM,2,2,1,A,88888888880,2*25';
+
+describe('parseSentence', () => {
+  it('reads the envelope of a single-part sentence', () => {
+    expect(parseSentence(TYPE_1)).toEqual({
+      talker:         'AIVDM',
+      fragmentCount:  1,
+      fragmentNumber: 1,
+      sequenceId:     '',
+      channel:        'B',
+      payload:        '177KQJ5000G?tO`K>RA1wUbN0TKH',
+      fillBits:       0,
+      receivedAt:     null,
+    });
+  });
+
+  it('takes the receive time from a tag block', () => {
+    const frag = parseSentence(`\\c:1700000000,s:rx1*5A\\${TYPE_1}`);
+    expect(frag?.receivedAt?.toISOString()).toBe('2023-11-14T22:13:20.000Z');
+  });
+
+  it('rejects a bad checksum and non-AIS lines', () => {
+    expect(parseSentence(TYPE_1.replace('*5C', '*5D'))).toBeNull();
+    expect(parseSentence('$GPGGA,123519,4807.038,N,01131.000,E,1,08,0.9,545.4,M,46.9,M,,*47')).toBeNull();
+    expect(parseSentence('')).toBeNull();
+  });
+});
+
+describe('createAssembler', () => {
+  it('joins the parts of a multi-part message', () => {
+    const assemble = createAssembler();
+    expect(assemble(parseSentence(TYPE_5_1)!)).toBeNull();
+    const full = assemble(parseSentence(TYPE_5_2)!);
+    expect(full?.fillBits).toBe(2);
+    expect(full?.payload.endsWith('88888888880')).toBe(true);
+  });
+});
+
+describe('decodePayload', () => {
+  it('decodes a class A position report', () => {
+    const msg = createNmeaDecoder()(TYPE_1)?.message;
+    expect(msg).toMatchObject({
+      kind: 'position', msgType: 1, mmsi: '477553000',
+      sogKt: 0, cogDeg: 51, headingDeg: 181, navStatus: 5,
+    });
+    expect(msg && 'lat' in msg && msg.lat).toBeCloseTo(47.582833, 5);
+    expect(msg && 'lng' in msg && msg.lng).toBeCloseTo(-122.345833, 5);
+  });
+
+  it('decodes static and voyage data across two sentences', () => {
+    const decode = createNmeaDecoder();
+    expect(decode(TYPE_5_1)).toBeNull();
+    expect(decode(TYPE_5_2)?.message).toEqual({
+      kind:        'static',
+      msgType:     5,
+      mmsi:        '351759000',
+      imo:         '9134270',
+      callsign:    '3FOF8',
+      name:        'EVER DIADEM',
+      shipType:    70,
+      lengthM:     295,
+      beamM:       32,
+      draughtM:    12.2,
+      destination: 'NEW YORK',
+      eta:         { month: 5, day: 15, hour: 14, minute: 0 },
+    });
+  });
+
+  it('decodes the name from a class B static report (type 24 part A)', () => {
+    expect(decodePayload('H42O55i18tMET00000000000000')).toMatchObject({
+      kind: 'static', msgType: 24, mmsi: '271041815', name: 'PROGUY', imo: null,
+    });
+  });
+
+  it('returns null for short payloads and unsupported types', () => {
+    expect(decodePayload('177KQJ')).toBeNull();
+    expect(decodePayload(`4${'0'.repeat(27)}`)).toBeNull();   // type 4, base station
+  });
+});
+
+describe('aisEtaToDate', () => {
+  const ref = new Date('2026-12-20T00:00:00Z');
+
+  it('places the ETA in the reference year', () => {
+    expect(aisEtaToDate({ month: 12, day: 24, hour: 6, minute: 30 }, ref)?.toISOString())
+      .toBe('2026-12-24T06:30:00.000Z');
+  });
+
+  it('rolls an ETA long past into next year', () => {
+    expect(aisEtaToDate({ month: 1, day: 3, hour: 0, minute: 0 }, ref)?.toISOString())
+      .toBe('2027-01-03T00:00:00.000Z');
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(aisEtaToDate({ month: 2, day: 31, hour: 0, minute: 0 }, ref)).toBeNull();
+  });
+});
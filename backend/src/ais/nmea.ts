@@ -0,0 +1,359 @@
+/**
+ * Mari8X AIS NMEA Decoder
+ *
+ * Pure decoding of AIVDM / AIVDO sentences — no I/O, no database.
+ *
+ *   parseSentence(line)       → one NMEA fragment (checksum verified)
+ *   createAssembler()         → joins multi-part sentences into one payload
+ *   decodePayload(p, fill)    → typed AIS message
+ *
+ * Supported message types:
+ *   1 / 2 / 3  Class A position report
+ *   18         Class B position report
+ *   5          Class A static & voyage data (IMO, name, type, ETA, destination)
+ *   24         Class B static data (part A: name, part B: type / callsign / size)
+ *
+ * Lines may carry an NMEA 4.0 tag block (\c:1700000000,s:rx1*hh\!AIVDM,...);
+ * the `c:` receive time is used as the message timestamp when present.
+ *
+ * © 2026 ANKR Labs — Mari8X Community Edition
+ */
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface NmeaFragment {
+  talker:         string;        // AIVDM (others) | AIVDO (own ship)
+  fragmentCount:  number;
+  fragmentNumber: number;
+  sequenceId:     string;        // '' for single-part sentences
+  channel:        string;
+  payload:        string;
+  fillBits:       number;
+  receivedAt:     Date | null;   // from tag block, if any
+}
+
+export interface AisPositionReport {
+  kind:       'position';
+  msgType:    1 | 2 | 3 | 18;
+  mmsi:       string;
+  lat:        number;
+  lng:        number;
+  sogKt:      number | null;
+  cogDeg:     number | null;
+  headingDeg: number | null;
+  navStatus:  number | null;     // Class B has no nav status
+}
+
+export interface AisEtaParts {
+  month:  number;
+  day:    number;
+  hour:   number;
+  minute: number;
+}
+
+export interface AisStaticData {
+  kind:        'static';
+  msgType:     5 | 24;
+  mmsi:        string;
+  imo:         string | null;
+  callsign:    string | null;
+  name:        string | null;
+  shipType:    number | null;
+  lengthM:     number | null;
+  beamM:       number | null;
+  draughtM:    number | null;
+  destination: string | null;
+  eta:         AisEtaParts | null;
+}
+
+export type AisMessage = AisPositionReport | AisStaticData;
+
+// ── Sentence parsing ──────────────────────────────────────────────────────────
+
+function checksumOk(body: string, expected: string): boolean {
+  let cs = 0;
+  for (let i = 0; i < body.length; i++) cs ^= body.charCodeAt(i);
+  return cs === parseInt(expected, 16);
+}
+
+/** Parse a tag block such as `c:1700000000,s:rx1*5A` → receive time. */
+function tagBlockTime(tag: string): Date | null {
+  const m = /(?:^|,)c:(\d+)/.exec(tag.split('*')[0]);
+  if (!m) return null;
+  const n = parseInt(m[1], 10);
+  return new Date(n > 1e12 ? n : n * 1000);   // seconds or milliseconds
+}
+
+/**
+ * Parse one line into an NMEA fragment.
+ * Returns null for anything that is not a valid AIVDM/AIVDO sentence.
+ */
+export function parseSentence(line: string): NmeaFragment | null {
+  let text = line.trim();
+  let receivedAt: Date | null = null;
+
+  if (text.startsWith('\\')) {
+    const end = text.indexOf('\\', 1);
+    if (end < 0) return null;
+    receivedAt = tagBlockTime(text.slice(1, end));
+    text = text.slice(end + 1);
+  }
+
+  const start = text.search(/[!$]AIVD[MO]/);
+  if (start < 0) return null;
+  text = text.slice(start);
+
+  const star = text.lastIndexOf('*');
+  if (star < 0) return null;
+  if (!checksumOk(text.slice(1, star), text.slice(star + 1, star + 3))) return null;
+
+  const f = text.slice(1, star).split(',');
+  if (f.length < 7) return null;
+
+  const fragmentCount  = parseInt(f[1], 10);
+  const fragmentNumber = parseInt(f[2], 10);
+  if (!(fragmentCount >= 1) || !(fragmentNumber >= 1) || fragmentNumber > fragmentCount) return null;
+
+  return {
+    talker:   f[0],
+    fragmentCount,
+    fragmentNumber,
+    sequenceId: f[3],
+    channel:    f[4],
+    payload:    f[5],
+    fillBits:   parseInt(f[6], 10) || 0,
+    receivedAt,
+  };
+}
+
+// ── Multi-part assembly ───────────────────────────────────────────────────────
+
+const PARTIAL_TTL_MS = 60_000;
+
+export interface AssembledPayload {
+  payload:    string;
+  fillBits:   number;
+  receivedAt: Date | null;
+}
+
+/**
+ * Returns a function that takes fragments in arrival order and yields the
+ * joined payload once every part of a message has been seen. Incomplete
+ * messages are discarded after 60s.
+ */
+export function createAssembler(): (frag: NmeaFragment) => AssembledPayload | null {
+  const partials = new Map<string, { parts: string[]; seen: number; ts: number; receivedAt: Date | null }>();
+
+  return (frag) => {
+    if (frag.fragmentCount === 1) {
+      return { payload: frag.payload, fillBits: frag.fillBits, receivedAt: frag.receivedAt };
+    }
+
+    const now = Date.now();
+    for (const [k, p] of partials) {
+      if (now - p.ts > PARTIAL_TTL_MS) partials.delete(k);
+    }
+
+    const key = `${frag.sequenceId}:${frag.channel}:${frag.fragmentCount}`;
+    let entry = partials.get(key);
+    if (!entry || frag.fragmentNumber === 1) {
+      entry = { parts: new Array(frag.fragmentCount).fill(''), seen: 0, ts: now, receivedAt: frag.receivedAt };
+      partials.set(key, entry);
+    }
+    if (!entry.parts[frag.fragmentNumber - 1]) entry.seen++;
+    entry.parts[frag.fragmentNumber - 1] = frag.payload;
+
+    if (entry.seen < frag.fragmentCount) return null;
+    partials.delete(key);
+    return { payload: entry.parts.join(''), fillBits: frag.fillBits, receivedAt: entry.receivedAt };
+  };
+}
+
+// ── Payload decoding ──────────────────────────────────────────────────────────
+
+function toBits(payload: string, fillBits: number): string {
+  let bits = '';
+  for (let i = 0; i < payload.length; i++) {
+    let v = payload.charCodeAt(i) - 48;
+    if (v > 40) v -= 8;
+    if (v < 0 || v > 63) return '';
+    bits += v.toString(2).padStart(6, '0');
+  }
+  return fillBits > 0 ? bits.slice(0, bits.length - fillBits) : bits;
+}
+
+function uint(bits: string, start: number, len: number): number {
+  const s = bits.slice(start, start + len);
+  return s ? parseInt(s.padEnd(len, '0'), 2) : 0;
+}
+
+function int(bits: string, start: number, len: number): number {
+  const v = uint(bits, start, len);
+  return bits[start] === '1' ? v - 2 ** len : v;
+}
+
+function text(bits: string, start: number, chars: number): string | null {
+  let out = '';
+  for (let i = 0; i < chars; i++) {
+    const v = uint(bits, start + i * 6, 6);
+    out += String.fromCharCode(v < 32 ? v + 64 : v);
+  }
+  const trimmed = out.replace(/@.*$/, '').trim();
+  return trimmed || null;
+}
+
+function position(bits: string, lngAt: number, latAt: number): { lat: number; lng: number } | null {
+  const lng = int(bits, lngAt, 28) / 600_000;
+  const lat = int(bits, latAt, 27) / 600_000;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;   // 91 / 181 = not available
+  return { lat, lng };
+}
+
+const sog     = (raw: number) => (raw === 1023 ? null : raw / 10);
+const cog     = (raw: number) => (raw >= 3600 ? null : raw / 10);
+const heading = (raw: number) => (raw === 511 ? null : raw);
+const nonZero = (raw: number) => (raw === 0 ? null : raw);
+
+function dimensions(bits: string, at: number) {
+  const bow = uint(bits, at, 9), stern = uint(bits, at + 9, 9);
+  const port = uint(bits, at + 18, 6), stbd = uint(bits, at + 24, 6);
+  return {
+    lengthM: nonZero(bow + stern),
+    beamM:   nonZero(port + stbd),
+  };
+}
+
+/**
+ * Decode a complete AIS payload. Returns null for unsupported message
+ * types, short payloads and reports without a usable position.
+ */
+export function decodePayload(payload: string, fillBits = 0): AisMessage | null {
+  const bits = toBits(payload, fillBits);
+  if (bits.length < 38) return null;
+
+  const msgType = uint(bits, 0, 6);
+  const mmsi    = String(uint(bits, 8, 30)).padStart(9, '0');
+
+  switch (msgType) {
+    case 1: case 2: case 3: {
+      if (bits.length < 168) return null;
+      const pos = position(bits, 61, 89);
+      if (!pos) return null;
+      const nav = uint(bits, 38, 4);
+      return {
+        kind: 'position', msgType, mmsi, ...pos,
+        sogKt:      sog(uint(bits, 50, 10)),
+        cogDeg:     cog(uint(bits, 116, 12)),
+        headingDeg: heading(uint(bits, 128, 9)),
+        navStatus:  nav === 15 ? null : nav,
+      };
+    }
+
+    case 18: {
+      if (bits.length < 168) return null;
+      const pos = position(bits, 57, 85);
+      if (!pos) return null;
+      return {
+        kind: 'position', msgType, mmsi, ...pos,
+        sogKt:      sog(uint(bits, 46, 10)),
+        cogDeg:     cog(uint(bits, 112, 12)),
+        headingDeg: heading(uint(bits, 124, 9)),
+        navStatus:  null,
+      };
+    }
+
+    case 5: {
+      if (bits.length < 420) return null;
+      const month = uint(bits, 274, 4), day = uint(bits, 278, 5);
+      const hour  = uint(bits, 283, 5), minute = uint(bits, 288, 6);
+      const imo   = uint(bits, 40, 30);
+      return {
+        kind: 'static', msgType, mmsi,
+        imo:         imo > 0 ? String(imo) : null,
+        callsign:    text(bits, 70, 7),
+        name:        text(bits, 112, 20),
+        shipType:    nonZero(uint(bits, 232, 8)),
+        ...dimensions(bits, 240),
+        draughtM:    nonZero(uint(bits, 294, 8)) != null ? uint(bits, 294, 8) / 10 : null,
+        destination: text(bits, 302, 20),
+        eta:         month >= 1 && month <= 12 && day >= 1 && hour < 24 && minute < 60
+          ? { month, day, hour, minute }
+          : null,
+      };
+    }
+
+    case 24: {
+      const part = uint(bits, 38, 2);
+      const base: AisStaticData = {
+        kind: 'static', msgType, mmsi,
+        imo: null, callsign: null, name: null, shipType: null,
+        lengthM: null, beamM: null, draughtM: null, destination: null, eta: null,
+      };
+      if (part === 0) {
+        if (bits.length < 160) return null;
+        return { ...base, name: text(bits, 40, 20) };
+      }
+      if (part === 1) {
+        if (bits.length < 162) return null;
+        return {
+          ...base,
+          shipType: nonZero(uint(bits, 40, 8)),
+          callsign: text(bits, 90, 7),
+          ...dimensions(bits, 132),
+        };
+      }
+      return null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Convenience: parse + assemble + decode a stream of lines with one call per
+ * line. Returns the decoded message (or null) and the tag-block time.
+ */
+export function createNmeaDecoder(): (line: string) => { message: AisMessage; receivedAt: Date | null } | null {
+  const assemble = createAssembler();
+  return (line) => {
+    const frag = parseSentence(line);
+    if (!frag) return null;
+    const full = assemble(frag);
+    if (!full) return null;
+    const message = decodePayload(full.payload, full.fillBits);
+    return message ? { message, receivedAt: full.receivedAt } : null;
+  };
+}
+
+/** Human-readable category for an AIS ship-type code (ITU-R M.1371). */
+export function shipTypeLabel(code: number | null): string {
+  if (code == null) return 'Unknown';
+  if (code >= 70 && code <= 79) return 'Cargo';
+  if (code >= 80 && code <= 89) return 'Tanker';
+  if (code >= 60 && code <= 69) return 'Passenger';
+  if (code >= 40 && code <= 49) return 'High Speed Craft';
+  if (code === 30)              return 'Fishing';
+  if (code === 31 || code === 32 || code === 52) return 'Tug';
+  if (code === 35)              return 'Military';
+  if (code === 36 || code === 37) return 'Pleasure Craft';
+  if (code === 50)              return 'Pilot Vessel';
+  if (code === 51)              return 'Search and Rescue';
+  if (code >= 20 && code <= 29) return 'Wing in Ground';
+  return 'Other';
+}
+
+/**
+ * Resolve a reported ETA (month/day/hour/minute, no year, UTC) to a date
+ * near `ref`. An ETA more than 30 days in the past is assumed to roll over
+ * into next year (e.g. a January ETA reported in December).
+ */
+export function aisEtaToDate(eta: AisEtaParts, ref: Date = new Date()): Date | null {
+  const year = ref.getUTCFullYear();
+  let d = new Date(Date.UTC(year, eta.month - 1, eta.day, eta.hour, eta.minute));
+  if (d.getUTCMonth() !== eta.month - 1) return null;   // e.g. 31 Feb
+  if (d.getTime() < ref.getTime() - 30 * 86_400_000) {
+    d = new Date(Date.UTC(year + 1, eta.month - 1, eta.day, eta.hour, eta.minute));
+  }
+  return d;
+}
@@ -0,0 +1,261 @@
+/**
+ * Mari8X Port Events
+ *
+ * Geofence event processor: watches the fused positions of vessels that have
+ * an open PortCallRecord or an EtaRecord without an actual arrival, and
+ * records arrival and departure from the port zones automatically:
+ *
+ *   port call   enters anchorage                 → ANCHORED  (anchoredAt)
+ *               enters a berth                   → BERTHED   (ata)
+ *               leaves the outer limit after
+ *               having arrived                   → DEPARTED  (atd)
+ *   ETA         enters anchorage or a berth      → markArrived (ata)
+ *
+ * Zones come from the port geofence (congestion/geofence.ts). For ports
+ * without berth polygons a vessel counts as berthed when it is moored (nav
+ * status 5) and stopped inside the anchorage radius.
+ *
+ * Every automatic change is made with updatedBy 'ais' at the fix time, and
+ * agents stay in control:
+ *   - AIS only moves a port call forward, never back
+ *   - AIS records each stage at most once, so an agent who reverts or
+ *     corrects an AIS stage is not overridden on the next run
+ *   - autoTracking: false on a port call switches AIS off for it
+ *   - an ETA that already has an arrival time (AIS or agent) is left alone
+ *
+ * Nothing runs while a replay clock is set (lib/clock.ts): replayed fixes
+ * must not move live port calls or ETAs.
+ *
+ * © 2026 ANKR Labs — Mari8X Community Edition
+ */
+
+import { prisma } from '../lib/prisma.js';
+import { clockNow, fixWindow, isVirtualClock } from '../lib/clock.js';
+import { fuseTrack, type FixRow } from './fusion.js';
+import { getPortGeofence, classifyZone, DEFAULT_RADII, type VesselZone } from '../congestion/geofence.js';
+import { haversineDistance } from '../lib/geo-utils.js';
+import {
+  listAllPortCalls, setPortCallStage, STAGE_ORDER,
+  type PortCallRecord, type PortCallStage,
+} from '../agent/port-call.js';
+import { listAllETAs, markArrived, type EtaRecord } from '../agent/eta.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface PortEvent {
+  kind:     'port_call' | 'eta';
+  id:       string;          // portCallId or voyageId
+  imo:      string;
+  portCode: string;
+  stage:    PortCallStage | 'ARRIVED';
+  zone:     VesselZone | 'outside';
+  at:       string;          // fix time
+  lat:      number;
+  lng:      number;
+}
+
+export interface PortEventRun {
+  startedAt:  string;
+  finishedAt: string;
+  portCalls:  number;       // records examined
+  etas:       number;
+  events:     PortEvent[];
+  errors:     string[];
+}
+
+type TrackRow = FixRow & { speed: number | null; navigationStatus: number | null };
+export type PortPoint = { unlocode: string; lat: number; lng: number };
+
+// ── Config ────────────────────────────────────────────────────────────────────
+
+const MAX_LOOKBACK_MS  = 3 * 86_400_000;   // first scan after a restart
+const MOORED_NAV       = 5;
+const MAX_RECENT       = 100;
+export const AIS_UPDATER = 'ais';
+
+// ── State ─────────────────────────────────────────────────────────────────────
+
+const lastScan = new Map<string, number>();    // `${kind}:${id}` → last fix processed (epoch ms)
+const inside   = new Map<string, boolean>();   // portCallId → last fix was within the port limits
+const recent: PortEvent[] = [];
+let lastRun: PortEventRun | null = null;
+let running = false;
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+async function loadTrack(imo: string, since: number, until: number): Promise<TrackRow[]> {
+  const rows: TrackRow[] = await prisma.vesselPosition.findMany({
+    where:   {
+      vessel:    { imo },
+      quality:   'ok',
+      ...fixWindow(since + 1, until),   // `since` is the last fix already processed
+    },
+    orderBy: { timestamp: 'asc' },
+    select:  {
+      vesselId: true, latitude: true, longitude: true, timestamp: true,
+      source: true, speed: true, navigationStatus: true,
+    },
+    take:    5_000,
+  });
+  return fuseTrack(rows);
+}
+
+/**
+ * Port zone of one fix, with the moored-vessel berth fallback.
+ * Shared with port-visits.ts so both agree on what "in port" means.
+ */
+export function portZoneOf(
+  port: PortPoint,
+  r:    Pick<TrackRow, 'latitude' | 'longitude' | 'speed' | 'navigationStatus'>,
+): VesselZone | 'outside' {
+  const fence = getPortGeofence(port.unlocode);
+  const fix   = { lat: r.latitude, lng: r.longitude, speedKt: r.speed ?? 0, navStatus: r.navigationStatus };
+  const zone  = classifyZone(port, fence, fix);
+  if (zone === null) return 'outside';
+
+  const hasBerths = fence?.polygons.some(p => p.zone === 'berth') ?? false;
+  if (!hasBerths && zone !== 'berth' && r.navigationStatus === MOORED_NAV && fix.speedKt <= 1 &&
+      haversineDistance(port.lat, port.lng, fix.lat, fix.lng) <= (fence?.radii ?? DEFAULT_RADII).anchorageNm) {
+    return 'berth';
+  }
+  return zone;
+}
+
+function scanFrom(key: string, createdAt: string, now: number): number {
+  return Math.max(lastScan.get(key) ?? 0, new Date(createdAt).getTime(), now - MAX_LOOKBACK_MS);
+}
+
+function remember(e: PortEvent) {
+  recent.push(e);
+  if (recent.length > MAX_RECENT) recent.splice(0, recent.length - MAX_RECENT);
+}
+
+// ── Processors ────────────────────────────────────────────────────────────────
+
+const stageIndex = (s: PortCallStage) => STAGE_ORDER.indexOf(s);
+
+function targetStage(record: PortCallRecord, zone: VesselZone | 'outside', wasInside: boolean): PortCallStage | null {
+  if (zone === 'anchorage') return 'ANCHORED';
+  if (zone === 'berth')     return 'BERTHED';
+  const arrived = !!(record.anchoredAt || record.ata);
+  if (zone === 'outside' && wasInside && arrived) return 'DEPARTED';
+  return null;
+}
+
+async function processPortCall(record: PortCallRecord, port: PortPoint, now: number): Promise<PortEvent[]> {
+  const key   = `port_call:${record.portCallId}`;
+  const track = await loadTrack(record.vesselIMO!, scanFrom(key, record.createdAt, now), now);
+  const out: PortEvent[] = [];
+
+  let current   = record;
+  let wasInside = inside.get(record.portCallId) ?? false;
+
+  for (const r of track) {
+    const zone   = portZoneOf(port, r);
+    const target = targetStage(current, zone, wasInside);
+    wasInside    = zone !== 'outside';
+
+    if (!target) continue;
+    if (stageIndex(target) <= stageIndex(current.currentStage)) continue;
+    if (current.events.some(e => e.stage === target && e.updatedBy === AIS_UPDATER)) continue;
+
+    const at = r.timestamp.toISOString();
+    current  = setPortCallStage(record.portCallId, target, {
+      updatedBy: AIS_UPDATER,
+      at,
+      notes:     `AIS: ${zone} at ${r.latitude.toFixed(4)}, ${r.longitude.toFixed(4)} (${r.source})`,
+    });
+    out.push({
+      kind: 'port_call', id: record.portCallId, imo: record.vesselIMO!, portCode: record.portCode,
+      stage: target, zone, at, lat: r.latitude, lng: r.longitude,
+    });
+    if (target === 'DEPARTED') break;
+  }
+
+  inside.set(record.portCallId, wasInside);
+  if (track.length > 0) lastScan.set(key, track[track.length - 1].timestamp.getTime());
+  return out;
+}
+
+async function processEta(record: EtaRecord, port: PortPoint, now: number): Promise<PortEvent[]> {
+  const key   = `eta:${record.voyageId}`;
+  const track = await loadTrack(record.vesselIMO!, scanFrom(key, record.createdAt, now), now);
+  if (track.length > 0) lastScan.set(key, track[track.length - 1].timestamp.getTime());
+
+  for (const r of track) {
+    const zone = portZoneOf(port, r);
+    if (zone !== 'anchorage' && zone !== 'berth') continue;
+
+    const at = r.timestamp.toISOString();
+    markArrived(record.voyageId, `AIS: arrived ${zone}`, { at, updatedBy: AIS_UPDATER });
+    return [{
+      kind: 'eta', id: record.voyageId, imo: record.vesselIMO!, portCode: record.portCode,
+      stage: 'ARRIVED', zone, at, lat: r.latitude, lng: r.longitude,
+    }];
+  }
+  return [];
+}
+
+// ── Public API ────────────────────────────────────────────────────────────────
+
+/**
+ * One pass over all open port calls and pending ETAs. Throws while already
+ * running or while a replay clock is set.
+ */
+export async function runPortEvents(): Promise<PortEventRun> {
+  if (running) throw new Error('Port event processing is already running');
+  if (isVirtualClock()) throw new Error('Port event processing is paused while a replay clock is set');
+  running = true;
+
+  const now    = clockNow();
+  const run: PortEventRun = {
+    startedAt: new Date().toISOString(), finishedAt: '',
+    portCalls: 0, etas: 0, events: [], errors: [],
+  };
+  const ports = new Map<string, PortPoint | null>();
+  const portFor = async (unlocode: string): Promise<PortPoint | null> => {
+    if (!ports.has(unlocode)) {
+      const p = await prisma.port.findFirst({ where: { unlocode } });
+      ports.set(unlocode, p && p.lat != null && p.lng != null ? { unlocode, lat: p.lat, lng: p.lng } : null);
+    }
+    return ports.get(unlocode)!;
+  };
+
+  try {
+    const calls = listAllPortCalls(true).filter(c => c.vesselIMO && c.autoTracking !== false);
+    for (const c of calls) {
+      try {
+        const port = await portFor(c.portCode);
+        if (!port) continue;
+        run.portCalls++;
+        run.events.push(...await processPortCall(c, port, now));
+      } catch (e) {
+        run.errors.push(`${c.portCallId}: ${(e as Error).message}`);
+      }
+    }
+
+    const etas = listAllETAs().filter(r => r.vesselIMO && !r.ata);
+    for (const r of etas) {
+      try {
+        const port = await portFor(r.portCode);
+        if (!port) continue;
+        run.etas++;
+        run.events.push(...await processEta(r, port, now));
+      } catch (e) {
+        run.errors.push(`${r.voyageId}: ${(e as Error).message}`);
+      }
+    }
+  } finally {
+    running = false;
+  }
+
+  run.events.forEach(remember);
+  run.finishedAt = new Date().toISOString();
+  lastRun = run;
+  return run;
+}
+
+/** Recent automatic transitions (newest first) and the last run summary. */
+export function getPortEventStatus(limit = 50): { lastRun: PortEventRun | null; recent: PortEvent[] } {
+  return { lastRun, recent: recent.slice(-limit).reverse() };
+}
@@ -0,0 +1,229 @@
+/**
+ * Mari8X Port Visits
+ *
+ * Reconstructs port calls from stored positions (fused across sources) —
+ * no port call or ETA record needed. A visit is a run of fixes inside one
+ * port's outer limit that includes at least one fix at anchor or at berth
+ * (vessels that only pass through the approach are not visitors):
+ *
+ *   arrivedAt    first anchorage / berth fix
+ *   departedAt   last fix inside the port limits (null while still in port)
+ *   hoursInPort  to departure; while in port, to now — or to the last fix
+ *                once the vessel has been silent for STALE_FIX_HOURS
+ *   anchorHours  time between consecutive fixes attributed to the zone
+ *   berthHours   of the earlier fix
+ *
+ * Zones use the same rules as automatic arrival detection (portZoneOf in
+ * port-events.ts). History depth is bounded by position retention and by
+ * MAX_ROWS, the newest fixes being kept.
+ *
+ * © 2026 ANKR Labs — Mari8X Community Edition
+ */
+
+import { prisma } from '../lib/prisma.js';
+import { clockNow, fixWindow } from '../lib/clock.js';
+import { haversineDistance } from '../lib/geo-utils.js';
+import { fuseTrack, type FixRow } from './fusion.js';
+import { portZoneOf, type PortPoint } from './port-events.js';
+import { getPortGeofence, DEFAULT_RADII } from '../congestion/geofence.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface PortVisit {
+  imo:          string;
+  vesselName:   string;
+  unlocode:     string;
+  portName:     string;
+  enteredAt:    string;          // first fix inside the port limits
+  arrivedAt:    string;          // first fix at anchor or berth
+  departedAt:   string | null;
+  ongoing:      boolean;
+  hoursInPort:  number;
+  anchorHours:  number;
+  berthHours:   number;
+  fixes:        number;
+}
+
+export interface VisitQuery {
+  days?:  number;
+  limit?: number;
+}
+
+type VisitRow  = FixRow & { speed: number | null; navigationStatus: number | null };
+type VisitPort = PortPoint & { name: string; outerNm: number };
+
+// ── Config ────────────────────────────────────────────────────────────────────
+
+const BOX_MARGIN_NM   = 10;     // per-port query: catch the first fix after leaving
+const MAX_ROWS        = 50_000; // newest kept
+const STALE_FIX_HOURS = 6;      // ongoing visit ends at the last fix once older
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+const ROW_SELECT = {
+  vesselId: true, latitude: true, longitude: true, timestamp: true,
+  source: true, speed: true, navigationStatus: true,
+};
+
+function toVisitPort(p: { unlocode: string; name: string; lat: number; lng: number }): VisitPort {
+  const radii = getPortGeofence(p.unlocode)?.radii ?? DEFAULT_RADII;
+  return { unlocode: p.unlocode, name: p.name, lat: p.lat, lng: p.lng, outerNm: radii.outerNm };
+}
+
+async function loadPorts(): Promise<VisitPort[]> {
+  const rows = await prisma.port.findMany({
+    where:  { lat: { not: null }, lng: { not: null } },
+    select: { unlocode: true, name: true, lat: true, lng: true },
+  });
+  return rows.map(toVisitPort);
+}
+
+/** Port whose outer limit contains the fix (nearest if several). */
+function portAt(r: VisitRow, ports: VisitPort[]): VisitPort | null {
+  let best: VisitPort | null = null;
+  let bestNm = Infinity;
+  for (const p of ports) {
+    if (Math.abs(p.lat - r.latitude) * 60 > p.outerNm) continue;
+    const nm = haversineDistance(p.lat, p.lng, r.latitude, r.longitude);
+    if (nm <= p.outerNm && nm < bestNm) { best = p; bestNm = nm; }
+  }
+  return best;
+}
+
+// ── Reconstruction ────────────────────────────────────────────────────────────
+
+/**
+ * Split one vessel's track (any order, any sources) into port visits,
+ * oldest first.
+ */
+export function reconstructVisits(
+  vessel: { imo: string; name: string },
+  rows:   VisitRow[],
+  ports:  VisitPort[],
+): PortVisit[] {
+  const track  = fuseTrack(rows);
+  const visits: PortVisit[] = [];
+
+  let cur: {
+    port: VisitPort; entered: VisitRow; last: VisitRow; lastZone: string;
+    arrived: VisitRow | null; anchorMs: number; berthMs: number; fixes: number;
+  } | null = null;
+
+  const close = (ongoing: boolean) => {
+    if (cur?.arrived) {
+      const lastMs = cur.last.timestamp.getTime();
+      const end    = ongoing && clockNow() - lastMs < STALE_FIX_HOURS * 3600_000 ? clockNow() : lastMs;
+      visits.push({
+        imo:         vessel.imo,
+        vesselName:  vessel.name,
+        unlocode:    cur.port.unlocode,
+        portName:    cur.port.name,
+        enteredAt:   cur.entered.timestamp.toISOString(),
+        arrivedAt:   cur.arrived.timestamp.toISOString(),
+        departedAt:  ongoing ? null : cur.last.timestamp.toISOString(),
+        ongoing,
+        hoursInPort: round1((end - cur.arrived.timestamp.getTime()) / 3600_000),
+        anchorHours: round1(cur.anchorMs / 3600_000),
+        berthHours:  round1(cur.berthMs / 3600_000),
+        fixes:       cur.fixes,
+      });
+    }
+    cur = null;
+  };
+
+  for (const r of track) {
+    const port = portAt(r, ports);
+    const zone = port ? portZoneOf(port, r) : 'outside';
+
+    if (cur && (zone === 'outside' || port!.unlocode !== cur.port.unlocode)) close(false);
+    if (zone === 'outside') continue;
+
+    if (!cur) {
+      cur = { port: port!, entered: r, last: r, lastZone: zone, arrived: null, anchorMs: 0, berthMs: 0, fixes: 0 };
+    } else {
+      const dt = r.timestamp.getTime() - cur.last.timestamp.getTime();
+      if (cur.lastZone === 'anchorage') cur.anchorMs += dt;
+      if (cur.lastZone === 'berth')     cur.berthMs  += dt;
+    }
+    if (!cur.arrived && (zone === 'anchorage' || zone === 'berth')) cur.arrived = r;
+    cur.last     = r;
+    cur.lastZone = zone;
+    cur.fixes++;
+  }
+  close(true);
+  return visits;
+}
+
+// ── Queries ───────────────────────────────────────────────────────────────────
+
+/**
+ * A vessel's most recent port visits (newest first).
+ */
+export async function getVesselPortVisits(imo: string, query: VisitQuery = {}): Promise<PortVisit[] | null> {
+  const days  = query.days  ?? 180;
+  const limit = query.limit ?? 10;
+
+  const vessel = await prisma.vessel.findFirst({ where: { imo } });
+  if (!vessel) return null;
+
+  const now  = clockNow();
+  const rows: VisitRow[] = await prisma.vesselPosition.findMany({
+    where:   {
+      vesselId:  vessel.id,
+      quality:   'ok',
+      ...fixWindow(now - days * 86_400_000, now),
+    },
+    orderBy: { timestamp: 'desc' },
+    select:  ROW_SELECT,
+    take:    MAX_ROWS,
+  });
+  rows.reverse();
+
+  const visits = reconstructVisits(vessel, rows, await loadPorts());
+  return visits.reverse().slice(0, limit);
+}
+
+/**
+ * A port's recent visitors (newest arrival first).
+ */
+export async function getPortVisits(unlocode: string, query: VisitQuery = {}): Promise<PortVisit[] | null> {
+  const days  = query.days  ?? 30;
+  const limit = query.limit ?? 20;
+
+  const row = await prisma.port.findFirst({ where: { unlocode: unlocode.toUpperCase() } });
+  if (!row || row.lat == null || row.lng == null) return null;
+  const port = toVisitPort({ unlocode: row.unlocode, name: row.name, lat: row.lat, lng: row.lng });
+
+  const now  = clockNow();
+  const dLat = (port.outerNm + BOX_MARGIN_NM) / 60;
+  const dLng = dLat / Math.max(Math.cos(port.lat * Math.PI / 180), 0.1);
+  const rows: VisitRow[] = await prisma.vesselPosition.findMany({
+    where:   {
+      quality:   'ok',
+      ...fixWindow(now - days * 86_400_000, now),
+      latitude:  { gte: port.lat - dLat, lte: port.lat + dLat },
+      longitude: { gte: port.lng - dLng, lte: port.lng + dLng },
+    },
+    orderBy: { timestamp: 'desc' },
+    select:  ROW_SELECT,
+    take:    MAX_ROWS,
+  });
+  rows.reverse();
+
+  const byVessel = new Map<string, VisitRow[]>();
+  for (const r of rows) {
+    if (!byVessel.has(r.vesselId)) byVessel.set(r.vesselId, []);
+    byVessel.get(r.vesselId)!.push(r);
+  }
+  if (byVessel.size === 0) return [];
+
+  const vessels: Array<{ id: string; imo: string; name: string }> = await prisma.vessel.findMany({
+    where:  { id: { in: [...byVessel.keys()] } },
+    select: { id: true, imo: true, name: true },
+  });
+
+  return vessels
+    .flatMap(v => reconstructVisits(v, byVessel.get(v.id)!, [port]))
+    .sort((a, b) => b.arrivedAt.localeCompare(a.arrivedAt))
+    .slice(0, limit);
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { assessFix, maxSpeedFor, type QualityFix, type TeleportRun } from './quality.js';
+
+const T0  = Date.parse('2026-10-01T00:00:00Z');
+const NOW = T0 + 3600_000;
+
+/** Fix `minutes` after T0, `nm` north of 50°N 0°E. */
+const fix = (minutes: number, nm = 0, sogKt: number | null = 10): QualityFix =>
+  ({ lat: 50 + nm / 60, lng: 0, sogKt, ts: T0 + minutes * 60_000 });
+
+describe('assessFix', () => {
+  it('accepts a plausible move and reports the implied speed', () => {
+    expect(assessFix(fix(10, 2), fix(0), 35, NOW)).toMatchObject({ quality: 'ok', drop: false, impliedSpeedKt: 12 });
+  });
+
+  it('drops null-island and duplicate fixes', () => {
+    expect(assessFix({ lat: 0, lng: 0.001, sogKt: 0, ts: T0 }, null, 35, NOW)).toMatchObject({ quality: 'null_island', drop: true });
+    expect(assessFix(fix(0), fix(0), 35, NOW)).toMatchObject({ quality: 'duplicate', drop: true });
+  });
+
+  it('flags out-of-order, future and impossible-speed fixes without dropping them', () => {
+    expect(assessFix(fix(5), fix(10), 35, NOW).quality).toBe('stale');
+    expect(assessFix(fix(70), null, 35, NOW).quality).toBe('future');
+    expect(assessFix(fix(10, 0, 50), fix(0), 35, NOW).quality).toBe('speed');
+    const jump = assessFix(fix(1, 30), fix(0), 35, NOW);   // 30 nm in a minute
+    expect(jump).toMatchObject({ quality: 'speed', drop: false });
+    expect(jump.impliedSpeedKt).toBeCloseTo(1800, -1);
+  });
+
+  it('ignores GPS jitter however short the interval', () => {
+    expect(assessFix({ ...fix(0, 0.3), ts: T0 + 1000 }, fix(0), 35, NOW).quality).toBe('ok');
+  });
+
+  it('re-anchors on the new position after three agreeing teleports', () => {
+    let prev: QualityFix = { lat: 10, lng: 10, sogKt: 0, ts: T0 };   // bogus first fix
+    let run: TeleportRun | null = null;
+    const out: string[] = [];
+    for (let i = 1; i <= 5; i++) {
+      const f = fix(i, i * 0.2);
+      const r = assessFix(f, prev, 35, NOW, run);
+      run = r.run;
+      if (r.quality === 'ok') prev = f;
+      out.push(r.quality);
+    }
+    expect(out).toEqual(['speed', 'speed', 'ok', 'ok', 'ok']);
+  });
+
+  it('keeps the anchor when the teleports disagree with one another', () => {
+    let run: TeleportRun | null = null;
+    for (const [i, nm] of [[1, 100], [2, 300], [3, 100]]) {
+      const r = assessFix(fix(i, nm), fix(0), 35, NOW, run);
+      expect(r.quality).toBe('speed');
+      run = r.run;
+    }
+    expect(run?.count).toBe(1);
+  });
+});
+
+describe('maxSpeedFor', () => {
+  it('uses the type limit, else 35 kt', () => {
+    expect(maxSpeedFor('High Speed Craft')).toBe(60);
+    expect(maxSpeedFor('Tug')).toBe(20);
+    expect(maxSpeedFor('Cargo')).toBe(35);
+    expect(maxSpeedFor(null)).toBe(35);
+  });
+});
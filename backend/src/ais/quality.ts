@@ -0,0 +1,140 @@
+/**
+ * Mari8X AIS Position Quality
+ *
+ * Ingestion-side checks applied to every position report before it is
+ * stored. Each fix gets one quality flag (VesselPosition.quality):
+ *
+ *   ok           — passed every check
+ *   null_island  — at or next to 0°N 0°E (receiver default)      → dropped
+ *   duplicate    — same time and place as the previous fix       → dropped
+ *   stale        — older than the latest accepted fix from the
+ *                  same source (out of order)                    → stored, flagged
+ *   future       — timestamp more than 5 min ahead of the clock  → stored, flagged
+ *   speed        — reported SOG, or the speed implied by the jump
+ *                  from the previous accepted fix, exceeds the
+ *                  maximum for the vessel type ("teleport")      → stored, flagged
+ *
+ * Jumps are measured from the previous accepted fix. So that one bad
+ * accepted fix (often a vessel's first) cannot lock out the genuine track,
+ * REANCHOR_FIXES consecutive teleports that agree with one another are
+ * taken as the real position: the last of them is accepted and becomes the
+ * new reference.
+ *
+ * Flagged fixes are kept for audit (AIS_DROP_FLAGGED=1 drops them instead)
+ * and excluded from congestion, pre-arrival and vessel profile queries,
+ * which all read `quality: 'ok'` only.
+ *
+ * © 2026 ANKR Labs — Mari8X Community Edition
+ */
+
+import { haversineDistance } from '../lib/geo-utils.js';
+import { clockNow } from '../lib/clock.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type FixQuality = 'ok' | 'null_island' | 'duplicate' | 'stale' | 'future' | 'speed';
+
+export interface QualityFix {
+  lat:   number;
+  lng:   number;
+  sogKt: number | null;
+  ts:    number;   // epoch ms
+}
+
+/** Consecutive teleport fixes that agree with one another. */
+export interface TeleportRun {
+  last:  QualityFix;
+  count: number;
+}
+
+export interface QualityResult {
+  quality:        FixQuality;
+  drop:           boolean;
+  impliedSpeedKt: number | null;
+  run:            TeleportRun | null;   // carry into the next assessFix call
+}
+
+// ── Config ────────────────────────────────────────────────────────────────────
+
+/** Maximum credible speed over ground by vessel type label (see shipTypeLabel). */
+const MAX_SPEED_KT: Record<string, number> = {
+  'High Speed Craft':  60,
+  'Wing in Ground':    120,
+  'Military':          50,
+  'Search and Rescue': 50,
+  'Pleasure Craft':    50,
+  'Pilot Vessel':      35,
+  'Passenger':         40,
+  'Tug':               20,
+  'Fishing':           25,
+};
+const DEFAULT_MAX_SPEED_KT = 35;
+
+const NULL_ISLAND_DEG   = 0.01;
+const FUTURE_TOLERANCE  = 5 * 60_000;
+const MIN_JUMP_NM       = 0.5;     // GPS jitter below this never counts as a teleport
+const MIN_JUMP_SECONDS  = 10;
+const REANCHOR_FIXES    = 3;
+
+export const DROP_FLAGGED = process.env.AIS_DROP_FLAGGED === '1';
+
+// ── Checks ────────────────────────────────────────────────────────────────────
+
+export function maxSpeedFor(vesselType: string | null | undefined): number {
+  return (vesselType && MAX_SPEED_KT[vesselType]) || DEFAULT_MAX_SPEED_KT;
+}
+
+/** Speed implied by the move from `a` to `b`, and whether it is a jitter-sized move. */
+function jump(a: QualityFix, b: QualityFix): { impliedKt: number; small: boolean } {
+  const nm      = haversineDistance(a.lat, a.lng, b.lat, b.lng);
+  const seconds = Math.max((b.ts - a.ts) / 1000, MIN_JUMP_SECONDS);
+  return { impliedKt: nm / (seconds / 3600), small: nm < MIN_JUMP_NM };
+}
+
+/**
+ * Assess one fix against the vessel's previous accepted fix. `run` is the
+ * teleport run returned by the previous call for the same vessel and source.
+ * `now` is the ingest clock, used only for the future-timestamp check.
+ */
+export function assessFix(
+  fix:        QualityFix,
+  prev:       QualityFix | null,
+  maxSpeedKt: number,
+  now:        number = clockNow(),
+  run:        TeleportRun | null = null,
+): QualityResult {
+  const result = (
+    quality:        FixQuality,
+    impliedSpeedKt: number | null = null,
+    nextRun:        TeleportRun | null = quality === 'ok' ? null : run,
+  ): QualityResult => ({
+    quality,
+    drop: quality === 'null_island' || quality === 'duplicate' || (quality !== 'ok' && DROP_FLAGGED),
+    impliedSpeedKt,
+    run:  nextRun,
+  });
+
+  if (Math.abs(fix.lat) < NULL_ISLAND_DEG && Math.abs(fix.lng) < NULL_ISLAND_DEG) return result('null_island');
+  if (fix.ts - now > FUTURE_TOLERANCE) return result('future');
+
+  if (prev) {
+    if (fix.ts === prev.ts && fix.lat === prev.lat && fix.lng === prev.lng) return result('duplicate');
+    if (fix.ts < prev.ts) return result('stale');
+  }
+
+  if (fix.sogKt != null && fix.sogKt > maxSpeedKt) return result('speed');
+
+  if (prev) {
+    const j = jump(prev, fix);
+    if (j.small || j.impliedKt <= maxSpeedKt) return result('ok', Math.round(j.impliedKt * 10) / 10);
+
+    // Teleport — unless enough of them in a row agree, which moves the anchor
+    const fromRun = run && fix.ts > run.last.ts ? jump(run.last, fix) : null;
+    const agrees  = !!fromRun && (fromRun.small || fromRun.impliedKt <= maxSpeedKt);
+    const count   = agrees ? run!.count + 1 : 1;
+    if (count >= REANCHOR_FIXES) return result('ok', Math.round(fromRun!.impliedKt * 10) / 10);
+    return result('speed', Math.round(j.impliedKt), { last: fix, count });
+  }
+
+  return result('ok');
+}
@@ -0,0 +1,27 @@
+/**
+ * Mari8X AIS Replay CLI
+ *
+ * Replays a captured NMEA log into the database through the same decode +
+ * ingest path as the live feeds.
+ *
+ *   npm run ais:replay -- ./capture.nmea [source]
+ */
+
+import { replayNmeaFile } from './feeds.js';
+import { prisma } from '../lib/prisma.js';
+
+const [file, source] = process.argv.slice(2);
+if (!file) {
+  console.error('Usage: npm run ais:replay -- <file.nmea> [source]');
+  process.exit(1);
+}
+
+try {
+  const summary = await replayNmeaFile(file, source);
+  console.log(JSON.stringify(summary, null, 2));
+} catch (e) {
+  console.error(`Replay failed: ${(e as Error).message}`);
+  process.exitCode = 1;
+} finally {
+  await prisma.$disconnect();
+}
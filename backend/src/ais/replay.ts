@@ -0,0 +1,264 @@
+/**
+ * Mari8X AIS Replay
+ *
+ * Streams a recorded track into the position store while driving the
+ * virtual clock (lib/clock.ts), so congestion, pre-arrival, vessel profile
+ * and alerts treat the recording as "now" — e.g. a historical day at SGSIN
+ * played back at 60× for a demo, or at full speed for a repeatable test.
+ *
+ * Recording formats (detected per line, may be mixed):
+ *   NMEA   !AIVDM sentences with a tag-block receive time, e.g.
+ *          \c:1700000000*hh\!AIVDM,1,1,,A,...  — continuation fragments
+ *          without a tag block inherit the previous record's time
+ *   JSONL  {"mmsi":"563012345","ts":"2026-03-01T00:00:00Z","lat":1.25,
+ *           "lng":103.8,"sog":0.2,"cog":90,"heading":88,"navStatus":1,
+ *           "name":"PACIFIC STAR"}
+ *
+ * Pacing: the clock starts at the first record's time and runs at `speed`×
+ * wall time; each record is ingested once the clock reaches it. speed 0
+ * means "as fast as possible": the clock is frozen and stepped to each
+ * record's time, so every run produces the same store and the same answers.
+ *
+ * Replayed fixes are stored under their own source (default 'ais_replay')
+ * and, unless `fresh: false`, the previous replay's fixes are purged first.
+ * The clock is tagged with that source, so window queries read only the
+ * replay's fixes and live feeds keep their wall-clock timestamps.
+ * When the recording ends the clock stays at its last record until reset.
+ *
+ * Files are read from AIS_REPLAY_DIR (default /root/.ankr/replays).
+ *
+ * © 2026 ANKR Labs — Mari8X Community Edition
+ */
+
+import * as fs       from 'fs';
+import * as path     from 'path';
+import * as readline from 'readline';
+import { prisma } from '../lib/prisma.js';
+import {
+  clockNow, setVirtualClock, advanceClock, getClockStatus, type ClockStatus,
+} from '../lib/clock.js';
+import { parseSentence, type AisMessage } from './nmea.js';
+import { ingestMessage, ingestNmeaLine, resetSourceState } from './ingest.js';
+import { invalidateCongestionCache } from '../congestion/engine.js';
+import { invalidateDwellCache } from '../congestion/dwell.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface ReplayOptions {
+  file:    string;    // relative to AIS_REPLAY_DIR
+  speed?:  number;    // virtual seconds per real second; 0 = as fast as possible (default 60)
+  source?: string;    // VesselPosition.source for replayed fixes (default ais_replay)
+  fresh?:  boolean;   // purge earlier fixes from `source` first (default true)
+}
+
+export interface ReplayStatus {
+  running:       boolean;
+  file:          string | null;
+  source:        string;
+  speed:         number;
+  records:       number;
+  skipped:       number;   // unparseable, or no timestamp yet
+  purged:        number;
+  firstRecordAt: string | null;
+  lastRecordAt:  string | null;
+  startedAt:     string | null;
+  finishedAt:    string | null;
+  stopped:       boolean;
+  error:         string | null;
+  clock:         ClockStatus;
+}
+
+type ReplayRecord =
+  | { ts: number; nmea: string }
+  | { ts: number; messages: AisMessage[] };
+
+// ── Config ────────────────────────────────────────────────────────────────────
+
+const REPLAY_DIR     = process.env.AIS_REPLAY_DIR ?? '/root/.ankr/replays';
+const DEFAULT_SOURCE = 'ais_replay';
+const DEFAULT_SPEED  = 60;
+const MAX_SLEEP_MS   = 1_000;   // stop requests are noticed within this
+
+// ── State ─────────────────────────────────────────────────────────────────────
+
+let status: Omit<ReplayStatus, 'clock'> = {
+  running: false, file: null, source: DEFAULT_SOURCE, speed: DEFAULT_SPEED,
+  records: 0, skipped: 0, purged: 0,
+  firstRecordAt: null, lastRecordAt: null, startedAt: null, finishedAt: null,
+  stopped: false, error: null,
+};
+let stopRequested = false;
+
+function resolveFile(file: string): string {
+  const root = path.resolve(REPLAY_DIR);
+  const full = path.resolve(root, file);
+  if (!full.startsWith(root + path.sep)) throw new Error('file must be inside the replay directory');
+  if (!fs.existsSync(full)) throw new Error(`Replay file not found: ${file}`);
+  return full;
+}
+
+function resetCaches() {
+  invalidateCongestionCache();
+  invalidateDwellCache();
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// ── Records ───────────────────────────────────────────────────────────────────
+
+function toEpoch(raw: unknown): number | null {
+  if (typeof raw === 'number') return raw > 1e12 ? raw : raw * 1000;
+  if (typeof raw === 'string') {
+    const t = new Date(raw).getTime();
+    return isNaN(t) ? null : t;
+  }
+  return null;
+}
+
+const num = (v: unknown) => (typeof v === 'number' && isFinite(v) ? v : null);
+
+/**
+ * One line → record. NMEA lines without their own time use `lastTs`.
+ */
+function parseRecord(line: string, lastTs: number | null, named: Set<string>): ReplayRecord | null {
+  const text = line.trim();
+  if (!text) return null;
+
+  if (text.startsWith('{')) {
+    let row: Record<string, unknown>;
+    try { row = JSON.parse(text); } catch { return null; }
+    const ts   = toEpoch(row.ts);
+    const mmsi = row.mmsi != null ? String(row.mmsi) : '';
+    const lat  = num(row.lat), lng = num(row.lng);
+    if (ts == null || !/^\d{9}$/.test(mmsi) || lat == null || lng == null) return null;
+
+    const messages: AisMessage[] = [];
+    if (typeof row.name === 'string' && !named.has(mmsi)) {
+      named.add(mmsi);
+      messages.push({
+        kind: 'static', msgType: 5, mmsi, imo: null, callsign: null, name: row.name,
+        shipType: num(row.shipType), lengthM: null, beamM: null, draughtM: null,
+        destination: null, eta: null,
+      });
+    }
+    messages.push({
+      kind: 'position', msgType: 1, mmsi, lat, lng,
+      sogKt:      num(row.sog),
+      cogDeg:     num(row.cog),
+      headingDeg: num(row.heading),
+      navStatus:  num(row.navStatus),
+    });
+    return { ts, messages };
+  }
+
+  const frag = parseSentence(text);
+  if (!frag) return null;
+  const ts = frag.receivedAt?.getTime() ?? lastTs;
+  return ts == null ? null : { ts, nmea: text };
+}
+
+// ── Run loop ──────────────────────────────────────────────────────────────────
+
+async function run(full: string, speed: number, source: string): Promise<void> {
+  const named  = new Set<string>();
+  let lastTs: number | null = null;
+
+  const rl = readline.createInterface({ input: fs.createReadStream(full, 'utf-8'), crlfDelay: Infinity });
+  for await (const line of rl) {
+    if (stopRequested) break;
+    if (!line.trim()) continue;
+
+    const rec = parseRecord(line, lastTs, named);
+    if (!rec) { status.skipped++; continue; }
+
+    if (lastTs == null) {
+      setVirtualClock(new Date(rec.ts), speed, source);
+      resetCaches();
+      status.firstRecordAt = new Date(rec.ts).toISOString();
+    }
+
+    if (speed === 0) {
+      if (rec.ts > clockNow()) advanceClock(new Date(rec.ts));
+    } else {
+      while (!stopRequested && rec.ts > clockNow()) {
+        await sleep(Math.min((rec.ts - clockNow()) / speed, MAX_SLEEP_MS));
+      }
+      if (stopRequested) break;
+    }
+
+    if ('nmea' in rec) {
+      await ingestNmeaLine(rec.nmea, source);
+    } else {
+      for (const m of rec.messages) await ingestMessage(m, { source, receivedAt: new Date(rec.ts) });
+    }
+
+    lastTs = Math.max(lastTs ?? rec.ts, rec.ts);
+    status.records++;
+    status.lastRecordAt = new Date(lastTs).toISOString();
+  }
+  rl.close();
+}
+
+// ── Control ───────────────────────────────────────────────────────────────────
+
+/**
+ * Start replaying a recording in the background. Returns the initial status;
+ * poll getReplayStatus() for progress.
+ */
+export async function startReplay(opts: ReplayOptions): Promise<ReplayStatus> {
+  if (status.running) throw new Error(`Replay already running (${status.file})`);
+  const speed  = opts.speed ?? DEFAULT_SPEED;
+  const source = opts.source ?? DEFAULT_SOURCE;
+  if (!(speed >= 0)) throw new Error('speed must be >= 0');
+  if (!source.startsWith('ais_')) throw new Error("source must start with 'ais_'");
+  const full = resolveFile(opts.file);
+
+  const purged = opts.fresh === false ? 0 : await purgeReplayData(source);
+  resetSourceState(source);
+
+  stopRequested = false;
+  status = {
+    running: true, file: opts.file, source, speed,
+    records: 0, skipped: 0, purged,
+    firstRecordAt: null, lastRecordAt: null,
+    startedAt: new Date().toISOString(), finishedAt: null,
+    stopped: false, error: null,
+  };
+
+  run(full, speed, source)
+    .catch((e: Error) => { status.error = e.message; })
+    .finally(() => {
+      status.running    = false;
+      status.stopped    = stopRequested;
+      status.finishedAt = new Date().toISOString();
+      resetCaches();
+    });
+
+  return getReplayStatus();
+}
+
+/** Ask a running replay to stop after the current record. */
+export function stopReplay(): boolean {
+  if (!status.running) return false;
+  stopRequested = true;
+  return true;
+}
+
+export function getReplayStatus(): ReplayStatus {
+  return { ...status, clock: getClockStatus() };
+}
+
+/**
+ * Delete every stored fix from a replay source. Vessels created by the
+ * replay are kept — they are ordinary AIS placeholders.
+ */
+export async function purgeReplayData(source = DEFAULT_SOURCE): Promise<number> {
+  if (status.running && status.source === source) throw new Error('Stop the replay before purging its data');
+  if (!source.startsWith('ais_') || ['ais_terrestrial', 'ais_satellite'].includes(source)) {
+    throw new Error(`${source} is not a replay source`);
+  }
+  const { count } = await prisma.vesselPosition.deleteMany({ where: { source } });
+  resetSourceState(source);
+  resetCaches();
+  return count;
+}
@@ -0,0 +1,361 @@
+/**
+ * Mari8X Position Retention
+ *
+ * Keeps vessel_positions bounded once live AIS is flowing:
+ *
+ *   age ≤ fullResolutionDays           keep every fix
+ *   fullResolutionDays < age ≤ maxAge  downsample each vessel's track:
+ *                                        - one fix per downsampleMinutes
+ *                                        - plus any fix where course changes
+ *                                          by ≥ courseChangeDeg or the AIS
+ *                                          navigation status changes
+ *                                        - manual / noon-report fixes always kept
+ *                                        - flagged (quality ≠ ok) fixes removed
+ *   age > maxAgeDays                   archived to gzipped JSONL (optional)
+ *                                      and deleted
+ *
+ * Downsampling is incremental: a watermark records how far tracks have been
+ * thinned so each run only touches newly-aged fixes, plus the last rescanDays
+ * behind the watermark, which catches fixes that arrived late (satellite
+ * batches, backfills) with timestamps already past it. Every run (including
+ * dry runs) produces a RetentionReport; the last 50 are kept.
+ *
+ * Ages are measured on the wall clock, not the replay clock. Fixes from
+ * excludeSources (default: the replay source) are never thinned or expired:
+ * recordings are historical by design and purged through the replay API.
+ *
+ * Storage:
+ *   /root/.ankr/state/mari8x-retention/config.json
+ *   /root/.ankr/state/mari8x-retention/reports.jsonl
+ *   /root/.ankr/state/mari8x-retention/archive/positions-YYYY-MM-DD.jsonl.gz
+ *
+ * © 2026 ANKR Labs — Mari8X Community Edition
+ */
+
+import * as fs   from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { prisma } from '../lib/prisma.js';
+import { MANUAL_SOURCES } from './fusion.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface RetentionConfig {
+  fullResolutionDays: number;
+  downsampleMinutes:  number;
+  courseChangeDeg:    number;
+  maxAgeDays:         number;
+  archive:            boolean;   // write expired rows to the archive before deleting
+  rescanDays:         number;    // re-thin this far behind the watermark for late fixes
+  excludeSources:     string[];  // position sources retention leaves alone
+  downsampledThrough: string | null;   // watermark (ISO), managed by the job
+  updatedBy:          string;
+  updatedAt:          string;
+}
+
+export type RetentionConfigInput =
+  Partial<Omit<RetentionConfig, 'downsampledThrough' | 'updatedAt'>>;
+
+export interface RetentionReport {
+  id:          string;
+  dryRun:      boolean;
+  startedAt:   string;
+  finishedAt:  string;
+  window:      { downsampleFrom: string; downsampleTo: string; expireBefore: string };
+  downsample: {
+    vessels:  number;
+    examined: number;
+    kept:     number;
+    removed:  number;   // includes flagged fixes
+    flagged:  number;
+  };
+  expire: {
+    removed:     number;
+    archived:    number;
+    archiveFile: string | null;
+  };
+  error:       string | null;
+}
+
+interface PositionRow {
+  id:               string;
+  vesselId:         string;
+  latitude:         number;
+  longitude:        number;
+  speed:            number | null;
+  heading:          number | null;
+  course:           number | null;
+  navigationStatus: number | null;
+  timestamp:        Date;
+  source:           string;
+  quality:          string;
+}
+
+// ── Defaults / State ──────────────────────────────────────────────────────────
+
+const RETENTION_DIR  = '/root/.ankr/state/mari8x-retention';
+const CONFIG_FILE    = path.join(RETENTION_DIR, 'config.json');
+const REPORTS_FILE   = path.join(RETENTION_DIR, 'reports.jsonl');
+const ARCHIVE_DIR    = path.join(RETENTION_DIR, 'archive');
+
+const MAX_REPORTS    = 50;
+const BATCH          = 5_000;
+const DELETE_CHUNK   = 1_000;
+
+const DEFAULT_CONFIG: RetentionConfig = {
+  fullResolutionDays: 7,
+  downsampleMinutes:  10,
+  courseChangeDeg:    20,
+  maxAgeDays:         180,
+  archive:            true,
+  rescanDays:         2,
+  excludeSources:     ['ais_replay'],
+  downsampledThrough: null,
+  updatedBy:          'system',
+  updatedAt:          new Date(0).toISOString(),
+};
+
+let running = false;
+
+function ensureDir(dir = RETENTION_DIR) {
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+}
+
+export function getRetentionConfig(): RetentionConfig {
+  ensureDir();
+  if (!fs.existsSync(CONFIG_FILE)) return DEFAULT_CONFIG;
+  try { return { ...DEFAULT_CONFIG, ...JSON.parse(fs.readFileSync(CONFIG_FILE, 'utf-8')) }; }
+  catch { return DEFAULT_CONFIG; }
+}
+
+function saveConfig(config: RetentionConfig) {
+  ensureDir();
+  fs.writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2));
+}
+
+/**
+ * Update retention settings. Shortening fullResolutionDays takes effect on
+ * the next run; lengthening it does not restore already-thinned fixes.
+ */
+export function setRetentionConfig(input: RetentionConfigInput): RetentionConfig {
+  const base = getRetentionConfig();
+  const next: RetentionConfig = {
+    ...base,
+    fullResolutionDays: input.fullResolutionDays ?? base.fullResolutionDays,
+    downsampleMinutes:  input.downsampleMinutes  ?? base.downsampleMinutes,
+    courseChangeDeg:    input.courseChangeDeg    ?? base.courseChangeDeg,
+    maxAgeDays:         input.maxAgeDays         ?? base.maxAgeDays,
+    archive:            input.archive            ?? base.archive,
+    rescanDays:         input.rescanDays         ?? base.rescanDays,
+    excludeSources:     input.excludeSources     ?? base.excludeSources,
+    updatedBy:          input.updatedBy          ?? 'system',
+    updatedAt:          new Date().toISOString(),
+  };
+  if (!(next.fullResolutionDays > 0)) throw new Error('fullResolutionDays must be positive');
+  if (!(next.downsampleMinutes > 0))  throw new Error('downsampleMinutes must be positive');
+  if (!(next.courseChangeDeg > 0))    throw new Error('courseChangeDeg must be positive');
+  if (!(next.rescanDays >= 0))        throw new Error('rescanDays must be >= 0');
+  if (!Array.isArray(next.excludeSources) || next.excludeSources.some(x => typeof x !== 'string')) {
+    throw new Error('excludeSources must be a list of source names');
+  }
+  if (!(next.maxAgeDays > next.fullResolutionDays)) {
+    throw new Error('maxAgeDays must be greater than fullResolutionDays');
+  }
+  saveConfig(next);
+  return next;
+}
+
+function appendReport(report: RetentionReport) {
+  ensureDir();
+  const lines = fs.existsSync(REPORTS_FILE)
+    ? fs.readFileSync(REPORTS_FILE, 'utf-8').split('\n').filter(Boolean)
+    : [];
+  lines.push(JSON.stringify(report));
+  fs.writeFileSync(REPORTS_FILE, lines.slice(-MAX_REPORTS).join('\n') + '\n');
+}
+
+/** Most recent retention reports, newest first. */
+export function listRetentionReports(limit = 10): RetentionReport[] {
+  if (!fs.existsSync(REPORTS_FILE)) return [];
+  return fs.readFileSync(REPORTS_FILE, 'utf-8')
+    .split('\n')
+    .filter(Boolean)
+    .map(l => JSON.parse(l) as RetentionReport)
+    .reverse()
+    .slice(0, limit);
+}
+
+// ── Downsampling ──────────────────────────────────────────────────────────────
+
+function courseDelta(a: number, b: number): number {
+  const d = Math.abs(a - b) % 360;
+  return d > 180 ? 360 - d : d;
+}
+
+/**
+ * Which rows of one vessel's (time-ordered) track to keep.
+ * `lastKept` carries the previous kept fix across batches.
+ */
+export function selectKeep(
+  rows:     PositionRow[],
+  config:   Pick<RetentionConfig, 'downsampleMinutes' | 'courseChangeDeg'>,
+  lastKept: PositionRow | null = null,
+): { keep: PositionRow[]; drop: PositionRow[]; lastKept: PositionRow | null } {
+  const keep: PositionRow[] = [];
+  const drop: PositionRow[] = [];
+  const intervalMs = config.downsampleMinutes * 60_000;
+
+  for (const r of rows) {
+    if (r.quality !== 'ok') { drop.push(r); continue; }
+
+    const keepIt =
+      !lastKept ||
+      MANUAL_SOURCES.includes(r.source) ||
+      r.timestamp.getTime() - lastKept.timestamp.getTime() >= intervalMs ||
+      r.navigationStatus !== lastKept.navigationStatus ||
+      (r.course != null && lastKept.course != null && courseDelta(r.course, lastKept.course) >= config.courseChangeDeg);
+
+    if (keepIt) { keep.push(r); lastKept = r; }
+    else        drop.push(r);
+  }
+  return { keep, drop, lastKept };
+}
+
+async function deleteIds(ids: string[]): Promise<number> {
+  let n = 0;
+  for (let i = 0; i < ids.length; i += DELETE_CHUNK) {
+    const res = await prisma.vesselPosition.deleteMany({ where: { id: { in: ids.slice(i, i + DELETE_CHUNK) } } });
+    n += res.count;
+  }
+  return n;
+}
+
+/** Sources retention may touch. */
+function sourceFilter(config: RetentionConfig) {
+  return { source: { notIn: config.excludeSources } };
+}
+
+async function downsample(
+  from: Date, to: Date, config: RetentionConfig, dryRun: boolean, report: RetentionReport,
+) {
+  const vessels: Array<{ vesselId: string }> = await prisma.vesselPosition.groupBy({
+    by:    ['vesselId'],
+    where: { timestamp: { gte: from, lt: to }, ...sourceFilter(config) },
+  });
+  report.downsample.vessels = vessels.length;
+
+  for (const { vesselId } of vessels) {
+    // Seed with the last fix before the window so spacing carries over between runs
+    let lastKept: PositionRow | null = await prisma.vesselPosition.findFirst({
+      where:   { vesselId, timestamp: { lt: from }, quality: 'ok', ...sourceFilter(config) },
+      orderBy: { timestamp: 'desc' },
+    });
+    let cursor = from;
+
+    for (;;) {
+      const rows: PositionRow[] = await prisma.vesselPosition.findMany({
+        where:   { vesselId, timestamp: { gte: cursor, lt: to }, ...sourceFilter(config) },
+        orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+        take:    BATCH,
+      });
+      if (rows.length === 0) break;
+
+      const res = selectKeep(rows, config, lastKept);
+      lastKept  = res.lastKept;
+      report.downsample.examined += rows.length;
+      report.downsample.kept     += res.keep.length;
+      report.downsample.flagged  += res.drop.filter(r => r.quality !== 'ok').length;
+      report.downsample.removed  += dryRun ? res.drop.length : await deleteIds(res.drop.map(r => r.id));
+
+      if (rows.length < BATCH) break;
+      // Next batch strictly after the last timestamp seen (same-ms rows are rare; they stay kept)
+      cursor = new Date(rows[rows.length - 1].timestamp.getTime() + 1);
+    }
+  }
+}
+
+// ── Expiry ────────────────────────────────────────────────────────────────────
+
+async function expire(before: Date, config: RetentionConfig, dryRun: boolean, report: RetentionReport) {
+  if (dryRun) {
+    report.expire.removed = await prisma.vesselPosition.count({
+      where: { timestamp: { lt: before }, ...sourceFilter(config) },
+    });
+    return;
+  }
+
+  const file = config.archive
+    ? path.join(ARCHIVE_DIR, `positions-${new Date().toISOString().slice(0, 10)}.jsonl.gz`)
+    : null;
+  if (file) ensureDir(ARCHIVE_DIR);
+
+  for (;;) {
+    const rows: PositionRow[] = await prisma.vesselPosition.findMany({
+      where:   { timestamp: { lt: before }, ...sourceFilter(config) },
+      orderBy: { timestamp: 'asc' },
+      take:    BATCH,
+    });
+    if (rows.length === 0) break;
+
+    if (file) {
+      // Each batch is its own gzip member; concatenated members read back as one stream
+      const body = rows.map(r => JSON.stringify(r)).join('\n') + '\n';
+      fs.appendFileSync(file, zlib.gzipSync(body));
+      report.expire.archived += rows.length;
+      report.expire.archiveFile = file;
+    }
+    report.expire.removed += await deleteIds(rows.map(r => r.id));
+    if (rows.length < BATCH) break;
+  }
+}
+
+// ── Job ───────────────────────────────────────────────────────────────────────
+
+/**
+ * Run one retention pass. With dryRun, nothing is deleted or archived and
+ * the report shows what would have been removed.
+ */
+export async function runRetention(opts: { dryRun?: boolean } = {}): Promise<RetentionReport> {
+  if (running) throw new Error('Retention job already running');
+  running = true;
+
+  const dryRun = opts.dryRun ?? false;
+  const config = getRetentionConfig();
+  const now    = Date.now();
+  const expireBefore   = new Date(now - config.maxAgeDays * 86_400_000);
+  const downsampleTo   = new Date(now - config.fullResolutionDays * 86_400_000);
+  const watermark      = config.downsampledThrough
+    ? new Date(new Date(config.downsampledThrough).getTime() - config.rescanDays * 86_400_000)
+    : expireBefore;
+  const downsampleFrom = watermark > expireBefore ? watermark : expireBefore;
+
+  const report: RetentionReport = {
+    id:         `RET-${now}`,
+    dryRun,
+    startedAt:  new Date(now).toISOString(),
+    finishedAt: '',
+    window:     {
+      downsampleFrom: downsampleFrom.toISOString(),
+      downsampleTo:   downsampleTo.toISOString(),
+      expireBefore:   expireBefore.toISOString(),
+    },
+    downsample: { vessels: 0, examined: 0, kept: 0, removed: 0, flagged: 0 },
+    expire:     { removed: 0, archived: 0, archiveFile: null },
+    error:      null,
+  };
+
+  try {
+    if (downsampleFrom < downsampleTo) {
+      await downsample(downsampleFrom, downsampleTo, config, dryRun, report);
+      if (!dryRun) saveConfig({ ...getRetentionConfig(), downsampledThrough: downsampleTo.toISOString() });
+    }
+    await expire(expireBefore, config, dryRun, report);
+  } catch (e) {
+    report.error = (e as Error).message;
+  } finally {
+    running = false;
+    report.finishedAt = new Date().toISOString();
+    appendReport(report);
+  }
+  return report;
+}
@@ -0,0 +1,185 @@
+/**
+ * Mari8X Risk Zone Watch
+ *
+ * Checks the best current position of every tracked vessel (tracked.ts)
+ * against the active risk zones (routing/risk-zones.ts). When a vessel is
+ * inside a zone it was not inside at the previous check, the entry is stored
+ * and raised as a RISK_ZONE_ENTRY alert on the vessel's next port
+ * (agent/alerts.ts):
+ *
+ *   zone severity  high → CRITICAL, medium → WARNING, low → INFO
+ *
+ * The zones each vessel was last seen in are kept with the entries, so a
+ * restart does not re-alert vessels already inside. A vessel without a fix
+ * newer than MAX_FIX_AGE_HOURS keeps its previous state.
+ *
+ * Storage: /root/.ankr/state/mari8x-risk-zones/watch.json
+ *
+ * © 2026 ANKR Labs — Mari8X Community Edition
+ */
+
+import * as fs   from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { clockNow } from '../lib/clock.js';
+import { trackedVessels, latestFix } from './tracked.js';
+import { riskZonesAt, type RiskCategory, type RiskSeverity } from '../routing/risk-zones.js';
+import { raiseAlert, type AlertSeverity } from '../agent/alerts.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface RiskZoneEntry {
+  id:           string;
+  imo:          string;
+  vesselName:   string;
+  portCode:     string;       // next port, where the alert is raised
+  zoneId:       string;
+  zoneName:     string;
+  category:     RiskCategory;
+  severity:     RiskSeverity;
+  lat:          number;
+  lng:          number;
+  at:           string;       // fix time
+  detectedAt:   string;
+  acknowledged: boolean;
+}
+
+export interface RiskZoneWatchRun {
+  startedAt:  string;
+  finishedAt: string;
+  vessels:    number;         // tracked vessels examined
+  noFix:      number;
+  entries:    RiskZoneEntry[];
+  errors:     string[];
+}
+
+interface WatchState {
+  inside:  Record<string, string[]>;   // imo → zone ids at the last fix
+  entries: RiskZoneEntry[];
+}
+
+// ── Config ────────────────────────────────────────────────────────────────────
+
+const MAX_FIX_AGE_HOURS = 6;
+const MAX_KEEP          = 1_000;
+
+const SEVERITY: Record<RiskSeverity, AlertSeverity> = { high: 'CRITICAL', medium: 'WARNING', low: 'INFO' };
+
+const WATCH_DIR  = '/root/.ankr/state/mari8x-risk-zones';
+const WATCH_FILE = path.join(WATCH_DIR, 'watch.json');
+
+// ── Persistence ───────────────────────────────────────────────────────────────
+
+function ensureDir() {
+  if (!fs.existsSync(WATCH_DIR)) fs.mkdirSync(WATCH_DIR, { recursive: true });
+}
+
+function loadAll(): WatchState {
+  ensureDir();
+  if (!fs.existsSync(WATCH_FILE)) return { inside: {}, entries: [] };
+  try { return JSON.parse(fs.readFileSync(WATCH_FILE, 'utf-8')); }
+  catch { return { inside: {}, entries: [] }; }
+}
+
+function saveAll(state: WatchState) {
+  ensureDir();
+  fs.writeFileSync(WATCH_FILE, JSON.stringify({ ...state, entries: state.entries.slice(-MAX_KEEP) }, null, 2));
+}
+
+// ── Run ───────────────────────────────────────────────────────────────────────
+
+let running = false;
+
+/**
+ * One pass over all tracked vessels. Returns the zone entries found in this run.
+ */
+export async function runRiskZoneWatch(): Promise<RiskZoneWatchRun> {
+  if (running) throw new Error('Risk zone watch is already running');
+  running = true;
+
+  const now = clockNow();
+  const run: RiskZoneWatchRun = {
+    startedAt: new Date().toISOString(), finishedAt: '',
+    vessels: 0, noFix: 0, entries: [], errors: [],
+  };
+
+  try {
+    const state   = loadAll();
+    const tracked = trackedVessels();
+    const inside: Record<string, string[]> = {};
+
+    for (const [imo, v] of tracked) {
+      run.vessels++;
+      const before = state.inside[imo] ?? [];
+      inside[imo]  = before;
+      try {
+        const fix = await latestFix(imo, now - MAX_FIX_AGE_HOURS * 3600_000, now);
+        if (!fix) {
+          run.noFix++;
+          continue;
+        }
+
+        const zones = riskZonesAt(fix.latitude, fix.longitude);
+        inside[imo] = zones.map(z => z.id);
+
+        for (const z of zones.filter(z => !before.includes(z.id))) {
+          const entry: RiskZoneEntry = {
+            id:           randomUUID(),
+            imo,
+            vesselName:   v.vesselName,
+            portCode:     v.portCode,
+            zoneId:       z.id,
+            zoneName:     z.name,
+            category:     z.category,
+            severity:     z.severity,
+            lat:          fix.latitude,
+            lng:          fix.longitude,
+            at:           fix.timestamp.toISOString(),
+            detectedAt:   new Date(now).toISOString(),
+            acknowledged: false,
+          };
+          raiseAlert(
+            v.portCode, 'RISK_ZONE_ENTRY', SEVERITY[z.severity], imo, v.vesselName,
+            `${v.vesselName} (${imo}) entered ${z.name} (${z.category.replace('_', ' ')}) at ` +
+            `${fix.latitude.toFixed(4)}, ${fix.longitude.toFixed(4)} — ${entry.at}`,
+          );
+          state.entries.push(entry);
+          run.entries.push(entry);
+        }
+      } catch (e) {
+        run.errors.push(`${imo}: ${(e as Error).message}`);
+      }
+    }
+
+    // Vessels no longer tracked drop out of the state
+    saveAll({ inside, entries: state.entries });
+  } finally {
+    running = false;
+  }
+
+  run.finishedAt = new Date().toISOString();
+  return run;
+}
+
+// ── Queries ───────────────────────────────────────────────────────────────────
+
+/** Stored zone entries, newest first; unacknowledged only unless asked. */
+export function listRiskZoneEntries(
+  query: { imo?: string; zoneId?: string; includeAcknowledged?: boolean; limit?: number } = {},
+): RiskZoneEntry[] {
+  return loadAll().entries
+    .filter(e => !query.imo    || e.imo === query.imo)
+    .filter(e => !query.zoneId || e.zoneId === query.zoneId)
+    .filter(e => query.includeAcknowledged || !e.acknowledged)
+    .reverse()
+    .slice(0, query.limit ?? 50);
+}
+
+export function acknowledgeRiskZoneEntry(id: string): RiskZoneEntry | null {
+  const state = loadAll();
+  const e = state.entries.find(x => x.id === id);
+  if (!e) return null;
+  e.acknowledged = true;
+  saveAll(state);
+  return e;
+}
@@ -0,0 +1,57 @@
+/**
+ * Mari8X Tracked Vessels
+ *
+ * The vessels the position watchers look after — those with an ETA that has
+ * no actual arrival yet, or an open port call (the same set port-events.ts
+ * scans) — and their best current fix with course and speed.
+ *
+ * Shared by the ECA changeover reminders and the risk-zone watcher.
+ *
+ * © 2026 ANKR Labs — Mari8X Community Edition
+ */
+
+import { prisma } from '../lib/prisma.js';
+import { fixWindow } from '../lib/clock.js';
+import { pickBest, type FixRow } from './fusion.js';
+import { listAllPortCalls } from '../agent/port-call.js';
+import { listAllETAs } from '../agent/eta.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface TrackedVessel {
+  vesselName: string;
+  portCode:   string;    // next port: earliest pending ETA, else the open port call
+}
+
+export type CourseFix = FixRow & { speed: number | null; course: number | null; heading: number | null };
+
+// ── Queries ───────────────────────────────────────────────────────────────────
+
+/** Tracked IMOs → vessel name and next port. */
+export function trackedVessels(): Map<string, TrackedVessel> {
+  const out  = new Map<string, TrackedVessel>();
+  const etas = listAllETAs()
+    .filter(r => r.vesselIMO && !r.ata)
+    .sort((a, b) => a.currentETA.localeCompare(b.currentETA));
+  for (const r of etas) {
+    if (!out.has(r.vesselIMO!)) out.set(r.vesselIMO!, { vesselName: r.vesselName, portCode: r.portCode });
+  }
+  for (const c of listAllPortCalls(true)) {
+    if (c.vesselIMO && !out.has(c.vesselIMO)) out.set(c.vesselIMO, { vesselName: c.vesselName, portCode: c.portCode });
+  }
+  return out;
+}
+
+/** Best fix between `since` and `now` (fusion rules), or null without one. */
+export async function latestFix(imo: string, since: number, now: number): Promise<CourseFix | null> {
+  const rows: CourseFix[] = await prisma.vesselPosition.findMany({
+    where:   { vessel: { imo }, quality: 'ok', ...fixWindow(since, now) },
+    orderBy: { timestamp: 'desc' },
+    select:  {
+      vesselId: true, latitude: true, longitude: true, timestamp: true,
+      source: true, speed: true, course: true, heading: true,
+    },
+    take:    200,
+  });
+  return pickBest(rows, now);
+}
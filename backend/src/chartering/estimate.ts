@@ -0,0 +1,462 @@
+/**
+ * Mari8X Voyage Estimates
+ *
+ * Pre-fixture voyage P&L for chartering desks. An estimate takes a rotation
+ * and the commercial terms and works out:
+ *
+ *   time        sea days per leg (voyage planner, routing/voyage-plan.ts)
+ *               and port days per call
+ *   bunkers     sea consumption per leg at the leg's speed, scaled by the
+ *               cube of speed / reference speed; port consumption per day.
+ *               With an ecaFuel grade, the share of each leg sailed inside
+ *               emission control areas burns that grade instead
+ *   port costs  forecastDA() per call at its ETA, unless overridden
+ *   canal tolls per transit of each canal the route uses, from the canal
+ *               tariffs (routing/canal-dues.ts) unless given — laden or in
+ *               ballast as the leg is sailed
+ *   commissions address commission + brokerage, % of gross freight
+ *
+ *   net result  = freight − commissions − voyage costs
+ *   TCE/day     = net result / voyage days
+ *
+ * Estimates are saved and versioned: revising one keeps the earlier
+ * versions, and any versions can be compared side by side.
+ *
+ * Storage: /root/.ankr/state/mari8x-estimates/estimates.json
+ *
+ * © 2026 ANKR Labs — Mari8X Community Edition
+ */
+
+import * as fs   from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { planVoyage, type VoyagePlan } from '../routing/voyage-plan.js';
+import { PASSAGES, type PassageId } from '../routing/network.js';
+import type { AvoidArea } from '../routing/sea-route.js';
+import { forecastDA, type VesselSpec } from '../agent/da-forecast.js';
+import { calculateCanalDues } from '../routing/canal-dues.js';
+import { getVessel, type VesselType } from '../agent/vessel-registry.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface EstimateVessel extends VesselSpec {
+  name:   string;
+  imo?:   string;
+  type?:  VesselType;    // for canal dues; defaults to the registry entry, else OTHER
+  scnt?:  number;        // Suez Canal Net Tonnage, when known
+  pcums?: number;        // Panama Canal PC/UMS net tonnage, when known
+}
+
+export interface BunkerTerms {
+  seaFuel:               string;     // grade burnt at sea, e.g. VLSFO
+  ecaFuel?:              string;     // grade burnt at sea inside ECAs, e.g. LSMGO (default seaFuel)
+  portFuel:              string;     // grade burnt in port, e.g. MGO
+  ladenTpd:              number;     // tonnes/day at referenceSpeedKnots
+  ballastTpd?:           number;     // defaults to ladenTpd
+  portTpd:               number;
+  referenceSpeedKnots?:  number;     // speed the sea figures are quoted at (default: no scaling)
+}
+
+export interface EstimateInput {
+  name:                 string;
+  vessel:               EstimateVessel;
+  ports:                string[];             // rotation, origin first
+  departure:            string;               // ISO 8601
+  speedKnots?:          number[];             // per leg
+  portStayHours?:       number[];             // per call after the origin
+  ballastLegs?:         number[];             // leg numbers (1-based) sailed in ballast
+  avoidPassages?:       PassageId[];
+  avoidAreas?:          AvoidArea[];
+  bunkers:              BunkerTerms;
+  fuelPrices:           Record<string, number>;   // USD/t by grade
+  cargoTonnes?:         number;
+  freightRateUsd?:      number;               // per tonne
+  lumpsumFreightUsd?:   number;               // instead of rate × tonnes
+  addressCommissionPct?: number;
+  brokeragePct?:        number;
+  portCostOverrides?:   Record<string, number>;   // UN/LOCODE → USD for every call there
+  canalTollsUsd?:       Partial<Record<PassageId, number>>;  // per transit, instead of the tariff
+  otherCostsUsd?:       number;               // insurance, ILOHC, etc.
+  hireUsdPerDay?:       number;               // for the result after hire
+}
+
+export interface EstimateResult {
+  plan:             VoyagePlan;
+  seaDays:          number;
+  portDays:         number;
+  totalDays:        number;
+  bunkers:          Array<{ grade: string; tonnes: number; priceUsd: number; costUsd: number }>;
+  bunkerCostUsd:    number;
+  portCosts:        Array<{ callNo: number; unlocode: string; costUsd: number; source: 'forecast' | 'override' }>;
+  portCostUsd:      number;
+  canalTolls:       Array<{ legNo: number; passage: PassageId; laden: boolean; costUsd: number; source: 'tariff' | 'input' }>;
+  canalTollUsd:     number;
+  otherCostsUsd:    number;
+  voyageCostsUsd:   number;
+  grossFreightUsd:  number;
+  commissionsUsd:   number;
+  netResultUsd:     number;
+  tceUsdPerDay:     number;
+  hireCostUsd:      number | null;
+  resultAfterHireUsd: number | null;
+  warnings:         string[];
+}
+
+export interface EstimateVersion {
+  version:   number;
+  createdAt: string;
+  createdBy: string | null;
+  note:      string | null;
+  input:     EstimateInput;
+  result:    EstimateResult;
+}
+
+export interface VoyageEstimate {
+  estimateId: string;
+  name:       string;
+  vesselName: string;
+  createdAt:  string;
+  updatedAt:  string;
+  versions:   EstimateVersion[];   // oldest first
+}
+
+export interface EstimateSummary {
+  estimateId:    string;
+  name:          string;
+  vesselName:    string;
+  latestVersion: number;
+  ports:         string[];
+  netResultUsd:  number;
+  tceUsdPerDay:  number;
+  updatedAt:     string;
+}
+
+// ── Config ────────────────────────────────────────────────────────────────────
+
+const EST_DIR  = '/root/.ankr/state/mari8x-estimates';
+const EST_FILE = path.join(EST_DIR, 'estimates.json');
+
+const round0 = (n: number) => Math.round(n);
+const round1 = (n: number) => Math.round(n * 10) / 10;
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// ── Storage ───────────────────────────────────────────────────────────────────
+
+function ensureDir() {
+  if (!fs.existsSync(EST_DIR)) fs.mkdirSync(EST_DIR, { recursive: true });
+}
+
+function loadAll(): Record<string, VoyageEstimate> {
+  ensureDir();
+  if (!fs.existsSync(EST_FILE)) return {};
+  try { return JSON.parse(fs.readFileSync(EST_FILE, 'utf-8')); }
+  catch { return {}; }
+}
+
+function saveAll(data: Record<string, VoyageEstimate>) {
+  ensureDir();
+  fs.writeFileSync(EST_FILE, JSON.stringify(data, null, 2));
+}
+
+// ── Calculation ───────────────────────────────────────────────────────────────
+
+function validate(input: EstimateInput) {
+  if (!input.name?.trim())        throw new Error('name is required');
+  if (!input.vessel?.name)        throw new Error('vessel.name is required');
+  if (!(input.vessel.grt > 0))    throw new Error('vessel.grt must be > 0');
+  if (!(input.vessel.loaMetres > 0)) throw new Error('vessel.loaMetres must be > 0');
+  const b = input.bunkers;
+  if (!b?.seaFuel || !b.portFuel) throw new Error('bunkers.seaFuel and bunkers.portFuel are required');
+  if (!(b.ladenTpd >= 0) || !(b.portTpd >= 0) || (b.ballastTpd != null && !(b.ballastTpd >= 0))) {
+    throw new Error('bunker consumption must be >= 0');
+  }
+  if (b.referenceSpeedKnots != null && !(b.referenceSpeedKnots > 0)) {
+    throw new Error('bunkers.referenceSpeedKnots must be > 0');
+  }
+  for (const grade of [b.seaFuel, b.ecaFuel ?? b.seaFuel, b.portFuel]) {
+    if (!(input.fuelPrices?.[grade] >= 0)) throw new Error(`No price for fuel grade ${grade}`);
+  }
+  for (const pct of [input.addressCommissionPct, input.brokeragePct]) {
+    if (pct != null && !(pct >= 0 && pct < 100)) throw new Error('commission percentages must be between 0 and 100');
+  }
+}
+
+function canalVesselType(vessel: EstimateVessel, warnings: string[]): VesselType {
+  if (vessel.type) return vessel.type;
+  const registered = vessel.imo ? getVessel(vessel.imo) : null;
+  if (registered) return registered.type;
+  warnings.push('No vessel type given or registered; canal dues use OTHER');
+  return 'OTHER';
+}
+
+/**
+ * Work out an estimate without saving it.
+ */
+export async function calculateEstimate(input: EstimateInput): Promise<EstimateResult> {
+  validate(input);
+  const warnings: string[] = [];
+  const b = input.bunkers;
+
+  const plan = await planVoyage({
+    ports:         input.ports,
+    departure:     input.departure,
+    speedKnots:    input.speedKnots,
+    portStayHours: input.portStayHours,
+    avoidPassages: input.avoidPassages,
+    avoidAreas:    input.avoidAreas,
+  });
+
+  // Bunkers
+  const fuel = new Map<string, number>();
+  const burn = (grade: string, t: number) => fuel.set(grade, (fuel.get(grade) ?? 0) + t);
+  const ballast = new Set(input.ballastLegs ?? []);
+  for (const leg of plan.legs) {
+    const base   = ballast.has(leg.legNo) ? (b.ballastTpd ?? b.ladenTpd) : b.ladenTpd;
+    const scale  = b.referenceSpeedKnots ? Math.pow(leg.speedKnots / b.referenceSpeedKnots, 3) : 1;
+    const tonnes = base * scale * leg.sailingHours / 24;
+    const inEca  = leg.distanceNm > 0 ? Math.min(1, leg.ecaDistanceNm / leg.distanceNm) : 0;
+    if (inEca > 0) burn(b.ecaFuel ?? b.seaFuel, tonnes * inEca);
+    burn(b.seaFuel, tonnes * (1 - inEca));
+  }
+  const portDays = plan.totalPortHours / 24;
+  burn(b.portFuel, b.portTpd * portDays);
+
+  const bunkers = [...fuel].map(([grade, tonnes]) => ({
+    grade,
+    tonnes:   round1(tonnes),
+    priceUsd: input.fuelPrices[grade],
+    costUsd:  round0(tonnes * input.fuelPrices[grade]),
+  }));
+
+  // Port costs — every call, origin included
+  const overrides = Object.fromEntries(
+    Object.entries(input.portCostOverrides ?? {}).map(([k, v]) => [k.toUpperCase(), v]));
+  const portCosts = plan.calls.map(c => {
+    const override = overrides[c.unlocode];
+    if (override != null) return { callNo: c.callNo, unlocode: c.unlocode, costUsd: round0(override), source: 'override' as const };
+    const da = forecastDA(c.unlocode, input.vessel, c.eta ?? c.etd);
+    return { callNo: c.callNo, unlocode: c.unlocode, costUsd: da.costs.totalUsd, source: 'forecast' as const };
+  });
+
+  // Canal tolls — per transit
+  const canalTolls: EstimateResult['canalTolls'] = [];
+  let vesselType: VesselType | undefined;
+  for (const leg of plan.legs) {
+    const laden = !ballast.has(leg.legNo);
+    for (const p of leg.passages.filter(id => PASSAGES[id].canal)) {
+      const toll = input.canalTollsUsd?.[p];
+      if (toll != null) {
+        canalTolls.push({ legNo: leg.legNo, passage: p, laden, costUsd: round0(toll), source: 'input' });
+        continue;
+      }
+      vesselType ??= canalVesselType(input.vessel, warnings);
+      const dues = calculateCanalDues(p, {
+        gt: input.vessel.grt, type: vesselType, laden,
+        scnt: input.vessel.scnt, pcums: input.vessel.pcums, loaMetres: input.vessel.loaMetres,
+      });
+      for (const n of dues.notes.filter(n => / approximated as |^LOA /.test(n))) {
+        warnings.push(`${dues.name} (leg ${leg.legNo}): ${n}`);
+      }
+      canalTolls.push({ legNo: leg.legNo, passage: p, laden, costUsd: dues.totalUsd, source: 'tariff' });
+    }
+  }
+
+  // Revenue
+  let grossFreightUsd = 0;
+  if (input.lumpsumFreightUsd != null) {
+    grossFreightUsd = input.lumpsumFreightUsd;
+  } else if (input.freightRateUsd != null && input.cargoTonnes != null) {
+    grossFreightUsd = input.freightRateUsd * input.cargoTonnes;
+  } else {
+    warnings.push('No freight given (lumpsumFreightUsd, or freightRateUsd with cargoTonnes); revenue is 0');
+  }
+  const commissionPct  = (input.addressCommissionPct ?? 0) + (input.brokeragePct ?? 0);
+  const commissionsUsd = grossFreightUsd * commissionPct / 100;
+
+  const sum = (xs: Array<{ costUsd: number }>) => xs.reduce((a, x) => a + x.costUsd, 0);
+  const bunkerCostUsd  = sum(bunkers);
+  const portCostUsd    = sum(portCosts);
+  const canalTollUsd   = sum(canalTolls);
+  const otherCostsUsd  = input.otherCostsUsd ?? 0;
+  const voyageCostsUsd = bunkerCostUsd + portCostUsd + canalTollUsd + otherCostsUsd;
+  const netResultUsd   = grossFreightUsd - commissionsUsd - voyageCostsUsd;
+
+  const seaDays   = plan.totalSailingHours / 24;
+  const totalDays = seaDays + portDays;
+  const hireCostUsd = input.hireUsdPerDay != null ? input.hireUsdPerDay * totalDays : null;
+
+  return {
+    plan,
+    seaDays:            round2(seaDays),
+    portDays:           round2(portDays),
+    totalDays:          round2(totalDays),
+    bunkers,
+    bunkerCostUsd:      round0(bunkerCostUsd),
+    portCosts,
+    portCostUsd:        round0(portCostUsd),
+    canalTolls,
+    canalTollUsd:       round0(canalTollUsd),
+    otherCostsUsd:      round0(otherCostsUsd),
+    voyageCostsUsd:     round0(voyageCostsUsd),
+    grossFreightUsd:    round0(grossFreightUsd),
+    commissionsUsd:     round0(commissionsUsd),
+    netResultUsd:       round0(netResultUsd),
+    tceUsdPerDay:       totalDays > 0 ? round0(netResultUsd / totalDays) : 0,
+    hireCostUsd:        hireCostUsd == null ? null : round0(hireCostUsd),
+    resultAfterHireUsd: hireCostUsd == null ? null : round0(netResultUsd - hireCostUsd),
+    warnings,
+  };
+}
+
+// ── Saved estimates ───────────────────────────────────────────────────────────
+
+function summarize(e: VoyageEstimate): EstimateSummary {
+  const latest = e.versions[e.versions.length - 1];
+  return {
+    estimateId:    e.estimateId,
+    name:          e.name,
+    vesselName:    e.vesselName,
+    latestVersion: latest.version,
+    ports:         latest.result.plan.calls.map(c => c.unlocode),
+    netResultUsd:  latest.result.netResultUsd,
+    tceUsdPerDay:  latest.result.tceUsdPerDay,
+    updatedAt:     e.updatedAt,
+  };
+}
+
+/** Calculate and save a new estimate as version 1. */
+export async function createEstimate(
+  input: EstimateInput,
+  meta:  { createdBy?: string; note?: string } = {},
+): Promise<VoyageEstimate> {
+  const result = await calculateEstimate(input);
+  const now    = new Date().toISOString();
+  const estimate: VoyageEstimate = {
+    estimateId: randomUUID(),
+    name:       input.name.trim(),
+    vesselName: input.vessel.name,
+    createdAt:  now,
+    updatedAt:  now,
+    versions:   [{ version: 1, createdAt: now, createdBy: meta.createdBy ?? null, note: meta.note ?? null, input, result }],
+  };
+  const all = loadAll();
+  all[estimate.estimateId] = estimate;
+  saveAll(all);
+  return estimate;
+}
+
+/**
+ * Save a new version. `changes` are merged over the latest version's input
+ * (top-level fields replace, e.g. a new `bunkers` object replaces the old one).
+ */
+export async function reviseEstimate(
+  estimateId: string,
+  changes:    Partial<EstimateInput>,
+  meta:       { createdBy?: string; note?: string } = {},
+): Promise<VoyageEstimate> {
+  const existing = loadAll()[estimateId];
+  if (!existing) throw new Error(`Estimate ${estimateId} not found`);
+
+  const latest = existing.versions[existing.versions.length - 1];
+  const input  = { ...latest.input, ...changes };
+  const result = await calculateEstimate(input);
+  const now    = new Date().toISOString();
+
+  // Re-read after the (async) calculation so concurrent revisions are not lost
+  const all = loadAll();
+  const e   = all[estimateId];
+  if (!e) throw new Error(`Estimate ${estimateId} not found`);
+  e.versions.push({
+    version:   e.versions[e.versions.length - 1].version + 1,
+    createdAt: now,
+    createdBy: meta.createdBy ?? null,
+    note:      meta.note ?? null,
+    input,
+    result,
+  });
+  e.name       = input.name.trim();
+  e.vesselName = input.vessel.name;
+  e.updatedAt  = now;
+  saveAll(all);
+  return e;
+}
+
+export function getEstimate(estimateId: string): VoyageEstimate | null {
+  return loadAll()[estimateId] ?? null;
+}
+
+/** One version of an estimate (latest when `version` is omitted). */
+export function getEstimateVersion(estimateId: string, version?: number): EstimateVersion | null {
+  const e = getEstimate(estimateId);
+  if (!e) return null;
+  if (version == null) return e.versions[e.versions.length - 1];
+  return e.versions.find(v => v.version === version) ?? null;
+}
+
+export function listEstimates(vesselName?: string): EstimateSummary[] {
+  return Object.values(loadAll())
+    .filter(e => !vesselName || e.vesselName.toLowerCase() === vesselName.toLowerCase())
+    .map(summarize)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export function deleteEstimate(estimateId: string): boolean {
+  const all = loadAll();
+  if (!all[estimateId]) return false;
+  delete all[estimateId];
+  saveAll(all);
+  return true;
+}
+
+// ── Comparison ────────────────────────────────────────────────────────────────
+
+const COMPARE_ROWS: Array<{ key: keyof EstimateResult; label: string }> = [
+  { key: 'totalDays',       label: 'Voyage days' },
+  { key: 'seaDays',         label: 'Sea days' },
+  { key: 'portDays',        label: 'Port days' },
+  { key: 'grossFreightUsd', label: 'Gross freight (USD)' },
+  { key: 'commissionsUsd',  label: 'Commissions (USD)' },
+  { key: 'bunkerCostUsd',   label: 'Bunkers (USD)' },
+  { key: 'portCostUsd',     label: 'Port costs (USD)' },
+  { key: 'canalTollUsd',    label: 'Canal tolls (USD)' },
+  { key: 'otherCostsUsd',   label: 'Other costs (USD)' },
+  { key: 'voyageCostsUsd',  label: 'Voyage costs (USD)' },
+  { key: 'netResultUsd',    label: 'Net result (USD)' },
+  { key: 'tceUsdPerDay',    label: 'TCE (USD/day)' },
+];
+
+export interface EstimateComparison {
+  columns: Array<{ estimateId: string; version: number; name: string; vesselName: string; ports: string[] }>;
+  rows:    Array<{ key: string; label: string; values: number[] }>;
+  bestTce: number;          // column index with the highest TCE
+}
+
+/**
+ * Side-by-side comparison of saved estimate versions (latest version of an
+ * estimate when `version` is omitted).
+ */
+export function compareEstimates(refs: Array<{ estimateId: string; version?: number }>): EstimateComparison {
+  if (refs.length < 2) throw new Error('Give at least two estimates to compare');
+
+  const all  = loadAll();
+  const cols = refs.map(ref => {
+    const e = all[ref.estimateId];
+    if (!e) throw new Error(`Estimate ${ref.estimateId} not found`);
+    const v = ref.version == null ? e.versions[e.versions.length - 1] : e.versions.find(x => x.version === ref.version);
+    if (!v) throw new Error(`Estimate ${ref.estimateId} has no version ${ref.version}`);
+    return { e, v };
+  });
+
+  const tces = cols.map(c => c.v.result.tceUsdPerDay);
+  return {
+    columns: cols.map(({ e, v }) => ({
+      estimateId: e.estimateId,
+      version:    v.version,
+      name:       e.name,
+      vesselName: e.vesselName,
+      ports:      v.result.plan.calls.map(c => c.unlocode),
+    })),
+    rows:    COMPARE_ROWS.map(r => ({ key: r.key, label: r.label, values: cols.map(c => c.v.result[r.key] as number) })),
+    bestTce: tces.indexOf(Math.max(...tces)),
+  };
+}
@@ -0,0 +1,251 @@
+/**
+ * Mari8X Anchorage Dwell Analysis
+ *
+ * Reconstructs, from VesselPosition history, when each vessel entered a
+ * port's anchorage zone and when it left — giving observed waiting times.
+ * The rolling median is the live engine's estimatedWaitHours (engine.ts).
+ *
+ * Algorithm:
+ *   1. Load fixes inside the port's bounding box (outer radius + any
+ *      geofence polygons) for the look-back window.
+ *   2. Walk each vessel's fixes in time order and classify them with the
+ *      same zone rules as the live engine (classifyZone).
+ *   3. A run of anchorage fixes is one episode. It ends at the first fix in
+ *      a berth zone, or at the first non-anchorage fix of a run that stays
+ *      out for MIN_EXCURSION_HOURS (shorter excursions — swinging at anchor
+ *      across the zone edge, a jittery fix — are tolerated):
+ *        berthed  — that fix is in a berth zone, or closer to the port point
+ *        departed — that fix is further out (gave up / shifted anchorage)
+ *      An episode still running at the vessel's latest fix is 'ongoing'
+ *      if that fix is recent, otherwise 'lost' (AIS coverage ended); a
+ *      silence of more than 6h inside an episode also ends it as 'lost'.
+ *   4. Completed episodes → median / p90 / mean dwell; ongoing episodes →
+ *      longest-waiting ships currently at anchor.
+ *
+ * The newest MAX_ROWS fixes in the window are used. Results are cached per
+ * port for 10 minutes.
+ */
+
+import { prisma } from '../lib/prisma.js';
+import { haversineDistance } from '../lib/geo-utils.js';
+import { getPortGeofence, classifyZone, DEFAULT_RADII } from './geofence.js';
+import { fuseTrack } from '../ais/fusion.js';
+import { clockNow, clockDate, fixWindow } from '../lib/clock.js';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type DwellOutcome = 'berthed' | 'departed' | 'ongoing' | 'lost';
+
+export interface DwellEpisode {
+  imo:        string;
+  name:       string;
+  enteredAt:  string;
+  leftAt:     string | null;   // null while ongoing
+  dwellHours: number;
+  outcome:    DwellOutcome;
+}
+
+export interface DwellStats {
+  samples:     number;
+  medianHours: number | null;
+  p90Hours:    number | null;
+  meanHours:   number | null;
+}
+
+export interface DwellReport {
+  port:             { unlocode: string; name: string };
+  windowDays:       number;
+  stats:            DwellStats;                           // completed episodes in window
+  byDay:            Array<{ date: string } & DwellStats>; // by day the episode ended
+  currentlyAtAnchor: number;
+  longestWaiting:   DwellEpisode[];
+  recentEpisodes:   DwellEpisode[];
+  generatedAt:      string;
+}
+
+// ── Config ───────────────────────────────────────────────────────────────────
+
+const MIN_DWELL_HOURS     = 0.5;     // shorter anchorage runs are noise / drifting through
+const MIN_EXCURSION_HOURS = 1;       // time out of the anchorage that ends an episode
+const STALE_FIX_HOURS     = 6;       // ongoing only if latest fix is this recent
+const MAX_ROWS            = 60_000;
+const CACHE_TTL_MS        = 10 * 60_000;
+
+const cache = new Map<string, { data: DwellReport; ts: number }>();
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const idx = Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1);
+  return sorted[Math.max(0, idx)];
+}
+
+function statsFor(hours: number[]): DwellStats {
+  const sorted = [...hours].sort((a, b) => a - b);
+  return {
+    samples:     sorted.length,
+    medianHours: sorted.length ? round1(percentile(sorted, 0.5)!) : null,
+    p90Hours:    sorted.length ? round1(percentile(sorted, 0.9)!) : null,
+    meanHours:   sorted.length ? round1(sorted.reduce((s, h) => s + h, 0) / sorted.length) : null,
+  };
+}
+
+/** Lat/lng box covering the outer radius and every geofence vertex. */
+function boundingBox(
+  port:  { lat: number; lng: number },
+  outerNm: number,
+  vertices: Array<{ lat: number; lng: number }>,
+) {
+  const dLat = outerNm / 60;
+  const dLng = outerNm / (60 * Math.max(0.1, Math.cos(port.lat * Math.PI / 180)));
+  const box  = { minLat: port.lat - dLat, maxLat: port.lat + dLat, minLng: port.lng - dLng, maxLng: port.lng + dLng };
+  for (const v of vertices) {
+    box.minLat = Math.min(box.minLat, v.lat); box.maxLat = Math.max(box.maxLat, v.lat);
+    box.minLng = Math.min(box.minLng, v.lng); box.maxLng = Math.max(box.maxLng, v.lng);
+  }
+  return box;
+}
+
+// ── Core ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Observed anchorage dwell for a port over the last `windowDays` days.
+ */
+export async function getAnchorageDwell(
+  unlocode:   string,
+  windowDays = 7,
+  limit      = 10,
+): Promise<DwellReport | null> {
+  const upper    = unlocode.toUpperCase();
+  const cacheKey = `${upper}:${windowDays}:${limit}`;
+  const cached   = cache.get(cacheKey);
+  if (cached && clockNow() - cached.ts < CACHE_TTL_MS) return cached.data;
+
+  const port = await prisma.port.findUnique({ where: { unlocode: upper } });
+  if (!port || port.lat == null || port.lng == null) return null;
+  const portPt = { lat: port.lat, lng: port.lng };
+
+  const fence = getPortGeofence(upper);
+  const radii = fence?.radii ?? DEFAULT_RADII;
+  const box   = boundingBox(portPt, radii.outerNm, fence?.polygons.flatMap(p => p.vertices) ?? []);
+  const now   = clockNow();
+  const since = new Date(now - windowDays * 86_400_000);
+
+  const rows = await prisma.vesselPosition.findMany({
+    where: {
+      ...fixWindow(since, now),
+      quality:   'ok',
+      latitude:  { gte: box.minLat, lte: box.maxLat },
+      longitude: { gte: box.minLng, lte: box.maxLng },
+    },
+    orderBy: { timestamp: 'desc' },   // capped by time, not by vessel id
+    include: { vessel: { select: { imo: true, name: true } } },
+    take:    MAX_ROWS,
+  });
+
+  // Group by vessel (fuseTrack puts each back in time order)
+  const byVessel = new Map<string, typeof rows>();
+  for (const r of rows) {
+    if (!byVessel.has(r.vesselId)) byVessel.set(r.vesselId, []);
+    byVessel.get(r.vesselId)!.push(r);
+  }
+
+  const episodes: DwellEpisode[] = [];
+
+  for (const rowsForVessel of byVessel.values()) {
+    const fixes = fuseTrack(rowsForVessel);   // one track across AIS / satellite / manual
+    let start: (typeof fixes)[number] | null = null;
+    let last:  (typeof fixes)[number] | null = null;
+    let held:  (typeof fixes)[number] | null = null;   // last anchorage fix of the episode
+    let out:   (typeof fixes)[number] | null = null;   // first fix of a pending excursion
+
+    const close = (leftAt: Date | null, outcome: DwellOutcome) => {
+      const end   = leftAt?.getTime() ?? (outcome === 'ongoing' ? now : last!.timestamp.getTime());
+      const hours = (end - start!.timestamp.getTime()) / 3600_000;
+      if (hours >= MIN_DWELL_HOURS || outcome === 'ongoing') {
+        episodes.push({
+          imo:        start!.vessel.imo,
+          name:       start!.vessel.name,
+          enteredAt:  start!.timestamp.toISOString(),
+          leftAt:     leftAt ? leftAt.toISOString() : null,
+          dwellHours: round1(hours),
+          outcome,
+        });
+      }
+      start = null;
+      out   = null;
+    };
+
+    // The episode ends at `f`, the first fix out of the anchorage
+    const leave = (f: (typeof fixes)[number], berth = false) => {
+      const before = haversineDistance(portPt.lat, portPt.lng, held!.latitude, held!.longitude);
+      const after  = haversineDistance(portPt.lat, portPt.lng, f.latitude, f.longitude);
+      close(f.timestamp, berth || after < before ? 'berthed' : 'departed');
+    };
+
+    for (const f of fixes) {
+      // A long silence splits the track — we cannot tell what happened in between
+      if (start && last && f.timestamp.getTime() - last.timestamp.getTime() > STALE_FIX_HOURS * 3600_000) {
+        if (out) leave(out); else close(null, 'lost');
+      }
+
+      const zone = classifyZone(portPt, fence, {
+        lat: f.latitude, lng: f.longitude, speedKt: f.speed ?? 0, navStatus: f.navigationStatus ?? null,
+      });
+
+      if (zone === 'anchorage') {
+        if (!start) start = f;
+        held = f;
+        out  = null;
+      } else if (start && zone === 'berth') {
+        leave(out ?? f, true);
+      } else if (start) {
+        out ??= f;
+        if (f.timestamp.getTime() - out.timestamp.getTime() >= MIN_EXCURSION_HOURS * 3600_000) leave(out);
+      }
+      last = f;
+    }
+
+    if (start && last) {
+      const fresh = now - last.timestamp.getTime() < STALE_FIX_HOURS * 3600_000;
+      if (out && (!fresh || now - out.timestamp.getTime() >= MIN_EXCURSION_HOURS * 3600_000)) leave(out);
+      else close(null, fresh ? 'ongoing' : 'lost');
+    }
+  }
+
+  const completed = episodes.filter(e => e.outcome === 'berthed' || e.outcome === 'departed');
+  const ongoing   = episodes.filter(e => e.outcome === 'ongoing');
+
+  const days = new Map<string, number[]>();
+  for (const e of completed) {
+    const d = e.leftAt!.slice(0, 10);
+    if (!days.has(d)) days.set(d, []);
+    days.get(d)!.push(e.dwellHours);
+  }
+
+  const data: DwellReport = {
+    port:              { unlocode: port.unlocode, name: port.name },
+    windowDays,
+    stats:             statsFor(completed.map(e => e.dwellHours)),
+    byDay:             [...days.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, hours]) => ({ date, ...statsFor(hours) })),
+    currentlyAtAnchor: ongoing.length,
+    longestWaiting:    ongoing.sort((a, b) => b.dwellHours - a.dwellHours).slice(0, limit),
+    recentEpisodes:    completed
+      .sort((a, b) => b.leftAt!.localeCompare(a.leftAt!))
+      .slice(0, limit),
+    generatedAt:       clockDate().toISOString(),
+  };
+
+  cache.set(cacheKey, { data, ts: clockNow() });
+  return data;
+}
+
+/** Drop cached dwell reports (all ports). */
+export function invalidateDwellCache(): void {
+  cache.clear();
+}
@@ -1,18 +1,38 @@
 /**
  * Mari8X Port Congestion Engine
  *
- * Classifies vessels near a port as anchorage / approach / transit,
+ * Classifies vessels near a port as berth / anchorage / approach / transit,
  * computes a congestion score and estimated wait time + detention cost.
  *
- * Scores:
+ * Zones come from the port's geofence polygons (see geofence.ts); any zone
+ * without a polygon falls back to the radii below.
+ *
+ * Scores (built-in profile; per-port profiles in scoring.ts):
  *   anchorage vessel (≤8nm, speed ≤2kt or AIS navStatus AT_ANCHOR/MOORED): ×15
  *   approach vessel  (≤20nm, speed ≤5kt):                                   ×5
  *   transit vessel   (within 25nm, speed >5kt):                             ×1 (not in score)
+ *   berth vessel     (inside a berth polygon):                              not in score
+ * Each vessel's points are multiplied by its type/size weight from the
+ * vessel registry.
  *
  * Level:  low 0–9 | moderate 10–24 | high 25–49 | critical 50+
+ *
+ * Wait: the rolling median anchorage dwell observed over the last 7 days
+ * (dwell.ts). With fewer than MIN_DWELL_SAMPLES completed episodes it falls
+ * back to 6h per vessel at anchor plus 2h per vessel approaching.
+ * Detention exposure is the wait at $12,000/day.
  */
 
 import { prisma } from '../lib/prisma.js';
+import { getPortGeofence, classifyZone, type VesselZone } from './geofence.js';
+import { getAnchorageDwell } from './dwell.js';
+import {
+  resolveScoringProfile, congestionScoreFor, levelForScore, vesselWeight, summarizeProfile,
+  type CongestionLevel, type ProfileSummary,
+} from './scoring.js';
+import { listVessels } from '../agent/vessel-registry.js';
+import { selectBestPerVessel } from '../ais/fusion.js';
+import { clockNow, clockDate, fixWindow } from '../lib/clock.js';
 import * as fs   from 'fs';
 import * as path from 'path';
 
@@ -30,9 +50,6 @@ function haversineNm(lat1: number, lng1: number, lat2: number, lng2: number): nu
   return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
 }
 
-// AIS Navigation Status codes for stopped vessels
-const STOPPED_NAV_STATUS = new Set([1, 5, 6]); // 1=AT_ANCHOR 5=MOORED 6=AGROUND
-
 // ── Types ────────────────────────────────────────────────────────────────────
 
 export interface VesselSighting {
@@ -42,7 +59,8 @@ export interface VesselSighting {
   speedKt:   number;
   heading:   number | null;
   navStatus: number | null;
-  zone:      'anchorage' | 'approach' | 'transit';
+  zone:      VesselZone;
+  weight:    number;        // type/size multiplier from the scoring profile
 }
 
 export interface CongestionData {
@@ -56,11 +74,19 @@ export interface CongestionData {
   anchorageVessels:   number;
   approachVessels:    number;
   transitVessels:     number;
+  berthVessels:       number;
+  weightedAnchorage:  number;    // anchorage / approach counts with vessel weights,
+  weightedApproach:   number;    // as scored
+  geofence:           'polygon' | 'radius';
   congestionScore:    number;
-  level:              'low' | 'moderate' | 'high' | 'critical';
+  level:              CongestionLevel;
+  scoringProfile:     ProfileSummary;
   estimatedWaitHours: number;
+  waitSource:         'observed' | 'formula';
+  dwellSamples:       number;    // completed anchorage episodes behind an observed wait
   detentionCostUsd:   number;
-  vessels:            VesselSighting[];
+  vessels:            VesselSighting[];   // nearest 25
+  inPortImos:         string[];          // every vessel at berth, at anchor or approaching (untruncated)
   dataWindowHours:    number;
   updatedAt:          string;
 }
@@ -70,6 +96,12 @@ export interface CongestionData {
 const CACHE_TTL_MS = 60_000;
 const cache = new Map<string, { data: CongestionData; ts: number }>();
 
+// ── Wait estimate ────────────────────────────────────────────────────────────
+
+const DWELL_WINDOW_DAYS = 7;
+const MIN_DWELL_SAMPLES = 5;
+const DETENTION_USD_PER_H = 500;   // $12,000/day
+
 // ── Alert log ────────────────────────────────────────────────────────────────
 
 const ALERT_LOG = '/root/.ankr/logs/congestion-alerts.jsonl';
@@ -77,7 +109,7 @@ const ALERT_CFG = '/root/.ankr/config/congestion-alerts.json';
 
 function logAlert(port: string, level: string, score: number): void {
   try {
-    const entry = JSON.stringify({ ts: new Date().toISOString(), port, level, score });
+    const entry = JSON.stringify({ ts: clockDate().toISOString(), port, level, score });
     const dir = path.dirname(ALERT_LOG);
     if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
     fs.appendFileSync(ALERT_LOG, entry + '\n', 'utf-8');
@@ -113,50 +145,48 @@ export async function getPortCongestion(unlocode: string): Promise<CongestionDat
   const upper = unlocode.toUpperCase();
 
   const cached = cache.get(upper);
-  if (cached && Date.now() - cached.ts < CACHE_TTL_MS) return cached.data;
+  if (cached && clockNow() - cached.ts < CACHE_TTL_MS) return cached.data;
 
   const port = await prisma.port.findUnique({ where: { unlocode: upper } });
   if (!port || port.lat == null || port.lng == null) return null;
 
   // Fetch positions from the last 6 hours
-  const since = new Date(Date.now() - 6 * 3600_000);
+  const since = new Date(clockNow() - 6 * 3600_000);
   const rawPositions = await prisma.vesselPosition.findMany({
-    where:   { timestamp: { gte: since } },
+    where:   { ...fixWindow(since), quality: 'ok' },
     orderBy: { timestamp: 'desc' },
     include: { vessel: { select: { imo: true, name: true } } },
     take:    5000,
   });
 
-  // Deduplicate — keep only the most recent position per vessel
-  const seen = new Set<string>();
-  const positions = rawPositions.filter(p => {
-    if (seen.has(p.vesselId)) return false;
-    seen.add(p.vesselId);
-    return true;
-  });
+  // Best current position per vessel across AIS / satellite / manual sources
+  const positions = selectBestPerVessel(rawPositions);
 
   // Classify each vessel
-  let anchorage = 0, approach = 0, transit = 0;
+  const fence = getPortGeofence(upper);
+  const { profile, source } = resolveScoringProfile(upper);
+  const registry = new Map(listVessels().map(v => [v.imo, v]));
+  let anchorage = 0, approach = 0, transit = 0, berth = 0;
+  let weightedAnchorage = 0, weightedApproach = 0;
   const sightings: VesselSighting[] = [];
 
   for (const p of positions) {
-    const dist  = haversineNm(port.lat!, port.lng!, p.latitude, p.longitude);
-    if (dist > 25) continue;
-
-    const speed     = p.speed ?? 0;
-    const navStatus = p.navigationStatus ?? -1;
-    let zone: VesselSighting['zone'];
-
-    if (dist <= 8 && (speed <= 2 || STOPPED_NAV_STATUS.has(navStatus))) {
-      zone = 'anchorage';
-      anchorage++;
-    } else if (dist <= 20 && speed <= 5) {
-      zone = 'approach';
-      approach++;
-    } else {
-      zone = 'transit';
-      transit++;
-    }
+    const speed = p.speed ?? 0;
+    const zone  = classifyZone(
+      { lat: port.lat!, lng: port.lng! },
+      fence,
+      { lat: p.latitude, lng: p.longitude, speedKt: speed, navStatus: p.navigationStatus ?? null },
+    );
+    if (!zone) continue;
+
+    const weight = vesselWeight(profile, registry.get(p.vessel.imo) ?? null);
+
+    if (zone === 'anchorage')     { anchorage++; weightedAnchorage += weight; }
+    else if (zone === 'approach') { approach++;  weightedApproach  += weight; }
+    else if (zone === 'berth')    berth++;
+    else                          transit++;
+
+    const dist = haversineNm(port.lat!, port.lng!, p.latitude, p.longitude);
 
     sightings.push({
       imo:       p.vessel.imo,
@@ -166,36 +196,44 @@ export async function getPortCongestion(unlocode: string): Promise<CongestionDat
       heading:   p.heading ?? null,
       navStatus: p.navigationStatus ?? null,
       zone,
+      weight,
     });
   }
 
   sightings.sort((a, b) => a.distanceNm - b.distanceNm);
 
-  const score = anchorage * 15 + approach * 5;
-  const level: CongestionData['level'] =
-    score >= 50 ? 'critical' :
-    score >= 25 ? 'high'     :
-    score >= 10 ? 'moderate' : 'low';
+  const score = congestionScoreFor(weightedAnchorage, weightedApproach, profile);
+  const level = levelForScore(score, profile);
 
-  // Rough estimates: 6h/vessel at anchor, 2h/vessel approaching, $12,000/day = $500/hr
-  const waitHours    = anchorage * 6 + approach * 2;
-  const detentionUsd = Math.round(waitHours * 500);
+  // Observed median dwell when there is enough of it, else 6h/vessel at anchor, 2h/vessel approaching
+  const dwell        = await getAnchorageDwell(upper, DWELL_WINDOW_DAYS).catch(() => null);
+  const observed     = dwell && dwell.stats.samples >= MIN_DWELL_SAMPLES ? dwell.stats.medianHours : null;
+  const waitHours    = observed ?? anchorage * 6 + approach * 2;
+  const detentionUsd = Math.round(waitHours * DETENTION_USD_PER_H);
 
   const data: CongestionData = {
     port:               { unlocode: port.unlocode, name: port.name, country: port.country, lat: port.lat!, lng: port.lng! },
     anchorageVessels:   anchorage,
     approachVessels:    approach,
     transitVessels:     transit,
+    berthVessels:       berth,
+    weightedAnchorage:  Math.round(weightedAnchorage * 100) / 100,
+    weightedApproach:   Math.round(weightedApproach * 100) / 100,
+    geofence:           fence && fence.polygons.length > 0 ? 'polygon' : 'radius',
     congestionScore:    score,
     level,
+    scoringProfile:     summarizeProfile(profile, source),
     estimatedWaitHours: waitHours,
+    waitSource:         observed !== null ? 'observed' : 'formula',
+    dwellSamples:       dwell?.stats.samples ?? 0,
     detentionCostUsd:   detentionUsd,
     vessels:            sightings.slice(0, 25),
+    inPortImos:         sightings.filter(v => v.zone !== 'transit').map(v => v.imo),
     dataWindowHours:    6,
-    updatedAt:          new Date().toISOString(),
+    updatedAt:          clockDate().toISOString(),
   };
 
-  cache.set(upper, { data, ts: Date.now() });
+  cache.set(upper, { data, ts: clockNow() });
 
   // Alert if high/critical
   if (level === 'high' || level === 'critical') {
@@ -206,6 +244,12 @@ export async function getPortCongestion(unlocode: string): Promise<CongestionDat
   return data;
 }
 
+/** Drop cached results (all ports, or one) — call after zone/profile edits. */
+export function invalidateCongestionCache(unlocode?: string): void {
+  if (unlocode) cache.delete(unlocode.toUpperCase());
+  else cache.clear();
+}
+
 /** Return the N most congested ports (score > 0). */
 export async function getTopCongestedPorts(limit = 10): Promise<CongestionData[]> {
   const ports = await prisma.port.findMany({
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('fs', () => import('../test/mem-fs.js'));
+vi.mock('../lib/prisma.js', () => ({ prisma: { congestionSnapshot: { findMany: async () => [] } } }));
+
+import { files } from '../test/mem-fs.js';
+import { setVirtualClock, resetClock } from '../lib/clock.js';
+import { BUILTIN_PROFILE } from './scoring.js';
+import { loadForecastBasis, projectCongestion, HORIZON_HOURS, type ForecastBasis } from './forecast.js';
+import type { CongestionData } from './engine.js';
+import type { PreArrivalReport, PreArrivalVessel } from '../agent/pre-arrival.js';
+
+const T0   = Date.parse('2026-10-01T00:00:00Z');
+const port = { unlocode: 'SGSIN', name: 'Singapore', country: 'SG', lat: 1.25, lng: 103.8 };
+const hoursLater = (h: number) => new Date(T0 + h * 3600_000);
+
+function basis(overrides: Partial<ForecastBasis> = {}): ForecastBasis {
+  return {
+    port,
+    current:             { anchorage: 4, approach: 2, weightedAnchorage: 4, weightedApproach: 2, score: 70, level: 'critical' },
+    inbound:             [1, 3, 10, 11.5].map((etaHours, i) => ({ imo: `900000${i}`, name: `V${i}`, etaHours, weight: 1 })),
+    berthingRatePerHour: 0.5,
+    rateSource:          'history',
+    historySamples:      24,
+    profile:             BUILTIN_PROFILE,
+    basedAt:             T0,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  files.clear();
+  setVirtualClock(new Date(T0), 0);
+});
+afterEach(() => resetClock());
+
+describe('projectCongestion', () => {
+  it('drains the queue at the berthing rate and counts late arrivals as approaching', () => {
+    const f = projectCongestion(basis(), hoursLater(12));
+    expect(f).toMatchObject({
+      hoursAhead:         12,
+      inboundBeforeAt:    4,
+      projectedAnchorage: 2,     // 4 + 2 + 2 queued − 0.5/h × 12h
+      projectedApproach:  2,     // due within 2h of arrival
+      projectedScore:     40,
+      level:              'high',
+      expectedWaitHours:  4,
+      detentionCostUsd:   2_000,
+      confidence:         'high',
+    });
+  });
+
+  it('weighs the queue by the mean weight of the vessels in it', () => {
+    const f = projectCongestion(basis({
+      current:             { anchorage: 4, approach: 0, weightedAnchorage: 8, weightedApproach: 0, score: 120, level: 'critical' },
+      inbound:             [],
+      berthingRatePerHour: 1 / 6,
+      rateSource:          'default',
+    }), hoursLater(6));
+    expect(f).toMatchObject({ projectedAnchorage: 3, projectedScore: 90, expectedWaitHours: 18, confidence: 'medium' });
+  });
+
+  it('never goes below an empty queue and caps the horizon', () => {
+    const f = projectCongestion(basis({ inbound: [] }), hoursLater(500));
+    expect(f.hoursAhead).toBe(HORIZON_HOURS);
+    expect(f).toMatchObject({ projectedAnchorage: 0, expectedWaitHours: 0, level: 'low', confidence: 'low' });
+  });
+});
+
+describe('loadForecastBasis', () => {
+  const vessel = (imo: string, etaHours: number) => ({ imo, name: imo, etaHours } as PreArrivalVessel);
+
+  it('leaves vessels already in the port zones out of the arrivals', async () => {
+    const congestion = {
+      port,
+      anchorageVessels: 1, approachVessels: 1, weightedAnchorage: 1, weightedApproach: 1,
+      congestionScore: 20, level: 'moderate',
+      vessels:    [],                          // truncated sighting list
+      inPortImos: ['9000001', '9000002'],
+    } as unknown as CongestionData;
+    const preArrival = {
+      port, windowHours: HORIZON_HOURS, inboundVessels: 3, generatedAt: '',
+      vessels: [vessel('9000001', 0.5), vessel('9000002', 1), vessel('9000003', 20)],
+    } as PreArrivalReport;
+
+    const b = await loadForecastBasis('sgsin', { congestion, preArrival });
+    expect(b?.inbound).toEqual([{ imo: '9000003', name: '9000003', etaHours: 20, weight: 1 }]);
+    expect(b).toMatchObject({ rateSource: 'default', basedAt: T0, current: { anchorage: 1, approach: 1, score: 20 } });
+  });
+
+  it('is null for a port without congestion data', async () => {
+    const preArrival = { port, windowHours: HORIZON_HOURS, inboundVessels: 0, vessels: [], generatedAt: '' };
+    expect(await loadForecastBasis('XXXXX', { congestion: null, preArrival })).toBeNull();
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Mari8X Port Congestion Forecast
+ *
+ * Projects congestion at a future timestamp instead of reusing the current
+ * snapshot. Combines:
+ *   - vessels at anchorage / on approach now       (getPortCongestion)
+ *   - inbound vessels expected before that time   (getPreArrivalVessels)
+ *   - observed berthing rate from snapshot history (congestion_snapshots)
+ *
+ * Model (simple fluid queue):
+ *   queue(at)    = anchorage + approach + arrivals before (at − 2h) − rate × hours
+ *   approach(at) = inbound vessels due in the 2h before `at`
+ *   wait(at)     = queue(at) / rate
+ *
+ * The projected score weighs vessels as the live engine does (vesselWeight
+ * from the port's scoring profile): the queue at the mean weight of the
+ * vessels in it, approaching vessels by their own weight.
+ *
+ * The berthing rate is the sum of hour-over-hour drops in anchorage count
+ * divided by the observed span (last 72h). With too little history it falls
+ * back to one vessel per 6h, the live engine's fallback assumption.
+ *
+ * Pre-arrival only sees vessels within 200 nm, so far horizons under-count
+ * arrivals; confidence degrades accordingly.
+ */
+
+import { getPortCongestion, type CongestionData } from './engine.js';
+import { congestionScoreFor, levelForScore, resolveScoringProfile, vesselWeight, type ScoringProfile } from './scoring.js';
+import { getCongestionHistory } from './history.js';
+import { getPreArrivalVessels, type PreArrivalReport, type PreArrivalVessel } from '../agent/pre-arrival.js';
+import { listVessels } from '../agent/vessel-registry.js';
+import { clockNow, clockDate } from '../lib/clock.js';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface ForecastBasis {
+  port:                CongestionData['port'];
+  current:             {
+    anchorage: number; approach: number; weightedAnchorage: number; weightedApproach: number;
+    score: number; level: CongestionData['level'];
+  };
+  inbound:             Array<Pick<PreArrivalVessel, 'imo' | 'name' | 'etaHours'> & { weight: number }>;
+  berthingRatePerHour: number;
+  rateSource:          'history' | 'default';
+  historySamples:      number;
+  profile:             ScoringProfile;
+  basedAt:             number;   // epoch ms the basis was captured
+}
+
+export interface CongestionForecast {
+  port:                CongestionData['port'];
+  at:                  string;
+  hoursAhead:          number;
+  currentLevel:        CongestionData['level'];
+  currentScore:        number;
+  inboundBeforeAt:     number;
+  projectedAnchorage:  number;
+  projectedApproach:   number;
+  projectedScore:      number;
+  level:               CongestionData['level'];
+  expectedWaitHours:   number;
+  detentionCostUsd:    number;
+  berthingRatePerHour: number;
+  rateSource:          'history' | 'default';
+  confidence:          'high' | 'medium' | 'low';
+  generatedAt:         string;
+}
+
+// ── Config ───────────────────────────────────────────────────────────────────
+
+export const HORIZON_HOURS = 168;        // furthest forecast accepted (7 days)
+const APPROACH_WINDOW_H    = 2;          // arrivals this close to `at` are still approaching
+const HISTORY_HOURS        = 72;
+const MIN_HISTORY_SAMPLES  = 6;
+const DEFAULT_RATE_PER_H   = 1 / 6;      // one vessel berthed every 6h
+const DETENTION_USD_PER_H  = 500;        // $12,000/day, as in the live engine
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+// ── Basis ────────────────────────────────────────────────────────────────────
+
+async function observedBerthingRate(unlocode: string): Promise<{ rate: number; samples: number } | null> {
+  const [series] = await getCongestionHistory([unlocode], {
+    from:     new Date(clockNow() - HISTORY_HOURS * 3600_000),
+    interval: 'hour',
+  });
+  const points = series?.points ?? [];
+  if (points.length < MIN_HISTORY_SAMPLES) return null;
+
+  let departed = 0;
+  for (let i = 1; i < points.length; i++) {
+    departed += Math.max(0, points[i - 1].avgAnchorageVessels - points[i].avgAnchorageVessels);
+  }
+  const spanHours = (new Date(points[points.length - 1].ts).getTime() - new Date(points[0].ts).getTime()) / 3600_000;
+  if (departed <= 0 || spanHours <= 0) return null;
+  return { rate: departed / spanHours, samples: points.length };
+}
+
+/**
+ * Gather everything needed to project congestion for a port.
+ * Load once and call projectCongestion() for many timestamps. Callers that
+ * already hold the port's congestion or a pre-arrival list covering
+ * HORIZON_HOURS pass them in instead of having them fetched again.
+ */
+export async function loadForecastBasis(
+  unlocode:   string,
+  prefetched: { congestion?: CongestionData | null; preArrival?: PreArrivalReport | null } = {},
+): Promise<ForecastBasis | null> {
+  const { congestion: knownCongestion, preArrival: knownPreArrival } = prefetched;
+  const [congestion, preArrival, observed] = await Promise.all([
+    knownCongestion !== undefined ? knownCongestion : getPortCongestion(unlocode),
+    knownPreArrival && knownPreArrival.windowHours >= HORIZON_HOURS
+      ? knownPreArrival
+      : getPreArrivalVessels(unlocode, HORIZON_HOURS),
+    observedBerthingRate(unlocode.toUpperCase()).catch(() => null),
+  ]);
+  if (!congestion) return null;
+
+  // Vessels already at berth, at anchor or approaching are not arrivals; transit
+  // vessels passing close by still are
+  const inPort   = new Set(congestion.inPortImos);
+  const profile  = resolveScoringProfile(congestion.port.unlocode).profile;
+  const registry = new Map(listVessels().map(v => [v.imo, v]));
+
+  return {
+    port: congestion.port,
+    current: {
+      anchorage:         congestion.anchorageVessels,
+      approach:          congestion.approachVessels,
+      weightedAnchorage: congestion.weightedAnchorage,
+      weightedApproach:  congestion.weightedApproach,
+      score:             congestion.congestionScore,
+      level:             congestion.level,
+    },
+    inbound:             (preArrival?.vessels ?? [])
+      .filter(v => !inPort.has(v.imo))
+      .map(v => ({ imo: v.imo, name: v.name, etaHours: v.etaHours, weight: vesselWeight(profile, registry.get(v.imo) ?? null) })),
+    berthingRatePerHour: observed?.rate ?? DEFAULT_RATE_PER_H,
+    rateSource:          observed ? 'history' : 'default',
+    historySamples:      observed?.samples ?? 0,
+    profile,
+    basedAt:             clockNow(),
+  };
+}
+
+// ── Projection ───────────────────────────────────────────────────────────────
+
+/** Project congestion at `at` from a previously loaded basis. */
+export function projectCongestion(basis: ForecastBasis, at: Date): CongestionForecast {
+  const hoursAhead = Math.min(HORIZON_HOURS, Math.max(0, (at.getTime() - basis.basedAt) / 3600_000));
+  const rate       = basis.berthingRatePerHour;
+
+  const due       = basis.inbound.filter(v => v.etaHours < hoursAhead);
+  const closing   = due.filter(v => v.etaHours >= hoursAhead - APPROACH_WINDOW_H);
+  const queued    = due.filter(v => v.etaHours < hoursAhead - APPROACH_WINDOW_H);
+  const approach  = closing.length;
+  const inQueue   = basis.current.anchorage + basis.current.approach + queued.length;
+  const anchorage = Math.max(0, inQueue - rate * hoursAhead);
+
+  // Queue weight: mean over the vessels that make it up
+  const queueWeight = basis.current.weightedAnchorage + basis.current.weightedApproach
+    + queued.reduce((s, v) => s + v.weight, 0);
+  const meanWeight  = inQueue > 0 ? queueWeight / inQueue : 1;
+
+  const projectedAnchorage = Math.round(anchorage);
+  const projectedScore     = congestionScoreFor(
+    projectedAnchorage * meanWeight,
+    closing.reduce((s, v) => s + v.weight, 0),
+    basis.profile,
+  );
+  const expectedWaitHours  = round1(anchorage / rate);
+
+  const confidence: CongestionForecast['confidence'] =
+    hoursAhead <= 24 && basis.rateSource === 'history' ? 'high'   :
+    hoursAhead <= 72                                    ? 'medium' : 'low';
+
+  return {
+    port:                basis.port,
+    at:                  at.toISOString(),
+    hoursAhead:          round1(hoursAhead),
+    currentLevel:        basis.current.level,
+    currentScore:        basis.current.score,
+    inboundBeforeAt:     due.length,
+    projectedAnchorage,
+    projectedApproach:   approach,
+    projectedScore,
+    level:               levelForScore(projectedScore, basis.profile),
+    expectedWaitHours,
+    detentionCostUsd:    Math.round(expectedWaitHours * DETENTION_USD_PER_H),
+    berthingRatePerHour: Math.round(rate * 1000) / 1000,
+    rateSource:          basis.rateSource,
+    confidence,
+    generatedAt:         clockDate().toISOString(),
+  };
+}
+
+/** Forecast congestion level and expected wait at `unlocode` for time `at`. */
+export async function congestionForecast(unlocode: string, at: Date): Promise<CongestionForecast | null> {
+  const basis = await loadForecastBasis(unlocode);
+  if (!basis) return null;
+  return projectCongestion(basis, at);
+}
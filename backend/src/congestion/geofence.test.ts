@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('fs', () => import('../test/mem-fs.js'));
+
+import { files, writeFileSync } from '../test/mem-fs.js';
+import {
+  setPortGeofence, getPortGeofence, listPortGeofences, deletePortGeofence, classifyZone, DEFAULT_RADII,
+  type PortGeofence,
+} from './geofence.js';
+
+const port  = { lat: 1.25, lng: 103.8 };
+const north = (nm: number) => ({ lat: port.lat + nm / 60, lng: port.lng });
+const at    = (nm: number, speedKt: number, navStatus: number | null = null) => ({ ...north(nm), speedKt, navStatus });
+
+/** Square of side 2 × half (in degrees) around a point. */
+const square = (c: { lat: number; lng: number }, half = 0.02) => [
+  { lat: c.lat - half, lng: c.lng - half }, { lat: c.lat - half, lng: c.lng + half },
+  { lat: c.lat + half, lng: c.lng + half }, { lat: c.lat + half, lng: c.lng - half },
+];
+
+beforeEach(() => files.clear());
+
+describe('classifyZone with the default radii', () => {
+  it('puts stopped vessels inside 8 nm at anchor', () => {
+    expect(classifyZone(port, null, at(5, 0.5))).toBe('anchorage');
+    expect(classifyZone(port, null, at(5, 4, 1))).toBe('anchorage');   // AT_ANCHOR, still swinging
+  });
+
+  it('puts slow vessels inside 20 nm on approach', () => {
+    expect(classifyZone(port, null, at(5, 4))).toBe('approach');
+    expect(classifyZone(port, null, at(15, 3))).toBe('approach');
+  });
+
+  it('treats fast or far vessels as transit, and ignores anything beyond 25 nm', () => {
+    expect(classifyZone(port, null, at(15, 12))).toBe('transit');
+    expect(classifyZone(port, null, at(24, 1))).toBe('transit');
+    expect(classifyZone(port, null, at(30, 1))).toBeNull();
+  });
+});
+
+describe('classifyZone with polygons', () => {
+  const anchorage = north(12);
+  const fence: PortGeofence = {
+    unlocode:  'SGSIN',
+    polygons:  [
+      { id: 'a', zone: 'anchorage', name: 'Eastern', vertices: square(anchorage) },
+      { id: 'b', zone: 'berth',     name: 'Pasir Panjang', vertices: square(port, 0.005) },
+    ],
+    radii:     DEFAULT_RADII,
+    updatedBy: 'test',
+    updatedAt: '2026-10-01T00:00:00.000Z',
+  };
+
+  it('uses the anchorage polygon instead of the radius', () => {
+    expect(classifyZone(port, fence, { ...anchorage, speedKt: 0, navStatus: null })).toBe('anchorage');
+    expect(classifyZone(port, fence, at(5, 0))).toBe('approach');   // inside 8 nm, outside the polygon
+  });
+
+  it('puts vessels inside a berth polygon alongside, whatever their speed', () => {
+    expect(classifyZone(port, fence, { ...port, speedKt: 3, navStatus: null })).toBe('berth');
+  });
+});
+
+describe('geofence store', () => {
+  it('saves, lists and deletes per-port geofences', () => {
+    const saved = setPortGeofence('sgsin', {
+      polygons: [{ zone: 'anchorage', vertices: square(north(12)) }],
+      radii:    { outerNm: 30 },
+    });
+    expect(saved).toMatchObject({ unlocode: 'SGSIN', radii: { anchorageNm: 8, approachNm: 20, outerNm: 30 } });
+    expect(saved.polygons[0].id).toBeTruthy();
+
+    expect(getPortGeofence('SGSIN')?.polygons).toHaveLength(1);
+    expect(listPortGeofences().map(g => g.unlocode)).toEqual(['SGSIN']);
+    expect(deletePortGeofence('sgsin')).toBe(true);
+    expect(getPortGeofence('SGSIN')).toBeNull();
+  });
+
+  it('re-reads the file once it changes on disk', () => {
+    setPortGeofence('SGSIN', { polygons: [] });
+    const file = [...files.keys()].find(k => k.endsWith('geofences.json'))!;
+    const data = JSON.parse(files.get(file)!);
+    data.SGSIN.radii.outerNm = 40;
+    writeFileSync(file, JSON.stringify(data));
+    expect(getPortGeofence('SGSIN')?.radii.outerNm).toBe(40);
+  });
+
+  it('rejects invalid polygons and radii', () => {
+    expect(() => setPortGeofence('SGSIN', { polygons: [{ zone: 'anchorage', vertices: square(port).slice(0, 2) }] }))
+      .toThrow('at least 3 vertices');
+    expect(() => setPortGeofence('SGSIN', { polygons: [{ zone: 'pier' as 'berth', vertices: square(port) }] }))
+      .toThrow('zone must be one of');
+    expect(() => setPortGeofence('SGSIN', { polygons: [], radii: { anchorageNm: 0 } })).toThrow('radii must be positive');
+  });
+});
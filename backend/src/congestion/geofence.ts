@@ -0,0 +1,199 @@
+/**
+ * Mari8X Port Geofences
+ *
+ * Per-port zone definitions used by the congestion engine to classify
+ * vessels. A port may define any number of polygons per zone:
+ *   anchorage — designated anchorage areas (often offset from the port point)
+ *   approach  — fairway / pilot boarding area
+ *   berth     — terminal / berth polygons (vessels here are alongside)
+ *
+ * Any zone without a polygon falls back to the radius rule around the port
+ * point (anchorage ≤8nm, approach ≤20nm, outer limit 25nm); radii can be
+ * overridden per port. Berths have no radius fallback.
+ *
+ * Storage: /root/.ankr/state/mari8x-geofences/geofences.json
+ *
+ * © 2026 ANKR Labs — Mari8X Community Edition
+ */
+
+import * as fs   from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { haversineDistance, pointInPolygon } from '../lib/geo-utils.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type GeofenceZone = 'anchorage' | 'approach' | 'berth';
+export type VesselZone   = GeofenceZone | 'transit';
+
+export interface LatLng { lat: number; lng: number }
+
+export interface GeofencePolygon {
+  id:       string;
+  zone:     GeofenceZone;
+  name:     string | null;
+  vertices: LatLng[];
+}
+
+export interface GeofenceRadii {
+  anchorageNm: number;
+  approachNm:  number;
+  outerNm:     number;
+}
+
+export interface PortGeofence {
+  unlocode:  string;
+  polygons:  GeofencePolygon[];
+  radii:     GeofenceRadii;
+  updatedBy: string;
+  updatedAt: string;
+}
+
+export interface GeofenceInput {
+  polygons:   Array<{ id?: string; zone: GeofenceZone; name?: string | null; vertices: LatLng[] }>;
+  radii?:     Partial<GeofenceRadii>;
+  updatedBy?: string;
+}
+
+// ── Defaults ──────────────────────────────────────────────────────────────────
+
+export const DEFAULT_RADII: GeofenceRadii = { anchorageNm: 8, approachNm: 20, outerNm: 25 };
+
+const ZONES: GeofenceZone[] = ['anchorage', 'approach', 'berth'];
+
+// AIS Navigation Status codes for stopped vessels
+const STOPPED_NAV_STATUS = new Set([1, 5, 6]); // 1=AT_ANCHOR 5=MOORED 6=AGROUND
+
+// ── State ─────────────────────────────────────────────────────────────────────
+
+const GEOFENCE_DIR  = '/root/.ankr/state/mari8x-geofences';
+const GEOFENCE_FILE = path.join(GEOFENCE_DIR, 'geofences.json');
+
+// Parsed file, reused until it changes on disk — zones are looked up per fix
+let cached: { mtimeMs: number; data: Record<string, PortGeofence> } | null = null;
+
+function ensureDir() {
+  if (!fs.existsSync(GEOFENCE_DIR)) fs.mkdirSync(GEOFENCE_DIR, { recursive: true });
+}
+
+function loadAll(): Record<string, PortGeofence> {
+  ensureDir();
+  if (!fs.existsSync(GEOFENCE_FILE)) return {};
+  const mtimeMs = fs.statSync(GEOFENCE_FILE).mtimeMs;
+  if (cached?.mtimeMs === mtimeMs) return cached.data;
+  try { cached = { mtimeMs, data: JSON.parse(fs.readFileSync(GEOFENCE_FILE, 'utf-8')) }; }
+  catch { cached = { mtimeMs, data: {} }; }
+  return cached.data;
+}
+
+function saveAll(data: Record<string, PortGeofence>) {
+  ensureDir();
+  fs.writeFileSync(GEOFENCE_FILE, JSON.stringify(data, null, 2));
+  cached = { mtimeMs: fs.statSync(GEOFENCE_FILE).mtimeMs, data };
+}
+
+// ── Validation ────────────────────────────────────────────────────────────────
+
+function validatePolygon(p: GeofenceInput['polygons'][number], idx: number): void {
+  if (!ZONES.includes(p.zone)) {
+    throw new Error(`polygons[${idx}].zone must be one of ${ZONES.join(', ')}`);
+  }
+  if (!Array.isArray(p.vertices) || p.vertices.length < 3) {
+    throw new Error(`polygons[${idx}] needs at least 3 vertices`);
+  }
+  for (const v of p.vertices) {
+    if (typeof v?.lat !== 'number' || typeof v?.lng !== 'number' ||
+        Math.abs(v.lat) > 90 || Math.abs(v.lng) > 180) {
+      throw new Error(`polygons[${idx}] has an invalid vertex: ${JSON.stringify(v)}`);
+    }
+  }
+}
+
+// ── Core API ──────────────────────────────────────────────────────────────────
+
+/**
+ * Create or replace the geofence definition for a port.
+ */
+export function setPortGeofence(unlocode: string, input: GeofenceInput): PortGeofence {
+  const upper = unlocode.toUpperCase();
+  (input.polygons ?? []).forEach(validatePolygon);
+
+  const radii = { ...DEFAULT_RADII, ...(input.radii ?? {}) };
+  if (!(radii.anchorageNm > 0 && radii.approachNm > 0 && radii.outerNm > 0)) {
+    throw new Error('radii must be positive');
+  }
+
+  const data = loadAll();
+  data[upper] = {
+    unlocode:  upper,
+    polygons:  (input.polygons ?? []).map(p => ({
+      id:       p.id ?? randomUUID(),
+      zone:     p.zone,
+      name:     p.name ?? null,
+      vertices: p.vertices.map(v => ({ lat: v.lat, lng: v.lng })),
+    })),
+    radii,
+    updatedBy: input.updatedBy ?? 'system',
+    updatedAt: new Date().toISOString(),
+  };
+  saveAll(data);
+  return data[upper];
+}
+
+/**
+ * Get the geofence definition for a port (null = radius fallback only).
+ */
+export function getPortGeofence(unlocode: string): PortGeofence | null {
+  return loadAll()[unlocode.toUpperCase()] ?? null;
+}
+
+/**
+ * All ports with a geofence definition.
+ */
+export function listPortGeofences(): PortGeofence[] {
+  return Object.values(loadAll()).sort((a, b) => a.unlocode.localeCompare(b.unlocode));
+}
+
+/**
+ * Remove a port's geofence (reverts to the default radii).
+ */
+export function deletePortGeofence(unlocode: string): boolean {
+  const data  = loadAll();
+  const upper = unlocode.toUpperCase();
+  if (!data[upper]) return false;
+  delete data[upper];
+  saveAll(data);
+  return true;
+}
+
+// ── Classification ────────────────────────────────────────────────────────────
+
+/**
+ * Classify a vessel fix relative to a port.
+ * Returns null when the vessel is outside every zone and beyond the outer radius.
+ */
+export function classifyZone(
+  port:    { lat: number; lng: number },
+  fence:   PortGeofence | null,
+  fix:     { lat: number; lng: number; speedKt: number; navStatus: number | null },
+): VesselZone | null {
+  const radii   = fence?.radii ?? DEFAULT_RADII;
+  const dist    = haversineDistance(port.lat, port.lng, fix.lat, fix.lng);
+  const stopped = fix.speedKt <= 2 || STOPPED_NAV_STATUS.has(fix.navStatus ?? -1);
+
+  const polys  = (zone: GeofenceZone) => fence?.polygons.filter(p => p.zone === zone) ?? [];
+  const within = (zone: GeofenceZone) => polys(zone).some(p => pointInPolygon(fix.lat, fix.lng, p.vertices));
+
+  if (within('berth')) return 'berth';
+
+  const anchorPolys = polys('anchorage');
+  const inAnchorage = anchorPolys.length > 0 ? within('anchorage') : dist <= radii.anchorageNm;
+  if (inAnchorage && stopped) return 'anchorage';
+
+  const approachPolys = polys('approach');
+  const inApproach    = approachPolys.length > 0 ? within('approach') : dist <= radii.approachNm;
+  if ((inApproach || inAnchorage) && fix.speedKt <= 5) return 'approach';
+
+  if (inAnchorage || inApproach || dist <= radii.outerNm) return 'transit';
+  return null;
+}
@@ -0,0 +1,178 @@
+/**
+ * Mari8X Port Congestion History
+ *
+ * Persists periodic congestion snapshots per port (score, level, vessel
+ * counts, estimated wait) so trends can be charted and past conditions
+ * queried ("how bad was SGSIN last Tuesday").
+ *
+ * Snapshots are written by recordCongestionSnapshots(), which main.ts runs
+ * on a fixed interval; not while a virtual clock is set, as congestion then
+ * describes the replay rather than the live picture. Reads return one time
+ * series per port, either raw or aggregated into hourly / daily buckets (UTC).
+ *
+ * Levels are the ones stored at capture time, under the scoring profile then
+ * in force, so editing a profile does not rewrite past trends.
+ *
+ * Storage: congestion_snapshots table (Prisma model CongestionSnapshot)
+ */
+
+import { prisma } from '../lib/prisma.js';
+import { getPortCongestion, type CongestionData } from './engine.js';
+import type { CongestionLevel } from './scoring.js';
+import { clockDate, isVirtualClock } from '../lib/clock.js';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type HistoryInterval = 'raw' | 'hour' | 'day';
+
+export interface CongestionTrendPoint {
+  ts:                    string;   // bucket start (ISO)
+  samples:               number;   // snapshots aggregated into this point
+  avgScore:              number;
+  maxScore:              number;
+  level:                 CongestionData['level'];  // median stored level in the bucket
+  peakLevel:             CongestionData['level'];  // highest stored level in the bucket
+  avgAnchorageVessels:   number;
+  avgApproachVessels:    number;
+  avgWaitHours:          number;
+}
+
+export interface CongestionSeries {
+  unlocode: string;
+  interval: HistoryInterval;
+  from:     string;
+  to:       string;
+  points:   CongestionTrendPoint[];
+}
+
+export interface HistoryQuery {
+  from?:     Date;
+  to?:       Date;
+  interval?: HistoryInterval;
+}
+
+// ── Config ───────────────────────────────────────────────────────────────────
+
+const DEFAULT_LOOKBACK_MS = 7 * 86_400_000;   // 7 days when `from` omitted
+const MAX_ROWS            = 50_000;
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+const LEVELS: CongestionLevel[] = ['low', 'moderate', 'high', 'critical'];
+const levelRank = (l: string) => Math.max(0, LEVELS.indexOf(l as CongestionLevel));
+
+function bucketStart(ts: Date, interval: HistoryInterval): number {
+  const d = new Date(ts);
+  if (interval === 'raw') return d.getTime();
+  d.setUTCMinutes(0, 0, 0);
+  if (interval === 'day') d.setUTCHours(0);
+  return d.getTime();
+}
+
+/** Parse a REST/GraphQL interval argument, defaulting to hourly. */
+export function parseInterval(v: unknown): HistoryInterval {
+  return v === 'raw' || v === 'day' ? v : 'hour';
+}
+
+// ── Write path ───────────────────────────────────────────────────────────────
+
+/**
+ * Capture the current congestion of every port with coordinates.
+ * Returns the number of snapshots written (0 while a virtual clock is set).
+ */
+export async function recordCongestionSnapshots(): Promise<number> {
+  if (isVirtualClock()) return 0;
+
+  const ports = await prisma.port.findMany({
+    where:  { lat: { not: null }, lng: { not: null } },
+    select: { unlocode: true },
+  });
+
+  const capturedAt = clockDate();
+  const rows = [];
+  for (const p of ports) {
+    const data = await getPortCongestion(p.unlocode);
+    if (!data) continue;
+    rows.push({
+      unlocode:           data.port.unlocode,
+      congestionScore:    data.congestionScore,
+      level:              data.level,
+      anchorageVessels:   data.anchorageVessels,
+      approachVessels:    data.approachVessels,
+      transitVessels:     data.transitVessels,
+      estimatedWaitHours: data.estimatedWaitHours,
+      capturedAt,
+    });
+  }
+
+  if (rows.length === 0) return 0;
+  const result = await prisma.congestionSnapshot.createMany({ data: rows });
+  return result.count;
+}
+
+// ── Read path ────────────────────────────────────────────────────────────────
+
+/**
+ * Congestion time series for one or more ports.
+ * Ports without snapshots in the window are returned with an empty series.
+ * When the window holds more than MAX_ROWS snapshots, the newest are kept.
+ */
+export async function getCongestionHistory(
+  unlocodes: string[],
+  query: HistoryQuery = {},
+): Promise<CongestionSeries[]> {
+  const codes    = [...new Set(unlocodes.map(u => u.trim().toUpperCase()).filter(Boolean))];
+  const interval = query.interval ?? 'hour';
+  const to       = query.to   ?? clockDate();
+  const from     = query.from ?? new Date(to.getTime() - DEFAULT_LOOKBACK_MS);
+  if (codes.length === 0) return [];
+
+  const rows: Array<{
+    unlocode: string; congestionScore: number; level: string; anchorageVessels: number;
+    approachVessels: number; estimatedWaitHours: number; capturedAt: Date;
+  }> = (await prisma.congestionSnapshot.findMany({
+    where:   { unlocode: { in: codes }, capturedAt: { gte: from, lte: to } },
+    orderBy: { capturedAt: 'desc' },
+    take:    MAX_ROWS,
+  })).reverse();
+
+  // unlocode → bucketStart → accumulated rows
+  const grouped = new Map<string, Map<number, typeof rows>>();
+  for (const code of codes) grouped.set(code, new Map());
+  for (const r of rows) {
+    const buckets = grouped.get(r.unlocode)!;
+    const key     = bucketStart(r.capturedAt, interval);
+    if (!buckets.has(key)) buckets.set(key, []);
+    buckets.get(key)!.push(r);
+  }
+
+  return codes.map(code => {
+    const points: CongestionTrendPoint[] = [];
+    for (const [key, bucket] of grouped.get(code)!) {
+      const n        = bucket.length;
+      const avgScore = bucket.reduce((s, r) => s + r.congestionScore, 0) / n;
+      const maxScore = Math.max(...bucket.map(r => r.congestionScore));
+      const ranks    = bucket.map(r => levelRank(r.level)).sort((a, b) => a - b);
+      points.push({
+        ts:                  new Date(key).toISOString(),
+        samples:             n,
+        avgScore:            round1(avgScore),
+        maxScore,
+        level:               LEVELS[ranks[Math.floor((n - 1) / 2)]],
+        peakLevel:           LEVELS[ranks[n - 1]],
+        avgAnchorageVessels: round1(bucket.reduce((s, r) => s + r.anchorageVessels, 0) / n),
+        avgApproachVessels:  round1(bucket.reduce((s, r) => s + r.approachVessels, 0) / n),
+        avgWaitHours:        round1(bucket.reduce((s, r) => s + r.estimatedWaitHours, 0) / n),
+      });
+    }
+    return {
+      unlocode: code,
+      interval,
+      from:     from.toISOString(),
+      to:       to.toISOString(),
+      points,
+    };
+  });
+}
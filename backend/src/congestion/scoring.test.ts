@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('fs', () => import('../test/mem-fs.js'));
+
+import { files } from '../test/mem-fs.js';
+import {
+  setScoringProfile, getScoringProfile, listScoringProfiles, deleteScoringProfile, resolveScoringProfile,
+  effectiveThresholds, levelForScore, vesselWeight, congestionScoreFor, BUILTIN_PROFILE,
+} from './scoring.js';
+
+beforeEach(() => files.clear());
+
+describe('built-in profile', () => {
+  it('scores 15 per vessel at anchor and 5 per vessel approaching', () => {
+    expect(congestionScoreFor(2, 3)).toBe(45);
+  });
+
+  it('bands scores into levels', () => {
+    expect([0, 9, 10, 24, 25, 49, 50].map(s => levelForScore(s))).toEqual([
+      'low', 'low', 'moderate', 'moderate', 'high', 'high', 'critical',
+    ]);
+  });
+});
+
+describe('vesselWeight', () => {
+  const profile = {
+    ...BUILTIN_PROFILE,
+    typeWeights: { CONTAINER: 1.5 },
+    sizeBands:   [{ minGt: 50_000, weight: 1.5 }, { minGt: 100_000, weight: 2 }],
+  };
+
+  it('multiplies the type weight by the largest size band reached', () => {
+    expect(vesselWeight(profile, { type: 'CONTAINER', gt: 120_000 })).toBe(3);
+    expect(vesselWeight(profile, { type: 'CONTAINER', gt: 60_000 })).toBe(2.25);
+    expect(vesselWeight(profile, { type: 'BULKER', gt: 20_000 })).toBe(1);
+  });
+
+  it('weighs unknown vessels 1', () => {
+    expect(vesselWeight(profile, null)).toBe(1);
+    expect(vesselWeight(profile, { type: null, gt: null })).toBe(1);
+  });
+});
+
+describe('profiles', () => {
+  it('resolves port, then DEFAULT, then built-in', () => {
+    expect(resolveScoringProfile('SGSIN').source).toBe('builtin');
+    setScoringProfile('default', { anchorageWeight: 10 });
+    expect(resolveScoringProfile('SGSIN')).toMatchObject({ source: 'default', profile: { anchorageWeight: 10 } });
+    setScoringProfile('sgsin', { approachWeight: 8 });
+    expect(resolveScoringProfile('SGSIN')).toMatchObject({
+      source: 'port', profile: { anchorageWeight: 10, approachWeight: 8 },   // rest from DEFAULT
+    });
+  });
+
+  it('scales thresholds by berth capacity against 10 berths', () => {
+    const p = setScoringProfile('NLRTM', { berthCapacity: 20 });
+    expect(effectiveThresholds(p)).toEqual({ moderate: 20, high: 50, critical: 100 });
+    expect(levelForScore(45, p)).toBe('moderate');
+  });
+
+  it('lists and deletes stored profiles', () => {
+    setScoringProfile('SGSIN', {});
+    setScoringProfile('DEFAULT', {});
+    expect(listScoringProfiles().map(p => p.id)).toEqual(['DEFAULT', 'SGSIN']);
+    expect(deleteScoringProfile('sgsin')).toBe(true);
+    expect(deleteScoringProfile('sgsin')).toBe(false);
+    expect(getScoringProfile('SGSIN')).toBeNull();
+  });
+
+  it('validates thresholds, weights and capacity', () => {
+    expect(() => setScoringProfile('SGSIN', { thresholds: { high: 5 } })).toThrow('moderate < high < critical');
+    expect(() => setScoringProfile('SGSIN', { anchorageWeight: -1 })).toThrow('non-negative');
+    expect(() => setScoringProfile('SGSIN', { berthCapacity: 0 })).toThrow('berthCapacity must be positive');
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Mari8X Congestion Scoring Profiles
+ *
+ * A profile controls how vessel counts turn into a congestion score/level:
+ *   anchorageWeight / approachWeight — points per waiting / approaching vessel
+ *   thresholds                       — score at which moderate / high / critical start
+ *   berthCapacity                    — optional; scales thresholds by
+ *                                      berthCapacity / 10 so a 2-berth feeder
+ *                                      port goes critical with fewer ships
+ *   typeWeights                      — multiplier per registry VesselType
+ *   sizeBands                        — multiplier by gross tonnage (highest
+ *                                      matching minGt wins)
+ *
+ * Resolution order: port profile → 'DEFAULT' override → built-in default.
+ * The built-in default reproduces the original fixed formula
+ * (×15 anchorage, ×5 approach, 10/25/50 thresholds, every vessel weight 1).
+ *
+ * Storage: /root/.ankr/state/mari8x-congestion-profiles/profiles.json
+ *
+ * © 2026 ANKR Labs — Mari8X Community Edition
+ */
+
+import * as fs   from 'fs';
+import * as path from 'path';
+import type { VesselType } from '../agent/vessel-registry.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type CongestionLevel = 'low' | 'moderate' | 'high' | 'critical';
+
+export interface LevelThresholds {
+  moderate: number;
+  high:     number;
+  critical: number;
+}
+
+export interface SizeBand {
+  minGt:  number;
+  weight: number;
+}
+
+export interface ScoringProfile {
+  id:              string;   // UNLOCODE, 'DEFAULT' or 'BUILTIN'
+  anchorageWeight: number;
+  approachWeight:  number;
+  thresholds:      LevelThresholds;
+  berthCapacity:   number | null;
+  typeWeights:     Partial<Record<VesselType, number>>;
+  sizeBands:       SizeBand[];
+  updatedBy:       string;
+  updatedAt:       string;
+}
+
+export type ScoringProfileInput =
+  Partial<Omit<ScoringProfile, 'id' | 'updatedAt' | 'thresholds'>> & { thresholds?: Partial<LevelThresholds> };
+
+/** Summary of the profile used, reported alongside congestion results. */
+export interface ProfileSummary {
+  id:                  string;
+  source:              'port' | 'default' | 'builtin';
+  anchorageWeight:     number;
+  approachWeight:      number;
+  effectiveThresholds: LevelThresholds;
+}
+
+// ── Defaults ──────────────────────────────────────────────────────────────────
+
+const REFERENCE_BERTHS = 10;
+const DEFAULT_KEY      = 'DEFAULT';
+
+export const BUILTIN_PROFILE: ScoringProfile = {
+  id:              'BUILTIN',
+  anchorageWeight: 15,
+  approachWeight:  5,
+  thresholds:      { moderate: 10, high: 25, critical: 50 },
+  berthCapacity:   null,
+  typeWeights:     {},
+  sizeBands:       [],
+  updatedBy:       'system',
+  updatedAt:       new Date(0).toISOString(),
+};
+
+// ── State ─────────────────────────────────────────────────────────────────────
+
+const PROFILE_DIR  = '/root/.ankr/state/mari8x-congestion-profiles';
+const PROFILE_FILE = path.join(PROFILE_DIR, 'profiles.json');
+
+function ensureDir() {
+  if (!fs.existsSync(PROFILE_DIR)) fs.mkdirSync(PROFILE_DIR, { recursive: true });
+}
+
+function loadAll(): Record<string, ScoringProfile> {
+  ensureDir();
+  if (!fs.existsSync(PROFILE_FILE)) return {};
+  try { return JSON.parse(fs.readFileSync(PROFILE_FILE, 'utf-8')); }
+  catch { return {}; }
+}
+
+function saveAll(data: Record<string, ScoringProfile>) {
+  ensureDir();
+  fs.writeFileSync(PROFILE_FILE, JSON.stringify(data, null, 2));
+}
+
+// ── Core API ──────────────────────────────────────────────────────────────────
+
+/**
+ * Create or update the scoring profile for a port (or 'DEFAULT').
+ * Omitted fields keep their existing value, else the DEFAULT / built-in one.
+ */
+export function setScoringProfile(key: string, input: ScoringProfileInput): ScoringProfile {
+  const id   = key.toUpperCase();
+  const data = loadAll();
+  const base = data[id] ?? data[DEFAULT_KEY] ?? BUILTIN_PROFILE;
+
+  const profile: ScoringProfile = {
+    id,
+    anchorageWeight: input.anchorageWeight ?? base.anchorageWeight,
+    approachWeight:  input.approachWeight  ?? base.approachWeight,
+    thresholds:      { ...base.thresholds, ...(input.thresholds ?? {}) },
+    berthCapacity:   input.berthCapacity !== undefined ? input.berthCapacity : base.berthCapacity,
+    typeWeights:     input.typeWeights ?? base.typeWeights,
+    sizeBands:       [...(input.sizeBands ?? base.sizeBands)].sort((a, b) => a.minGt - b.minGt),
+    updatedBy:       input.updatedBy ?? 'system',
+    updatedAt:       new Date().toISOString(),
+  };
+
+  const t = profile.thresholds;
+  if (!(t.moderate > 0 && t.moderate < t.high && t.high < t.critical)) {
+    throw new Error('thresholds must satisfy 0 < moderate < high < critical');
+  }
+  if (profile.anchorageWeight < 0 || profile.approachWeight < 0) {
+    throw new Error('weights must be non-negative');
+  }
+  if (profile.berthCapacity != null && !(profile.berthCapacity > 0)) {
+    throw new Error('berthCapacity must be positive');
+  }
+
+  data[id] = profile;
+  saveAll(data);
+  return profile;
+}
+
+/** Stored profile for a port or 'DEFAULT' (null if none). */
+export function getScoringProfile(key: string): ScoringProfile | null {
+  return loadAll()[key.toUpperCase()] ?? null;
+}
+
+/** All stored profiles. */
+export function listScoringProfiles(): ScoringProfile[] {
+  return Object.values(loadAll()).sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/** Remove a stored profile; the port falls back to DEFAULT / built-in. */
+export function deleteScoringProfile(key: string): boolean {
+  const data = loadAll();
+  const id   = key.toUpperCase();
+  if (!data[id]) return false;
+  delete data[id];
+  saveAll(data);
+  return true;
+}
+
+/** Profile that applies to a port, with where it came from. */
+export function resolveScoringProfile(unlocode: string): { profile: ScoringProfile; source: ProfileSummary['source'] } {
+  const data = loadAll();
+  const port = data[unlocode.toUpperCase()];
+  if (port)              return { profile: port, source: 'port' };
+  if (data[DEFAULT_KEY]) return { profile: data[DEFAULT_KEY], source: 'default' };
+  return { profile: BUILTIN_PROFILE, source: 'builtin' };
+}
+
+// ── Scoring ───────────────────────────────────────────────────────────────────
+
+/** Thresholds after berth-capacity scaling. */
+export function effectiveThresholds(profile: ScoringProfile = BUILTIN_PROFILE): LevelThresholds {
+  const f = profile.berthCapacity ? profile.berthCapacity / REFERENCE_BERTHS : 1;
+  return {
+    moderate: profile.thresholds.moderate * f,
+    high:     profile.thresholds.high     * f,
+    critical: profile.thresholds.critical * f,
+  };
+}
+
+/** Map a congestion score onto its level band. */
+export function levelForScore(score: number, profile: ScoringProfile = BUILTIN_PROFILE): CongestionLevel {
+  const t = effectiveThresholds(profile);
+  return score >= t.critical ? 'critical' :
+         score >= t.high     ? 'high'     :
+         score >= t.moderate ? 'moderate' : 'low';
+}
+
+/**
+ * Multiplier for a single vessel given its registry particulars.
+ * Unknown vessels weigh 1.
+ */
+export function vesselWeight(
+  profile: ScoringProfile,
+  particulars: { type?: VesselType | null; gt?: number | null } | null,
+): number {
+  if (!particulars) return 1;
+  const typeW = particulars.type ? profile.typeWeights[particulars.type] ?? 1 : 1;
+  let sizeW = 1;
+  if (particulars.gt != null) {
+    for (const band of profile.sizeBands) {
+      if (particulars.gt >= band.minGt) sizeW = band.weight;
+    }
+  }
+  return typeW * sizeW;
+}
+
+/**
+ * Congestion score for weighted vessel counts
+ * (plain counts when every vessel weighs 1).
+ */
+export function congestionScoreFor(
+  anchorage: number,
+  approach:  number,
+  profile:   ScoringProfile = BUILTIN_PROFILE,
+): number {
+  return Math.round(anchorage * profile.anchorageWeight + approach * profile.approachWeight);
+}
+
+/** Compact description of a profile for API responses. */
+export function summarizeProfile(profile: ScoringProfile, source: ProfileSummary['source']): ProfileSummary {
+  return {
+    id:                  profile.id,
+    source,
+    anchorageWeight:     profile.anchorageWeight,
+    approachWeight:      profile.approachWeight,
+    effectiveThresholds: effectiveThresholds(profile),
+  };
+}
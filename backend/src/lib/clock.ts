@@ -0,0 +1,110 @@
+/**
+ * Mari8X Clock
+ *
+ * Single source of "now" for time-windowed features (congestion, pre-arrival,
+ * vessel profile, dwell, forecast, alerts, AIS ingest). Normally the wall
+ * clock; during an AIS replay a virtual clock anchored at the recording's
+ * start time and running at a chosen speed (speed 0 = frozen, moved only by
+ * advanceClock), so "last 12 h" means the last 12 h of the recording.
+ *
+ * A replay clock names the position source its recording is stored under.
+ * Window queries (fixWindow) then read only that source and nothing newer
+ * than the virtual now, so live fixes arriving meanwhile stay out of the
+ * replay's answers; live ingest keeps stamping them with wall time.
+ */
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface ClockStatus {
+  virtual: boolean;
+  now:     string;
+  speed:   number;        // virtual seconds per real second (1 when not virtual)
+  since:   string | null; // when the virtual clock was set (wall time)
+  source:  string | null; // replay source window queries are scoped to
+}
+
+// ── State ─────────────────────────────────────────────────────────────────────
+
+let virtual: {
+  anchorVirtual: number;
+  anchorReal:    number;
+  speed:         number;
+  setAt:         number;
+  source:        string | null;
+} | null = null;
+
+// ── API ───────────────────────────────────────────────────────────────────────
+
+/** Current time in epoch ms (virtual when a replay clock is set). */
+export function clockNow(): number {
+  if (!virtual) return Date.now();
+  return virtual.anchorVirtual + (Date.now() - virtual.anchorReal) * virtual.speed;
+}
+
+/** Current time as a Date. */
+export function clockDate(): Date {
+  return new Date(clockNow());
+}
+
+export function isVirtualClock(): boolean {
+  return virtual !== null;
+}
+
+/**
+ * Switch to a virtual clock starting at `at`, running at `speed`×. With a
+ * `source`, window queries read only that source's fixes.
+ */
+export function setVirtualClock(at: Date, speed = 1, source: string | null = null): ClockStatus {
+  if (isNaN(at.getTime())) throw new Error('at must be a valid date');
+  if (!(speed >= 0))       throw new Error('speed must be >= 0');
+  const real = Date.now();
+  virtual = { anchorVirtual: at.getTime(), anchorReal: real, speed, setAt: real, source };
+  return getClockStatus();
+}
+
+/** Position source of the running replay, or null. */
+export function clockSource(): string | null {
+  return virtual?.source ?? null;
+}
+
+/**
+ * Time for a fix arriving now from `source`: the virtual now for the
+ * replay's own source, wall time for everything else (live feeds).
+ */
+export function ingestNow(source: string): number {
+  return virtual && virtual.source === source ? clockNow() : Date.now();
+}
+
+/**
+ * Prisma `where` fragment for position fixes from `since` up to `until`
+ * (default: now on the platform clock); during a replay, only the replay
+ * source's fixes.
+ */
+export function fixWindow(
+  since: Date | number,
+  until: Date | number = clockNow(),
+): { timestamp: { gte: Date; lte: Date }; source?: string } {
+  const window = { timestamp: { gte: new Date(since), lte: new Date(until) } };
+  return virtual?.source ? { ...window, source: virtual.source } : window;
+}
+
+/** Move a virtual clock to `to`, keeping its speed. */
+export function advanceClock(to: Date): void {
+  if (!virtual) throw new Error('No virtual clock set');
+  virtual = { ...virtual, anchorVirtual: to.getTime(), anchorReal: Date.now() };
+}
+
+/** Back to wall-clock time. */
+export function resetClock(): void {
+  virtual = null;
+}
+
+export function getClockStatus(): ClockStatus {
+  return {
+    virtual: virtual !== null,
+    now:     clockDate().toISOString(),
+    speed:   virtual?.speed ?? 1,
+    since:   virtual ? new Date(virtual.setAt).toISOString() : null,
+    source:  virtual?.source ?? null,
+  };
+}
@@ -88,3 +88,24 @@ function interpolate(
     lng: (lon * 180) / Math.PI,
   };
 }
+
+/**
+ * Point-in-polygon test (ray casting) on lat/lng vertices.
+ * The ring may be open or closed; antimeridian-crossing rings are not supported.
+ */
+export function pointInPolygon(
+  lat: number,
+  lng: number,
+  polygon: Array<{ lat: number; lng: number }>
+): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses =
+      a.lat > lat !== b.lat > lat &&
+      lng < ((b.lng - a.lng) * (lat - a.lat)) / (b.lat - a.lat) + a.lng;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
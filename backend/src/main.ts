@@ -8,10 +8,25 @@ import cors from 'cors';
 import { WebSocketServer } from 'ws';
 import { schema } from './schema/index.js';
 import { prisma } from './lib/prisma.js';
-import { getPortCongestion, getTopCongestedPorts, getAllPortsCongestion } from './congestion/engine.js';
+import {
+  getPortCongestion, getTopCongestedPorts, getAllPortsCongestion, invalidateCongestionCache,
+} from './congestion/engine.js';
+import {
+  setPortGeofence, getPortGeofence, listPortGeofences, deletePortGeofence,
+} from './congestion/geofence.js';
+import {
+  setScoringProfile, getScoringProfile, listScoringProfiles, deleteScoringProfile, resolveScoringProfile,
+} from './congestion/scoring.js';
+import { recordCongestionSnapshots, getCongestionHistory, parseInterval } from './congestion/history.js';
+import { congestionForecast, loadForecastBasis, projectCongestion, HORIZON_HOURS as FORECAST_HORIZON_HOURS } from './congestion/forecast.js';
+import { getAnchorageDwell, invalidateDwellCache } from './congestion/dwell.js';
 import { getPreArrivalVessels } from './agent/pre-arrival.js';
 import { getChecklist, updateDocStatus, listOpenChecklists } from './agent/documents.js';
-import { forecastDA } from './agent/da-forecast.js';
+import { forecastDA, forecastDAForVessel } from './agent/da-forecast.js';
+import { listFxRates, setFxRate, deleteFxRate, convertAmount } from './agent/fx-rates.js';
+import {
+  listPortTariffs, getPortTariff, addPortTariff, updatePortTariff, deletePortTariff,
+} from './agent/da-tariffs.js';
 import { getVesselProfile } from './agent/vessel-profile.js';
 import { getAlerts, acknowledgeAlert, evaluateAlerts, ensureDefaultRules } from './agent/alerts.js';
 import {
@@ -36,15 +51,49 @@ import {
 } from './agent/demurrage.js';
 import type { DDRecord } from './agent/demurrage.js';
 import {
-  openPortCall, advancePortCall, setPortCallStage, setDAEstimate,
+  openPortCall, advancePortCall, setPortCallStage, setPortCallAutoTracking, setDAEstimate,
   getPortCall, getPortCallsByVoyage, listPortCallsByPort, listAllPortCalls,
   getPortCallDashboard, setPortCallBroadcast,
 } from './agent/port-call.js';
 import type { PortCallRecord } from './agent/port-call.js';
+import {
+  getDALedger, listDALedgers, addProformaDA, proformaDAFromForecast, addFinalDA,
+  requestDAFunds, recordDAFunds, getDAVariance, type DAStatus,
+} from './agent/da-ledger.js';
 import {
   registerVessel, getVessel, searchVessels, listVessels,
   updateVessel, bulkImportFromPortCalls, getRegistryStats,
 } from './agent/vessel-registry.js';
+import { ingestNmeaLine, getIngestStats } from './ais/ingest.js';
+import { startFeedsFromEnv, listFeeds } from './ais/feeds.js';
+import { getBestPosition, getFusionConfig, setFusionConfig, recordReportedPosition } from './ais/fusion.js';
+import {
+  runRetention, getRetentionConfig, setRetentionConfig, listRetentionReports,
+} from './ais/retention.js';
+import { getVesselGaps } from './ais/gaps.js';
+import { runPortEvents, getPortEventStatus } from './ais/port-events.js';
+import { getVesselPortVisits, getPortVisits } from './ais/port-visits.js';
+import { runEncounterDetection, listEncounters, getEncounter } from './ais/encounters.js';
+import { runEcaWatch, listEcaReminders, acknowledgeEcaReminder } from './ais/eca-changeover.js';
+import { runRiskZoneWatch, listRiskZoneEntries, acknowledgeRiskZoneEntry } from './ais/risk-zone-watch.js';
+import { startReplay, stopReplay, getReplayStatus, purgeReplayData } from './ais/replay.js';
+import { setVirtualClock, resetClock, getClockStatus, clockNow } from './lib/clock.js';
+import { findPortRoute, listRoutingOptions } from './routing/sea-route.js';
+import { planVoyage, applyVoyagePlan } from './routing/voyage-plan.js';
+import { listEcas, ECA_AREAS } from './routing/eca.js';
+import {
+  listRiskZones, getRiskZone, setRiskZone, replaceRiskZones, deleteRiskZone, riskZonesAt,
+  ensureDefaultRiskZones,
+} from './routing/risk-zones.js';
+import {
+  calculateEstimate, createEstimate, reviseEstimate, getEstimate, getEstimateVersion,
+  listEstimates, deleteEstimate, compareEstimates,
+} from './chartering/estimate.js';
+import {
+  getCanalTariffs, getCanalTariff, setCanalTariff, resetCanalTariff, calculateCanalDues, canalDuesFor,
+  resolveCanalVessel, type CanalVessel,
+} from './routing/canal-dues.js';
+import type { PassageId } from './routing/network.js';
 
 const app = express();
 const PORT = process.env.PORT || 4001;
@@ -73,6 +122,84 @@ app.get('/api/congestion/top10', async (_req, res) => {
   }
 });
 
+/**
+ * GET /api/congestion/history?ports=SGSIN,NLRTM&from=&to=&interval=hour
+ * Congestion time series for a set of ports.
+ *   interval — raw | hour | day (default hour)
+ *   from/to  — ISO timestamps (default: last 7 days)
+ */
+app.get('/api/congestion/history', async (req, res) => {
+  try {
+    const q     = req.query as any;
+    const ports = String(q.ports ?? '').split(',').filter(Boolean);
+    if (ports.length === 0) return res.status(400).json({ error: 'ports is required (comma-separated UNLOCODEs)' });
+    const from = q.from ? new Date(q.from) : undefined;
+    const to   = q.to   ? new Date(q.to)   : undefined;
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return res.status(400).json({ error: 'from/to must be ISO timestamps' });
+    }
+    const series = await getCongestionHistory(ports, { from, to, interval: parseInterval(q.interval) });
+    res.json({ series, count: series.length, generatedAt: new Date().toISOString() });
+  } catch (e) {
+    res.status(500).json({ error: (e as Error).message });
+  }
+});
+
+/** GET /api/congestion/:portCode/history?from=&to=&interval= — time series for one port */
+app.get('/api/congestion/:portCode/history', async (req, res) => {
+  try {
+    const q    = req.query as any;
+    const from = q.from ? new Date(q.from) : undefined;
+    const to   = q.to   ? new Date(q.to)   : undefined;
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return res.status(400).json({ error: 'from/to must be ISO timestamps' });
+    }
+    const [series] = await getCongestionHistory([req.params.portCode], { from, to, interval: parseInterval(q.interval) });
+    res.json(series);
+  } catch (e) {
+    res.status(500).json({ error: (e as Error).message });
+  }
+});
+
+/**
+ * GET /api/congestion/:portCode/forecast?at=2026-03-01T12:00:00Z
+ * Projected congestion level and expected wait at a future time (default: now).
+ */
+app.get('/api/congestion/:portCode/forecast', async (req, res) => {
+  try {
+    const q  = req.query as any;
+    const at = q.at ? new Date(q.at) : new Date();
+    if (isNaN(at.getTime())) return res.status(400).json({ error: 'at must be an ISO timestamp' });
+    const data = await congestionForecast(req.params.portCode, at);
+    if (!data) {
+      return res.status(404).json({ error: `Port "${req.params.portCode}" not found or has no coordinates` });
+    }
+    res.json(data);
+  } catch (e) {
+    res.status(500).json({ error: (e as Error).message });
+  }
+});
+
+/**
+ * GET /api/congestion/:portCode/dwell?days=7&limit=10
+ * Observed anchorage dwell from position history: median / p90 wait,
+ * per-day stats and the longest-waiting ships currently at anchor.
+ */
+app.get('/api/congestion/:portCode/dwell', async (req, res) => {
+  try {
+    const q     = req.query as any;
+    const days  = Math.min(Math.max(parseInt(q.days  ?? '7', 10) || 7, 1), 30);
+    const limit = Math.min(Math.max(parseInt(q.limit ?? '10', 10) || 10, 1), 100);
+    const data  = await getAnchorageDwell(req.params.portCode, days, limit);
+    if (!data) {
+      return res.status(404).json({ error: `Port "${req.params.portCode}" not found or has no coordinates` });
+    }
+    res.json(data);
+  } catch (e) {
+    res.status(500).json({ error: (e as Error).message });
+  }
+});
+
 /** GET /api/congestion/:portCode — congestion detail for one port (UNLOCODE) */
 app.get('/api/congestion/:portCode', async (req, res) => {
   try {
@@ -101,6 +228,111 @@ app.get('/api/congestion', async (_req, res) => {
   }
 });
 
+// ── Port Geofences ────────────────────────────────────────────────────────────
+
+/** GET /api/geofences — all ports with custom zone polygons */
+app.get('/api/geofences', (_req, res) => {
+  try {
+    const geofences = listPortGeofences();
+    res.json({ count: geofences.length, geofences });
+  } catch (e) {
+    res.status(500).json({ error: (e as Error).message });
+  }
+});
+
+/** GET /api/geofences/:portCode — zone polygons + radii for one port */
+app.get('/api/geofences/:portCode', (req, res) => {
+  try {
+    const fence = getPortGeofence(req.params.portCode);
+    if (!fence) return res.status(404).json({ error: `No geofence for "${req.params.portCode}" (default radii apply)` });
+    res.json(fence);
+  } catch (e) {
+    res.status(500).json({ error: (e as Error).message });
+  }
+});
+
+/**
+ * PUT /api/geofences/:portCode — create or replace a port's geofence
+ * Body: { polygons: [{ zone: 'anchorage'|'approach'|'berth', name?, vertices: [{lat,lng}, ...] }],
+ *         radii?: { anchorageNm?, approachNm?, outerNm? }, updatedBy? }
+ */
+app.put('/api/geofences/:portCode', express.json(), (req, res) => {
+  try {
+    const body = req.body as any;
+    if (!Array.isArray(body?.polygons)) return res.status(400).json({ error: 'polygons must be an array' });
+    const fence = setPortGeofence(req.params.portCode, body);
+    invalidateCongestionCache(fence.unlocode);
+    res.json(fence);
+  } catch (e) {
+    res.status(400).json({ error: (e as Error).message });
+  }
+});
+
+/** DELETE /api/geofences/:portCode — revert a port to the default radii */
+app.delete('/api/geofences/:portCode', (req, res) => {
+  try {
+    if (!deletePortGeofence(req.params.portCode)) {
+      return res.status(404).json({ error: `No geofence for "${req.params.portCode}"` });
+    }
+    invalidateCongestionCache(req.params.portCode);
+    res.json({ ok: true, portCode: req.params.portCode.toUpperCase() });
+  } catch (e) {
+    res.status(500).json({ error: (e as Error).message });
+  }
+});
+
+// ── Congestion Scoring Profiles ───────────────────────────────────────────────
+
+/** GET /api/congestion-profiles — all stored profiles (per port + DEFAULT) */
+app.get('/api/congestion-profiles', (_req, res) => {
+  try {
+    const profiles = listScoringProfiles();
+    res.json({ count: profiles.length, profiles });
+  } catch (e) {
+    res.status(500).json({ error: (e as Error).message });
+  }
+});
+
+/** GET /api/congestion-profiles/:portCode — profile in effect for a port (or DEFAULT) */
+app.get('/api/congestion-profiles/:portCode', (req, res) => {
+  try {
+    const { profile, source } = resolveScoringProfile(req.params.portCode);
+    res.json({ ...profile, source });
+  } catch (e) {
+    res.status(500).json({ error: (e as Error).message });
+  }
+});
+
+/**
+ * PUT /api/congestion-profiles/:portCode — create or update a profile
+ * Use portCode "DEFAULT" to change the fallback for all ports.
+ * Body: { anchorageWeight?, approachWeight?, thresholds?: { moderate, high, critical },
+ *         berthCapacity?, typeWeights?: { TANKER: 1.2, ... }, sizeBands?: [{ minGt, weight }], updatedBy? }
+ */
+app.put('/api/congestion-profiles/:portCode', express.json(), (req, res) => {
+  try {
+    const profile = setScoringProfile(req.params.portCode, req.body ?? {});
+    invalidateCongestionCache(profile.id === 'DEFAULT' ? undefined : profile.id);
+    res.json(profile);
+  } catch (e) {
+    res.status(400).json({ error: (e as Error).message });
+  }
+});
+
+/** DELETE /api/congestion-profiles/:portCode — remove a stored profile */
+app.delete('/api/congestion-profiles/:portCode', (req, res) => {
+  try {
+    if (!getScoringProfile(req.params.portCode)) {
+      return res.status(404).json({ error: `No profile stored for "${req.params.portCode}"` });
+    }
+    deleteScoringProfile(req.params.portCode);
+    invalidateCongestionCache();
+    res.json({ ok: true, portCode: req.params.portCode.toUpperCase() });
+  } catch (e) {
+    res.status(500).json({ error: (e as Error).message });
+  }
+});
+
 // ── Agent Wedge REST API ──────────────────────────────────────────────────────
 
 /**
@@ -167,20 +399,119 @@ app.get('/api/agent/documents', (_req, res) => {
 
 /**
  * POST /api/agent/da-forecast
- * Body: { port: "SGSIN", vessel: { grt, loaMetres, teuCapacity?, cargoTonnes? } }
+ * Body: { port: "SGSIN", vessel: { grt, loaMetres, teuCapacity?, cargoTonnes? }, asOf?: "2026-11-01", currency?: "SGD" }
  */
 app.post('/api/agent/da-forecast', express.json(), (req, res) => {
   try {
-    const { port, vessel } = req.body as any;
+    const { port, vessel, asOf, currency } = req.body as any;
     if (!port || !vessel?.grt || !vessel?.loaMetres) {
       return res.status(400).json({ error: 'port, vessel.grt, and vessel.loaMetres are required' });
     }
-    res.json(forecastDA(port, vessel));
+    res.json(forecastDA(port, vessel, asOf, currency));
   } catch (e) {
     res.status(500).json({ error: (e as Error).message });
   }
 });
 
+// ── Port DA Tariffs ───────────────────────────────────────────────────────────
+
+/** GET /api/agent/da-tariffs?port=SGSIN — tariff versions, all ports unless given */
+app.get('/api/agent/da-tariffs', (req, res) => {
+  const tariffs = listPortTariffs(req.query.port ? String(req.query.port) : undefined);
+  res.json({ count: tariffs.length, tariffs });
+});
+
+/** GET /api/agent/da-tariffs/:port/current?asOf=2026-11-01 — version in force */
+app.get('/api/agent/da-tariffs/:port/current', (req, res) => {
+  try {
+    const t = getPortTariff(req.params.port, req.query.asOf ? String(req.query.asOf) : undefined);
+    if (!t) return res.status(404).json({ error: `No tariff in force for ${req.params.port.toUpperCase()}` });
+    res.json(t);
+  } catch (e) {
+    res.status(400).json({ error: (e as Error).message });
+  }
+});
+
+/**
+ * POST /api/agent/da-tariffs/:port — add a tariff version
+ * Body: { effectiveFrom: "2026-01-01", effectiveTo?: "2026-12-31" | null,
+ *         rates: { portDuesPerGrt?, pilotageFixed?, pilotagePerMetre?, tugHourlyRate?, tugsRequired?,
+ *                  wharfagePerTeu?, wharfagePerTonne?, agencyFee?, miscFlat? },
+ *         notes?, createdBy? }
+ */
+app.post('/api/agent/da-tariffs/:port', express.json(), (req, res) => {
+  try {
+    res.status(201).json(addPortTariff(req.params.port, req.body ?? {}));
+  } catch (e) {
+    res.status(400).json({ error: (e as Error).message });
+  }
+});
+
+/** PATCH /api/agent/da-tariffs/versions/:id — edit dates, rates or notes. Body: { effectiveFrom?, effectiveTo?, rates?, notes?, updatedBy? } */
+app.patch('/api/agent/da-tariffs/versions/:id', express.json(), (req, res) => {
+  try {
+    const t = updatePortTariff(req.params.id, req.body ?? {});
+    if (!t) return res.status(404).json({ error: `Tariff version ${req.params.id} not found` });
+    res.json(t);
+  } catch (e) {
+    res.status(400).json({ error: (e as Error).message });
+  }
+});
+
+/** DELETE /api/agent/da-tariffs/versions/:id */
+app.delete('/api/agent/da-tariffs/versions/:id', (req, res) => {
+  if (!deletePortTariff(req.params.id)) return res.status(404).json({ error: `Tariff version ${req.params.id} not found` });
+  res.json({ ok: true, id: req.params.id });
+});
+
+// ── FX Rates ──────────────────────────────────────────────────────────────────
+
+/** GET /api/fx-rates?currency=SGD — dated rates against USD, newest first */
+app.get('/api/fx-rates', (req, res) => {
+  try {
+    const rates = listFxRates(req.query.currency ? String(req.query.currency) : undefined);
+    res.json({ count: rates.length, rates });
+  } catch (e) {
+    res.status(400).json({ error: (e as Error).message });
+  }
+});
+
+/** GET /api/fx-rates/convert?amount=1000&from=SGD&to=EUR&asOf=2026-11-01 — amount plus the rate used */
+app.get('/api/fx-rates/convert', (req, res) => {
+  try {
+    const q      = req.query as any;
+    const amount = parseFloat(q.amount);
+    if (isNaN(amount) || !q.from || !q.to) return res.status(400).json({ error: 'amount, from and to are required' });
+    res.json(convertAmount(amount, String(q.from), String(q.to), q.asOf ? String(q.asOf) : undefined));
+  } catch (e) {
+    res.status(400).json({ error: (e as Error).message });
+  }
+});
+
+/**
+ * POST /api/fx-rates — add or replace a currency's rate for a date
+ * Body: { currency: "SGD", date: "2026-10-01", usdPerUnit: 0.742, source?, recordedBy? }
+ */
+app.post('/api/fx-rates', express.json(), (req, res) => {
+  try {
+    res.status(201).json(setFxRate(req.body ?? {}));
+  } catch (e) {
+    res.status(400).json({ error: (e as Error).message });
+  }
+});
+
+/** DELETE /api/fx-rates/:currency/:date */
+app.delete('/api/fx-rates/:currency/:date', (req, res) => {
+  try {
+    if (!deleteFxRate(req.params.currency, req.params.date)) {
+      return res.status(404).json({ error: `No ${req.params.currency.toUpperCase()} rate for ${req.params.date}` });
+    }
+    res.json({ ok: true, currency: req.params.currency.toUpperCase(), date: req.params.date });
+  } catch (e) {
+    res.status(400).json({ error: (e as Error).message });
+  }
+});
+
 // ── Vessel Profile ────────────────────────────────────────────────────────────
 
 /**
@@ -208,7 +539,8 @@ app.get('/api/agent/vessel/:imo', async (req, res) => {
  *   pre-arrival vessel list (ETA, confidence, speed, distance)
  *   doc checklist readiness for any voyage linked to that IMO + port
  *   congestion forecast at expected arrival time
- *   indicative DA cost
+ *   indicative DA cost from the vessel's registry particulars, at its ETA;
+ *   daBasis.usedDefaults flags cards where typical figures stood in
  *
  * Each row in `arrivals` is a ready-to-render schedule card.
  */
@@ -217,24 +549,27 @@ app.get('/api/agent/schedule/:portCode', async (req, res) => {
     const { portCode } = req.params as any;
     const window = parseInt((req.query as any).window ?? '72', 10);
 
+    // One pre-arrival scan serves both the cards and the forecast horizon
     const [preArrival, congestion] = await Promise.all([
-      getPreArrivalVessels(portCode, window),
+      getPreArrivalVessels(portCode, Math.max(window, FORECAST_HORIZON_HOURS)),
       getPortCongestion(portCode),
     ]);
 
     if (!preArrival) {
       return res.status(404).json({ error: `Port "${portCode}" not found` });
     }
+    const forecastBasis = await loadForecastBasis(portCode, { congestion, preArrival });
 
     const allOpen   = listOpenChecklists();
     const portUpper = portCode.toUpperCase();
-    const daBase    = forecastDA(portCode, { grt: 50000, loaMetres: 250, teuCapacity: 4000 });
 
     // Build a schedule card per pre-arrival vessel
-    const arrivals = preArrival.vessels.map(v => {
+    const arrivals = preArrival.vessels.filter(v => v.etaHours <= window).map(v => {
       const etaIso = v.etaAt;
       // Find any open checklist for this vessel + port
       const checklist = allOpen.find(c => c.imo === v.imo && c.portUnlocode === portUpper) ?? null;
+      const forecast  = forecastBasis ? projectCongestion(forecastBasis, new Date(etaIso)) : null;
+      const da        = forecastDAForVessel(portCode, v.imo, etaIso);
 
       return {
         imo:         v.imo,
@@ -250,12 +585,15 @@ app.get('/api/agent/schedule/:portCode', async (req, res) => {
           overdue:   checklist.summary.overdue,
           pending:   checklist.summary.pending,
         } : null,
-        congestionAtArrival: congestion ? {
-          level:              congestion.level,
-          score:              congestion.congestionScore,
-          estimatedWaitHours: congestion.estimatedWaitHours,
+        congestionAtArrival: forecast ? {
+          level:              forecast.level,
+          score:              forecast.projectedScore,
+          estimatedWaitHours: forecast.expectedWaitHours,
+          confidence:         forecast.confidence,
         } : null,
-        daEstimateUsd: daBase.costs.totalUsd,
+        daEstimateUsd: da.costs.totalUsd,
+        daVessel:      da.vessel,
+        daBasis:       da.basis,
       };
     });
 
@@ -281,15 +619,16 @@ app.get('/api/agent/schedule/:portCode', async (req, res) => {
 /**
  * GET /api/agent/dashboard/:portCode
  *   ?window=48          — pre-arrival ETA window (hours, default 48)
+ *   &imo=9811000        — registered vessel for the DA forecast (its particulars)
  *   &grt=50000          — vessel GRT for DA forecast (default 50000)
  *   &loa=250            — vessel LOA metres for DA forecast (default 250)
  *   &teu=4000           — vessel TEU capacity for DA forecast (default 4000)
  *
  * Aggregates:
  *   - Port congestion snapshot
- *   - Pre-arrival vessel list
+ *   - Pre-arrival vessel list, with each vessel's indicative DA (arrivalDA)
  *   - Open document checklists for this port
- *   - DA forecast for a representative vessel call
+ *   - DA forecast for the given vessel, or a representative vessel call
  */
 app.get('/api/agent/dashboard/:portCode', async (req, res) => {
   try {
@@ -312,13 +651,19 @@ app.get('/api/agent/dashboard/:portCode', async (req, res) => {
     const portUpper   = portCode.toUpperCase();
     const portDocs    = allOpen.filter(c => c.portUnlocode === portUpper);
 
-    // DA forecast for a representative vessel (defaults or query params)
+    // DA forecast for the given vessel, else a representative one (defaults or query params)
     const vesselSpec = {
       grt:         parseInt(q.grt ?? '50000', 10),
       loaMetres:   parseInt(q.loa ?? '250', 10),
       teuCapacity: parseInt(q.teu ?? '4000', 10),
     };
-    const daForecast = forecastDA(portCode, vesselSpec);
+    const daForecast = q.imo ? forecastDAForVessel(portCode, String(q.imo)) : forecastDA(portCode, vesselSpec);
+
+    // Each inbound vessel's own DA, from its registry particulars
+    const arrivalDA = (preArrival?.vessels ?? []).map(v => {
+      const da = forecastDAForVessel(portCode, v.imo, v.etaAt);
+      return { imo: v.imo, vesselName: v.name, etaAt: v.etaAt, daEstimateUsd: da.costs.totalUsd, daBasis: da.basis };
+    });
 
     res.json({
       port:         congestion?.port ?? preArrival?.port ?? { unlocode: portUpper },
@@ -332,6 +677,7 @@ app.get('/api/agent/dashboard/:portCode', async (req, res) => {
         checklists:    portDocs,
       },
       daForecast,
+      arrivalDA,
     });
   } catch (e) {
     res.status(500).json({ error: (e as Error).message });
@@ -679,6 +1025,43 @@ setInterval(async () => {
   } catch { /* non-fatal */ }
 }, 15 * 60_000);
 
+// ── Congestion history snapshots (every 15 min by default) ──────────────────
+const SNAPSHOT_INTERVAL_MS = parseInt(process.env.CONGESTION_SNAPSHOT_INTERVAL_MS ?? String(15 * 60_000), 10);
+setInterval(() => {
+  recordCongestionSnapshots().catch(() => { /* non-fatal */ });
+}, SNAPSHOT_INTERVAL_MS);
+
+// ── Position retention / downsampling (daily by default) ────────────────────
+const RETENTION_INTERVAL_MS = parseInt(process.env.POSITION_RETENTION_INTERVAL_MS ?? String(24 * 3600_000), 10);
+setInterval(() => {
+  runRetention().catch(() => { /* non-fatal — outcome recorded in report */ });
+}, RETENTION_INTERVAL_MS);
+
+// ── AIS arrival / departure detection (every 5 min by default) ──────────────
+const PORT_EVENTS_INTERVAL_MS = parseInt(process.env.PORT_EVENTS_INTERVAL_MS ?? String(5 * 60_000), 10);
+setInterval(() => {
+  runPortEvents().catch(() => { /* non-fatal — already running, replaying or store unavailable */ });
+}, PORT_EVENTS_INTERVAL_MS);
+
+// ── Encounter detection (every 30 min by default) ───────────────────────────
+const ENCOUNTER_INTERVAL_MS = parseInt(process.env.ENCOUNTER_INTERVAL_MS ?? String(30 * 60_000), 10);
+setInterval(() => {
+  runEncounterDetection().catch(() => { /* non-fatal — already running or store unavailable */ });
+}, ENCOUNTER_INTERVAL_MS);
+
+// ── ECA fuel changeover reminders (every 15 min by default) ─────────────────
+const ECA_WATCH_INTERVAL_MS = parseInt(process.env.ECA_WATCH_INTERVAL_MS ?? String(15 * 60_000), 10);
+setInterval(() => {
+  runEcaWatch().catch(() => { /* non-fatal — already running or store unavailable */ });
+}, ECA_WATCH_INTERVAL_MS);
+
+// ── Risk zone entry watch (every 5 min by default) ──────────────────────────
+ensureDefaultRiskZones();
+const RISK_ZONE_WATCH_INTERVAL_MS = parseInt(process.env.RISK_ZONE_WATCH_INTERVAL_MS ?? String(5 * 60_000), 10);
+setInterval(() => {
+  runRiskZoneWatch().catch(() => { /* non-fatal — already running or store unavailable */ });
+}, RISK_ZONE_WATCH_INTERVAL_MS);
+
 // ── ETA REST API ──────────────────────────────────────────────────────────────
 
 /**
@@ -730,18 +1113,24 @@ app.get('/api/eta/:voyageId', (req, res) => {
 
 /**
  * PATCH /api/eta/:voyageId/arrived — mark voyage as arrived
+ * Body: { remarks?, at?, updatedBy? } — `at` corrects the arrival time
  */
 app.patch('/api/eta/:voyageId/arrived', express.json(), (req, res) => {
-  const record = markArrived(req.params.voyageId, (req.body as any)?.remarks);
-  if (!record) return res.status(404).json({ error: `Voyage "${req.params.voyageId}" not found` });
-  res.json(record);
+  try {
+    const { remarks, at, updatedBy } = (req.body ?? {}) as any;
+    const record = markArrived(req.params.voyageId, remarks, { at, updatedBy });
+    if (!record) return res.status(404).json({ error: `Voyage "${req.params.voyageId}" not found` });
+    res.json(record);
+  } catch (e) {
+    res.status(400).json({ error: (e as Error).message });
+  }
 });
 
 // ── Demurrage & Detention REST API ────────────────────────────────────────────
 
 /**
  * POST /api/dd — create or update a D&D record for a B/L
- * Body: upsertDD input (blNumber, portCode, containers[], rules?, alertThresholdUsd?)
+ * Body: upsertDD input (blNumber, portCode, containers[], rules? (incl. currency), reportingCurrency?, alertThresholdUsd?)
  */
 app.post('/api/dd', express.json(), (req, res) => {
   try {
@@ -753,11 +1142,11 @@ app.post('/api/dd', express.json(), (req, res) => {
 });
 
 /**
- * GET /api/dd/dashboard — aggregated D&D dashboard
+ * GET /api/dd/dashboard?currency=EUR — aggregated D&D dashboard; total also in currency when given
  */
-app.get('/api/dd/dashboard', (_req, res) => {
+app.get('/api/dd/dashboard', (req, res) => {
   try {
-    res.json(getDDDashboard());
+    res.json(getDDDashboard(req.query.currency ? String(req.query.currency) : undefined));
   } catch (e) {
     res.status(500).json({ error: (e as Error).message });
   }
@@ -920,23 +1309,38 @@ app.post('/api/portcall/:portCallId/advance', express.json(), (req, res) => {
 /**
  * POST /api/portcall/:portCallId/stage
  * Set a specific stage.
- * Body: { stage, notes?, updatedBy? }
+ * Body: { stage, notes?, updatedBy?, at? } — `at` also corrects anchoredAt / ata / atd
  */
 app.post('/api/portcall/:portCallId/stage', express.json(), (req, res) => {
   try {
-    const { stage, notes, updatedBy } = req.body as any;
+    const { stage, notes, updatedBy, at } = req.body as any;
     if (!stage) return res.status(400).json({ error: 'stage is required' });
-    const record = setPortCallStage(req.params.portCallId, stage, { notes, updatedBy });
+    const record = setPortCallStage(req.params.portCallId, stage, { notes, updatedBy, at });
     res.json(record);
   } catch (e) {
     res.status(400).json({ error: (e as Error).message });
   }
 });
 
+/**
+ * POST /api/portcall/:portCallId/auto-tracking
+ * Turn AIS arrival / departure detection on or off for this call.
+ * Body: { enabled }
+ */
+app.post('/api/portcall/:portCallId/auto-tracking', express.json(), (req, res) => {
+  try {
+    const { enabled } = req.body as any;
+    if (typeof enabled !== 'boolean') return res.status(400).json({ error: 'enabled (boolean) is required' });
+    res.json(setPortCallAutoTracking(req.params.portCallId, enabled));
+  } catch (e) {
+    res.status(404).json({ error: (e as Error).message });
+  }
+});
+
 /**
  * POST /api/portcall/:portCallId/da
  * Attach or update a DA estimate.
- * Body: { portDuesUsd, pilotageUsd, towageUsd, agencyFeeUsd, miscUsd, totalUsd, currency? }
+ * Body: { portDuesUsd, pilotageUsd, towageUsd, agencyFeeUsd, miscUsd, totalUsd, currency?, reportingCurrency? }
  */
 app.post('/api/portcall/:portCallId/da', express.json(), (req, res) => {
   try {
@@ -950,13 +1354,94 @@ app.post('/api/portcall/:portCallId/da', express.json(), (req, res) => {
       miscUsd:      da.miscUsd      ?? 0,
       totalUsd:     da.totalUsd,
       currency:     da.currency     ?? 'USD',
-    });
+    }, da.reportingCurrency);
     res.json(record);
   } catch (e) {
     res.status(400).json({ error: (e as Error).message });
   }
 });
 
+// ── DA Ledger (proforma → funds → final) ──────────────────────────────────────
+
+const ledgerError = (res: express.Response, e: unknown) => {
+  const msg = (e as Error).message;
+  res.status(/not found/.test(msg) ? 404 : 400).json({ error: msg });
+};
+
+/** GET /api/da-ledgers?port=SGSIN&status=FINAL — ledgers, most recently updated first */
+app.get('/api/da-ledgers', (req, res) => {
+  const q = req.query as any;
+  const ledgers = listDALedgers({
+    portCode: q.port ? String(q.port) : undefined,
+    status:   q.status ? String(q.status).toUpperCase() as DAStatus : undefined,
+  });
+  res.json({ count: ledgers.length, ledgers });
+});
+
+/** GET /api/portcall/:portCallId/da-ledger — versions, funds and balance */
+app.get('/api/portcall/:portCallId/da-ledger', (req, res) => {
+  const ledger = getDALedger(req.params.portCallId);
+  if (!ledger) return res.status(404).json({ error: `No DA ledger for "${req.params.portCallId}"` });
+  res.json(ledger);
+});
+
+/**
+ * POST /api/portcall/:portCallId/da-ledger/proforma — add a proforma version
+ * Body: { items: [{ category, amountUsd | amount + currency, description?, invoiceRef?, supplier? }], fxDate?,
+ *         notes?, createdBy?, principal?, reportingCurrency? }
+ *   or: { fromForecast: { grt, loaMetres, teuCapacity?, cargoTonnes? }, notes?, createdBy?, principal?, reportingCurrency? }
+ */
+app.post('/api/portcall/:portCallId/da-ledger/proforma', express.json(), (req, res) => {
+  try {
+    const { fromForecast, ...rest } = req.body ?? {};
+    res.status(201).json(fromForecast
+      ? proformaDAFromForecast(req.params.portCallId, { ...rest, vessel: fromForecast })
+      : addProformaDA(req.params.portCallId, rest));
+  } catch (e) {
+    ledgerError(res, e);
+  }
+});
+
+/** POST /api/portcall/:portCallId/da-ledger/funds-request — Body: { amountUsd? | amount + currency, reference?, requestedBy? } */
+app.post('/api/portcall/:portCallId/da-ledger/funds-request', express.json(), (req, res) => {
+  try {
+    res.json(requestDAFunds(req.params.portCallId, req.body ?? {}));
+  } catch (e) {
+    ledgerError(res, e);
+  }
+});
+
+/**
+ * POST /api/portcall/:portCallId/da-ledger/funds-received
+ * Body: { amountUsd | amount + currency, receivedAt?, reference?, notes?, recordedBy? }
+ */
+app.post('/api/portcall/:portCallId/da-ledger/funds-received', express.json(), (req, res) => {
+  try {
+    res.json(recordDAFunds(req.params.portCallId, req.body ?? {}));
+  } catch (e) {
+    ledgerError(res, e);
+  }
+});
+
+/**
+ * POST /api/portcall/:portCallId/da-ledger/final — add a final DA version from the invoices
+ * Body: { items: [{ category, amountUsd | amount + currency, description?, invoiceRef?, supplier? }], fxDate?, notes?, createdBy? }
+ */
+app.post('/api/portcall/:portCallId/da-ledger/final', express.json(), (req, res) => {
+  try {
+    res.status(201).json(addFinalDA(req.params.portCallId, req.body ?? {}));
+  } catch (e) {
+    ledgerError(res, e);
+  }
+});
+
+/** GET /api/portcall/:portCallId/da-ledger/variance — proforma vs final by category */
+app.get('/api/portcall/:portCallId/da-ledger/variance', (req, res) => {
+  const report = getDAVariance(req.params.portCallId);
+  if (!report) return res.status(404).json({ error: `"${req.params.portCallId}" has no proforma and final DA to compare` });
+  res.json(report);
+});
+
 // ── Vessel Registry ───────────────────────────────────────────────────────────
 
 /** POST /api/vessels — register or update a vessel */
@@ -1002,6 +1487,601 @@ app.patch('/api/vessels/:imo', express.json(), (req, res) => {
   }
 });
 
+// ── AIS Ingestion ─────────────────────────────────────────────────────────────
+
+/** GET /api/ais/status — ingest counters + live feed connections */
+app.get('/api/ais/status', (_req, res) => {
+  res.json({ ingest: getIngestStats(), feeds: listFeeds() });
+});
+
+/**
+ * POST /api/ais/nmea?source=ais_terrestrial
+ * Body (text/plain): raw NMEA sentences, one per line. Multi-part messages
+ * must be complete within the body.
+ */
+app.post('/api/ais/nmea', express.text({ type: '*/*', limit: '5mb' }), async (req, res) => {
+  try {
+    const source = String((req.query as any).source ?? 'ais_terrestrial');
+    const lines  = String(req.body ?? '').split(/\r?\n/).filter(l => l.trim());
+    let decoded  = 0;
+    for (const line of lines) {
+      if (await ingestNmeaLine(line, source)) decoded++;
+    }
+    res.json({ lines: lines.length, decoded });
+  } catch (e) {
+    res.status(500).json({ error: (e as Error).message });
+  }
+});
+
+/** GET /api/ais/fusion — source priority / latency / dedup rules */
+app.get('/api/ais/fusion', (_req, res) => {
+  res.json(getFusionConfig());
+});
+
+/**
+ * PUT /api/ais/fusion
+ * Body: { sources?: [{ source, priority, maxAgeMinutes }], preferWindowMinutes?,
+ *         dedupSeconds?, dedupNm?, updatedBy? }
+ */
+app.put('/api/ais/fusion', express.json(), (req, res) => {
+  try {
+    res.json(setFusionConfig(req.body ?? {}));
+  } catch (e) {
+    res.status(400).json({ error: (e as Error).message });
+  }
+});
+
+/** GET /api/positions/:imo — best current position + latest fix per source */
+app.get('/api/positions/:imo', async (req, res) => {
+  try {
+    const data = await getBestPosition(req.params.imo);
+    if (!data) return res.status(404).json({ error: `Vessel IMO ${req.params.imo} not found` });
+    res.json(data);
+  } catch (e) {
+    res.status(500).json({ error: (e as Error).message });
+  }
+});
+
+/**
+ * POST /api/positions — record a manual or noon-report position
+ * Body: { imo, lat, lng, speedKt?, heading?, course?, timestamp?, source?: 'manual'|'noon_report' }
+ */
+app.post('/api/positions', express.json(), async (req, res) => {
+  try {
+    const body = req.body as any;
+    if (!body?.imo) return res.status(400).json({ error: 'imo is required' });
+    const row = await recordReportedPosition(body);
+    res.status(201).json(row);
+  } catch (e) {
+    res.status(400).json({ error: (e as Error).message });
+  }
+});
+
+/** GET /api/ais/gaps/:imo?days=7 — AIS transmission gaps for a vessel, newest first */
+app.get('/api/ais/gaps/:imo', async (req, res) => {
+  try {
+    const days = Math.min(Math.max(parseInt(String((req.query as any).days ?? '7'), 10) || 7, 1), 90);
+    const gaps = await getVesselGaps(req.params.imo, days);
+    if (!gaps) return res.status(404).json({ error: `Vessel IMO ${req.params.imo} not found` });
+    res.json({ imo: req.params.imo, days, count: gaps.length, gaps });
+  } catch (e) {
+    res.status(500).json({ error: (e as Error).message });
+  }
+});
+
+/** GET /api/ais/port-events — automatic arrival / departure transitions */
+app.get('/api/ais/port-events', (req, res) => {
+  const limit = Math.min(parseInt(String((req.query as any).limit ?? '50'), 10) || 50, 100);
+  res.json(getPortEventStatus(limit));
+});
+
+/** POST /api/ais/port-events/run — process port calls and ETAs against AIS now */
+app.post('/api/ais/port-events/run', async (_req, res) => {
+  try {
+    res.json(await runPortEvents());
+  } catch (e) {
+    res.status(409).json({ error: (e as Error).message });
+  }
+});
+
+/** GET /api/port-visits/vessel/:imo?days=180&limit=10 — port calls reconstructed from AIS */
+app.get('/api/port-visits/vessel/:imo', async (req, res) => {
+  try {
+    const q     = req.query as any;
+    const days  = Math.min(Math.max(parseInt(String(q.days ?? '180'), 10) || 180, 1), 365);
+    const limit = Math.min(Math.max(parseInt(String(q.limit ?? '10'), 10) || 10, 1), 100);
+    const visits = await getVesselPortVisits(req.params.imo, { days, limit });
+    if (!visits) return res.status(404).json({ error: `Vessel IMO ${req.params.imo} not found` });
+    res.json({ imo: req.params.imo, days, count: visits.length, visits });
+  } catch (e) {
+    res.status(500).json({ error: (e as Error).message });
+  }
+});
+
+/** GET /api/port-visits/port/:portCode?days=30&limit=20 — a port's recent visitors */
+app.get('/api/port-visits/port/:portCode', async (req, res) => {
+  try {
+    const q     = req.query as any;
+    const days  = Math.min(Math.max(parseInt(String(q.days ?? '30'), 10) || 30, 1), 180);
+    const limit = Math.min(Math.max(parseInt(String(q.limit ?? '20'), 10) || 20, 1), 200);
+    const visits = await getPortVisits(req.params.portCode, { days, limit });
+    if (!visits) return res.status(404).json({ error: `Port ${req.params.portCode} not found` });
+    res.json({ portCode: req.params.portCode.toUpperCase(), days, count: visits.length, visits });
+  } catch (e) {
+    res.status(500).json({ error: (e as Error).message });
+  }
+});
+
+// ── Vessel Encounters (STS / rendezvous) ─────────────────────────────────────
+
+/**
+ * GET /api/encounters?imo=&kind=sts|rendezvous&days=30&limit=50
+ *                    &minLat=&maxLat=&minLng=&maxLng=
+ */
+app.get('/api/encounters', (req, res) => {
+  const q    = req.query as any;
+  const days = Math.min(Math.max(parseInt(String(q.days ?? '30'), 10) || 30, 1), 180);
+  const box  = ['minLat', 'maxLat', 'minLng', 'maxLng'].map(k => parseFloat(q[k]));
+  if (box.some(n => !isNaN(n)) && box.some(n => isNaN(n))) {
+    return res.status(400).json({ error: 'minLat, maxLat, minLng and maxLng must be given together' });
+  }
+  if (q.kind && q.kind !== 'sts' && q.kind !== 'rendezvous') {
+    return res.status(400).json({ error: 'kind must be sts or rendezvous' });
+  }
+  const encounters = listEncounters({
+    imo:   q.imo ? String(q.imo) : undefined,
+    kind:  q.kind,
+    since: new Date(clockNow() - days * 86_400_000),
+    bbox:  box.every(n => !isNaN(n)) ? { minLat: box[0], maxLat: box[1], minLng: box[2], maxLng: box[3] } : undefined,
+    limit: Math.min(Math.max(parseInt(String(q.limit ?? '50'), 10) || 50, 1), 500),
+  });
+  res.json({ count: encounters.length, encounters });
+});
+
+/** GET /api/encounters/:id — single encounter event */
+app.get('/api/encounters/:id', (req, res) => {
+  const e = getEncounter(req.params.id);
+  if (!e) return res.status(404).json({ error: `Encounter ${req.params.id} not found` });
+  res.json(e);
+});
+
+/** POST /api/encounters/run — scan recent positions for encounters now */
+app.post('/api/encounters/run', async (_req, res) => {
+  try {
+    res.json(await runEncounterDetection());
+  } catch (e) {
+    res.status(409).json({ error: (e as Error).message });
+  }
+});
+
+// ── Sea Routing ───────────────────────────────────────────────────────────────
+
+/** Route plus the canal dues for the vessel, when one is given. */
+async function routeWithDues(from: string, to: string, opts: Parameters<typeof findPortRoute>[2], vessel: CanalVessel | null) {
+  const result = await findPortRoute(from, to, opts);
+  if (!vessel) return result;
+  return { ...result, canalDues: canalDuesFor(result.route.passages.map(p => p.id), vessel) };
+}
+
+/**
+ * GET /api/route?from=NLRTM&to=CNSHA&avoid=suez,panama&avoidAreas=gulf_of_aden
+ * — shortest route over the sea-lane network.
+ * With imo= (registered vessel) or gt=&type=, and laden=0 for ballast, adds the canal dues.
+ */
+app.get('/api/route', async (req, res) => {
+  const q    = req.query as any;
+  const list = (v: unknown) => (v ? String(v).split(',').map(s => s.trim()).filter(Boolean) : []);
+  if (!q.from || !q.to) return res.status(400).json({ error: 'from and to are required' });
+  try {
+    const vessel = q.imo || q.gt ? resolveCanalVessel({
+      imo:   q.imo ? String(q.imo) : undefined,
+      gt:    q.gt ? parseFloat(String(q.gt)) : undefined,
+      type:  q.type ? String(q.type).toUpperCase() as CanalVessel['type'] : undefined,
+      laden: q.laden == null ? true : !(q.laden === '0' || q.laden === 'false'),
+    }) : null;
+    res.json(await routeWithDues(String(q.from), String(q.to), {
+      avoidPassages: list(q.avoid) as PassageId[],
+      avoidAreas:    list(q.avoidAreas),
+    }, vessel));
+  } catch (e) {
+    const msg = (e as Error).message;
+    res.status(/not found/.test(msg) ? 404 : 400).json({ error: msg });
+  }
+});
+
+/**
+ * POST /api/route — same, with custom avoid polygons:
+ * { from, to, avoidPassages, avoidAreas: [{ name, polygon }], vessel?: { imo?, gt?, type?, laden?, scnt?, pcums? } }
+ */
+app.post('/api/route', express.json(), async (req, res) => {
+  const { from, to, avoidPassages, avoidAreas, vessel } = req.body ?? {};
+  if (!from || !to) return res.status(400).json({ error: 'from and to are required' });
+  try {
+    res.json(await routeWithDues(String(from), String(to), { avoidPassages, avoidAreas },
+      vessel ? resolveCanalVessel(vessel) : null));
+  } catch (e) {
+    const msg = (e as Error).message;
+    res.status(/not found/.test(msg) ? 404 : 400).json({ error: msg });
+  }
+});
+
+/**
+ * POST /api/voyage-plan — multi-leg plan with per-leg ETAs
+ * Body: { ports: [...], departure, speedKnots?: [..], portStayHours?: [..],
+ *         avoidPassages?, avoidAreas?,
+ *         pushEtas?: true, voyageId, vesselName, vesselIMO? }
+ */
+app.post('/api/voyage-plan', express.json(), async (req, res) => {
+  const body = req.body ?? {};
+  if (!Array.isArray(body.ports) || !body.departure) {
+    return res.status(400).json({ error: 'ports (array) and departure are required' });
+  }
+  try {
+    res.json(body.pushEtas ? await applyVoyagePlan(body) : { plan: await planVoyage(body), etas: [], removed: [] });
+  } catch (e) {
+    const msg = (e as Error).message;
+    res.status(/not found/.test(msg) ? 404 : 400).json({ error: msg });
+  }
+});
+
+/** GET /api/route/options — passages and named areas that can be avoided */
+app.get('/api/route/options', (_req, res) => {
+  res.json(listRoutingOptions());
+});
+
+// ── Emission Control Areas ────────────────────────────────────────────────────
+
+/** GET /api/eca — bundled ECAs; ?polygons=1 includes the boundaries */
+app.get('/api/eca', (req, res) => {
+  res.json(req.query.polygons ? ECA_AREAS : listEcas());
+});
+
+/** GET /api/eca/reminders?imo=&all=1&limit=50 — fuel changeover reminders, newest first */
+app.get('/api/eca/reminders', (req, res) => {
+  const q = req.query as any;
+  const reminders = listEcaReminders({
+    imo:                 q.imo ? String(q.imo) : undefined,
+    includeAcknowledged: q.all === '1' || q.all === 'true',
+    limit:               Math.min(Math.max(parseInt(String(q.limit ?? '50'), 10) || 50, 1), 500),
+  });
+  res.json({ count: reminders.length, reminders });
+});
+
+/** POST /api/eca/reminders/run — check tracked vessels against ECA boundaries now */
+app.post('/api/eca/reminders/run', async (_req, res) => {
+  try {
+    res.json(await runEcaWatch());
+  } catch (e) {
+    res.status(409).json({ error: (e as Error).message });
+  }
+});
+
+/** POST /api/eca/reminders/:id/ack — acknowledge a reminder */
+app.post('/api/eca/reminders/:id/ack', (req, res) => {
+  const r = acknowledgeEcaReminder(req.params.id);
+  if (!r) return res.status(404).json({ error: `Reminder ${req.params.id} not found` });
+  res.json(r);
+});
+
+// ── Risk Zones ────────────────────────────────────────────────────────────────
+
+/** GET /api/risk-zones?active=1 — piracy, war-risk and sanctioned zones */
+app.get('/api/risk-zones', (req, res) => {
+  const zones = listRiskZones(req.query.active === '1' || req.query.active === 'true');
+  res.json({ count: zones.length, zones });
+});
+
+/** GET /api/risk-zones/check?lat=&lng= — active zones containing a point */
+app.get('/api/risk-zones/check', (req, res) => {
+  const lat = parseFloat(String(req.query.lat)), lng = parseFloat(String(req.query.lng));
+  if (isNaN(lat) || isNaN(lng)) return res.status(400).json({ error: 'lat and lng are required' });
+  res.json({ lat, lng, zones: riskZonesAt(lat, lng) });
+});
+
+/** GET /api/risk-zones/entries?imo=&zoneId=&all=1&limit=50 — tracked vessels entering zones, newest first */
+app.get('/api/risk-zones/entries', (req, res) => {
+  const q = req.query as any;
+  const entries = listRiskZoneEntries({
+    imo:                 q.imo ? String(q.imo) : undefined,
+    zoneId:              q.zoneId ? String(q.zoneId) : undefined,
+    includeAcknowledged: q.all === '1' || q.all === 'true',
+    limit:               Math.min(Math.max(parseInt(String(q.limit ?? '50'), 10) || 50, 1), 500),
+  });
+  res.json({ count: entries.length, entries });
+});
+
+/** POST /api/risk-zones/entries/run — check tracked vessels against the zones now */
+app.post('/api/risk-zones/entries/run', async (_req, res) => {
+  try {
+    res.json(await runRiskZoneWatch());
+  } catch (e) {
+    res.status(409).json({ error: (e as Error).message });
+  }
+});
+
+/** POST /api/risk-zones/entries/:id/ack — acknowledge a zone entry */
+app.post('/api/risk-zones/entries/:id/ack', (req, res) => {
+  const e = acknowledgeRiskZoneEntry(req.params.id);
+  if (!e) return res.status(404).json({ error: `Zone entry ${req.params.id} not found` });
+  res.json(e);
+});
+
+/** GET /api/risk-zones/:id — one zone with its polygon */
+app.get('/api/risk-zones/:id', (req, res) => {
+  const z = getRiskZone(req.params.id);
+  if (!z) return res.status(404).json({ error: `Risk zone ${req.params.id} not found` });
+  res.json(z);
+});
+
+/**
+ * PUT /api/risk-zones — replace every zone (e.g. an imported file)
+ * Body: { zones: [{ id, name, category, severity?, polygon, notes?, active? }], updatedBy? }
+ */
+app.put('/api/risk-zones', express.json(), (req, res) => {
+  try {
+    const zones = replaceRiskZones(req.body?.zones, req.body?.updatedBy);
+    res.json({ count: zones.length, zones });
+  } catch (e) {
+    res.status(400).json({ error: (e as Error).message });
+  }
+});
+
+/**
+ * PUT /api/risk-zones/:id — create or replace one zone
+ * Body: { name, category: 'piracy_hra'|'war_risk'|'sanctioned', severity?: 'low'|'medium'|'high',
+ *         polygon: [{lat,lng}, ...], notes?, active?, updatedBy? }
+ */
+app.put('/api/risk-zones/:id', express.json(), (req, res) => {
+  try {
+    res.json(setRiskZone(req.params.id, req.body ?? {}));
+  } catch (e) {
+    res.status(400).json({ error: (e as Error).message });
+  }
+});
+
+/** DELETE /api/risk-zones/:id */
+app.delete('/api/risk-zones/:id', (req, res) => {
+  if (!deleteRiskZone(req.params.id)) return res.status(404).json({ error: `Risk zone ${req.params.id} not found` });
+  res.json({ ok: true, id: req.params.id });
+});
+
+// ── Canal Dues ────────────────────────────────────────────────────────────────
+
+/** GET /api/canal-tariffs — Suez, Panama and Kiel tariff tables in force */
+app.get('/api/canal-tariffs', (_req, res) => {
+  res.json(getCanalTariffs());
+});
+
+/** GET /api/canal-tariffs/:passage */
+app.get('/api/canal-tariffs/:passage', (req, res) => {
+  const t = getCanalTariff(req.params.passage);
+  if (!t) return res.status(404).json({ error: `No tariff for ${req.params.passage}` });
+  res.json(t);
+});
+
+/**
+ * PUT /api/canal-tariffs/:passage — edit a canal's tariff
+ * Body: { basis?: 'SCNT'|'PCUMS'|'GT', bands?: [{ upTo, laden, ballast }], tonnageFactor?: { BULKER: 1.08, ... },
+ *         typeMultiplier?: { TANKER: 1.1, ... }, fixedUsd?, maxLoaMetres?, notes?, updatedBy? }
+ */
+app.put('/api/canal-tariffs/:passage', express.json(), (req, res) => {
+  try {
+    res.json(setCanalTariff(req.params.passage, req.body ?? {}));
+  } catch (e) {
+    res.status(400).json({ error: (e as Error).message });
+  }
+});
+
+/** DELETE /api/canal-tariffs/:passage — back to the bundled tariff */
+app.delete('/api/canal-tariffs/:passage', (req, res) => {
+  try {
+    res.json(resetCanalTariff(req.params.passage));
+  } catch (e) {
+    res.status(400).json({ error: (e as Error).message });
+  }
+});
+
+/**
+ * POST /api/canal-dues — dues for one transit, or several
+ * Body: { passage | passages: [...], imo?, gt?, type?, laden? (default true), scnt?, pcums?, loaMetres? }
+ */
+app.post('/api/canal-dues', express.json(), (req, res) => {
+  const { passage, passages, ...particulars } = req.body ?? {};
+  if (!passage && !Array.isArray(passages)) return res.status(400).json({ error: 'passage or passages is required' });
+  try {
+    const vessel = resolveCanalVessel(particulars);
+    res.json(passage ? calculateCanalDues(String(passage), vessel) : canalDuesFor(passages, vessel));
+  } catch (e) {
+    const msg = (e as Error).message;
+    res.status(/not found/.test(msg) ? 404 : 400).json({ error: msg });
+  }
+});
+
+// ── Voyage Estimates ──────────────────────────────────────────────────────────
+
+const estimateError = (res: express.Response, e: unknown) => {
+  const msg = (e as Error).message;
+  res.status(/not found/.test(msg) ? 404 : 400).json({ error: msg });
+};
+
+/** POST /api/estimates/calculate — estimate without saving. Body: EstimateInput */
+app.post('/api/estimates/calculate', express.json(), async (req, res) => {
+  try {
+    res.json(await calculateEstimate(req.body));
+  } catch (e) {
+    estimateError(res, e);
+  }
+});
+
+/** GET /api/estimates?vessel= — saved estimates, latest version of each */
+app.get('/api/estimates', (req, res) => {
+  const vessel = (req.query as any).vessel;
+  res.json({ estimates: listEstimates(vessel ? String(vessel) : undefined) });
+});
+
+/** POST /api/estimates — save a new estimate. Body: { input, createdBy?, note? } */
+app.post('/api/estimates', express.json(), async (req, res) => {
+  const { input, createdBy, note } = req.body ?? {};
+  if (!input) return res.status(400).json({ error: 'input is required' });
+  try {
+    res.status(201).json(await createEstimate(input, { createdBy, note }));
+  } catch (e) {
+    estimateError(res, e);
+  }
+});
+
+/**
+ * GET /api/estimates/compare?ids=a,b,c&versions=1,,2
+ * — side by side; an empty version means latest
+ */
+app.get('/api/estimates/compare', (req, res) => {
+  const q        = req.query as any;
+  const ids      = String(q.ids ?? '').split(',').map(s => s.trim()).filter(Boolean);
+  const versions = String(q.versions ?? '').split(',');
+  try {
+    res.json(compareEstimates(ids.map((estimateId, i) => ({
+      estimateId,
+      version: versions[i]?.trim() ? parseInt(versions[i], 10) : undefined,
+    }))));
+  } catch (e) {
+    estimateError(res, e);
+  }
+});
+
+/** GET /api/estimates/:id — estimate with all versions */
+app.get('/api/estimates/:id', (req, res) => {
+  const e = getEstimate(req.params.id);
+  if (!e) return res.status(404).json({ error: `Estimate ${req.params.id} not found` });
+  res.json(e);
+});
+
+/** GET /api/estimates/:id/versions/:version — one version */
+app.get('/api/estimates/:id/versions/:version', (req, res) => {
+  const v = getEstimateVersion(req.params.id, parseInt(req.params.version, 10));
+  if (!v) return res.status(404).json({ error: `Estimate ${req.params.id} version ${req.params.version} not found` });
+  res.json(v);
+});
+
+/** POST /api/estimates/:id/versions — new version. Body: { changes, createdBy?, note? } */
+app.post('/api/estimates/:id/versions', express.json(), async (req, res) => {
+  const { changes, createdBy, note } = req.body ?? {};
+  if (!changes) return res.status(400).json({ error: 'changes is required' });
+  try {
+    res.status(201).json(await reviseEstimate(req.params.id, changes, { createdBy, note }));
+  } catch (e) {
+    estimateError(res, e);
+  }
+});
+
+/** DELETE /api/estimates/:id */
+app.delete('/api/estimates/:id', (req, res) => {
+  if (!deleteEstimate(req.params.id)) return res.status(404).json({ error: `Estimate ${req.params.id} not found` });
+  res.json({ deleted: true });
+});
+
+// ── Position Retention ────────────────────────────────────────────────────────
+
+/** GET /api/retention — retention settings + recent run reports */
+app.get('/api/retention', (req, res) => {
+  const limit = Math.min(parseInt(String((req.query as any).limit ?? '10'), 10) || 10, 50);
+  res.json({ config: getRetentionConfig(), reports: listRetentionReports(limit) });
+});
+
+/**
+ * PUT /api/retention
+ * Body: { fullResolutionDays?, downsampleMinutes?, courseChangeDeg?, maxAgeDays?, archive?,
+ *         rescanDays?, excludeSources?, updatedBy? }
+ */
+app.put('/api/retention', express.json(), (req, res) => {
+  try {
+    res.json(setRetentionConfig(req.body ?? {}));
+  } catch (e) {
+    res.status(400).json({ error: (e as Error).message });
+  }
+});
+
+/** POST /api/retention/run?dryRun=true — run a retention pass now */
+app.post('/api/retention/run', async (req, res) => {
+  try {
+    const dryRun = String((req.query as any).dryRun ?? 'false') === 'true';
+    res.json(await runRetention({ dryRun }));
+  } catch (e) {
+    res.status(409).json({ error: (e as Error).message });
+  }
+});
+
+// ── AIS Replay / Clock ────────────────────────────────────────────────────────
+
+/** GET /api/replay — progress of the current (or last) replay + clock */
+app.get('/api/replay', (_req, res) => {
+  res.json(getReplayStatus());
+});
+
+/**
+ * POST /api/replay
+ * Body: { file, speed?, source?, fresh? } — file relative to AIS_REPLAY_DIR;
+ * speed 0 replays as fast as possible on a stepped clock.
+ */
+app.post('/api/replay', express.json(), async (req, res) => {
+  try {
+    const { file, speed, source, fresh } = req.body ?? {};
+    if (!file) return res.status(400).json({ error: 'file required' });
+    res.status(202).json(await startReplay({ file, speed, source, fresh }));
+  } catch (e) {
+    res.status(400).json({ error: (e as Error).message });
+  }
+});
+
+/** POST /api/replay/stop — stop after the current record */
+app.post('/api/replay/stop', (_req, res) => {
+  res.json({ ...getReplayStatus(), stopRequested: stopReplay() });
+});
+
+/** DELETE /api/replay/data?source=ais_replay — purge replayed fixes */
+app.delete('/api/replay/data', async (req, res) => {
+  try {
+    const source = String((req.query as any).source ?? 'ais_replay');
+    res.json({ source, deleted: await purgeReplayData(source) });
+  } catch (e) {
+    res.status(400).json({ error: (e as Error).message });
+  }
+});
+
+/** GET /api/clock — wall or virtual clock */
+app.get('/api/clock', (_req, res) => {
+  res.json(getClockStatus());
+});
+
+/**
+ * PUT /api/clock
+ * Body: { at, speed?, source? } — run the virtual clock from `at` (speed 0 = frozen);
+ * source scopes position reads to that source's fixes (e.g. a past replay's)
+ */
+app.put('/api/clock', express.json(), (req, res) => {
+  try {
+    const { at, speed, source } = req.body ?? {};
+    if (!at) return res.status(400).json({ error: 'at required' });
+    if (getReplayStatus().running) return res.status(409).json({ error: 'A replay is driving the clock' });
+    const status = setVirtualClock(new Date(at), speed ?? 1, source ?? null);
+    invalidateCongestionCache();
+    invalidateDwellCache();
+    res.json(status);
+  } catch (e) {
+    res.status(400).json({ error: (e as Error).message });
+  }
+});
+
+/** DELETE /api/clock — back to wall-clock time */
+app.delete('/api/clock', (_req, res) => {
+  if (getReplayStatus().running) return res.status(409).json({ error: 'Stop the replay first' });
+  resetClock();
+  invalidateCongestionCache();
+  invalidateDwellCache();
+  res.json(getClockStatus());
+});
+
+startFeedsFromEnv();
+
 // Start server
 const httpServer = app.listen(PORT, () => {
   console.log(`🚢 Mari8X Community Edition`);
@@ -1014,6 +2094,8 @@ const httpServer = app.listen(PORT, () => {
   console.log(`⏳ D&D Tracker: http://localhost:${PORT}/api/dd`);
   console.log(`🚢 Port Calls:  http://localhost:${PORT}/api/portcall`);
   console.log(`🛳️  Vessel Reg:  http://localhost:${PORT}/api/vessels`);
+  console.log(`📻 AIS Ingest:  http://localhost:${PORT}/api/ais/status`);
+  console.log(`⏪ AIS Replay:  http://localhost:${PORT}/api/replay`);
   console.log(`❤️  Health:      http://localhost:${PORT}/health`);
   // Warm congestion cache on startup
   setTimeout(() => getTopCongestedPorts(20).catch(() => {}), 3000);
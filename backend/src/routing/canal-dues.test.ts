@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('fs', () => import('../test/mem-fs.js'));
+
+import { files } from '../test/mem-fs.js';
+import { registerVessel } from '../agent/vessel-registry.js';
+import {
+  calculateCanalDues, canalDuesFor, setCanalTariff, resetCanalTariff, getCanalTariff, resolveCanalVessel,
+} from './canal-dues.js';
+
+beforeEach(() => {
+  files.clear();
+  for (const canal of ['suez', 'panama', 'kiel']) resetCanalTariff(canal);   // drop cached edits
+});
+
+describe('calculateCanalDues', () => {
+  it('charges the bands marginally on the given tonnage', () => {
+    const d = calculateCanalDues('kiel', { gt: 3_000, type: 'OTHER', laden: false });
+    expect(d.bands.map(b => [b.from, b.to, b.costUsd])).toEqual([[0, 1_000, 1_200], [1_000, 3_000, 1_500]]);
+    expect(d).toMatchObject({ tonnage: 3_000, tonnageSource: 'given', tonnageChargeUsd: 2_700, fixedUsd: 2_500, totalUsd: 5_200 });
+  });
+
+  it('approximates the canal tonnage from GT and applies the type multiplier', () => {
+    const d = calculateCanalDues('suez', { gt: 10_000, type: 'TANKER', laden: true });
+    expect(d).toMatchObject({ tonnage: 11_000, tonnageSource: 'approximated', typeMultiplier: 1.1, tonnageChargeUsd: 107_580, totalUsd: 122_580 });
+    expect(d.notes[0]).toBe('SCNT approximated as GT 10000 × 1.1 (TANKER)');
+
+    expect(calculateCanalDues('suez', { gt: 10_000, type: 'TANKER', laden: true, scnt: 8_000 }))
+      .toMatchObject({ tonnage: 8_000, tonnageSource: 'given', totalUsd: 98_490 });
+  });
+
+  it('notes a vessel too long for the locks', () => {
+    const d = calculateCanalDues('panama', { gt: 50_000, type: 'BULKER', laden: true, pcums: 40_000, loaMetres: 400 });
+    expect(d.notes).toContain('LOA 400m exceeds the Panama Canal limit of 366m');
+  });
+
+  it('rejects straits, unknown passages and a missing GT', () => {
+    expect(() => calculateCanalDues('malacca', { gt: 1_000, type: 'OTHER', laden: true })).toThrow('not a canal');
+    expect(() => calculateCanalDues('bosphorus', { gt: 1_000, type: 'OTHER', laden: true })).toThrow('Unknown passage');
+    expect(() => calculateCanalDues('kiel', { gt: 0, type: 'OTHER', laden: true })).toThrow('gt must be positive');
+  });
+});
+
+describe('canalDuesFor', () => {
+  it('prices only the canals on a route', () => {
+    const { transits, totalUsd } = canalDuesFor(['malacca', 'suez', 'kiel'], { gt: 3_000, type: 'OTHER', laden: false });
+    expect(transits.map(t => t.passage)).toEqual(['suez', 'kiel']);
+    expect(totalUsd).toBe(transits[0].totalUsd + transits[1].totalUsd);
+  });
+});
+
+describe('setCanalTariff', () => {
+  it('stores an edit until the canal is reset', () => {
+    setCanalTariff('kiel', { fixedUsd: 0, updatedBy: 'ops' });
+    expect(calculateCanalDues('kiel', { gt: 3_000, type: 'OTHER', laden: false }).totalUsd).toBe(2_700);
+    expect(getCanalTariff('kiel')).toMatchObject({ updatedBy: 'ops', bands: expect.any(Array) });
+
+    expect(resetCanalTariff('kiel')).toMatchObject({ fixedUsd: 2_500, updatedBy: 'system' });
+  });
+
+  it('rejects malformed tables', () => {
+    expect(() => setCanalTariff('kiel', { bands: [] })).toThrow('at least one band');
+    expect(() => setCanalTariff('kiel', { bands: [{ upTo: 5_000, laden: 1, ballast: 1 }, { upTo: 1_000, laden: 1, ballast: 1 }] }))
+      .toThrow('upper bounds must increase');
+    expect(() => setCanalTariff('kiel', { bands: [{ upTo: null, laden: -1, ballast: 1 }] })).toThrow('non-negative');
+    expect(() => setCanalTariff('kiel', { typeMultiplier: { TANKER: 0 } })).toThrow('factor for TANKER');
+    expect(() => setCanalTariff('malacca', { fixedUsd: 1 })).toThrow('not a canal');
+  });
+});
+
+describe('resolveCanalVessel', () => {
+  it('fills GT, type and LOA from the registry', () => {
+    registerVessel({ imo: '9000001', name: 'MV TEST', type: 'BULKER', gt: 40_000, loaMetres: 229 });
+    expect(resolveCanalVessel({ imo: '9000001', laden: false }))
+      .toMatchObject({ gt: 40_000, type: 'BULKER', laden: false, loaMetres: 229 });
+    expect(resolveCanalVessel({ imo: '9000001', gt: 41_000 })).toMatchObject({ gt: 41_000, laden: true });
+  });
+
+  it('needs a GT from the caller or the registry', () => {
+    expect(() => resolveCanalVessel({ imo: '9999999' })).toThrow('not found in the registry');
+    expect(() => resolveCanalVessel({})).toThrow('gt or a registered imo is required');
+  });
+});
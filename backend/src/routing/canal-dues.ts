@@ -0,0 +1,313 @@
+/**
+ * Mari8X Canal Dues
+ *
+ * Transit dues for the canals on the sea-lane network (Suez, Panama, Kiel),
+ * worked out from editable tariff tables:
+ *
+ *   tonnage  the canal's charging tonnage — Suez SCNT, Panama PC/UMS or
+ *            plain GT. Given directly when known, otherwise approximated as
+ *            GT × the tariff's factor for the vessel type
+ *   bands    marginal USD rates per ton, laden and ballast, applied band by
+ *            band (first 5,000 t at one rate, the next 5,000 at another, …)
+ *   type     a per-vessel-type multiplier on the tonnage charge (tankers and
+ *            gas carriers pay more at Suez, for instance)
+ *   fixed    a per-transit lump for pilotage, tugs, mooring and the like
+ *
+ * Vessel particulars come from the vessel registry (agent/vessel-registry.ts)
+ * when an IMO is given. The bundled tables are indicative, converted to USD
+ * at the time of writing; edits are stored per canal and replace the bundled
+ * table for that canal until reset.
+ *
+ * Config: /root/.ankr/config/mari8x-canal-tariffs.json
+ *
+ * © 2026 ANKR Labs — Mari8X Community Edition
+ */
+
+import * as fs   from 'fs';
+import * as path from 'path';
+import { PASSAGES, type PassageId } from './network.js';
+import { getVessel, type VesselType } from '../agent/vessel-registry.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type CanalBasis = 'SCNT' | 'PCUMS' | 'GT';
+
+export interface TariffBand {
+  upTo:    number | null;   // upper bound of the band in basis tons; null = no limit
+  laden:   number;          // USD per ton within the band
+  ballast: number;
+}
+
+export interface CanalTariff {
+  passage:        PassageId;
+  name:           string;
+  basis:          CanalBasis;
+  tonnageFactor:  Partial<Record<VesselType, number>>;   // basis ≈ GT × factor; OTHER is the fallback
+  bands:          TariffBand[];
+  typeMultiplier: Partial<Record<VesselType, number>>;   // on the tonnage charge, default 1
+  fixedUsd:       number;                                // per transit
+  maxLoaMetres:   number | null;                         // largest vessel the locks take
+  notes:          string | null;
+  updatedBy:      string;
+  updatedAt:      string;
+}
+
+export type CanalTariffInput = Partial<Omit<CanalTariff, 'passage' | 'updatedAt'>>;
+
+export interface CanalVessel {
+  gt:          number;
+  type:        VesselType;
+  laden:       boolean;
+  scnt?:       number;       // Suez Canal Net Tonnage, when known
+  pcums?:      number;       // Panama Canal Universal Measurement System net tonnage, when known
+  loaMetres?:  number;
+}
+
+export interface CanalDues {
+  passage:          PassageId;
+  name:             string;
+  basis:            CanalBasis;
+  tonnage:          number;
+  tonnageSource:    'given' | 'approximated';
+  laden:            boolean;
+  bands:            Array<{ from: number; to: number; tons: number; rateUsd: number; costUsd: number }>;
+  typeMultiplier:   number;
+  tonnageChargeUsd: number;
+  fixedUsd:         number;
+  totalUsd:         number;
+  tariffUpdatedAt:  string;
+  notes:            string[];
+}
+
+// ── Bundled tariffs ───────────────────────────────────────────────────────────
+
+const BUNDLED: Array<Omit<CanalTariff, 'updatedBy' | 'updatedAt'>> = [
+  {
+    passage:        'suez',
+    name:           'Suez Canal',
+    basis:          'SCNT',
+    tonnageFactor:  { BULKER: 1.08, TANKER: 1.10, CONTAINER: 1.00, GAS_CARRIER: 1.05, RO_RO: 0.90, GENERAL_CARGO: 1.05, PASSENGER: 0.95, OTHER: 1.05 },
+    bands: [
+      { upTo:   5_000, laden: 10.50, ballast:  8.90 },
+      { upTo:  10_000, laden:  7.80, ballast:  6.60 },
+      { upTo:  20_000, laden:  6.30, ballast:  5.35 },
+      { upTo:  40_000, laden:  3.80, ballast:  3.25 },
+      { upTo:  70_000, laden:  3.60, ballast:  3.05 },
+      { upTo:    null, laden:  3.30, ballast:  2.80 },
+    ],
+    typeMultiplier: { TANKER: 1.10, GAS_CARRIER: 1.20, CONTAINER: 1.00, PASSENGER: 0.90 },
+    fixedUsd:       15_000,
+    maxLoaMetres:   null,
+    notes:          'SDR schedule converted to USD; excludes rebates and surcharges in force at the time of transit',
+  },
+  {
+    passage:        'panama',
+    name:           'Panama Canal',
+    basis:          'PCUMS',
+    tonnageFactor:  { BULKER: 0.80, TANKER: 0.82, CONTAINER: 0.90, GAS_CARRIER: 0.85, RO_RO: 0.95, GENERAL_CARGO: 0.80, PASSENGER: 0.95, OTHER: 0.85 },
+    bands: [
+      { upTo: 10_000, laden: 5.25, ballast: 4.17 },
+      { upTo: 25_000, laden: 5.14, ballast: 4.09 },
+      { upTo:   null, laden: 5.06, ballast: 4.03 },
+    ],
+    typeMultiplier: { CONTAINER: 1.15, GAS_CARRIER: 1.10, PASSENGER: 1.05 },
+    fixedUsd:       25_000,
+    maxLoaMetres:   366,
+    notes:          'Neopanamax locks; container and LNG tolls are really per TEU / m³ and are approximated here',
+  },
+  {
+    passage:        'kiel',
+    name:           'Kiel Canal',
+    basis:          'GT',
+    tonnageFactor:  { OTHER: 1 },
+    bands: [
+      { upTo:  1_000, laden: 1.20, ballast: 1.20 },
+      { upTo:  5_000, laden: 0.75, ballast: 0.75 },
+      { upTo: 20_000, laden: 0.55, ballast: 0.55 },
+      { upTo:   null, laden: 0.45, ballast: 0.45 },
+    ],
+    typeMultiplier: {},
+    fixedUsd:       2_500,
+    maxLoaMetres:   235,
+    notes:          'EUR schedule converted to USD; fixed part covers pilots and canal helmsmen',
+  },
+];
+
+export const CANAL_BASES: CanalBasis[] = ['SCNT', 'PCUMS', 'GT'];
+
+const VESSEL_TYPES: VesselType[] = [
+  'BULKER', 'TANKER', 'CONTAINER', 'RO_RO', 'GAS_CARRIER', 'GENERAL_CARGO', 'PASSENGER', 'TUG', 'OTHER',
+];
+
+// ── Config ────────────────────────────────────────────────────────────────────
+
+const TARIFF_FILE = '/root/.ankr/config/mari8x-canal-tariffs.json';
+
+let cached: Partial<Record<PassageId, CanalTariff>> | null = null;
+
+const round0 = (n: number) => Math.round(n);
+
+function bundled(): Partial<Record<PassageId, CanalTariff>> {
+  const stamp = new Date(0).toISOString();
+  return Object.fromEntries(BUNDLED.map(t => [t.passage, { ...t, updatedBy: 'system', updatedAt: stamp }]));
+}
+
+function loadEdits(): Partial<Record<PassageId, CanalTariff>> {
+  if (cached) return cached;
+  try {
+    cached = fs.existsSync(TARIFF_FILE) ? JSON.parse(fs.readFileSync(TARIFF_FILE, 'utf-8')) : {};
+  } catch (e) {
+    console.error(`[canal-dues] Failed to load ${TARIFF_FILE}:`, (e as Error).message);
+    cached = {};
+  }
+  return cached!;
+}
+
+function saveEdits(edits: Partial<Record<PassageId, CanalTariff>>) {
+  fs.mkdirSync(path.dirname(TARIFF_FILE), { recursive: true });
+  fs.writeFileSync(TARIFF_FILE, JSON.stringify(edits, null, 2));
+  cached = edits;
+}
+
+function checkCanal(passage: string): PassageId {
+  const p = PASSAGES[passage as PassageId];
+  if (!p)       throw new Error(`Unknown passage: ${passage}`);
+  if (!p.canal) throw new Error(`${p.name} is not a canal`);
+  return passage as PassageId;
+}
+
+// ── Tariffs ───────────────────────────────────────────────────────────────────
+
+/** Tariffs in force — edited tables over the bundled ones — ordered by passage. */
+export function getCanalTariffs(): CanalTariff[] {
+  const all = { ...bundled(), ...loadEdits() };
+  return Object.values(all)
+    .filter((t): t is CanalTariff => t != null)
+    .sort((a, b) => a.passage.localeCompare(b.passage));
+}
+
+export function getCanalTariff(passage: string): CanalTariff | null {
+  return getCanalTariffs().find(t => t.passage === passage) ?? null;
+}
+
+/**
+ * Edit one canal's tariff. Fields not given keep their current value;
+ * `bands`, `tonnageFactor` and `typeMultiplier` replace the whole table.
+ */
+export function setCanalTariff(passage: string, input: CanalTariffInput): CanalTariff {
+  const id   = checkCanal(passage);
+  const base = getCanalTariff(id);
+  const next: CanalTariff = {
+    passage:        id,
+    name:           input.name           ?? base?.name ?? PASSAGES[id].name,
+    basis:          input.basis          ?? base?.basis ?? 'GT',
+    tonnageFactor:  input.tonnageFactor  ?? base?.tonnageFactor ?? { OTHER: 1 },
+    bands:          input.bands          ?? base?.bands ?? [],
+    typeMultiplier: input.typeMultiplier ?? base?.typeMultiplier ?? {},
+    fixedUsd:       input.fixedUsd       ?? base?.fixedUsd ?? 0,
+    maxLoaMetres:   input.maxLoaMetres !== undefined ? input.maxLoaMetres : (base?.maxLoaMetres ?? null),
+    notes:          input.notes !== undefined ? input.notes : (base?.notes ?? null),
+    updatedBy:      input.updatedBy ?? 'system',
+    updatedAt:      new Date().toISOString(),
+  };
+
+  if (!CANAL_BASES.includes(next.basis)) throw new Error(`basis must be one of ${CANAL_BASES.join(', ')}`);
+  if (next.bands.length === 0)           throw new Error('at least one band is required');
+  next.bands.forEach((b, i) => {
+    const last = i === next.bands.length - 1;
+    if (last ? b.upTo != null : !(b.upTo! > (next.bands[i - 1]?.upTo ?? 0))) {
+      throw new Error('band upper bounds must increase, and only the last band may be open (upTo: null)');
+    }
+    if (!(b.laden >= 0) || !(b.ballast >= 0)) throw new Error(`band ${i + 1}: rates must be non-negative`);
+  });
+  for (const [k, v] of Object.entries({ ...next.tonnageFactor, ...next.typeMultiplier })) {
+    if (!(v! > 0)) throw new Error(`factor for ${k} must be positive`);
+  }
+  if (!(next.fixedUsd >= 0))                                  throw new Error('fixedUsd must be non-negative');
+  if (next.maxLoaMetres != null && !(next.maxLoaMetres > 0)) throw new Error('maxLoaMetres must be positive');
+
+  saveEdits({ ...loadEdits(), [id]: next });
+  return next;
+}
+
+/** Drop the edits for one canal so the bundled table applies again. */
+export function resetCanalTariff(passage: string): CanalTariff | null {
+  const id    = checkCanal(passage);
+  const edits = { ...loadEdits() };
+  delete edits[id];
+  saveEdits(edits);
+  return getCanalTariff(id);
+}
+
+// ── Calculation ───────────────────────────────────────────────────────────────
+
+/** Dues for one transit of a canal. */
+export function calculateCanalDues(passage: string, vessel: CanalVessel): CanalDues {
+  const id = checkCanal(passage);
+  const t  = getCanalTariff(id);
+  if (!t) throw new Error(`No tariff for the ${PASSAGES[id].name}`);
+  if (!(vessel.gt > 0)) throw new Error('vessel gt must be positive');
+
+  const notes: string[] = [];
+  const given = t.basis === 'SCNT' ? vessel.scnt : t.basis === 'PCUMS' ? vessel.pcums : vessel.gt;
+  const factor  = t.tonnageFactor[vessel.type] ?? t.tonnageFactor.OTHER ?? 1;
+  const tonnage = given != null && given > 0 ? given : round0(vessel.gt * factor);
+  if (given == null || !(given > 0)) notes.push(`${t.basis} approximated as GT ${vessel.gt} × ${factor} (${vessel.type})`);
+
+  const bands: CanalDues['bands'] = [];
+  let from = 0;
+  for (const b of t.bands) {
+    if (from >= tonnage) break;
+    const to   = Math.min(tonnage, b.upTo ?? Infinity);
+    const rate = vessel.laden ? b.laden : b.ballast;
+    bands.push({ from, to, tons: to - from, rateUsd: rate, costUsd: round0((to - from) * rate) });
+    from = to;
+  }
+
+  const typeMultiplier   = t.typeMultiplier[vessel.type] ?? 1;
+  const tonnageChargeUsd = round0(bands.reduce((a, b) => a + b.costUsd, 0) * typeMultiplier);
+  if (t.maxLoaMetres != null && vessel.loaMetres != null && vessel.loaMetres > t.maxLoaMetres) {
+    notes.push(`LOA ${vessel.loaMetres}m exceeds the ${t.name} limit of ${t.maxLoaMetres}m`);
+  }
+  if (t.notes) notes.push(t.notes);
+
+  return {
+    passage:          id,
+    name:             t.name,
+    basis:            t.basis,
+    tonnage,
+    tonnageSource:    given != null && given > 0 ? 'given' : 'approximated',
+    laden:            vessel.laden,
+    bands,
+    typeMultiplier,
+    tonnageChargeUsd,
+    fixedUsd:         round0(t.fixedUsd),
+    totalUsd:         tonnageChargeUsd + round0(t.fixedUsd),
+    tariffUpdatedAt:  t.updatedAt,
+    notes,
+  };
+}
+
+/** Dues for every canal among `passages`, in order, with the total. Straits are skipped. */
+export function canalDuesFor(passages: PassageId[], vessel: CanalVessel): { transits: CanalDues[]; totalUsd: number } {
+  for (const p of passages) {
+    if (!PASSAGES[p]) throw new Error(`Unknown passage: ${p}`);
+  }
+  const transits = passages.filter(p => PASSAGES[p].canal).map(p => calculateCanalDues(p, vessel));
+  return { transits, totalUsd: transits.reduce((a, d) => a + d.totalUsd, 0) };
+}
+
+/**
+ * Canal particulars from what the caller gave, with the vessel registry
+ * filling in GT and type for an IMO. Throws when no GT can be found.
+ */
+export function resolveCanalVessel(q: Partial<CanalVessel> & { imo?: string }): CanalVessel {
+  const registered = q.imo ? getVessel(q.imo) : null;
+  if (q.imo && !registered && q.gt == null) throw new Error(`Vessel ${q.imo} not found in the registry`);
+  const gt = q.gt ?? registered?.gt;
+  if (gt == null) throw new Error(q.imo ? `Vessel ${q.imo} has no GT in the registry` : 'gt or a registered imo is required');
+  const type = q.type ?? registered?.type ?? 'OTHER';
+  if (!VESSEL_TYPES.includes(type)) throw new Error(`Unknown vessel type: ${type}`);
+  return { gt, type, laden: q.laden ?? true, scnt: q.scnt, pcums: q.pcums,
+    loaMetres: q.loaMetres ?? registered?.loaMetres ?? undefined };
+}
@@ -0,0 +1,250 @@
+/**
+ * Mari8X Emission Control Areas
+ *
+ * Bundled MARPOL Annex VI emission control areas (0.10% sulphur limit) as
+ * simplified polygons, and the two questions the rest of the system asks of
+ * them:
+ *
+ *   routeEca()  how much of a route lies inside ECAs, and where it enters
+ *               and leaves each one (sea-route.ts adds this to every route)
+ *   ecaAhead()  the first ECA boundary a vessel crosses if it holds its
+ *               course and speed (fuel changeover reminders, ais/eca-changeover.ts)
+ *
+ * Polygons follow the coast loosely and close over land, so they are good to
+ * a few miles at sea but say nothing about inland waters. Rings may not cross
+ * the antimeridian (see pointInPolygon).
+ *
+ * © 2026 ANKR Labs — Mari8X Community Edition
+ */
+
+import { haversineDistance, generateWaypoints, pointInPolygon } from '../lib/geo-utils.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface EcaArea {
+  name:            string;
+  sulphurLimitPct: number;
+  effectiveFrom:   string;     // ISO date the SOx limit applies from
+  polygon:         Array<{ lat: number; lng: number }>;
+}
+
+export interface EcaSegment {
+  eca:        string;
+  name:       string;
+  entry:      { lat: number; lng: number } | null;   // null when the route starts inside
+  exit:       { lat: number; lng: number } | null;   // null when the route ends inside
+  entryAtNm:  number;          // along the route from the origin
+  exitAtNm:   number;
+  distanceNm: number;
+}
+
+export interface RouteEca {
+  distanceNm: number;
+  segments:   EcaSegment[];
+}
+
+export interface EcaCrossing {
+  kind:       'entry' | 'exit';
+  eca:        string;
+  name:       string;
+  distanceNm: number;          // from the current position
+  point:      { lat: number; lng: number };
+}
+
+// ── Areas ─────────────────────────────────────────────────────────────────────
+
+const ring = (pts: Array<[number, number]>) => pts.map(([lat, lng]) => ({ lat, lng }));
+
+export const ECA_AREAS: Record<string, EcaArea> = {
+  baltic: {
+    name:            'Baltic Sea ECA',
+    sulphurLimitPct: 0.1,
+    effectiveFrom:   '2006-05-19',
+    // Kattegat and the Belts south of the Skaw line (57°44.8'N), both gulfs
+    polygon: ring([
+      [57.75, 10.3], [57.75, 12.2], [60.5, 17.0], [66.2, 21.5], [66.2, 26.0],
+      [60.3, 31.0], [59.3, 31.0], [54.3, 21.5], [53.7, 14.2], [53.7, 9.8], [55.5, 9.6],
+    ]),
+  },
+  north_sea: {
+    name:            'North Sea ECA',
+    sulphurLimitPct: 0.1,
+    effectiveFrom:   '2007-11-22',
+    // South of 62°N and east of 4°W, the Skagerrak, and the English Channel east of 5°W
+    polygon: ring([
+      [48.5, -5.0], [50.0, -5.0], [50.6, -4.0], [51.0, -2.5], [53.0, -2.0], [55.0, -2.5],
+      [56.5, -4.8], [57.5, -5.0], [58.6, -4.0], [62.0, -4.0], [62.0, 6.0], [60.5, 11.5],
+      [57.75, 12.2], [57.75, 10.3], [56.0, 9.4], [53.4, 10.2], [53.0, 8.8], [51.0, 4.6],
+      [49.3, 1.2], [48.5, -1.5],
+    ]),
+  },
+  north_america_atlantic: {
+    name:            'North American ECA (Atlantic and Gulf of Mexico)',
+    sulphurLimitPct: 0.1,
+    effectiveFrom:   '2012-08-01',
+    polygon: ring([
+      [25.9, -97.2], [25.9, -96.0], [26.0, -93.0], [25.6, -88.0], [24.5, -85.5], [23.8, -83.0],
+      [24.0, -81.0], [24.3, -80.0], [25.5, -79.4], [27.0, -79.2], [28.5, -77.5], [31.0, -76.0],
+      [34.0, -72.5], [37.0, -70.0], [39.5, -67.5], [41.5, -64.0], [41.5, -60.0], [43.0, -56.0],
+      [46.0, -49.0], [49.0, -48.0], [52.0, -50.5], [56.0, -57.0], [60.0, -63.0], [60.0, -64.5],
+      [52.0, -70.0], [45.0, -75.0], [40.0, -80.0], [33.0, -87.0], [30.5, -95.0], [27.0, -98.0],
+    ]),
+  },
+  north_america_pacific: {
+    name:            'North American ECA (Pacific)',
+    sulphurLimitPct: 0.1,
+    effectiveFrom:   '2012-08-01',
+    polygon: ring([
+      [32.5, -117.1], [30.5, -121.5], [33.5, -124.5], [37.0, -126.5], [40.0, -128.0],
+      [44.0, -128.5], [48.0, -130.0], [51.5, -134.5], [54.5, -137.0], [57.5, -141.0],
+      [59.5, -149.0], [61.0, -147.0], [60.0, -135.0], [49.0, -120.0], [32.7, -115.0],
+    ]),
+  },
+  hawaii: {
+    name:            'North American ECA (Hawaii)',
+    sulphurLimitPct: 0.1,
+    effectiveFrom:   '2012-08-01',
+    polygon: ring([[17.5, -161.5], [23.5, -161.5], [23.5, -153.5], [17.5, -153.5]]),
+  },
+  us_caribbean: {
+    name:            'US Caribbean Sea ECA',
+    sulphurLimitPct: 0.1,
+    effectiveFrom:   '2014-01-01',
+    polygon: ring([[16.5, -68.0], [19.8, -68.0], [19.8, -63.5], [16.5, -63.5]]),
+  },
+  mediterranean: {
+    name:            'Mediterranean Sea ECA',
+    sulphurLimitPct: 0.1,
+    effectiveFrom:   '2025-05-01',
+    // Gibraltar (5°36'W) to the Dardanelles; Marmara and the Black Sea are outside
+    polygon: ring([
+      [35.8, -5.6], [31.0, -5.6], [30.5, 36.5], [37.0, 36.5], [40.05, 26.2], [41.2, 26.2],
+      [41.2, 22.0], [46.0, 14.0], [46.0, 12.0], [44.6, 8.0], [43.9, 3.0], [36.3, -5.6],
+    ]),
+  },
+};
+
+// ── Config ────────────────────────────────────────────────────────────────────
+
+const STEP_NM  = 5;        // sampling resolution for boundary crossings
+const EARTH_NM = 3440.065;
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+const fix4   = (p: { lat: number; lng: number }) =>
+  ({ lat: Math.round(p.lat * 1e4) / 1e4, lng: Math.round(p.lng * 1e4) / 1e4 });
+
+// ── Lookup ────────────────────────────────────────────────────────────────────
+
+/** Id of the ECA containing the point, or null at open sea. */
+export function ecaAt(lat: number, lng: number): string | null {
+  for (const [id, area] of Object.entries(ECA_AREAS)) {
+    if (pointInPolygon(lat, lng, area.polygon)) return id;
+  }
+  return null;
+}
+
+/** Bundled ECAs without their polygons, for option lists. */
+export function listEcas() {
+  return Object.entries(ECA_AREAS).map(([id, a]) => ({
+    id, name: a.name, sulphurLimitPct: a.sulphurLimitPct, effectiveFrom: a.effectiveFrom,
+  }));
+}
+
+// ── Routes ────────────────────────────────────────────────────────────────────
+
+/**
+ * ECA mileage along a waypoint path, with entry and exit points to within
+ * STEP_NM. Each sampled step counts towards the ECA its end point lies in.
+ */
+export function routeEca(waypoints: Array<{ lat: number; lng: number }>): RouteEca {
+  const segments: EcaSegment[] = [];
+  if (waypoints.length === 0) return { distanceNm: 0, segments };
+
+  let along   = 0;
+  let current = ecaAt(waypoints[0].lat, waypoints[0].lng);
+  let open: EcaSegment | null = current ? startSegment(current, null, 0) : null;
+
+  for (let i = 1; i < waypoints.length; i++) {
+    const a = waypoints[i - 1], b = waypoints[i];
+    const nm = haversineDistance(a.lat, a.lng, b.lat, b.lng);
+    if (nm === 0) continue;
+    const pts = generateWaypoints(a.lat, a.lng, b.lat, b.lng, Math.max(1, Math.ceil(nm / STEP_NM)));
+    const step = nm / (pts.length - 1);
+
+    for (let j = 1; j < pts.length; j++) {
+      along += step;
+      const id = ecaAt(pts[j].lat, pts[j].lng);
+      if (id !== current) {
+        if (open) {
+          open.exit     = fix4(pts[j]);
+          open.exitAtNm = round1(along);
+          segments.push(open);
+        }
+        open    = id ? startSegment(id, fix4(pts[j]), along) : null;
+        current = id;
+      }
+      if (open) open.distanceNm += step;
+    }
+  }
+  if (open) {
+    open.exitAtNm = round1(along);
+    segments.push(open);
+  }
+
+  for (const s of segments) s.distanceNm = round1(s.distanceNm);
+  return { distanceNm: round1(segments.reduce((t, s) => t + s.distanceNm, 0)), segments };
+}
+
+function startSegment(eca: string, entry: { lat: number; lng: number } | null, along: number): EcaSegment {
+  return {
+    eca,
+    name:       ECA_AREAS[eca].name,
+    entry,
+    exit:       null,
+    entryAtNm:  round1(along),
+    exitAtNm:   round1(along),
+    distanceNm: 0,
+  };
+}
+
+// ── Course projection ─────────────────────────────────────────────────────────
+
+/** Great-circle position `nm` from `p` on initial course `courseDeg`. */
+export function projectPosition(p: { lat: number; lng: number }, courseDeg: number, nm: number) {
+  const rad  = Math.PI / 180;
+  const d    = nm / EARTH_NM;
+  const brg  = courseDeg * rad;
+  const lat1 = p.lat * rad, lng1 = p.lng * rad;
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(d) + Math.cos(lat1) * Math.sin(d) * Math.cos(brg));
+  const lng2 = lng1 + Math.atan2(
+    Math.sin(brg) * Math.sin(d) * Math.cos(lat1),
+    Math.cos(d) - Math.sin(lat1) * Math.sin(lat2),
+  );
+  return { lat: lat2 / rad, lng: ((lng2 / rad + 540) % 360) - 180 };
+}
+
+/**
+ * First ECA boundary crossed within `rangeNm` on a constant course, or null
+ * when the vessel stays inside (or outside) ECAs for that distance. Passing
+ * from one ECA straight into an adjoining one is not a crossing.
+ */
+export function ecaAhead(p: { lat: number; lng: number }, courseDeg: number, rangeNm: number): EcaCrossing | null {
+  let last = ecaAt(p.lat, p.lng);
+  for (let nm = STEP_NM; nm <= rangeNm; nm += STEP_NM) {
+    const q  = projectPosition(p, courseDeg, nm);
+    const id = ecaAt(q.lat, q.lng);
+    if ((id === null) === (last === null)) {
+      last = id;
+      continue;
+    }
+    const eca = (id ?? last)!;
+    return {
+      kind:       id ? 'entry' : 'exit',
+      eca,
+      name:       ECA_AREAS[eca].name,
+      distanceNm: nm,
+      point:      fix4(q),
+    };
+  }
+  return null;
+}
@@ -0,0 +1,727 @@
+/**
+ * Mari8X Sea-Lane Network
+ *
+ * Bundled graph of the main deep-sea trade lanes used by the routing engine
+ * (sea-route.ts). Nodes are turning points and approaches in open water;
+ * edges are straight great-circle legs between them that stay clear of land.
+ * Edges through a canal or strait carry a passage id so a route can report
+ * — or be told to avoid — Suez, Panama, Malacca, Gibraltar, the Cape, etc.
+ *
+ * The network is schematic: good for distance, ETA and "which way round"
+ * answers, not for navigation. Ports are joined to it by short access legs
+ * at query time, so a port needs no entry here.
+ *
+ * Named areas are coarse polygons for the most common avoid requests
+ * (piracy and war-risk regions, enclosed seas).
+ *
+ * © 2026 ANKR Labs — Mari8X Community Edition
+ */
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type PassageId =
+  | 'suez' | 'panama' | 'malacca' | 'singapore' | 'gibraltar' | 'cape'
+  | 'bab_el_mandeb' | 'hormuz' | 'dover' | 'turkish_straits' | 'oresund'
+  | 'florida' | 'sunda' | 'lombok' | 'bass' | 'tsugaru' | 'taiwan' | 'cape_horn' | 'kiel';
+
+export interface SeaNode {
+  lat:  number;
+  lng:  number;
+  name: string;
+}
+
+export interface SeaArea {
+  name:    string;
+  polygon: Array<{ lat: number; lng: number }>;
+}
+
+export type SeaEdge = [from: string, to: string, passage?: PassageId];
+
+// ── Passages ──────────────────────────────────────────────────────────────────
+
+export const PASSAGES: Record<PassageId, { name: string; canal: boolean }> = {
+  suez:            { name: 'Suez Canal',                      canal: true  },
+  panama:          { name: 'Panama Canal',                    canal: true  },
+  malacca:         { name: 'Strait of Malacca',               canal: false },
+  singapore:       { name: 'Singapore Strait',                canal: false },
+  gibraltar:       { name: 'Strait of Gibraltar',             canal: false },
+  cape:            { name: 'Cape of Good Hope',               canal: false },
+  bab_el_mandeb:   { name: 'Bab-el-Mandeb',                   canal: false },
+  hormuz:          { name: 'Strait of Hormuz',                canal: false },
+  dover:           { name: 'Dover Strait',                    canal: false },
+  turkish_straits: { name: 'Turkish Straits',                 canal: false },
+  oresund:         { name: 'Øresund',                         canal: false },
+  florida:         { name: 'Straits of Florida',              canal: false },
+  sunda:           { name: 'Sunda Strait',                    canal: false },
+  lombok:          { name: 'Lombok Strait',                   canal: false },
+  bass:            { name: 'Bass Strait',                     canal: false },
+  tsugaru:         { name: 'Tsugaru Strait',                  canal: false },
+  taiwan:          { name: 'Taiwan Strait',                   canal: false },
+  cape_horn:       { name: 'Cape Horn',                       canal: false },
+  kiel:            { name: 'Kiel Canal',                      canal: true  },
+};
+
+// ── Nodes ─────────────────────────────────────────────────────────────────────
+
+export const SEA_NODES: Record<string, SeaNode> = {
+  // North Europe & Baltic
+  gulf_of_finland:   { lat:  59.85, lng:  24.50, name: 'Gulf of Finland' },
+  st_petersburg_app: { lat:  59.95, lng:  27.00, name: 'St Petersburg approach' },
+  baltic_entrance:   { lat:  59.45, lng:  22.40, name: 'Gulf of Finland entrance' },
+  gotland_east:      { lat:  58.40, lng:  20.40, name: 'East of Gotland' },
+  baltic_south:      { lat:  56.00, lng:  18.50, name: 'Southern Baltic' },
+  gdansk_app:        { lat:  54.80, lng:  18.90, name: 'Gulf of Gdańsk' },
+  bornholm_west:     { lat:  55.00, lng:  14.00, name: 'West of Bornholm' },
+  oresund_south:     { lat:  55.25, lng:  12.95, name: 'Øresund (south)' },
+  kattegat:          { lat:  56.90, lng:  11.60, name: 'Kattegat' },
+  skagen:            { lat:  57.90, lng:  10.90, name: 'Skagen' },
+  jutland_west:      { lat:  57.30, lng:   7.80, name: 'West of Jutland' },
+  north_sea_north:   { lat:  58.20, lng:   4.00, name: 'Northern North Sea' },
+  german_bight:      { lat:  54.00, lng:   7.50, name: 'German Bight' },
+  elbe_app:          { lat:  53.95, lng:   8.55, name: 'Elbe approach' },
+  brunsbuttel:       { lat:  53.89, lng:   9.14, name: 'Brunsbüttel (Kiel Canal west)' },
+  kiel_holtenau:     { lat:  54.37, lng:  10.15, name: 'Kiel-Holtenau (Kiel Canal east)' },
+  kiel_bay:          { lat:  54.55, lng:  10.40, name: 'Kiel Bay' },
+  fehmarn_belt:      { lat:  54.60, lng:  11.20, name: 'Fehmarn Belt' },
+  kadet_channel:     { lat:  54.45, lng:  12.30, name: 'Kadet Channel' },
+  rotterdam_app:     { lat:  52.00, lng:   3.70, name: 'Maas approach' },
+  scheldt_app:       { lat:  51.45, lng:   3.30, name: 'Scheldt approach' },
+  dover_strait:      { lat:  51.00, lng:   1.50, name: 'Dover Strait' },
+  channel_mid:       { lat:  50.20, lng:  -1.00, name: 'English Channel' },
+  channel_west:      { lat:  49.20, lng:  -5.80, name: 'Western Approaches' },
+
+  // Iberia & Mediterranean
+  finisterre:        { lat:  43.00, lng: -10.00, name: 'Off Cape Finisterre' },
+  roca:              { lat:  38.70, lng:  -9.90, name: 'Off Cabo da Roca' },
+  st_vincent:        { lat:  36.80, lng:  -9.30, name: 'Off Cape St Vincent' },
+  gibraltar_west:    { lat:  35.95, lng:  -6.10, name: 'Strait of Gibraltar (west)' },
+  gibraltar_east:    { lat:  36.00, lng:  -4.80, name: 'Strait of Gibraltar (east)' },
+  alboran:           { lat:  36.00, lng:  -3.00, name: 'Alboran Sea' },
+  cabo_palos:        { lat:  37.30, lng:   0.50, name: 'Off Cabo de Palos' },
+  balearic_north:    { lat:  40.80, lng:   3.00, name: 'Balearic Sea' },
+  gulf_of_lion:      { lat:  42.50, lng:   4.50, name: 'Gulf of Lion' },
+  ligurian:          { lat:  43.60, lng:   8.50, name: 'Ligurian Sea' },
+  sardinia_south:    { lat:  38.30, lng:   8.50, name: 'South of Sardinia' },
+  tyrrhenian:        { lat:  40.00, lng:  12.00, name: 'Tyrrhenian Sea' },
+  naples_app:        { lat:  40.50, lng:  13.80, name: 'Gulf of Naples approach' },
+  sicily_channel:    { lat:  37.30, lng:  11.50, name: 'Strait of Sicily' },
+  malta_east:        { lat:  35.80, lng:  15.00, name: 'East of Malta' },
+  ionian:            { lat:  38.00, lng:  18.50, name: 'Ionian Sea' },
+  otranto:           { lat:  40.00, lng:  19.00, name: 'Strait of Otranto' },
+  adriatic:          { lat:  42.50, lng:  16.00, name: 'Central Adriatic' },
+  venice_app:        { lat:  45.30, lng:  13.00, name: 'Gulf of Venice' },
+  malea:             { lat:  36.30, lng:  23.60, name: 'Off Cape Malea' },
+  saronic:           { lat:  37.60, lng:  23.75, name: 'Saronic Gulf' },
+  aegean_north:      { lat:  39.50, lng:  25.00, name: 'Northern Aegean' },
+  dardanelles_west:  { lat:  40.03, lng:  26.10, name: 'Dardanelles (west)' },
+  dardanelles_mid:   { lat:  40.16, lng:  26.40, name: 'Dardanelles narrows' },
+  dardanelles_east:  { lat:  40.42, lng:  26.72, name: 'Dardanelles (east)' },
+  marmara:           { lat:  40.75, lng:  28.00, name: 'Sea of Marmara' },
+  bosphorus_south:   { lat:  40.98, lng:  29.00, name: 'Bosphorus (south)' },
+  bosphorus_north:   { lat:  41.23, lng:  29.12, name: 'Bosphorus (north)' },
+  black_sea_west:    { lat:  43.50, lng:  29.80, name: 'Western Black Sea' },
+  odessa_app:        { lat:  46.20, lng:  30.90, name: 'Odesa approach' },
+  black_sea_east:    { lat:  43.50, lng:  34.00, name: 'Central Black Sea' },
+  novorossiysk_app:  { lat:  44.50, lng:  37.60, name: 'Novorossiysk approach' },
+  crete_south:       { lat:  34.50, lng:  24.50, name: 'South of Crete' },
+  port_said_app:     { lat:  31.60, lng:  32.30, name: 'Port Said approach' },
+
+  // Suez Canal & Red Sea
+  suez_north:        { lat:  31.23, lng:  32.33, name: 'Suez Canal (Port Said)' },
+  suez_ismailia:     { lat:  30.58, lng:  32.32, name: 'Suez Canal (Ismailia)' },
+  suez_bitter_lakes: { lat:  30.32, lng:  32.38, name: 'Great Bitter Lake' },
+  suez_south:        { lat:  29.93, lng:  32.56, name: 'Suez Canal (Port Tewfik)' },
+  gulf_of_suez_n:    { lat:  29.50, lng:  32.56, name: 'Gulf of Suez (north)' },
+  gulf_of_suez_c:    { lat:  28.90, lng:  32.95, name: 'Gulf of Suez' },
+  gulf_of_suez_s:    { lat:  28.20, lng:  33.40, name: 'Gulf of Suez (south)' },
+  gubal:             { lat:  27.65, lng:  34.10, name: 'Strait of Gubal' },
+  red_sea_north:     { lat:  26.50, lng:  35.00, name: 'Northern Red Sea' },
+  jeddah_app:        { lat:  21.50, lng:  38.90, name: 'Jeddah approach' },
+  red_sea_central:   { lat:  20.00, lng:  38.80, name: 'Central Red Sea' },
+  red_sea_south:     { lat:  15.50, lng:  41.30, name: 'Southern Red Sea' },
+  bab_north:         { lat:  13.40, lng:  43.00, name: 'Bab-el-Mandeb (north)' },
+  bab_el_mandeb:     { lat:  12.55, lng:  43.30, name: 'Bab-el-Mandeb' },
+  gulf_of_aden_w:    { lat:  12.20, lng:  44.50, name: 'Gulf of Aden (west)' },
+  gulf_of_aden_e:    { lat:  13.00, lng:  49.00, name: 'Gulf of Aden (east)' },
+  guardafui:         { lat:  12.00, lng:  51.60, name: 'Off Cape Guardafui' },
+
+  // Arabian Sea & Gulf
+  arabian_sea_west:  { lat:  14.00, lng:  56.00, name: 'Western Arabian Sea' },
+  arabian_sea:       { lat:  15.00, lng:  65.00, name: 'Arabian Sea' },
+  ras_al_hadd:       { lat:  22.80, lng:  60.10, name: 'Off Ras al Hadd' },
+  gulf_of_oman:      { lat:  25.30, lng:  57.00, name: 'Gulf of Oman' },
+  hormuz:            { lat:  26.60, lng:  56.55, name: 'Strait of Hormuz' },
+  gulf_lower:        { lat:  26.00, lng:  54.00, name: 'Lower Gulf' },
+  jebel_ali_app:     { lat:  25.20, lng:  54.90, name: 'Jebel Ali approach' },
+  ras_laffan_app:    { lat:  26.00, lng:  51.80, name: 'Ras Laffan approach' },
+  gulf_central:      { lat:  27.50, lng:  51.00, name: 'Central Gulf' },
+  ras_tanura_app:    { lat:  26.80, lng:  50.50, name: 'Ras Tanura approach' },
+  kuwait_app:        { lat:  29.20, lng:  48.60, name: 'Kuwait approach' },
+  karachi_app:       { lat:  24.60, lng:  66.80, name: 'Karachi approach' },
+
+  // India, Sri Lanka & Bay of Bengal
+  mumbai_app:        { lat:  18.90, lng:  72.40, name: 'Mumbai approach' },
+  off_mangalore:     { lat:  12.50, lng:  74.40, name: 'Off Mangalore' },
+  off_kochi:         { lat:   9.90, lng:  75.80, name: 'Off Kochi' },
+  comorin:           { lat:   7.60, lng:  77.40, name: 'Off Cape Comorin' },
+  eight_degree:      { lat:   7.70, lng:  73.30, name: 'Eight Degree Channel' },
+  dondra:            { lat:   5.50, lng:  80.60, name: 'Off Dondra Head' },
+  sri_lanka_east:    { lat:   7.00, lng:  82.20, name: 'East of Sri Lanka' },
+  off_trincomalee:   { lat:   9.00, lng:  81.60, name: 'Off Trincomalee' },
+  chennai_app:       { lat:  13.10, lng:  80.60, name: 'Chennai approach' },
+  vizag_app:         { lat:  17.50, lng:  83.60, name: 'Visakhapatnam approach' },
+  sandheads:         { lat:  21.00, lng:  88.20, name: 'Sandheads' },
+  chittagong_app:    { lat:  22.00, lng:  91.50, name: 'Chittagong approach' },
+  bay_of_bengal:     { lat:  12.00, lng:  86.00, name: 'Bay of Bengal' },
+  great_channel:     { lat:   6.30, lng:  94.50, name: 'Great Channel' },
+
+  // Malacca, Singapore & Southeast Asia
+  malacca_north:     { lat:   5.80, lng:  97.60, name: 'Strait of Malacca (north)' },
+  one_fathom:        { lat:   2.90, lng: 100.80, name: 'One Fathom Bank' },
+  malacca_south:     { lat:   2.00, lng: 102.10, name: 'Strait of Malacca (south)' },
+  singapore_west:    { lat:   1.20, lng: 103.50, name: 'Singapore Strait (west)' },
+  singapore_east:    { lat:   1.25, lng: 104.20, name: 'Singapore Strait (east)' },
+  horsburgh:         { lat:   1.35, lng: 104.45, name: 'Horsburgh' },
+  scs_south:         { lat:   2.50, lng: 105.00, name: 'South China Sea (south)' },
+  scs_southwest:     { lat:   5.50, lng: 106.50, name: 'Off Con Dao' },
+  gulf_of_thailand:  { lat:   7.50, lng: 103.50, name: 'Gulf of Thailand entrance' },
+  laem_chabang_app:  { lat:  12.80, lng: 100.70, name: 'Bight of Bangkok' },
+  scs_west:          { lat:  10.00, lng: 109.80, name: 'Off southern Vietnam' },
+  scs_north:         { lat:  16.00, lng: 113.30, name: 'South China Sea (north)' },
+  karimata:          { lat:  -2.30, lng: 108.70, name: 'Karimata Strait' },
+  java_sea_west:     { lat:  -5.00, lng: 108.00, name: 'Western Java Sea' },
+  java_sea_east:     { lat:  -5.50, lng: 114.00, name: 'Eastern Java Sea' },
+  sunda_north:       { lat:  -5.75, lng: 105.95, name: 'Sunda Strait (north)' },
+  sunda_south:       { lat:  -6.30, lng: 105.45, name: 'Sunda Strait (south)' },
+  sunda_approach:    { lat:  -7.50, lng: 104.50, name: 'Sunda Strait approach' },
+  lombok_north:      { lat:  -8.10, lng: 115.90, name: 'Lombok Strait (north)' },
+  lombok_south:      { lat:  -8.90, lng: 115.80, name: 'Lombok Strait (south)' },
+
+  // East Asia
+  hong_kong_app:     { lat:  22.00, lng: 114.30, name: 'Hong Kong approach' },
+  taiwan_south:      { lat:  22.80, lng: 117.90, name: 'Taiwan Strait (south)' },
+  taiwan_north:      { lat:  25.50, lng: 120.50, name: 'Taiwan Strait (north)' },
+  bashi_channel:     { lat:  21.40, lng: 121.20, name: 'Bashi Channel' },
+  east_china_sea:    { lat:  28.50, lng: 123.00, name: 'East China Sea' },
+  shanghai_app:      { lat:  31.20, lng: 123.00, name: 'Yangtze approach' },
+  jeju_south:        { lat:  32.90, lng: 126.50, name: 'South of Jeju' },
+  korea_strait:      { lat:  34.75, lng: 129.10, name: 'Korea Strait' },
+  sea_of_japan:      { lat:  38.00, lng: 134.00, name: 'Sea of Japan' },
+  tsugaru_west:      { lat:  41.25, lng: 140.15, name: 'Tsugaru Strait (west)' },
+  tsugaru_mid:       { lat:  41.62, lng: 140.90, name: 'Tsugaru Strait' },
+  tsugaru_east:      { lat:  41.60, lng: 141.60, name: 'Tsugaru Strait (east)' },
+  kyushu_west:       { lat:  32.50, lng: 129.20, name: 'West of Kyushu' },
+  kyushu_south:      { lat:  30.00, lng: 131.20, name: 'South of Kyushu' },
+  shikoku_south:     { lat:  32.30, lng: 134.00, name: 'South of Shikoku' },
+  kii_channel:       { lat:  33.90, lng: 135.00, name: 'Kii Channel' },
+  enshu_nada:        { lat:  33.80, lng: 137.00, name: 'Enshu-nada' },
+  izu_islands:       { lat:  33.90, lng: 139.70, name: 'Izu Islands' },
+  tokyo_app:         { lat:  35.05, lng: 139.72, name: 'Uraga Channel' },
+  philippine_sea:    { lat:  25.00, lng: 135.00, name: 'Philippine Sea' },
+  manila_app:        { lat:  14.40, lng: 120.30, name: 'Manila Bay approach' },
+
+  // Pacific
+  north_pacific_w:   { lat:  40.00, lng: 155.00, name: 'North Pacific (west)' },
+  north_pacific_c:   { lat:  45.00, lng: -170.00, name: 'North Pacific' },
+  north_pacific_e:   { lat:  40.00, lng: -140.00, name: 'North Pacific (east)' },
+  hawaii:            { lat:  21.20, lng: -158.00, name: 'Off Oahu' },
+  guam:              { lat:  13.00, lng: 145.50, name: 'South of Guam' },
+  equator_160e:      { lat:   0.00, lng: 160.00, name: 'Equatorial Pacific' },
+  coral_sea_east:    { lat: -10.00, lng: 163.50, name: 'East of the Solomons' },
+  coral_sea:         { lat: -20.00, lng: 160.00, name: 'Coral Sea' },
+
+  // Australia
+  brisbane_app:      { lat: -27.10, lng: 153.70, name: 'Brisbane approach' },
+  sydney_app:        { lat: -33.85, lng: 151.40, name: 'Sydney approach' },
+  gabo:              { lat: -37.80, lng: 150.30, name: 'Off Gabo Island' },
+  bass_east:         { lat: -38.70, lng: 148.50, name: 'Bass Strait (east)' },
+  bass_mid:          { lat: -39.30, lng: 146.80, name: 'Bass Strait' },
+  bass_west:         { lat: -39.20, lng: 143.70, name: 'Bass Strait (west)' },
+  kangaroo_south:    { lat: -36.50, lng: 137.00, name: 'South of Kangaroo Island' },
+  great_bight:       { lat: -36.50, lng: 125.00, name: 'Great Australian Bight' },
+  cape_leeuwin:      { lat: -35.50, lng: 114.50, name: 'Off Cape Leeuwin' },
+  fremantle_app:     { lat: -32.20, lng: 115.55, name: 'Fremantle approach' },
+  nw_shelf:          { lat: -18.00, lng: 116.00, name: 'North West Shelf' },
+
+  // North America
+  juan_de_fuca:      { lat:  48.45, lng: -124.90, name: 'Strait of Juan de Fuca entrance' },
+  puget_app:         { lat:  48.25, lng: -123.50, name: 'Strait of Juan de Fuca' },
+  san_francisco_app: { lat:  37.75, lng: -122.70, name: 'San Francisco approach' },
+  los_angeles_app:   { lat:  33.60, lng: -118.30, name: 'San Pedro Bay approach' },
+  baja_west:         { lat:  30.00, lng: -116.50, name: 'Off Baja California' },
+  cabo_san_lucas:    { lat:  22.70, lng: -110.10, name: 'Off Cabo San Lucas' },
+  cabo_corrientes:   { lat:  20.00, lng: -106.50, name: 'Off Cabo Corrientes' },
+  tehuantepec:       { lat:  15.00, lng: -96.00, name: 'Gulf of Tehuantepec' },
+  off_nicoya:        { lat:  10.00, lng: -87.00, name: 'Off Nicoya' },
+  gulf_of_panama:    { lat:   7.00, lng: -79.50, name: 'Gulf of Panama' },
+  halifax_app:       { lat:  44.30, lng: -63.50, name: 'Halifax approach' },
+  nantucket_south:   { lat:  40.80, lng: -69.50, name: 'South of Nantucket' },
+  boston_app:        { lat:  42.30, lng: -70.70, name: 'Boston approach' },
+  new_york_app:      { lat:  40.40, lng: -73.80, name: 'Ambrose' },
+  hatteras:          { lat:  35.00, lng: -74.80, name: 'Off Cape Hatteras' },
+  off_canaveral:     { lat:  28.50, lng: -79.80, name: 'Off Cape Canaveral' },
+  florida_strait_e:  { lat:  25.80, lng: -79.70, name: 'Straits of Florida (north)' },
+  florida_strait:    { lat:  24.00, lng: -81.50, name: 'Straits of Florida' },
+  off_havana:        { lat:  23.50, lng: -84.00, name: 'West of Havana' },
+  gulf_of_mexico:    { lat:  25.50, lng: -90.00, name: 'Gulf of Mexico' },
+  houston_app:       { lat:  29.00, lng: -94.60, name: 'Galveston approach' },
+  mississippi_app:   { lat:  28.80, lng: -89.60, name: 'Southwest Pass approach' },
+  yucatan:           { lat:  21.80, lng: -85.90, name: 'Yucatán Channel' },
+  off_cozumel:       { lat:  20.00, lng: -85.80, name: 'East of Cozumel' },
+  off_honduras:      { lat:  16.50, lng: -84.00, name: 'Off Honduras' },
+
+  // Caribbean & Panama Canal
+  panama_atlantic:   { lat:   9.45, lng: -79.92, name: 'Panama Canal (Colón)' },
+  panama_gatun:      { lat:   9.20, lng: -79.90, name: 'Gatún Lake' },
+  panama_culebra:    { lat:   9.05, lng: -79.67, name: 'Culebra Cut' },
+  panama_pacific:    { lat:   8.85, lng: -79.50, name: 'Panama Canal (Balboa)' },
+  off_colombia:      { lat:  12.00, lng: -77.00, name: 'Off Colombia' },
+  caribbean:         { lat:  15.00, lng: -75.00, name: 'Central Caribbean' },
+  windward_passage:  { lat:  20.00, lng: -73.85, name: 'Windward Passage' },
+  east_of_inagua:    { lat:  21.00, lng: -72.70, name: 'East of Great Inagua' },
+  caicos_passage:    { lat:  22.00, lng: -72.60, name: 'Caicos Passage' },
+  bermuda_west:      { lat:  27.00, lng: -72.00, name: 'Southwest of Bermuda' },
+  mona_passage:      { lat:  18.40, lng: -67.70, name: 'Mona Passage' },
+
+  // Atlantic
+  north_atlantic:    { lat:  42.00, lng: -50.00, name: 'North Atlantic' },
+  mid_atlantic:      { lat:  38.00, lng: -55.00, name: 'Mid Atlantic' },
+  azores_south:      { lat:  36.00, lng: -30.00, name: 'South of the Azores' },
+  canaries_west:     { lat:  27.50, lng: -19.00, name: 'West of the Canaries' },
+  cape_verde_off:    { lat:  14.80, lng: -18.00, name: 'Off Cap-Vert' },
+  off_guinea:        { lat:  10.00, lng: -17.00, name: 'Off Guinea' },
+  cape_palmas:       { lat:   4.00, lng:  -8.00, name: 'Off Cape Palmas' },
+  gulf_of_guinea:    { lat:   3.50, lng:   0.00, name: 'Gulf of Guinea' },
+  lagos_app:         { lat:   6.20, lng:   3.40, name: 'Lagos approach' },
+  bight_of_biafra:   { lat:   3.00, lng:   7.00, name: 'Bight of Biafra' },
+  luanda_app:        { lat:  -8.70, lng:  13.00, name: 'Luanda approach' },
+  walvis_app:        { lat: -22.90, lng:  14.30, name: 'Walvis Bay approach' },
+  south_atlantic:    { lat: -10.00, lng:  -5.00, name: 'South Atlantic' },
+  cape_town_app:     { lat: -33.85, lng:  18.20, name: 'Table Bay approach' },
+  sao_roque:         { lat:  -5.00, lng: -34.80, name: 'Off Cabo de São Roque' },
+  salvador_app:      { lat: -13.10, lng: -38.35, name: 'Salvador approach' },
+  abrolhos:          { lat: -18.50, lng: -37.50, name: 'Off Abrolhos' },
+  rio_app:           { lat: -23.10, lng: -43.15, name: 'Rio de Janeiro approach' },
+  santos_app:        { lat: -24.10, lng: -46.20, name: 'Santos approach' },
+  rio_grande_app:    { lat: -32.40, lng: -51.80, name: 'Rio Grande approach' },
+  river_plate:       { lat: -35.20, lng: -55.50, name: 'Río de la Plata' },
+  cape_horn:         { lat: -56.50, lng: -67.20, name: 'Off Cape Horn' },
+  valparaiso_app:    { lat: -33.00, lng: -71.80, name: 'Valparaíso approach' },
+  callao_app:        { lat: -12.10, lng: -77.30, name: 'Callao approach' },
+
+  // Cape of Good Hope & East Africa
+  cape_of_good_hope: { lat: -34.80, lng:  18.50, name: 'Off Cape of Good Hope' },
+  agulhas:           { lat: -35.30, lng:  20.00, name: 'Off Cape Agulhas' },
+  algoa_app:         { lat: -34.10, lng:  25.90, name: 'Algoa Bay approach' },
+  durban_app:        { lat: -29.90, lng:  31.20, name: 'Durban approach' },
+  mozambique_south:  { lat: -25.00, lng:  35.50, name: 'Mozambique Channel (south)' },
+  mozambique_mid:    { lat: -17.00, lng:  41.00, name: 'Mozambique Channel' },
+  comoros_west:      { lat: -12.00, lng:  42.00, name: 'West of the Comoros' },
+  dar_app:           { lat:  -6.85, lng:  39.50, name: 'Dar es Salaam approach' },
+  pemba_east:        { lat:  -5.50, lng:  40.30, name: 'East of Pemba' },
+  mombasa_app:       { lat:  -4.10, lng:  39.80, name: 'Mombasa approach' },
+  somali_south:      { lat:  -1.00, lng:  43.00, name: 'Off southern Somalia' },
+  somali_basin:      { lat:   5.00, lng:  49.50, name: 'Somali Basin' },
+  off_hafun:         { lat:  10.00, lng:  52.00, name: 'Off Ras Hafun' },
+
+  // Indian Ocean
+  south_madagascar:  { lat: -30.00, lng:  45.00, name: 'South of Madagascar' },
+  mauritius_east:    { lat: -20.00, lng:  60.00, name: 'East of Mauritius' },
+  indian_ocean:      { lat:   0.00, lng:  70.00, name: 'Central Indian Ocean' },
+  indian_ocean_east: { lat:   5.00, lng:  85.00, name: 'Eastern Indian Ocean' },
+  southern_ocean:    { lat: -38.00, lng:  60.00, name: 'Southern Indian Ocean' },
+};
+
+// ── Edges ─────────────────────────────────────────────────────────────────────
+
+export const SEA_EDGES: SeaEdge[] = [
+  // North Europe & Baltic
+  ['st_petersburg_app', 'gulf_of_finland'],
+  ['gulf_of_finland',   'baltic_entrance'],
+  ['baltic_entrance',   'gotland_east'],
+  ['gotland_east',      'baltic_south'],
+  ['baltic_south',      'gdansk_app'],
+  ['baltic_south',      'bornholm_west'],
+  ['gdansk_app',        'bornholm_west'],
+  ['bornholm_west',     'oresund_south'],
+  ['oresund_south',     'kattegat',       'oresund'],
+  ['kattegat',          'skagen'],
+  ['skagen',            'north_sea_north'],
+  ['skagen',            'jutland_west'],
+  ['jutland_west',      'german_bight'],
+  ['jutland_west',      'north_sea_north'],
+  ['german_bight',      'elbe_app'],
+  ['elbe_app',          'brunsbuttel'],
+  ['brunsbuttel',       'kiel_holtenau',  'kiel'],
+  ['kiel_holtenau',     'kiel_bay'],
+  ['kiel_bay',          'fehmarn_belt'],
+  ['fehmarn_belt',      'kadet_channel'],
+  ['kadet_channel',     'bornholm_west'],
+  ['north_sea_north',   'german_bight'],
+  ['north_sea_north',   'rotterdam_app'],
+  ['german_bight',      'rotterdam_app'],
+  ['rotterdam_app',     'scheldt_app'],
+  ['rotterdam_app',     'dover_strait',   'dover'],
+  ['scheldt_app',       'dover_strait',   'dover'],
+  ['dover_strait',      'channel_mid',    'dover'],
+  ['channel_mid',       'channel_west'],
+
+  // Atlantic Europe
+  ['channel_west',      'finisterre'],
+  ['channel_west',      'north_atlantic'],
+  ['finisterre',        'roca'],
+  ['roca',              'st_vincent'],
+  ['st_vincent',        'gibraltar_west'],
+  ['st_vincent',        'canaries_west'],
+  ['st_vincent',        'azores_south'],
+  ['finisterre',        'azores_south'],
+  ['finisterre',        'canaries_west'],
+
+  // Mediterranean
+  ['gibraltar_west',    'gibraltar_east', 'gibraltar'],
+  ['gibraltar_east',    'alboran'],
+  ['alboran',           'cabo_palos'],
+  ['cabo_palos',        'balearic_north'],
+  ['cabo_palos',        'sardinia_south'],
+  ['balearic_north',    'gulf_of_lion'],
+  ['gulf_of_lion',      'ligurian'],
+  ['ligurian',          'tyrrhenian'],
+  ['sardinia_south',    'tyrrhenian'],
+  ['tyrrhenian',        'naples_app'],
+  ['sardinia_south',    'sicily_channel'],
+  ['sicily_channel',    'malta_east'],
+  ['malta_east',        'ionian'],
+  ['malta_east',        'crete_south'],
+  ['ionian',            'otranto'],
+  ['otranto',           'adriatic'],
+  ['adriatic',          'venice_app'],
+  ['ionian',            'malea'],
+  ['malea',             'saronic'],
+  ['malea',             'aegean_north'],
+  ['malea',             'crete_south'],
+  ['aegean_north',      'dardanelles_west'],
+  ['dardanelles_west',  'dardanelles_mid',  'turkish_straits'],
+  ['dardanelles_mid',   'dardanelles_east', 'turkish_straits'],
+  ['dardanelles_east',  'marmara'],
+  ['marmara',           'bosphorus_south'],
+  ['bosphorus_south',   'bosphorus_north',  'turkish_straits'],
+  ['bosphorus_north',   'black_sea_west'],
+  ['black_sea_west',    'odessa_app'],
+  ['black_sea_west',    'black_sea_east'],
+  ['black_sea_east',    'novorossiysk_app'],
+  ['crete_south',       'port_said_app'],
+
+  // Suez Canal & Red Sea
+  ['port_said_app',     'suez_north'],
+  ['suez_north',        'suez_ismailia',     'suez'],
+  ['suez_ismailia',     'suez_bitter_lakes', 'suez'],
+  ['suez_bitter_lakes', 'suez_south',        'suez'],
+  ['suez_south',        'gulf_of_suez_n'],
+  ['gulf_of_suez_n',    'gulf_of_suez_c'],
+  ['gulf_of_suez_c',    'gulf_of_suez_s'],
+  ['gulf_of_suez_s',    'gubal'],
+  ['gubal',             'red_sea_north'],
+  ['red_sea_north',     'jeddah_app'],
+  ['red_sea_north',     'red_sea_central'],
+  ['jeddah_app',        'red_sea_central'],
+  ['red_sea_central',   'red_sea_south'],
+  ['red_sea_south',     'bab_north'],
+  ['bab_north',         'bab_el_mandeb',  'bab_el_mandeb'],
+  ['bab_el_mandeb',     'gulf_of_aden_w', 'bab_el_mandeb'],
+  ['gulf_of_aden_w',    'gulf_of_aden_e'],
+  ['gulf_of_aden_e',    'guardafui'],
+  ['gulf_of_aden_e',    'arabian_sea_west'],
+
+  // Arabian Sea & Gulf
+  ['guardafui',         'arabian_sea_west'],
+  ['guardafui',         'off_hafun'],
+  ['arabian_sea_west',  'ras_al_hadd'],
+  ['arabian_sea_west',  'arabian_sea'],
+  ['arabian_sea_west',  'eight_degree'],
+  ['ras_al_hadd',       'gulf_of_oman'],
+  ['ras_al_hadd',       'karachi_app'],
+  ['ras_al_hadd',       'mumbai_app'],
+  ['gulf_of_oman',      'hormuz',         'hormuz'],
+  ['hormuz',            'gulf_lower',     'hormuz'],
+  ['gulf_lower',        'jebel_ali_app'],
+  ['gulf_lower',        'ras_laffan_app'],
+  ['gulf_lower',        'gulf_central'],
+  ['ras_laffan_app',    'gulf_central'],
+  ['gulf_central',      'ras_tanura_app'],
+  ['gulf_central',      'kuwait_app'],
+  ['arabian_sea',       'karachi_app'],
+  ['arabian_sea',       'mumbai_app'],
+  ['arabian_sea',       'eight_degree'],
+  ['arabian_sea',       'indian_ocean'],
+
+  // India, Sri Lanka & Bay of Bengal
+  ['mumbai_app',        'off_mangalore'],
+  ['off_mangalore',     'off_kochi'],
+  ['off_kochi',         'comorin'],
+  ['comorin',           'dondra'],
+  ['eight_degree',      'dondra'],
+  ['eight_degree',      'indian_ocean'],
+  ['dondra',            'sri_lanka_east'],
+  ['dondra',            'great_channel'],
+  ['dondra',            'bay_of_bengal'],
+  ['sri_lanka_east',    'off_trincomalee'],
+  ['off_trincomalee',   'chennai_app'],
+  ['chennai_app',       'vizag_app'],
+  ['vizag_app',         'sandheads'],
+  ['sandheads',         'chittagong_app'],
+  ['bay_of_bengal',     'vizag_app'],
+  ['bay_of_bengal',     'sandheads'],
+  ['bay_of_bengal',     'chittagong_app'],
+  ['bay_of_bengal',     'great_channel'],
+  ['indian_ocean',      'indian_ocean_east'],
+  ['indian_ocean_east', 'dondra'],
+  ['indian_ocean_east', 'great_channel'],
+
+  // Malacca, Singapore & Southeast Asia
+  ['great_channel',     'malacca_north'],
+  ['malacca_north',     'one_fathom',     'malacca'],
+  ['one_fathom',        'malacca_south',  'malacca'],
+  ['malacca_south',     'singapore_west', 'malacca'],
+  ['singapore_west',    'singapore_east', 'singapore'],
+  ['singapore_east',    'horsburgh',      'singapore'],
+  ['horsburgh',         'scs_south'],
+  ['scs_south',         'scs_southwest'],
+  ['scs_south',         'gulf_of_thailand'],
+  ['scs_south',         'karimata'],
+  ['scs_southwest',     'gulf_of_thailand'],
+  ['scs_southwest',     'scs_west'],
+  ['gulf_of_thailand',  'laem_chabang_app'],
+  ['scs_west',          'scs_north'],
+  ['scs_north',         'hong_kong_app'],
+  ['scs_north',         'manila_app'],
+  ['scs_north',         'bashi_channel'],
+  ['karimata',          'java_sea_west'],
+  ['java_sea_west',     'java_sea_east'],
+  ['java_sea_west',     'sunda_north'],
+  ['sunda_north',       'sunda_south',    'sunda'],
+  ['sunda_south',       'sunda_approach'],
+  ['sunda_approach',    'indian_ocean_east'],
+  ['sunda_approach',    'mauritius_east'],
+  ['sunda_approach',    'fremantle_app'],
+  ['java_sea_east',     'lombok_north'],
+  ['lombok_north',      'lombok_south',   'lombok'],
+  ['lombok_south',      'nw_shelf'],
+
+  // East Asia
+  ['hong_kong_app',     'taiwan_south'],
+  ['hong_kong_app',     'bashi_channel'],
+  ['taiwan_south',      'taiwan_north',   'taiwan'],
+  ['taiwan_north',      'east_china_sea'],
+  ['bashi_channel',     'east_china_sea'],
+  ['bashi_channel',     'philippine_sea'],
+  ['bashi_channel',     'guam'],
+  ['east_china_sea',    'shanghai_app'],
+  ['east_china_sea',    'jeju_south'],
+  ['east_china_sea',    'kyushu_south'],
+  ['shanghai_app',      'jeju_south'],
+  ['jeju_south',        'korea_strait'],
+  ['jeju_south',        'kyushu_west'],
+  ['korea_strait',      'kyushu_west'],
+  ['korea_strait',      'sea_of_japan'],
+  ['sea_of_japan',      'tsugaru_west'],
+  ['tsugaru_west',      'tsugaru_mid',    'tsugaru'],
+  ['tsugaru_mid',       'tsugaru_east',   'tsugaru'],
+  ['tsugaru_east',      'north_pacific_w'],
+  ['kyushu_west',       'kyushu_south'],
+  ['kyushu_south',      'shikoku_south'],
+  ['kyushu_south',      'philippine_sea'],
+  ['shikoku_south',     'kii_channel'],
+  ['shikoku_south',     'enshu_nada'],
+  ['enshu_nada',        'izu_islands'],
+  ['izu_islands',       'tokyo_app'],
+  ['izu_islands',       'north_pacific_w'],
+  ['philippine_sea',    'izu_islands'],
+  ['philippine_sea',    'guam'],
+
+  // Pacific
+  ['north_pacific_w',   'north_pacific_c'],
+  ['north_pacific_c',   'north_pacific_e'],
+  ['north_pacific_c',   'juan_de_fuca'],
+  ['north_pacific_e',   'san_francisco_app'],
+  ['north_pacific_e',   'los_angeles_app'],
+  ['north_pacific_e',   'juan_de_fuca'],
+  ['hawaii',            'los_angeles_app'],
+  ['hawaii',            'san_francisco_app'],
+  ['hawaii',            'guam'],
+  ['hawaii',            'north_pacific_w'],
+  ['hawaii',            'gulf_of_panama'],
+  ['guam',              'equator_160e'],
+  ['equator_160e',      'coral_sea_east'],
+  ['coral_sea_east',    'coral_sea'],
+  ['coral_sea',         'brisbane_app'],
+  ['coral_sea',         'sydney_app'],
+
+  // Australia
+  ['brisbane_app',      'sydney_app'],
+  ['sydney_app',        'gabo'],
+  ['gabo',              'bass_east'],
+  ['bass_east',         'bass_mid',       'bass'],
+  ['bass_mid',          'bass_west',      'bass'],
+  ['bass_west',         'kangaroo_south'],
+  ['kangaroo_south',    'great_bight'],
+  ['great_bight',       'cape_leeuwin'],
+  ['cape_leeuwin',      'fremantle_app'],
+  ['cape_leeuwin',      'southern_ocean'],
+  ['fremantle_app',     'nw_shelf'],
+  ['fremantle_app',     'indian_ocean_east'],
+  ['fremantle_app',     'mauritius_east'],
+  ['nw_shelf',          'indian_ocean_east'],
+
+  // North America
+  ['juan_de_fuca',      'puget_app'],
+  ['juan_de_fuca',      'san_francisco_app'],
+  ['san_francisco_app', 'los_angeles_app'],
+  ['los_angeles_app',   'baja_west'],
+  ['baja_west',         'cabo_san_lucas'],
+  ['cabo_san_lucas',    'cabo_corrientes'],
+  ['cabo_corrientes',   'tehuantepec'],
+  ['tehuantepec',       'off_nicoya'],
+  ['off_nicoya',        'gulf_of_panama'],
+  ['gulf_of_panama',    'panama_pacific'],
+  ['gulf_of_panama',    'callao_app'],
+  ['callao_app',        'valparaiso_app'],
+  ['valparaiso_app',    'cape_horn'],
+  ['halifax_app',       'nantucket_south'],
+  ['halifax_app',       'north_atlantic'],
+  ['boston_app',        'nantucket_south'],
+  ['nantucket_south',   'new_york_app'],
+  ['nantucket_south',   'north_atlantic'],
+  ['new_york_app',      'north_atlantic'],
+  ['new_york_app',      'mid_atlantic'],
+  ['new_york_app',      'hatteras'],
+  ['hatteras',          'off_canaveral'],
+  ['hatteras',          'bermuda_west'],
+  ['hatteras',          'mid_atlantic'],
+  ['off_canaveral',     'florida_strait_e'],
+  ['florida_strait_e',  'florida_strait', 'florida'],
+  ['florida_strait',    'off_havana'],
+  ['off_havana',        'gulf_of_mexico'],
+  ['off_havana',        'yucatan'],
+  ['gulf_of_mexico',    'houston_app'],
+  ['gulf_of_mexico',    'mississippi_app'],
+  ['gulf_of_mexico',    'yucatan'],
+  ['mississippi_app',   'houston_app'],
+  ['yucatan',           'off_cozumel'],
+  ['off_cozumel',       'off_honduras'],
+  ['off_honduras',      'panama_atlantic'],
+  ['off_honduras',      'caribbean'],
+
+  // Caribbean & Panama Canal
+  ['panama_atlantic',   'panama_gatun',   'panama'],
+  ['panama_gatun',      'panama_culebra', 'panama'],
+  ['panama_culebra',    'panama_pacific', 'panama'],
+  ['panama_atlantic',   'off_colombia'],
+  ['off_colombia',      'caribbean'],
+  ['caribbean',         'windward_passage'],
+  ['caribbean',         'mona_passage'],
+  ['windward_passage',  'east_of_inagua'],
+  ['east_of_inagua',    'caicos_passage'],
+  ['caicos_passage',    'bermuda_west'],
+  ['bermuda_west',      'mid_atlantic'],
+  ['mona_passage',      'bermuda_west'],
+  ['mona_passage',      'azores_south'],
+  ['mona_passage',      'sao_roque'],
+
+  // Atlantic
+  ['north_atlantic',    'mid_atlantic'],
+  ['north_atlantic',    'finisterre'],
+  ['mid_atlantic',      'azores_south'],
+  ['azores_south',      'canaries_west'],
+  ['canaries_west',     'cape_verde_off'],
+  ['cape_verde_off',    'off_guinea'],
+  ['cape_verde_off',    'sao_roque'],
+  ['cape_verde_off',    'south_atlantic'],
+  ['south_atlantic',    'cape_town_app'],
+  ['south_atlantic',    'luanda_app'],
+  ['off_guinea',        'cape_palmas'],
+  ['cape_palmas',       'gulf_of_guinea'],
+  ['gulf_of_guinea',    'lagos_app'],
+  ['gulf_of_guinea',    'bight_of_biafra'],
+  ['lagos_app',         'bight_of_biafra'],
+  ['bight_of_biafra',   'luanda_app'],
+  ['gulf_of_guinea',    'luanda_app'],
+  ['luanda_app',        'walvis_app'],
+  ['walvis_app',        'cape_town_app'],
+  ['sao_roque',         'salvador_app'],
+  ['sao_roque',         'cape_palmas'],
+  ['salvador_app',      'abrolhos'],
+  ['abrolhos',          'rio_app'],
+  ['abrolhos',          'cape_town_app'],
+  ['rio_app',           'santos_app'],
+  ['rio_app',           'cape_town_app'],
+  ['santos_app',        'rio_grande_app'],
+  ['rio_grande_app',    'river_plate'],
+  ['river_plate',       'cape_horn',      'cape_horn'],
+  ['river_plate',       'cape_town_app'],
+
+  // Cape of Good Hope & East Africa
+  ['cape_town_app',     'cape_of_good_hope'],
+  ['cape_of_good_hope', 'agulhas',          'cape'],
+  ['agulhas',           'algoa_app'],
+  ['agulhas',           'south_madagascar'],
+  ['agulhas',           'southern_ocean'],
+  ['algoa_app',         'durban_app'],
+  ['durban_app',        'mozambique_south'],
+  ['durban_app',        'south_madagascar'],
+  ['mozambique_south',  'mozambique_mid'],
+  ['mozambique_mid',    'comoros_west'],
+  ['comoros_west',      'dar_app'],
+  ['comoros_west',      'pemba_east'],
+  ['dar_app',           'pemba_east'],
+  ['pemba_east',        'mombasa_app'],
+  ['pemba_east',        'somali_south'],
+  ['mombasa_app',       'somali_south'],
+  ['somali_south',      'somali_basin'],
+  ['somali_basin',      'off_hafun'],
+  ['somali_basin',      'arabian_sea_west'],
+  ['somali_basin',      'indian_ocean'],
+
+  // Indian Ocean
+  ['south_madagascar',  'mauritius_east'],
+  ['mauritius_east',    'indian_ocean'],
+  ['mauritius_east',    'indian_ocean_east'],
+  ['mauritius_east',    'southern_ocean'],
+];
+
+// ── Named areas ───────────────────────────────────────────────────────────────
+
+const box = (s: number, w: number, n: number, e: number) => [
+  { lat: s, lng: w }, { lat: s, lng: e }, { lat: n, lng: e }, { lat: n, lng: w },
+];
+
+export const SEA_AREAS: Record<string, SeaArea> = {
+  gulf_of_aden:       { name: 'Gulf of Aden',              polygon: box( 10.5,  43.0,  15.5,  52.0) },
+  southern_red_sea:   { name: 'Southern Red Sea',          polygon: box( 12.0,  39.0,  18.0,  44.0) },
+  red_sea:            { name: 'Red Sea',                   polygon: box( 12.0,  32.0,  28.5,  44.0) },
+  persian_gulf:       { name: 'Persian Gulf',              polygon: box( 23.5,  47.5,  30.5,  56.8) },
+  somali_basin:       { name: 'Somali Basin',              polygon: box( -5.0,  41.0,  12.0,  60.0) },
+  gulf_of_guinea:     { name: 'Gulf of Guinea',            polygon: box( -5.0,  -5.0,   7.0,  12.0) },
+  black_sea:          { name: 'Black Sea',                 polygon: box( 40.9,  27.3,  47.0,  42.0) },
+  baltic:             { name: 'Baltic Sea',                polygon: box( 53.5,  12.5,  61.0,  31.0) },
+  south_china_sea:    { name: 'South China Sea',           polygon: box(  3.0, 105.5,  23.0, 121.0) },
+  taiwan_strait:      { name: 'Taiwan Strait',             polygon: box( 22.5, 117.5,  26.0, 121.0) },
+  east_mediterranean: { name: 'Eastern Mediterranean',     polygon: box( 30.5,  28.0,  37.5,  36.5) },
+};
+
+// ── Land masks ────────────────────────────────────────────────────────────────
+
+/**
+ * Isthmuses a port's access leg would otherwise cut straight across to reach
+ * the far end of a canal (e.g. Hamburg to Kiel-Holtenau). Network edges are
+ * not checked against these.
+ */
+export const LAND_MASKS: SeaArea[] = [
+  {
+    name:    'Schleswig-Holstein',
+    polygon: [
+      { lat: 54.05, lng:  9.05 }, { lat: 53.95, lng:  9.20 }, { lat: 53.62, lng:  9.90 },
+      { lat: 53.70, lng: 10.50 }, { lat: 54.00, lng: 10.75 }, { lat: 54.25, lng: 10.05 },
+      { lat: 54.80, lng:  9.45 }, { lat: 55.00, lng:  8.70 }, { lat: 54.40, lng:  8.95 },
+    ],
+  },
+];
@@ -0,0 +1,255 @@
+/**
+ * Mari8X Risk Zones
+ *
+ * Configurable high-risk areas as polygons, in three categories:
+ *
+ *   piracy_hra   piracy high-risk areas (e.g. the Indian Ocean HRA)
+ *   war_risk     listed areas where war-risk cover is needed
+ *   sanctioned   waters where calls or transfers are restricted
+ *
+ * Zones live in a local JSON file (RISK_ZONES_FILE, an array of zones) that
+ * can be edited by hand or through the API; the file is re-read whenever it
+ * changes on disk. Without a file the bundled zones below apply, and
+ * ensureDefaultRiskZones() writes them out as a starting point.
+ *
+ * Sea routes flag the legs that cross active zones (sea-route.ts) and may
+ * avoid them by id; tracked vessels entering a zone raise an alert
+ * (ais/risk-zone-watch.ts).
+ *
+ * Environment: RISK_ZONES_FILE (default /root/.ankr/config/mari8x-risk-zones.json)
+ *
+ * © 2026 ANKR Labs — Mari8X Community Edition
+ */
+
+import * as fs   from 'fs';
+import * as path from 'path';
+import { haversineDistance, generateWaypoints, pointInPolygon } from '../lib/geo-utils.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type RiskCategory = 'piracy_hra' | 'war_risk' | 'sanctioned';
+export type RiskSeverity = 'low' | 'medium' | 'high';
+
+export interface RiskZone {
+  id:        string;
+  name:      string;
+  category:  RiskCategory;
+  severity:  RiskSeverity;
+  polygon:   Array<{ lat: number; lng: number }>;
+  notes:     string | null;
+  active:    boolean;
+  updatedBy: string;
+  updatedAt: string;
+}
+
+export interface RiskZoneInput {
+  name:       string;
+  category:   RiskCategory;
+  severity?:  RiskSeverity;
+  polygon:    Array<{ lat: number; lng: number }>;
+  notes?:     string | null;
+  active?:    boolean;
+  updatedBy?: string;
+}
+
+export interface RiskZoneCrossing {
+  id:         string;
+  name:       string;
+  category:   RiskCategory;
+  severity:   RiskSeverity;
+  distanceNm: number;          // sailed inside the zone
+}
+
+// ── Defaults ──────────────────────────────────────────────────────────────────
+
+export const RISK_CATEGORIES: RiskCategory[] = ['piracy_hra', 'war_risk', 'sanctioned'];
+export const RISK_SEVERITIES: RiskSeverity[] = ['low', 'medium', 'high'];
+
+const ring = (pts: Array<[number, number]>) => pts.map(([lat, lng]) => ({ lat, lng }));
+
+type BundledZone = Omit<RiskZone, 'updatedBy' | 'updatedAt' | 'active'>;
+
+const BUNDLED: BundledZone[] = [
+  {
+    id: 'indian_ocean_hra', name: 'Indian Ocean High Risk Area', category: 'piracy_hra', severity: 'high',
+    polygon: ring([[15.0, 41.8], [16.0, 52.5], [10.0, 60.0], [-5.0, 55.0], [-5.0, 39.3], [11.5, 43.0], [12.5, 43.3]]),
+    notes: 'Simplified outline; check the current industry HRA definition before relying on it',
+  },
+  {
+    id: 'gulf_of_guinea', name: 'Gulf of Guinea', category: 'piracy_hra', severity: 'medium',
+    polygon: ring([[6.3, 1.0], [6.5, 4.0], [4.5, 9.6], [2.0, 9.8], [0.0, 9.0], [0.0, 5.0], [3.0, 1.0]]),
+    notes: null,
+  },
+  {
+    id: 'southern_red_sea', name: 'Southern Red Sea and Gulf of Aden', category: 'war_risk', severity: 'high',
+    polygon: ring([[18.0, 38.5], [18.0, 42.5], [15.5, 50.0], [11.5, 51.0], [11.5, 43.0], [15.0, 39.5]]),
+    notes: null,
+  },
+  {
+    id: 'black_sea_north', name: 'Northern Black Sea and Sea of Azov', category: 'war_risk', severity: 'high',
+    polygon: ring([[47.8, 29.0], [47.8, 40.5], [44.5, 40.5], [44.0, 36.0], [44.5, 30.5], [45.2, 29.0]]),
+    notes: null,
+  },
+  {
+    id: 'persian_gulf', name: 'Persian Gulf and Gulf of Oman', category: 'war_risk', severity: 'medium',
+    polygon: ring([[30.5, 47.5], [30.5, 51.0], [26.5, 57.0], [25.0, 59.5], [22.5, 59.5], [24.0, 51.0]]),
+    notes: null,
+  },
+  {
+    id: 'dprk_waters', name: 'North Korean waters', category: 'sanctioned', severity: 'high',
+    polygon: ring([
+      [39.9, 124.0], [38.7, 123.8], [37.6, 124.6], [37.7, 126.1], [38.6, 128.4], [38.6, 131.0],
+      [41.5, 131.5], [42.3, 130.7], [40.0, 127.0],
+    ]),
+    notes: null,
+  },
+];
+
+// ── State ─────────────────────────────────────────────────────────────────────
+
+const ZONES_FILE = process.env.RISK_ZONES_FILE ?? '/root/.ankr/config/mari8x-risk-zones.json';
+const STEP_NM    = 5;
+
+let cached: { mtimeMs: number; zones: RiskZone[] } | null = null;
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+function bundled(): RiskZone[] {
+  const stamp = new Date(0).toISOString();
+  return BUNDLED.map(z => ({ ...z, active: true, updatedBy: 'system', updatedAt: stamp }));
+}
+
+function loadAll(): RiskZone[] {
+  if (!fs.existsSync(ZONES_FILE)) return bundled();
+  const mtimeMs = fs.statSync(ZONES_FILE).mtimeMs;
+  if (cached?.mtimeMs === mtimeMs) return cached.zones;
+  try {
+    const raw = JSON.parse(fs.readFileSync(ZONES_FILE, 'utf-8'));
+    if (!Array.isArray(raw)) throw new Error('expected an array of zones');
+    const zones = raw.map((z: any, i: number) => normalise(String(z?.id ?? ''), z, `zone ${i}`, z?.updatedAt));
+    cached = { mtimeMs, zones };
+  } catch (e) {
+    console.error(`[risk-zones] Failed to load ${ZONES_FILE}:`, (e as Error).message);
+    cached = { mtimeMs, zones: cached?.zones ?? bundled() };   // keep the last good set
+  }
+  return cached.zones;
+}
+
+function saveAll(zones: RiskZone[]) {
+  fs.mkdirSync(path.dirname(ZONES_FILE), { recursive: true });
+  fs.writeFileSync(ZONES_FILE, JSON.stringify(zones, null, 2));
+  cached = { mtimeMs: fs.statSync(ZONES_FILE).mtimeMs, zones };
+}
+
+// ── Validation ────────────────────────────────────────────────────────────────
+
+function normalise(id: string, input: RiskZoneInput, label: string, updatedAt?: string): RiskZone {
+  if (!/^[a-z0-9_-]+$/i.test(id))               throw new Error(`${label}: id must be letters, digits, - or _`);
+  if (!input?.name?.trim())                      throw new Error(`${label}: name is required`);
+  if (!RISK_CATEGORIES.includes(input.category)) throw new Error(`${label}: category must be one of ${RISK_CATEGORIES.join(', ')}`);
+  const severity = input.severity ?? 'medium';
+  if (!RISK_SEVERITIES.includes(severity))       throw new Error(`${label}: severity must be one of ${RISK_SEVERITIES.join(', ')}`);
+  if (!Array.isArray(input.polygon) || input.polygon.length < 3) {
+    throw new Error(`${label}: polygon needs at least 3 points`);
+  }
+  for (const v of input.polygon) {
+    if (typeof v?.lat !== 'number' || typeof v?.lng !== 'number' || Math.abs(v.lat) > 90 || Math.abs(v.lng) > 180) {
+      throw new Error(`${label}: invalid polygon point ${JSON.stringify(v)}`);
+    }
+  }
+  return {
+    id,
+    name:      input.name.trim(),
+    category:  input.category,
+    severity,
+    polygon:   input.polygon.map(v => ({ lat: v.lat, lng: v.lng })),
+    notes:     input.notes ?? null,
+    active:    input.active ?? true,
+    updatedBy: input.updatedBy ?? 'system',
+    updatedAt: updatedAt ?? new Date().toISOString(),
+  };
+}
+
+// ── Core API ──────────────────────────────────────────────────────────────────
+
+/** All zones, optionally only active ones, ordered by id. */
+export function listRiskZones(activeOnly = false): RiskZone[] {
+  return loadAll()
+    .filter(z => !activeOnly || z.active)
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+export function getRiskZone(id: string): RiskZone | null {
+  return loadAll().find(z => z.id === id) ?? null;
+}
+
+/**
+ * Create or replace one zone.
+ */
+export function setRiskZone(id: string, input: RiskZoneInput): RiskZone {
+  const zone  = normalise(id, input, id);
+  const zones = loadAll().filter(z => z.id !== id);
+  saveAll([...zones, zone]);
+  return zone;
+}
+
+/**
+ * Replace the whole set, e.g. from an imported file. Each entry needs an id.
+ */
+export function replaceRiskZones(inputs: Array<RiskZoneInput & { id: string }>, updatedBy?: string): RiskZone[] {
+  if (!Array.isArray(inputs)) throw new Error('zones must be an array');
+  const zones = inputs.map((z, i) => normalise(String(z?.id ?? ''), { ...z, updatedBy: updatedBy ?? z.updatedBy }, `zones[${i}]`));
+  if (new Set(zones.map(z => z.id)).size !== zones.length) throw new Error('duplicate zone id');
+  saveAll(zones);
+  return zones;
+}
+
+export function deleteRiskZone(id: string): boolean {
+  const zones = loadAll();
+  const next  = zones.filter(z => z.id !== id);
+  if (next.length === zones.length) return false;
+  saveAll(next);
+  return true;
+}
+
+/** Write the bundled zones to RISK_ZONES_FILE if it does not exist yet. */
+export function ensureDefaultRiskZones(): void {
+  if (!fs.existsSync(ZONES_FILE)) saveAll(bundled());
+}
+
+// ── Geometry ──────────────────────────────────────────────────────────────────
+
+/** Active zones containing the point. */
+export function riskZonesAt(lat: number, lng: number): RiskZone[] {
+  return listRiskZones(true).filter(z => pointInPolygon(lat, lng, z.polygon));
+}
+
+/**
+ * Active zones a great-circle leg passes through, with the distance sailed
+ * inside each (to within STEP_NM).
+ */
+export function legRiskZones(
+  a:     { lat: number; lng: number },
+  b:     { lat: number; lng: number },
+  zones: RiskZone[] = listRiskZones(true),
+): RiskZoneCrossing[] {
+  const nm = haversineDistance(a.lat, a.lng, b.lat, b.lng);
+  if (zones.length === 0 || nm === 0) return [];
+  const pts  = generateWaypoints(a.lat, a.lng, b.lat, b.lng, Math.max(1, Math.ceil(nm / STEP_NM)));
+  const step = nm / (pts.length - 1);
+
+  const inside = new Map<string, number>();
+  for (let i = 1; i < pts.length; i++) {
+    for (const z of zones) {
+      if (pointInPolygon(pts[i].lat, pts[i].lng, z.polygon)) inside.set(z.id, (inside.get(z.id) ?? 0) + step);
+    }
+  }
+  // A leg that starts inside a zone and leaves it within one step still crosses it
+  for (const z of zones) {
+    if (!inside.has(z.id) && pointInPolygon(a.lat, a.lng, z.polygon)) inside.set(z.id, 0);
+  }
+
+  return zones
+    .filter(z => inside.has(z.id))
+    .map(z => ({ id: z.id, name: z.name, category: z.category, severity: z.severity, distanceNm: round1(inside.get(z.id)!) }));
+}
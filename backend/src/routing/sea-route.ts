@@ -0,0 +1,279 @@
+/**
+ * Mari8X Sea Routing
+ *
+ * Shortest sea route between two points over the bundled sea-lane network
+ * (network.ts). The origin and destination are joined to their nearest
+ * network nodes by access legs, then Dijkstra runs over great-circle leg
+ * lengths:
+ *
+ *   avoidPassages  drop every leg tagged with one of these passages
+ *                  (e.g. ['suez'] sends Europe–Asia traffic round the Cape)
+ *   avoidAreas     drop every leg with a sampled point inside one of these
+ *                  areas — a named area from SEA_AREAS, a risk zone id
+ *                  (risk-zones.ts) or a custom polygon
+ *
+ * The result lists the path nodes, the passages used, the per-leg distances,
+ * a densified great-circle waypoint list for drawing the route, the
+ * mileage inside emission control areas with entry and exit points (eca.ts),
+ * and the active risk zones each leg crosses.
+ *
+ * © 2026 ANKR Labs — Mari8X Community Edition
+ */
+
+import { prisma } from '../lib/prisma.js';
+import { haversineDistance, generateWaypoints, pointInPolygon } from '../lib/geo-utils.js';
+import {
+  SEA_NODES, SEA_EDGES, SEA_AREAS, PASSAGES, LAND_MASKS,
+  type PassageId, type SeaArea,
+} from './network.js';
+import { routeEca, listEcas, type RouteEca } from './eca.js';
+import { listRiskZones, getRiskZone, legRiskZones, type RiskZoneCrossing } from './risk-zones.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export type AvoidArea = string | SeaArea;
+
+export interface SeaRouteOptions {
+  avoidPassages?: PassageId[];
+  avoidAreas?:    AvoidArea[];
+  accessNodes?:   number;        // nearest network nodes each end may join (default 3)
+}
+
+export interface SeaRouteLeg {
+  from:       string;
+  to:         string;
+  distanceNm: number;
+  passage:    PassageId | null;
+  riskZones:  string[];          // ids of active risk zones the leg crosses
+}
+
+export interface SeaRoute {
+  distanceNm: number;
+  nodes:      string[];          // network node ids, origin and destination excluded
+  passages:   Array<{ id: PassageId; name: string; canal: boolean }>;
+  legs:       SeaRouteLeg[];
+  waypoints:  LatLng[];
+  avoided:    { passages: PassageId[]; areas: string[] };
+  eca:        RouteEca;
+  riskZones:  RiskZoneCrossing[];
+}
+
+export interface RoutePort {
+  unlocode: string;
+  name:     string;
+  lat:      number;
+  lng:      number;
+}
+
+type Adjacent = { to: string; nm: number; passage: PassageId | null };
+
+// ── Config ────────────────────────────────────────────────────────────────────
+
+const ORIGIN           = '@origin';
+const DESTINATION      = '@destination';
+const DEFAULT_ACCESS   = 3;
+const ACCESS_SLACK_NM  = 30;    // access legs much longer than the nearest one tend to cross land
+const SAMPLE_STEP_NM   = 25;    // area checks along a leg
+const WAYPOINT_STEP_NM = 100;   // waypoint spacing in the drawn route
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+// ── Graph ─────────────────────────────────────────────────────────────────────
+
+let baseGraph: Map<string, Adjacent[]> | null = null;
+
+function graph(): Map<string, Adjacent[]> {
+  if (baseGraph) return baseGraph;
+  const g = new Map<string, Adjacent[]>(Object.keys(SEA_NODES).map(id => [id, []]));
+  for (const [from, to, passage] of SEA_EDGES) {
+    const a = SEA_NODES[from], b = SEA_NODES[to];
+    if (!a || !b) throw new Error(`Sea-lane edge ${from} → ${to} references an unknown node`);
+    const nm = haversineDistance(a.lat, a.lng, b.lat, b.lng);
+    g.get(from)!.push({ to,       nm, passage: passage ?? null });
+    g.get(to)!.push({ to: from,   nm, passage: passage ?? null });
+  }
+  baseGraph = g;
+  return g;
+}
+
+function resolveAreas(areas: AvoidArea[]): SeaArea[] {
+  return areas.map(a => {
+    if (typeof a !== 'string') {
+      if (!Array.isArray(a.polygon) || a.polygon.length < 3) throw new Error(`Area ${a.name ?? ''} needs a polygon of at least 3 points`);
+      return a;
+    }
+    const named = SEA_AREAS[a] ?? getRiskZone(a);
+    if (!named) throw new Error(`Unknown area: ${a} (known: ${Object.keys(SEA_AREAS).join(', ')}, or a risk zone id)`);
+    return named;
+  });
+}
+
+function resolvePassages(ids: string[]): PassageId[] {
+  for (const id of ids) {
+    if (!(id in PASSAGES)) throw new Error(`Unknown passage: ${id} (known: ${Object.keys(PASSAGES).join(', ')})`);
+  }
+  return ids as PassageId[];
+}
+
+function legSamples(a: LatLng, b: LatLng, nm: number): LatLng[] {
+  return generateWaypoints(a.lat, a.lng, b.lat, b.lng, Math.max(1, Math.ceil(nm / SAMPLE_STEP_NM)));
+}
+
+function crossesArea(a: LatLng, b: LatLng, nm: number, areas: SeaArea[]): boolean {
+  if (areas.length === 0) return false;
+  return legSamples(a, b, nm).some(p => areas.some(area => pointInPolygon(p.lat, p.lng, area.polygon)));
+}
+
+function pointOf(id: string, from: LatLng, to: LatLng): LatLng {
+  if (id === ORIGIN)      return from;
+  if (id === DESTINATION) return to;
+  return SEA_NODES[id];
+}
+
+/**
+ * Nearest network nodes to a point, joined by legs that avoid the areas and
+ * the land masks (except one the point itself lies in).
+ * Only nodes about as near as the nearest one qualify.
+ */
+function accessLegs(p: LatLng, k: number, areas: SeaArea[]): Adjacent[] {
+  const blocked = [...areas, ...LAND_MASKS.filter(m => !pointInPolygon(p.lat, p.lng, m.polygon))];
+  const legs = Object.entries(SEA_NODES)
+    .map(([id, n]) => ({ to: id, nm: haversineDistance(p.lat, p.lng, n.lat, n.lng), passage: null }))
+    .sort((a, b) => a.nm - b.nm)
+    .filter(a => !crossesArea(p, SEA_NODES[a.to], a.nm, blocked));
+  if (legs.length === 0) return [];
+  const limit = Math.max(legs[0].nm * 2, legs[0].nm + ACCESS_SLACK_NM);
+  return legs.filter(a => a.nm <= limit).slice(0, k);
+}
+
+// ── Search ────────────────────────────────────────────────────────────────────
+
+/**
+ * Shortest sea route from `from` to `to`. Throws when the restrictions leave
+ * no connected route.
+ */
+export function findSeaRoute(from: LatLng, to: LatLng, opts: SeaRouteOptions = {}): SeaRoute {
+  const avoidPassages = new Set(resolvePassages(opts.avoidPassages ?? []));
+  const areas         = resolveAreas(opts.avoidAreas ?? []);
+  const k             = opts.accessNodes ?? DEFAULT_ACCESS;
+
+  const usable = (a: LatLng, adj: Adjacent, b: LatLng) =>
+    !(adj.passage && avoidPassages.has(adj.passage)) && !crossesArea(a, b, adj.nm, areas);
+
+  const originLegs = accessLegs(from, k, areas);
+  const destLegs   = new Map(accessLegs(to, k, areas).map(a => [a.to, a.nm]));
+  if (originLegs.length === 0 || destLegs.size === 0) {
+    throw new Error('Origin or destination lies inside an avoided area');
+  }
+
+  // Two points nearer each other than to the network (same port, adjacent
+  // berths) are joined directly
+  const directNm = haversineDistance(from.lat, from.lng, to.lat, to.lng);
+  const neighbours = (id: string): Adjacent[] => {
+    const out = id === ORIGIN ? [...originLegs] : graph().get(id)!.filter(adj =>
+      usable(SEA_NODES[id], adj, SEA_NODES[adj.to]));
+    if (id === ORIGIN && directNm <= originLegs[0].nm) out.push({ to: DESTINATION, nm: directNm, passage: null });
+    const toDest = destLegs.get(id);
+    if (toDest != null) out.push({ to: DESTINATION, nm: toDest, passage: null });
+    return out;
+  };
+
+  const dist = new Map<string, number>([[ORIGIN, 0]]);
+  const prev = new Map<string, { id: string; leg: Adjacent }>();
+  const done = new Set<string>();
+
+  while (true) {
+    let cur: string | null = null;
+    for (const [id, d] of dist) if (!done.has(id) && (cur === null || d < dist.get(cur)!)) cur = id;
+    if (cur === null) throw new Error('No sea route found with the given restrictions');
+    if (cur === DESTINATION) break;
+    done.add(cur);
+
+    for (const adj of neighbours(cur)) {
+      const d = dist.get(cur)! + adj.nm;
+      if (d < (dist.get(adj.to) ?? Infinity)) {
+        dist.set(adj.to, d);
+        prev.set(adj.to, { id: cur, leg: adj });
+      }
+    }
+  }
+
+  // Walk back from the destination
+  const steps: Array<{ from: string; leg: Adjacent }> = [];
+  for (let id = DESTINATION; id !== ORIGIN; id = prev.get(id)!.id) {
+    const p = prev.get(id)!;
+    steps.unshift({ from: p.id, leg: p.leg });
+  }
+
+  const label = (id: string) => id === ORIGIN ? 'origin' : id === DESTINATION ? 'destination' : id;
+  const zones = listRiskZones(true);
+  const risks = new Map<string, RiskZoneCrossing>();
+  const legs: SeaRouteLeg[] = steps.map(s => {
+    const crossed = legRiskZones(pointOf(s.from, from, to), pointOf(s.leg.to, from, to), zones);
+    for (const c of crossed) {
+      const seen = risks.get(c.id);
+      risks.set(c.id, seen ? { ...seen, distanceNm: round1(seen.distanceNm + c.distanceNm) } : c);
+    }
+    return {
+      from:       label(s.from),
+      to:         label(s.leg.to),
+      distanceNm: round1(s.leg.nm),
+      passage:    s.leg.passage,
+      riskZones:  crossed.map(c => c.id),
+    };
+  });
+
+  const waypoints: LatLng[] = [];
+  for (const s of steps) {
+    const a = pointOf(s.from, from, to), b = pointOf(s.leg.to, from, to);
+    const pts = generateWaypoints(a.lat, a.lng, b.lat, b.lng, Math.max(1, Math.ceil(s.leg.nm / WAYPOINT_STEP_NM)));
+    waypoints.push(...(waypoints.length ? pts.slice(1) : pts));
+  }
+
+  const used = [...new Set(steps.map(s => s.leg.passage).filter((p): p is PassageId => p !== null))];
+
+  return {
+    distanceNm: round1(dist.get(DESTINATION)!),
+    nodes:      steps.map(s => s.leg.to).filter(id => id !== DESTINATION),
+    passages:   used.map(id => ({ id, ...PASSAGES[id] })),
+    legs,
+    waypoints:  waypoints.map(p => ({ lat: Math.round(p.lat * 1e4) / 1e4, lng: Math.round(p.lng * 1e4) / 1e4 })),
+    avoided:    { passages: [...avoidPassages], areas: areas.map(a => a.name) },
+    eca:        routeEca(waypoints),
+    riskZones:  [...risks.values()],
+  };
+}
+
+/** Passages, named areas and risk zones callers can pass to findSeaRoute, and the bundled ECAs. */
+export function listRoutingOptions() {
+  return {
+    passages:  Object.entries(PASSAGES).map(([id, p]) => ({ id, ...p })),
+    areas:     Object.entries(SEA_AREAS).map(([id, a]) => ({ id, name: a.name })),
+    riskZones: listRiskZones(true).map(z => ({ id: z.id, name: z.name, category: z.category, severity: z.severity })),
+    ecas:      listEcas(),
+  };
+}
+
+// ── Ports ─────────────────────────────────────────────────────────────────────
+
+async function loadRoutePort(unlocode: string): Promise<RoutePort> {
+  const p = await prisma.port.findUnique({ where: { unlocode: unlocode.toUpperCase() } });
+  if (!p || p.lat == null || p.lng == null) throw new Error(`Port ${unlocode} not found or missing coordinates`);
+  return { unlocode: p.unlocode, name: p.name, lat: p.lat, lng: p.lng };
+}
+
+/** Sea route between two ports by UN/LOCODE. */
+export async function findPortRoute(
+  fromUnlocode: string,
+  toUnlocode:   string,
+  opts:         SeaRouteOptions = {},
+): Promise<{ fromPort: RoutePort; toPort: RoutePort; route: SeaRoute }> {
+  const fromPort = await loadRoutePort(fromUnlocode);
+  const toPort   = await loadRoutePort(toUnlocode);
+  return { fromPort, toPort, route: findSeaRoute(fromPort, toPort, opts) };
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('fs', () => import('../test/mem-fs.js'));
+vi.mock('../lib/prisma.js', () => {
+  const ports: Record<string, { unlocode: string; name: string; lat: number; lng: number }> = {
+    SGSIN: { unlocode: 'SGSIN', name: 'Singapore',  lat: 1.264,  lng: 103.84 },
+    MYPKG: { unlocode: 'MYPKG', name: 'Port Klang', lat: 2.999,  lng: 101.39 },
+    IDJKT: { unlocode: 'IDJKT', name: 'Jakarta',    lat: -6.104, lng: 106.88 },
+  };
+  return {
+    prisma: { port: { findUnique: async ({ where }: { where: { unlocode: string } }) => ports[where.unlocode] ?? null } },
+  };
+});
+
+import { files } from '../test/mem-fs.js';
+import { planVoyage, applyVoyagePlan } from './voyage-plan.js';
+import { getETA, markArrived, listAllETAs } from '../agent/eta.js';
+
+const departure = '2026-10-01T00:00:00.000Z';
+const hoursAfter = (iso: string, h: number) => new Date(Date.parse(iso) + h * 3600_000).toISOString();
+
+beforeEach(() => files.clear());
+
+describe('planVoyage', () => {
+  it('chains sailing time and port stay through the rotation', async () => {
+    const plan = await planVoyage({ ports: ['sgsin', 'MYPKG', 'IDJKT'], departure, speedKnots: [10, 15], portStayHours: [12] });
+    const [leg1, leg2] = plan.legs;
+
+    expect(plan.calls.map(c => [c.callNo, c.unlocode, c.stayHours])).toEqual([[0, 'SGSIN', 0], [1, 'MYPKG', 12], [2, 'IDJKT', 12]]);
+    expect(leg1).toMatchObject({ from: 'SGSIN', to: 'MYPKG', speedKnots: 10, departure });
+    expect(leg1.sailingHours).toBeCloseTo(leg1.distanceNm / 10, 1);
+    expect(leg2.departure).toBe(hoursAfter(leg1.arrival, 12));
+    expect(plan.calls[1]).toMatchObject({ eta: leg1.arrival, etd: leg2.departure });
+    expect(plan).toMatchObject({ arrival: leg2.arrival, completion: hoursAfter(leg2.arrival, 12), totalPortHours: 24 });
+  });
+
+  it('rejects a short rotation, a bad departure and mismatched per-leg values', async () => {
+    await expect(planVoyage({ ports: ['SGSIN'], departure })).rejects.toThrow('at least two ports');
+    await expect(planVoyage({ ports: ['SGSIN', 'MYPKG'], departure: 'soon' })).rejects.toThrow('Invalid departure');
+    await expect(planVoyage({ ports: ['SGSIN', 'MYPKG', 'IDJKT'], departure, speedKnots: [10, 12, 14] }))
+      .rejects.toThrow('speedKnots needs 2 values');
+    await expect(planVoyage({ ports: ['SGSIN', 'MYPKG'], departure, speedKnots: [0] })).rejects.toThrow('> 0');
+    await expect(planVoyage({ ports: ['SGSIN', 'XXXXX'], departure })).rejects.toThrow('XXXXX not found');
+  });
+});
+
+describe('applyVoyagePlan', () => {
+  const input = { voyageId: 'V1', vesselName: 'MV TEST', vesselIMO: '9000001', departure };
+
+  it('writes a planner ETA for every call after the origin', async () => {
+    const { plan, etas, removed } = await applyVoyagePlan({ ...input, ports: ['SGSIN', 'MYPKG', 'IDJKT'] });
+    expect(etas.map(e => e.voyageId)).toEqual(['V1-1-MYPKG', 'V1-2-IDJKT']);
+    expect(getETA('V1-2-IDJKT')).toMatchObject({ portCode: 'IDJKT', currentETA: plan.arrival, source: 'planner' });
+    expect(removed).toEqual([]);
+  });
+
+  it('removes calls a new rotation drops, but not ones the vessel reached', async () => {
+    await applyVoyagePlan({ ...input, ports: ['SGSIN', 'MYPKG', 'IDJKT'] });
+    await applyVoyagePlan({ ...input, voyageId: 'V10', ports: ['SGSIN', 'IDJKT'] });
+
+    const { removed } = await applyVoyagePlan({ ...input, ports: ['SGSIN', 'IDJKT'] });
+    expect(removed).toEqual(['V1-1-MYPKG', 'V1-2-IDJKT']);
+    expect(listAllETAs().map(e => e.voyageId).sort()).toEqual(['V1-1-IDJKT', 'V10-1-IDJKT']);
+
+    markArrived('V1-1-IDJKT', undefined, { at: departure });
+    expect((await applyVoyagePlan({ ...input, ports: ['SGSIN', 'MYPKG'] })).removed).toEqual([]);
+    expect(getETA('V1-1-IDJKT')?.ata).toBe(departure);
+  });
+
+  it('requires a voyage and vessel name', async () => {
+    await expect(applyVoyagePlan({ ...input, voyageId: ' ', ports: ['SGSIN', 'MYPKG'] })).rejects.toThrow('voyageId');
+    await expect(applyVoyagePlan({ ...input, vesselName: '', ports: ['SGSIN', 'MYPKG'] })).rejects.toThrow('vesselName');
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Mari8X Voyage Planner
+ *
+ * Plans a rotation — an ordered list of ports — over the sea-lane network
+ * (sea-route.ts). For each leg: distance, speed and sailing time; for each
+ * call: ETA, expected stay and ETD. The clock starts at the departure time
+ * from the first port:
+ *
+ *   arrival(n)    = departure(n-1) + distance(n) / speed(n)
+ *   departure(n)  = arrival(n) + portStayHours(n)
+ *
+ * speedKnots is per leg and portStayHours is per call (every port after the
+ * first); a single value applies to all of them. Each leg also carries its
+ * ECA mileage and the times it enters and leaves each ECA (eca.ts), for
+ * planning low-sulphur fuel, and the risk zones it crosses (risk-zones.ts).
+ *
+ * applyVoyagePlan() also writes each call's ETA into the ETA tracker
+ * (agent/eta.ts) as voyage `${voyageId}-${n}-${UNLOCODE}`, so re-planning the
+ * same rotation updates those records and their ETA history. Calls a new
+ * rotation no longer has are removed, unless the vessel already arrived.
+ *
+ * © 2026 ANKR Labs — Mari8X Community Edition
+ */
+
+import { findPortRoute, type RoutePort, type SeaRouteOptions } from './sea-route.js';
+import type { PassageId } from './network.js';
+import type { RiskZoneCrossing } from './risk-zones.js';
+import { upsertETA, listAllETAs, deleteETA, type EtaRecord } from '../agent/eta.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface VoyagePlanInput extends SeaRouteOptions {
+  ports:          string[];     // UN/LOCODEs in call order, origin first
+  departure:      string;       // ISO 8601, from the first port
+  speedKnots?:    number[];     // per leg (default 14)
+  portStayHours?: number[];     // per call after the origin (default 24)
+}
+
+export interface VoyagePlanLeg {
+  legNo:         number;
+  from:          string;
+  to:            string;
+  distanceNm:    number;
+  speedKnots:    number;
+  sailingHours:  number;
+  departure:     string;
+  arrival:       string;
+  passages:      PassageId[];
+  ecaDistanceNm: number;
+  ecas:          VoyagePlanEca[];
+  riskZones:     RiskZoneCrossing[];   // active risk zones on the leg
+}
+
+export interface VoyagePlanEca {
+  eca:        string;
+  name:       string;
+  entryAt:    string | null;   // null when the leg starts inside
+  exitAt:     string | null;   // null when the leg ends inside
+  distanceNm: number;
+}
+
+export interface VoyagePlanCall {
+  callNo:    number;          // 0 = origin
+  unlocode:  string;
+  name:      string;
+  eta:       string | null;   // null for the origin
+  etd:       string;
+  stayHours: number;
+}
+
+export interface VoyagePlan {
+  departure:          string;
+  arrival:            string;          // ETA at the last port
+  completion:         string;          // ETD from the last port
+  totalDistanceNm:    number;
+  totalEcaDistanceNm: number;
+  totalSailingHours:  number;
+  totalPortHours:     number;
+  totalHours:         number;          // departure → completion
+  totalDays:          number;
+  legs:               VoyagePlanLeg[];
+  calls:              VoyagePlanCall[];
+}
+
+export interface ApplyVoyagePlanInput extends VoyagePlanInput {
+  voyageId:   string;
+  vesselName: string;
+  vesselIMO?: string;
+}
+
+// ── Config ────────────────────────────────────────────────────────────────────
+
+const DEFAULT_SPEED_KT   = 14;
+const DEFAULT_STAY_HOURS = 24;
+const ETA_SOURCE         = 'planner';
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+const iso    = (ms: number) => new Date(ms).toISOString();
+
+/** One value per slot: a single value is repeated, a missing one defaults. */
+function perSlot(values: number[] | undefined, slots: number, fallback: number, label: string): number[] {
+  const list = values ?? [];
+  if (list.length > 1 && list.length !== slots) {
+    throw new Error(`${label} needs ${slots} values (one per ${label === 'speedKnots' ? 'leg' : 'call'}) or a single value, got ${list.length}`);
+  }
+  return Array.from({ length: slots }, (_, i) => list.length === 1 ? list[0] : (list[i] ?? fallback));
+}
+
+// ── Planning ──────────────────────────────────────────────────────────────────
+
+export async function planVoyage(input: VoyagePlanInput): Promise<VoyagePlan> {
+  const ports = input.ports.map(p => p.trim().toUpperCase()).filter(Boolean);
+  if (ports.length < 2) throw new Error('A voyage needs at least two ports');
+
+  const start = new Date(input.departure).getTime();
+  if (isNaN(start)) throw new Error(`Invalid departure time: ${input.departure}`);
+
+  const speeds = perSlot(input.speedKnots,    ports.length - 1, DEFAULT_SPEED_KT,   'speedKnots');
+  const stays  = perSlot(input.portStayHours, ports.length - 1, DEFAULT_STAY_HOURS, 'portStayHours');
+  if (speeds.some(s => !(s > 0)))  throw new Error('speedKnots must be > 0');
+  if (stays.some(h => !(h >= 0)))  throw new Error('portStayHours must be >= 0');
+
+  const legs:  VoyagePlanLeg[]  = [];
+  const calls: VoyagePlanCall[] = [];
+  let   t = start;
+  let   distance = 0, ecaDistance = 0, sailing = 0;
+
+  for (let i = 1; i < ports.length; i++) {
+    const { fromPort, toPort, route } = await findPortRoute(ports[i - 1], ports[i], input);
+    if (i === 1) calls.push(toCall(0, fromPort, null, start, 0));
+
+    const hours  = route.distanceNm / speeds[i - 1];
+    const depart = t;
+    const arrive = depart + hours * 3600_000;
+    const at     = (nm: number) => iso(depart + nm / speeds[i - 1] * 3600_000);
+    t = arrive + stays[i - 1] * 3600_000;
+
+    legs.push({
+      legNo:         i,
+      from:          fromPort.unlocode,
+      to:            toPort.unlocode,
+      distanceNm:    route.distanceNm,
+      speedKnots:    speeds[i - 1],
+      sailingHours:  round1(hours),
+      departure:     iso(depart),
+      arrival:       iso(arrive),
+      passages:      route.passages.map(p => p.id),
+      ecaDistanceNm: route.eca.distanceNm,
+      ecas:          route.eca.segments.map(s => ({
+        eca:        s.eca,
+        name:       s.name,
+        entryAt:    s.entry ? at(s.entryAtNm) : null,
+        exitAt:     s.exit  ? at(s.exitAtNm)  : null,
+        distanceNm: s.distanceNm,
+      })),
+      riskZones:     route.riskZones,
+    });
+    calls.push(toCall(i, toPort, arrive, t, stays[i - 1]));
+    distance    += route.distanceNm;
+    ecaDistance += route.eca.distanceNm;
+    sailing     += hours;
+  }
+
+  const last = calls[calls.length - 1];
+  return {
+    departure:          iso(start),
+    arrival:            last.eta!,
+    completion:         last.etd,
+    totalDistanceNm:    round1(distance),
+    totalEcaDistanceNm: round1(ecaDistance),
+    totalSailingHours:  round1(sailing),
+    totalPortHours:     round1(stays.reduce((a, b) => a + b, 0)),
+    totalHours:         round1((t - start) / 3600_000),
+    totalDays:          round1((t - start) / 86_400_000),
+    legs,
+    calls,
+  };
+}
+
+function toCall(callNo: number, port: RoutePort, eta: number | null, etd: number, stayHours: number): VoyagePlanCall {
+  return {
+    callNo,
+    unlocode:  port.unlocode,
+    name:      port.name,
+    eta:       eta == null ? null : iso(eta),
+    etd:       iso(etd),
+    stayHours,
+  };
+}
+
+/** ETA tracker key for a planned call. */
+function callEtaId(voyageId: string, callNo: number, unlocode: string): string {
+  return `${voyageId}-${callNo}-${unlocode}`;
+}
+
+/**
+ * Plan the rotation and push each call's ETA into the ETA tracker; ETAs of
+ * an earlier plan for calls no longer in the rotation are removed
+ * (`removed` lists their ids).
+ */
+export async function applyVoyagePlan(
+  input: ApplyVoyagePlanInput,
+): Promise<{ plan: VoyagePlan; etas: EtaRecord[]; removed: string[] }> {
+  if (!input.voyageId?.trim())   throw new Error('voyageId is required');
+  if (!input.vesselName?.trim()) throw new Error('vesselName is required');
+
+  const plan = await planVoyage(input);
+  const etas = plan.calls
+    .filter(c => c.eta)
+    .map(c => upsertETA({
+      voyageId:   callEtaId(input.voyageId, c.callNo, c.unlocode),
+      vesselName: input.vesselName,
+      vesselIMO:  input.vesselIMO,
+      portCode:   c.unlocode,
+      portName:   c.name,
+      eta:        c.eta!,
+      source:     ETA_SOURCE,
+      remarks:    `Voyage plan ${input.voyageId}, call ${c.callNo} of ${plan.calls.length - 1}`,
+    }));
+
+  // Earlier plans' calls: same voyage, planner key shape, not in this rotation
+  const keep    = new Set(etas.map(e => e.voyageId));
+  const prefix  = `${input.voyageId}-`;
+  const ownKey  = (id: string) => id.startsWith(prefix) && /^\d+-[A-Z0-9]{5}$/.test(id.slice(prefix.length));
+  const removed = listAllETAs()
+    .filter(e => ownKey(e.voyageId) && !keep.has(e.voyageId) && !e.ata)
+    .map(e => e.voyageId)
+    .filter(id => deleteETA(id));
+  return { plan, etas, removed };
+}
@@ -17,6 +17,9 @@ import './types/vessel-registry.js';
 import './types/amosconnect.js';
 import './types/noon-report.js';
 import './types/crew-welfare.js';
+import './types/congestion.js';
+import './types/ais.js';
+import './types/chartering.js';
 
 // Build and export schema
 export const schema = builder.toSchema();
@@ -7,6 +7,13 @@
  *   voyageSchedule(portCode, window) — ETA-ordered arrival timeline
  *   portDashboard(portCode, ...)    — aggregated port view
  *   portAlerts(portCode)            — active arrival alert queue
+ *   daForecast(portCode, ...)       — indicative DA for a vessel
+ *   portDATariffs(portCode)         — port DA tariff versions
+ *   fxRates(currency)               — dated FX rates against USD
+ *   convertCurrency(amount, ...)    — an amount converted, with the rate used
+ *
+ * Mutations add, edit and delete port DA tariff versions (agent/da-tariffs.ts)
+ * and FX rates (agent/fx-rates.ts).
  *
  * Types use JSON scalar for nested complex objects
  * (consistent with routing.ts pattern).
@@ -20,12 +27,31 @@ import { getVesselProfile } from '../../agent/vessel-profile.js';
 import { getPortCongestion, getAllPortsCongestion } from '../../congestion/engine.js';
 import {
   forecastDA,
+  forecastDAForVessel,
 }                          from '../../agent/da-forecast.js';
+import {
+  listPortTariffs,
+  getPortTariff,
+  addPortTariff,
+  updatePortTariff,
+  deletePortTariff,
+  type PortTariff,
+  type PortTariffInput,
+  type PortTariffUpdate,
+}                          from '../../agent/da-tariffs.js';
+import {
+  listFxRates,
+  setFxRate,
+  deleteFxRate,
+  convertAmount,
+  type FxRate,
+}                          from '../../agent/fx-rates.js';
 import {
   getChecklist,
   listOpenChecklists,
 }                          from '../../agent/documents.js';
 import { getAlerts, evaluateAlerts } from '../../agent/alerts.js';
+import { loadForecastBasis, projectCongestion, HORIZON_HOURS as FORECAST_HORIZON_HOURS } from '../../congestion/forecast.js';
 
 // ── PreArrival types ───────────────────────────────────────────────────────────
 
@@ -37,6 +63,12 @@ const PreArrivalVesselType = builder.objectRef<{
   distanceNm:  number;
   speedKt:     number;
   confidence:  string;
+  basis:       string;
+  etaSource:   string;
+  destination: string | null;
+  destinationUnlocode: string | null;
+  reportedEta: string | null;
+  draught:     number | null;
 }>('PreArrivalVessel').implement({
   fields: (t) => ({
     imo:        t.exposeString('imo'),
@@ -46,6 +78,12 @@ const PreArrivalVesselType = builder.objectRef<{
     distanceNm: t.exposeFloat('distanceNm'),
     speedKt:    t.exposeFloat('speedKt'),
     confidence: t.exposeString('confidence'),
+    basis:      t.exposeString('basis'),
+    etaSource:  t.exposeString('etaSource'),
+    destination:         t.exposeString('destination', { nullable: true }),
+    destinationUnlocode: t.exposeString('destinationUnlocode', { nullable: true }),
+    reportedEta:         t.exposeString('reportedEta', { nullable: true }),
+    draught:             t.exposeFloat('draught', { nullable: true }),
   }),
 });
 
@@ -77,6 +115,8 @@ const VesselProfileType = builder.objectRef<{
   congestion:   any | null;
   daForecast:   any | null;
   openChecklists: any[];
+  aisGaps:      any[];
+  portVisits:   any[];
   generatedAt:  string;
 }>('VesselProfile').implement({
   fields: (t) => ({
@@ -89,6 +129,8 @@ const VesselProfileType = builder.objectRef<{
     congestion:     t.field({ type: 'JSON', nullable: true, resolve: (p) => p.congestion }),
     daForecast:     t.field({ type: 'JSON', nullable: true, resolve: (p) => p.daForecast }),
     openChecklists: t.field({ type: ['JSON'], resolve: (p) => p.openChecklists }),
+    aisGaps:        t.field({ type: ['JSON'], resolve: (p) => p.aisGaps ?? [] }),
+    portVisits:     t.field({ type: ['JSON'], resolve: (p) => p.portVisits ?? [] }),
     generatedAt:    t.exposeString('generatedAt'),
   }),
 });
@@ -122,6 +164,7 @@ const PortDashboardType = builder.objectRef<{
   preArrival:  any | null;
   documents:   any;
   daForecast:  any | null;
+  arrivalDA:   any[];
 }>('PortDashboard').implement({
   fields: (t) => ({
     port:        t.field({ type: 'JSON', resolve: (p) => p.port }),
@@ -130,6 +173,7 @@ const PortDashboardType = builder.objectRef<{
     preArrival:  t.field({ type: 'JSON', nullable: true, resolve: (p) => p.preArrival }),
     documents:   t.field({ type: 'JSON', resolve: (p) => p.documents }),
     daForecast:  t.field({ type: 'JSON', nullable: true, resolve: (p) => p.daForecast }),
+    arrivalDA:   t.field({ type: ['JSON'], resolve: (p) => p.arrivalDA }),
   }),
 });
 
@@ -159,6 +203,37 @@ const ArrivalAlertType = builder.objectRef<{
   }),
 });
 
+// ── DA tariff type ────────────────────────────────────────────────────────────
+
+const PortDATariffType = builder.objectRef<PortTariff>('PortDATariff').implement({
+  fields: (t) => ({
+    id:            t.exposeString('id'),
+    unlocode:      t.exposeString('unlocode'),
+    version:       t.exposeInt('version'),
+    effectiveFrom: t.exposeString('effectiveFrom'),
+    effectiveTo:   t.exposeString('effectiveTo', { nullable: true }),
+    rates:         t.field({ type: 'JSON', resolve: (p) => p.rates }),
+    notes:         t.exposeString('notes', { nullable: true }),
+    createdBy:     t.exposeString('createdBy'),
+    createdAt:     t.exposeString('createdAt'),
+    updatedBy:     t.exposeString('updatedBy'),
+    updatedAt:     t.exposeString('updatedAt'),
+  }),
+});
+
+// ── FX rate type ──────────────────────────────────────────────────────────────
+
+const FxRateType = builder.objectRef<FxRate>('FxRate').implement({
+  fields: (t) => ({
+    currency:   t.exposeString('currency'),
+    date:       t.exposeString('date'),
+    usdPerUnit: t.exposeFloat('usdPerUnit'),
+    source:     t.exposeString('source', { nullable: true }),
+    recordedBy: t.exposeString('recordedBy'),
+    recordedAt: t.exposeString('recordedAt'),
+  }),
+});
+
 // ── Queries ───────────────────────────────────────────────────────────────────
 
 builder.queryFields((t) => ({
@@ -201,18 +276,21 @@ builder.queryFields((t) => ({
     resolve: async (_, args) => {
       const portCode  = args.portCode;
       const windowHrs = args.window ?? 72;
+      // One pre-arrival scan serves both the cards and the forecast horizon
       const [preArrival, congestion] = await Promise.all([
-        getPreArrivalVessels(portCode, windowHrs),
+        getPreArrivalVessels(portCode, Math.max(windowHrs, FORECAST_HORIZON_HOURS)),
         getPortCongestion(portCode),
       ]);
       if (!preArrival) return null;
+      const forecastBasis = await loadForecastBasis(portCode, { congestion, preArrival });
 
       const allOpen   = listOpenChecklists();
       const portUpper = portCode.toUpperCase();
-      const daBase    = forecastDA(portCode, { grt: 50000, loaMetres: 250, teuCapacity: 4000 });
 
-      const arrivals = preArrival.vessels.map((v: any) => {
+      const arrivals = preArrival.vessels.filter(v => v.etaHours <= windowHrs).map((v: any) => {
         const checklist = allOpen.find((c: any) => c.imo === v.imo && c.portUnlocode === portUpper) ?? null;
+        const forecast  = forecastBasis ? projectCongestion(forecastBasis, new Date(v.etaAt)) : null;
+        const da        = forecastDAForVessel(portCode, v.imo, v.etaAt);
         return {
           imo:         v.imo,
           vesselName:  v.name,
@@ -227,12 +305,15 @@ builder.queryFields((t) => ({
             overdue:   checklist.summary.overdue,
             pending:   checklist.summary.pending,
           } : null,
-          congestionAtArrival: congestion ? {
-            level:              congestion.level,
-            score:              congestion.congestionScore,
-            estimatedWaitHours: congestion.estimatedWaitHours,
+          congestionAtArrival: forecast ? {
+            level:              forecast.level,
+            score:              forecast.projectedScore,
+            estimatedWaitHours: forecast.expectedWaitHours,
+            confidence:         forecast.confidence,
           } : null,
-          daEstimateUsd: daBase.costs.totalUsd,
+          daEstimateUsd: da.costs.totalUsd,
+          daVessel:      da.vessel,
+          daBasis:       da.basis,
         };
       });
 
@@ -251,13 +332,14 @@ builder.queryFields((t) => ({
     },
   }),
 
-  /** Aggregated port view: congestion + pre-arrival + docs + DA */
+  /** Aggregated port view: congestion + pre-arrival + docs + DA; imo forecasts for that registered vessel */
   portDashboard: t.field({
     type: PortDashboardType,
     nullable: true,
     args: {
       portCode: t.arg.string({ required: true }),
       window:   t.arg.int({ defaultValue: 48 }),
+      imo:      t.arg.string(),
       grt:      t.arg.int({ defaultValue: 50000 }),
       loa:      t.arg.int({ defaultValue: 250 }),
       teu:      t.arg.int({ defaultValue: 4000 }),
@@ -278,7 +360,11 @@ builder.queryFields((t) => ({
         loaMetres:   args.loa         ?? 250,
         teuCapacity: args.teu         ?? 4000,
       };
-      const daForecast = forecastDA(portCode, vesselSpec);
+      const daForecast = args.imo ? forecastDAForVessel(portCode, args.imo) : forecastDA(portCode, vesselSpec);
+      const arrivalDA  = ((preArrival as any)?.vessels ?? []).map((v: any) => {
+        const da = forecastDAForVessel(portCode, v.imo, v.etaAt);
+        return { imo: v.imo, vesselName: v.name, etaAt: v.etaAt, daEstimateUsd: da.costs.totalUsd, daBasis: da.basis };
+      });
 
       return {
         port:        congestion?.port ?? (preArrival as any)?.port ?? { unlocode: portUpper },
@@ -292,6 +378,7 @@ builder.queryFields((t) => ({
           checklists:    portDocs,
         },
         daForecast,
+        arrivalDA,
       };
     },
   }),
@@ -328,6 +415,63 @@ builder.queryFields((t) => ({
     },
   }),
 
+  /**
+   * Indicative DA for a vessel; asOf picks the port tariff version in force,
+   * currency adds the costs in that reporting currency
+   */
+  daForecast: t.field({
+    type: 'JSON',
+    args: {
+      portCode:    t.arg.string({ required: true }),
+      grt:         t.arg.int({ required: true }),
+      loa:         t.arg.int({ required: true }),
+      teu:         t.arg.int(),
+      cargoTonnes: t.arg.float(),
+      asOf:        t.arg.string(),
+      currency:    t.arg.string(),
+    },
+    resolve: (_, args) => forecastDA(args.portCode, {
+      grt:         args.grt,
+      loaMetres:   args.loa,
+      teuCapacity: args.teu ?? undefined,
+      cargoTonnes: args.cargoTonnes ?? undefined,
+    }, args.asOf ?? undefined, args.currency ?? undefined),
+  }),
+
+  /** Port DA tariff versions; only the one in force on asOf when given */
+  portDATariffs: t.field({
+    type: [PortDATariffType],
+    args: {
+      portCode: t.arg.string({ required: true }),
+      asOf:     t.arg.string(),
+    },
+    resolve: (_, args) => {
+      if (!args.asOf) return listPortTariffs(args.portCode);
+      const current = getPortTariff(args.portCode, args.asOf);
+      return current ? [current] : [];
+    },
+  }),
+
+  fxRates: t.field({
+    type: [FxRateType],
+    args: {
+      currency: t.arg.string(),
+    },
+    resolve: (_, args) => listFxRates(args.currency ?? undefined),
+  }),
+
+  /** { currency, amount, fx } — fx records the rate and rate dates used */
+  convertCurrency: t.field({
+    type: 'JSON',
+    args: {
+      amount: t.arg.float({ required: true }),
+      from:   t.arg.string({ required: true }),
+      to:     t.arg.string({ required: true }),
+      asOf:   t.arg.string(),
+    },
+    resolve: (_, args) => convertAmount(args.amount, args.from, args.to, args.asOf ?? undefined),
+  }),
+
 }));
 
 // ── Mutation ──────────────────────────────────────────────────────────────────
@@ -343,4 +487,61 @@ builder.mutationFields((t) => ({
       return evaluateAlerts(args.portCode);
     },
   }),
+
+  /** Add a port DA tariff version; `tariff` follows PortTariffInput in agent/da-tariffs.ts */
+  addPortDATariff: t.field({
+    type: PortDATariffType,
+    args: {
+      portCode: t.arg.string({ required: true }),
+      tariff:   t.arg({ type: 'JSON', required: true }),
+    },
+    resolve: (_, args) => addPortTariff(args.portCode, args.tariff as PortTariffInput),
+  }),
+
+  /** Edit a tariff version's dates, rates or notes */
+  updatePortDATariff: t.field({
+    type: PortDATariffType,
+    nullable: true,
+    args: {
+      id:      t.arg.string({ required: true }),
+      changes: t.arg({ type: 'JSON', required: true }),
+    },
+    resolve: (_, args) => updatePortTariff(args.id, args.changes as PortTariffUpdate),
+  }),
+
+  deletePortDATariff: t.field({
+    type: 'Boolean',
+    args: {
+      id: t.arg.string({ required: true }),
+    },
+    resolve: (_, args) => deletePortTariff(args.id),
+  }),
+
+  /** Add or replace a currency's rate (USD per unit) for a date */
+  setFxRate: t.field({
+    type: FxRateType,
+    args: {
+      currency:   t.arg.string({ required: true }),
+      date:       t.arg.string({ required: true }),
+      usdPerUnit: t.arg.float({ required: true }),
+      source:     t.arg.string(),
+      recordedBy: t.arg.string(),
+    },
+    resolve: (_, args) => setFxRate({
+      currency:   args.currency,
+      date:       args.date,
+      usdPerUnit: args.usdPerUnit,
+      source:     args.source ?? null,
+      recordedBy: args.recordedBy ?? undefined,
+    }),
+  }),
+
+  deleteFxRate: t.field({
+    type: 'Boolean',
+    args: {
+      currency: t.arg.string({ required: true }),
+      date:     t.arg.string({ required: true }),
+    },
+    resolve: (_, args) => deleteFxRate(args.currency, args.date),
+  }),
 }));
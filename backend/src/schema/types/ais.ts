@@ -0,0 +1,387 @@
+/**
+ * AIS Positions — GraphQL types (Pothos schema builder)
+ *
+ * Queries:
+ *   bestPosition(imo)          → BestPosition (fused across sources)
+ *   positionFusionConfig       → PositionFusionConfig
+ *   aisGaps(imo, days)         → [AisGap] (transmission gaps, newest first)
+ *   vesselPortVisits(imo, days, limit)      → [PortVisit] (newest first)
+ *   portVisits(unlocode, days, limit)       → [PortVisit] (newest first)
+ *   vesselEncounters(imo, bbox..., days, kind, limit) → [VesselEncounter] (STS / rendezvous)
+ *   ecaReminders(imo, includeAcknowledged, limit)     → [EcaReminder] (newest first)
+ *   riskZoneEntries(imo, zoneId, includeAcknowledged, limit) → [RiskZoneEntry] (newest first)
+ *
+ * Mutations:
+ *   reportPosition(imo, lat, lng, ...)   → Boolean (manual / noon_report fix)
+ *   setPositionFusionConfig(...)         → PositionFusionConfig
+ *   acknowledgeEcaReminder(id)           → EcaReminder
+ *   acknowledgeRiskZoneEntry(id)         → RiskZoneEntry
+ *
+ * © 2026 ANKR Labs — Mari8X Community Edition
+ */
+
+import { builder } from '../builder.js';
+import {
+  getBestPosition, getFusionConfig, setFusionConfig, recordReportedPosition,
+  type BestPosition, type SourceFix, type FusionConfig, type SourceRule,
+} from '../../ais/fusion.js';
+import { getVesselGaps, type GapEvent, type GapFix } from '../../ais/gaps.js';
+import { getVesselPortVisits, getPortVisits, type PortVisit } from '../../ais/port-visits.js';
+import { listEncounters, type Encounter, type EncounterVessel } from '../../ais/encounters.js';
+import { listEcaReminders, acknowledgeEcaReminder, type EcaReminder } from '../../ais/eca-changeover.js';
+import { listRiskZoneEntries, acknowledgeRiskZoneEntry, type RiskZoneEntry } from '../../ais/risk-zone-watch.js';
+import { clockNow } from '../../lib/clock.js';
+
+// ── Object types ──────────────────────────────────────────────────────────────
+
+const SourceFixType = builder.objectRef<SourceFix>('SourceFix').implement({
+  fields: t => ({
+    source:     t.exposeString('source'),
+    priority:   t.exposeInt('priority'),
+    current:    t.exposeBoolean('current'),
+    ageMinutes: t.exposeInt('ageMinutes'),
+    lat:        t.exposeFloat('lat'),
+    lng:        t.exposeFloat('lng'),
+    speedKt:    t.exposeFloat('speedKt', { nullable: true }),
+    heading:    t.exposeFloat('heading', { nullable: true }),
+    timestamp:  t.exposeString('timestamp'),
+  }),
+});
+
+const BestPositionType = builder.objectRef<BestPosition>('BestPosition').implement({
+  fields: t => ({
+    imo:      t.exposeString('imo'),
+    name:     t.exposeString('name'),
+    best:     t.field({ type: SourceFixType, nullable: true, resolve: b => b.best }),
+    bySource: t.field({ type: [SourceFixType], resolve: b => b.bySource }),
+  }),
+});
+
+const SourceRuleType = builder.objectRef<SourceRule>('PositionSourceRule').implement({
+  fields: t => ({
+    source:        t.exposeString('source'),
+    priority:      t.exposeInt('priority'),
+    maxAgeMinutes: t.exposeInt('maxAgeMinutes'),
+  }),
+});
+
+const FusionConfigType = builder.objectRef<FusionConfig>('PositionFusionConfig').implement({
+  fields: t => ({
+    sources:             t.field({ type: [SourceRuleType], resolve: c => c.sources }),
+    preferWindowMinutes: t.exposeInt('preferWindowMinutes'),
+    dedupSeconds:        t.exposeInt('dedupSeconds'),
+    dedupNm:             t.exposeFloat('dedupNm'),
+    updatedBy:           t.exposeString('updatedBy'),
+    updatedAt:           t.exposeString('updatedAt'),
+  }),
+});
+
+const GapFixType = builder.objectRef<GapFix>('AisGapFix').implement({
+  fields: t => ({
+    ts:        t.exposeString('ts'),
+    lat:       t.exposeFloat('lat'),
+    lng:       t.exposeFloat('lng'),
+    speedKt:   t.exposeFloat('speedKt', { nullable: true }),
+    navStatus: t.exposeInt('navStatus', { nullable: true }),
+    source:    t.exposeString('source'),
+  }),
+});
+
+const GapEventType = builder.objectRef<GapEvent>('AisGap').implement({
+  fields: t => ({
+    imo:               t.exposeString('imo'),
+    name:              t.exposeString('name'),
+    context:           t.exposeString('context'),
+    nearPort:          t.field({ type: 'JSON', nullable: true, resolve: g => g.nearPort }),
+    lastFix:           t.field({ type: GapFixType, resolve: g => g.lastFix }),
+    reappeared:        t.field({ type: GapFixType, nullable: true, resolve: g => g.reappeared }),
+    ongoing:           t.exposeBoolean('ongoing'),
+    durationHours:     t.exposeFloat('durationHours'),
+    impliedDistanceNm: t.exposeFloat('impliedDistanceNm', { nullable: true }),
+    impliedSpeedKt:    t.exposeFloat('impliedSpeedKt', { nullable: true }),
+  }),
+});
+
+const PortVisitType = builder.objectRef<PortVisit>('PortVisit').implement({
+  fields: t => ({
+    imo:         t.exposeString('imo'),
+    vesselName:  t.exposeString('vesselName'),
+    unlocode:    t.exposeString('unlocode'),
+    portName:    t.exposeString('portName'),
+    enteredAt:   t.exposeString('enteredAt'),
+    arrivedAt:   t.exposeString('arrivedAt'),
+    departedAt:  t.exposeString('departedAt', { nullable: true }),
+    ongoing:     t.exposeBoolean('ongoing'),
+    hoursInPort: t.exposeFloat('hoursInPort'),
+    anchorHours: t.exposeFloat('anchorHours'),
+    berthHours:  t.exposeFloat('berthHours'),
+    fixes:       t.exposeInt('fixes'),
+  }),
+});
+
+const EncounterVesselType = builder.objectRef<EncounterVessel>('EncounterVessel').implement({
+  fields: t => ({
+    imo:  t.exposeString('imo'),
+    name: t.exposeString('name'),
+    type: t.exposeString('type', { nullable: true }),
+  }),
+});
+
+const EncounterType = builder.objectRef<Encounter>('VesselEncounter').implement({
+  fields: t => ({
+    id:            t.exposeString('id'),
+    kind:          t.exposeString('kind'),
+    vessels:       t.field({ type: [EncounterVesselType], resolve: e => e.vessels }),
+    startedAt:     t.exposeString('startedAt'),
+    endedAt:       t.exposeString('endedAt'),
+    ongoing:       t.exposeBoolean('ongoing'),
+    durationHours: t.exposeFloat('durationHours'),
+    lat:           t.float({ resolve: e => e.location.lat }),
+    lng:           t.float({ resolve: e => e.location.lng }),
+    minDistanceNm: t.exposeFloat('minDistanceNm'),
+    samples:       t.exposeInt('samples'),
+  }),
+});
+
+const EcaReminderType = builder.objectRef<EcaReminder>('EcaReminder').implement({
+  fields: t => ({
+    id:              t.exposeString('id'),
+    imo:             t.exposeString('imo'),
+    vesselName:      t.exposeString('vesselName'),
+    portCode:        t.exposeString('portCode'),
+    kind:            t.exposeString('kind'),
+    eca:             t.exposeString('eca'),
+    ecaName:         t.exposeString('ecaName'),
+    hoursToBoundary: t.exposeFloat('hoursToBoundary'),
+    distanceNm:      t.exposeFloat('distanceNm'),
+    boundaryLat:     t.float({ resolve: r => r.boundary.lat }),
+    boundaryLng:     t.float({ resolve: r => r.boundary.lng }),
+    position:        t.field({ type: 'JSON', resolve: r => r.position }),
+    message:         t.exposeString('message'),
+    issuedAt:        t.exposeString('issuedAt'),
+    acknowledged:    t.exposeBoolean('acknowledged'),
+  }),
+});
+
+const RiskZoneEntryType = builder.objectRef<RiskZoneEntry>('RiskZoneEntry').implement({
+  fields: t => ({
+    id:           t.exposeString('id'),
+    imo:          t.exposeString('imo'),
+    vesselName:   t.exposeString('vesselName'),
+    portCode:     t.exposeString('portCode'),
+    zoneId:       t.exposeString('zoneId'),
+    zoneName:     t.exposeString('zoneName'),
+    category:     t.exposeString('category'),
+    severity:     t.exposeString('severity'),
+    lat:          t.exposeFloat('lat'),
+    lng:          t.exposeFloat('lng'),
+    at:           t.exposeString('at'),
+    detectedAt:   t.exposeString('detectedAt'),
+    acknowledged: t.exposeBoolean('acknowledged'),
+  }),
+});
+
+// ── Inputs ────────────────────────────────────────────────────────────────────
+
+const SourceRuleInputType = builder.inputType('PositionSourceRuleInput', {
+  fields: t => ({
+    source:        t.string({ required: true }),
+    priority:      t.int({ required: true }),
+    maxAgeMinutes: t.int({ required: true }),
+  }),
+});
+
+// ── Queries ───────────────────────────────────────────────────────────────────
+
+builder.queryField('bestPosition', t =>
+  t.field({
+    type:     BestPositionType,
+    nullable: true,
+    args:     { imo: t.arg.string({ required: true }) },
+    resolve:  (_, { imo }) => getBestPosition(imo),
+  })
+);
+
+builder.queryField('positionFusionConfig', t =>
+  t.field({
+    type:    FusionConfigType,
+    resolve: () => getFusionConfig(),
+  })
+);
+
+builder.queryField('aisGaps', t =>
+  t.field({
+    type:     [GapEventType],
+    nullable: true,
+    args:     {
+      imo:  t.arg.string({ required: true }),
+      days: t.arg.int({ defaultValue: 7 }),
+    },
+    resolve:  (_, { imo, days }) => getVesselGaps(imo, Math.min(Math.max(days ?? 7, 1), 90)),
+  })
+);
+
+builder.queryField('vesselPortVisits', t =>
+  t.field({
+    type:     [PortVisitType],
+    nullable: true,
+    args:     {
+      imo:   t.arg.string({ required: true }),
+      days:  t.arg.int({ defaultValue: 180 }),
+      limit: t.arg.int({ defaultValue: 10 }),
+    },
+    resolve:  (_, { imo, days, limit }) => getVesselPortVisits(imo, {
+      days:  Math.min(Math.max(days ?? 180, 1), 365),
+      limit: Math.min(Math.max(limit ?? 10, 1), 100),
+    }),
+  })
+);
+
+builder.queryField('portVisits', t =>
+  t.field({
+    type:     [PortVisitType],
+    nullable: true,
+    args:     {
+      unlocode: t.arg.string({ required: true }),
+      days:     t.arg.int({ defaultValue: 30 }),
+      limit:    t.arg.int({ defaultValue: 20 }),
+    },
+    resolve:  (_, { unlocode, days, limit }) => getPortVisits(unlocode, {
+      days:  Math.min(Math.max(days ?? 30, 1), 180),
+      limit: Math.min(Math.max(limit ?? 20, 1), 200),
+    }),
+  })
+);
+
+builder.queryField('vesselEncounters', t =>
+  t.field({
+    type: [EncounterType],
+    args: {
+      imo:    t.arg.string(),
+      kind:   t.arg.string(),
+      minLat: t.arg.float(),
+      maxLat: t.arg.float(),
+      minLng: t.arg.float(),
+      maxLng: t.arg.float(),
+      days:   t.arg.int({ defaultValue: 30 }),
+      limit:  t.arg.int({ defaultValue: 50 }),
+    },
+    resolve: (_, a) => {
+      const box = [a.minLat, a.maxLat, a.minLng, a.maxLng];
+      if (box.some(n => n != null) && box.some(n => n == null)) {
+        throw new Error('minLat, maxLat, minLng and maxLng must be given together');
+      }
+      if (a.kind && a.kind !== 'sts' && a.kind !== 'rendezvous') throw new Error('kind must be sts or rendezvous');
+      return listEncounters({
+        imo:   a.imo ?? undefined,
+        kind:  (a.kind as Encounter['kind']) ?? undefined,
+        since: new Date(clockNow() - Math.min(Math.max(a.days ?? 30, 1), 180) * 86_400_000),
+        bbox:  a.minLat != null ? { minLat: a.minLat, maxLat: a.maxLat!, minLng: a.minLng!, maxLng: a.maxLng! } : undefined,
+        limit: Math.min(Math.max(a.limit ?? 50, 1), 500),
+      });
+    },
+  })
+);
+
+builder.queryField('ecaReminders', t =>
+  t.field({
+    type: [EcaReminderType],
+    args: {
+      imo:                 t.arg.string(),
+      includeAcknowledged: t.arg.boolean({ defaultValue: false }),
+      limit:               t.arg.int({ defaultValue: 50 }),
+    },
+    resolve: (_, a) => listEcaReminders({
+      imo:                 a.imo ?? undefined,
+      includeAcknowledged: a.includeAcknowledged ?? false,
+      limit:               Math.min(Math.max(a.limit ?? 50, 1), 500),
+    }),
+  })
+);
+
+builder.queryField('riskZoneEntries', t =>
+  t.field({
+    type: [RiskZoneEntryType],
+    args: {
+      imo:                 t.arg.string(),
+      zoneId:              t.arg.string(),
+      includeAcknowledged: t.arg.boolean({ defaultValue: false }),
+      limit:               t.arg.int({ defaultValue: 50 }),
+    },
+    resolve: (_, a) => listRiskZoneEntries({
+      imo:                 a.imo ?? undefined,
+      zoneId:              a.zoneId ?? undefined,
+      includeAcknowledged: a.includeAcknowledged ?? false,
+      limit:               Math.min(Math.max(a.limit ?? 50, 1), 500),
+    }),
+  })
+);
+
+// ── Mutations ─────────────────────────────────────────────────────────────────
+
+builder.mutationField('reportPosition', t =>
+  t.field({
+    type: 'Boolean',
+    args: {
+      imo:       t.arg.string({ required: true }),
+      lat:       t.arg.float({ required: true }),
+      lng:       t.arg.float({ required: true }),
+      speedKt:   t.arg.float(),
+      heading:   t.arg.float(),
+      course:    t.arg.float(),
+      timestamp: t.arg.string(),
+      source:    t.arg.string({ defaultValue: 'manual' }),
+    },
+    resolve: async (_, args) => {
+      await recordReportedPosition({
+        imo:       args.imo,
+        lat:       args.lat,
+        lng:       args.lng,
+        speedKt:   args.speedKt,
+        heading:   args.heading,
+        course:    args.course,
+        timestamp: args.timestamp ?? undefined,
+        source:    args.source ?? undefined,
+      });
+      return true;
+    },
+  })
+);
+
+builder.mutationField('setPositionFusionConfig', t =>
+  t.field({
+    type: FusionConfigType,
+    args: {
+      sources:             t.arg({ type: [SourceRuleInputType] }),
+      preferWindowMinutes: t.arg.int(),
+      dedupSeconds:        t.arg.int(),
+      dedupNm:             t.arg.float(),
+      updatedBy:           t.arg.string(),
+    },
+    resolve: (_, args) => setFusionConfig({
+      sources:             args.sources ?? undefined,
+      preferWindowMinutes: args.preferWindowMinutes ?? undefined,
+      dedupSeconds:        args.dedupSeconds ?? undefined,
+      dedupNm:             args.dedupNm ?? undefined,
+      updatedBy:           args.updatedBy ?? undefined,
+    }),
+  })
+);
+
+builder.mutationField('acknowledgeEcaReminder', t =>
+  t.field({
+    type:     EcaReminderType,
+    nullable: true,
+    args:     { id: t.arg.string({ required: true }) },
+    resolve:  (_, args) => acknowledgeEcaReminder(args.id),
+  })
+);
+
+builder.mutationField('acknowledgeRiskZoneEntry', t =>
+  t.field({
+    type:     RiskZoneEntryType,
+    nullable: true,
+    args:     { id: t.arg.string({ required: true }) },
+    resolve:  (_, args) => acknowledgeRiskZoneEntry(args.id),
+  })
+);
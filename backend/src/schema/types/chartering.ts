@@ -0,0 +1,148 @@
+/**
+ * Chartering — GraphQL types (Pothos schema builder)
+ *
+ * Queries:
+ *   calculateVoyageEstimate(input)           → JSON (EstimateResult, not saved)
+ *   voyageEstimates(vesselName)              → [VoyageEstimateSummary] (newest first)
+ *   voyageEstimate(estimateId)               → VoyageEstimate
+ *   compareVoyageEstimates(estimateIds, versions) → JSON (EstimateComparison)
+ *
+ * Mutations:
+ *   createVoyageEstimate(input, createdBy, note)             → VoyageEstimate
+ *   reviseVoyageEstimate(estimateId, changes, createdBy, note) → VoyageEstimate
+ *   deleteVoyageEstimate(estimateId)                          → Boolean
+ *
+ * `input` / `changes` follow EstimateInput in chartering/estimate.ts.
+ *
+ * © 2026 ANKR Labs — Mari8X Community Edition
+ */
+
+import { builder } from '../builder.js';
+import {
+  calculateEstimate, createEstimate, reviseEstimate, getEstimate, listEstimates,
+  deleteEstimate, compareEstimates,
+  type EstimateInput, type EstimateSummary, type EstimateVersion, type VoyageEstimate,
+} from '../../chartering/estimate.js';
+
+// ── Object types ──────────────────────────────────────────────────────────────
+
+const EstimateSummaryType = builder.objectRef<EstimateSummary>('VoyageEstimateSummary').implement({
+  fields: t => ({
+    estimateId:    t.exposeString('estimateId'),
+    name:          t.exposeString('name'),
+    vesselName:    t.exposeString('vesselName'),
+    latestVersion: t.exposeInt('latestVersion'),
+    ports:         t.exposeStringList('ports'),
+    netResultUsd:  t.exposeFloat('netResultUsd'),
+    tceUsdPerDay:  t.exposeFloat('tceUsdPerDay'),
+    updatedAt:     t.exposeString('updatedAt'),
+  }),
+});
+
+const EstimateVersionType = builder.objectRef<EstimateVersion>('VoyageEstimateVersion').implement({
+  fields: t => ({
+    version:      t.exposeInt('version'),
+    createdAt:    t.exposeString('createdAt'),
+    createdBy:    t.exposeString('createdBy', { nullable: true }),
+    note:         t.exposeString('note', { nullable: true }),
+    netResultUsd: t.float({ resolve: v => v.result.netResultUsd }),
+    tceUsdPerDay: t.float({ resolve: v => v.result.tceUsdPerDay }),
+    totalDays:    t.float({ resolve: v => v.result.totalDays }),
+    input:        t.field({ type: 'JSON', resolve: v => v.input }),
+    result:       t.field({ type: 'JSON', resolve: v => v.result }),
+  }),
+});
+
+const VoyageEstimateType = builder.objectRef<VoyageEstimate>('VoyageEstimate').implement({
+  fields: t => ({
+    estimateId: t.exposeString('estimateId'),
+    name:       t.exposeString('name'),
+    vesselName: t.exposeString('vesselName'),
+    createdAt:  t.exposeString('createdAt'),
+    updatedAt:  t.exposeString('updatedAt'),
+    latest:     t.field({ type: EstimateVersionType, resolve: e => e.versions[e.versions.length - 1] }),
+    versions:   t.field({ type: [EstimateVersionType], resolve: e => e.versions }),
+  }),
+});
+
+// ── Queries ───────────────────────────────────────────────────────────────────
+
+builder.queryField('calculateVoyageEstimate', t =>
+  t.field({
+    type:    'JSON',
+    args:    { input: t.arg({ type: 'JSON', required: true }) },
+    resolve: (_, args) => calculateEstimate(args.input as EstimateInput),
+  })
+);
+
+builder.queryField('voyageEstimates', t =>
+  t.field({
+    type:    [EstimateSummaryType],
+    args:    { vesselName: t.arg.string() },
+    resolve: (_, args) => listEstimates(args.vesselName ?? undefined),
+  })
+);
+
+builder.queryField('voyageEstimate', t =>
+  t.field({
+    type:     VoyageEstimateType,
+    nullable: true,
+    args:     { estimateId: t.arg.string({ required: true }) },
+    resolve:  (_, args) => getEstimate(args.estimateId),
+  })
+);
+
+builder.queryField('compareVoyageEstimates', t =>
+  t.field({
+    type: 'JSON',
+    args: {
+      estimateIds: t.arg.stringList({ required: true }),
+      versions:    t.arg.intList(),    // aligned with estimateIds; omit for latest
+    },
+    resolve: (_, args) => compareEstimates(args.estimateIds.map((estimateId, i) => ({
+      estimateId,
+      version: args.versions?.[i] ?? undefined,
+    }))),
+  })
+);
+
+// ── Mutations ─────────────────────────────────────────────────────────────────
+
+builder.mutationField('createVoyageEstimate', t =>
+  t.field({
+    type: VoyageEstimateType,
+    args: {
+      input:     t.arg({ type: 'JSON', required: true }),
+      createdBy: t.arg.string(),
+      note:      t.arg.string(),
+    },
+    resolve: (_, args) => createEstimate(args.input as EstimateInput, {
+      createdBy: args.createdBy ?? undefined,
+      note:      args.note ?? undefined,
+    }),
+  })
+);
+
+builder.mutationField('reviseVoyageEstimate', t =>
+  t.field({
+    type: VoyageEstimateType,
+    args: {
+      estimateId: t.arg.string({ required: true }),
+      changes:    t.arg({ type: 'JSON', required: true }),
+      createdBy:  t.arg.string(),
+      note:       t.arg.string(),
+    },
+    resolve: (_, args) => reviseEstimate(args.estimateId, args.changes as Partial<EstimateInput>, {
+      createdBy: args.createdBy ?? undefined,
+      note:      args.note ?? undefined,
+    }),
+  })
+);
+
+builder.mutationField('deleteVoyageEstimate', t =>
+  t.field({
+    type:    'Boolean',
+    args:    { estimateId: t.arg.string({ required: true }) },
+    resolve: (_, args) => deleteEstimate(args.estimateId),
+  })
+);
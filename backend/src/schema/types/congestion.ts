@@ -0,0 +1,376 @@
+/**
+ * Port Congestion — GraphQL types (Pothos schema builder)
+ *
+ * Queries:
+ *   portCongestionHistory(portCodes, from?, to?, interval?) → [CongestionSeries]
+ *   congestionForecast(unlocode, at)                         → CongestionForecast
+ *   anchorageDwell(unlocode, days?, limit?)                  → AnchorageDwellReport
+ *   portGeofence(unlocode)                                   → PortGeofence
+ *   portGeofences                                            → [PortGeofence]
+ *   congestionProfile(unlocode)                              → CongestionProfile (in effect)
+ *   congestionProfiles                                       → [CongestionProfile]
+ *
+ * Mutations:
+ *   setPortGeofence(unlocode, polygons, radii?, updatedBy?)  → PortGeofence
+ *   deletePortGeofence(unlocode)                             → Boolean
+ *   setCongestionProfile(unlocode, ...)                      → CongestionProfile
+ *   deleteCongestionProfile(unlocode)                        → Boolean
+ *
+ * The live snapshot (portCongestion / allPortsCongestion) lives in agent.ts.
+ *
+ * © 2026 ANKR Labs — Mari8X Community Edition
+ */
+
+import { builder } from '../builder.js';
+import {
+  getCongestionHistory, parseInterval,
+  type CongestionSeries, type CongestionTrendPoint,
+} from '../../congestion/history.js';
+import { congestionForecast, type CongestionForecast } from '../../congestion/forecast.js';
+import { getAnchorageDwell, type DwellReport, type DwellEpisode, type DwellStats } from '../../congestion/dwell.js';
+import { invalidateCongestionCache } from '../../congestion/engine.js';
+import {
+  setPortGeofence, getPortGeofence, listPortGeofences, deletePortGeofence,
+  type PortGeofence, type GeofencePolygon, type GeofenceZone,
+} from '../../congestion/geofence.js';
+import {
+  setScoringProfile, listScoringProfiles, deleteScoringProfile, resolveScoringProfile,
+  effectiveThresholds, type ScoringProfile,
+} from '../../congestion/scoring.js';
+
+// ── Object types ──────────────────────────────────────────────────────────────
+
+const CongestionTrendPointType = builder.objectRef<CongestionTrendPoint>('CongestionTrendPoint').implement({
+  fields: t => ({
+    ts:                  t.exposeString('ts'),
+    samples:             t.exposeInt('samples'),
+    avgScore:            t.exposeFloat('avgScore'),
+    maxScore:            t.exposeInt('maxScore'),
+    level:               t.exposeString('level'),
+    peakLevel:           t.exposeString('peakLevel'),
+    avgAnchorageVessels: t.exposeFloat('avgAnchorageVessels'),
+    avgApproachVessels:  t.exposeFloat('avgApproachVessels'),
+    avgWaitHours:        t.exposeFloat('avgWaitHours'),
+  }),
+});
+
+const CongestionSeriesType = builder.objectRef<CongestionSeries>('CongestionSeries').implement({
+  fields: t => ({
+    unlocode: t.exposeString('unlocode'),
+    interval: t.exposeString('interval'),
+    from:     t.exposeString('from'),
+    to:       t.exposeString('to'),
+    points:   t.field({ type: [CongestionTrendPointType], resolve: s => s.points }),
+  }),
+});
+
+const CongestionForecastType = builder.objectRef<CongestionForecast>('CongestionForecast').implement({
+  fields: t => ({
+    port:                t.field({ type: 'JSON', resolve: f => f.port }),
+    at:                  t.exposeString('at'),
+    hoursAhead:          t.exposeFloat('hoursAhead'),
+    currentLevel:        t.exposeString('currentLevel'),
+    currentScore:        t.exposeInt('currentScore'),
+    inboundBeforeAt:     t.exposeInt('inboundBeforeAt'),
+    projectedAnchorage:  t.exposeInt('projectedAnchorage'),
+    projectedApproach:   t.exposeInt('projectedApproach'),
+    projectedScore:      t.exposeInt('projectedScore'),
+    level:               t.exposeString('level'),
+    expectedWaitHours:   t.exposeFloat('expectedWaitHours'),
+    detentionCostUsd:    t.exposeInt('detentionCostUsd'),
+    berthingRatePerHour: t.exposeFloat('berthingRatePerHour'),
+    rateSource:          t.exposeString('rateSource'),
+    confidence:          t.exposeString('confidence'),
+    generatedAt:         t.exposeString('generatedAt'),
+  }),
+});
+
+const DwellStatsType = builder.objectRef<DwellStats>('DwellStats').implement({
+  fields: t => ({
+    samples:     t.exposeInt('samples'),
+    medianHours: t.exposeFloat('medianHours', { nullable: true }),
+    p90Hours:    t.exposeFloat('p90Hours',    { nullable: true }),
+    meanHours:   t.exposeFloat('meanHours',   { nullable: true }),
+  }),
+});
+
+const DwellDayType = builder.objectRef<DwellReport['byDay'][number]>('DwellDay').implement({
+  fields: t => ({
+    date:        t.exposeString('date'),
+    samples:     t.exposeInt('samples'),
+    medianHours: t.exposeFloat('medianHours', { nullable: true }),
+    p90Hours:    t.exposeFloat('p90Hours',    { nullable: true }),
+    meanHours:   t.exposeFloat('meanHours',   { nullable: true }),
+  }),
+});
+
+const DwellEpisodeType = builder.objectRef<DwellEpisode>('DwellEpisode').implement({
+  fields: t => ({
+    imo:        t.exposeString('imo'),
+    name:       t.exposeString('name'),
+    enteredAt:  t.exposeString('enteredAt'),
+    leftAt:     t.exposeString('leftAt', { nullable: true }),
+    dwellHours: t.exposeFloat('dwellHours'),
+    outcome:    t.exposeString('outcome'),
+  }),
+});
+
+const AnchorageDwellReportType = builder.objectRef<DwellReport>('AnchorageDwellReport').implement({
+  fields: t => ({
+    port:              t.field({ type: 'JSON', resolve: r => r.port }),
+    windowDays:        t.exposeInt('windowDays'),
+    stats:             t.field({ type: DwellStatsType, resolve: r => r.stats }),
+    byDay:             t.field({ type: [DwellDayType], resolve: r => r.byDay }),
+    currentlyAtAnchor: t.exposeInt('currentlyAtAnchor'),
+    longestWaiting:    t.field({ type: [DwellEpisodeType], resolve: r => r.longestWaiting }),
+    recentEpisodes:    t.field({ type: [DwellEpisodeType], resolve: r => r.recentEpisodes }),
+    generatedAt:       t.exposeString('generatedAt'),
+  }),
+});
+
+const LatLngType = builder.objectRef<{ lat: number; lng: number }>('LatLng').implement({
+  fields: t => ({
+    lat: t.exposeFloat('lat'),
+    lng: t.exposeFloat('lng'),
+  }),
+});
+
+const GeofencePolygonType = builder.objectRef<GeofencePolygon>('GeofencePolygon').implement({
+  fields: t => ({
+    id:       t.exposeString('id'),
+    zone:     t.exposeString('zone'),
+    name:     t.exposeString('name', { nullable: true }),
+    vertices: t.field({ type: [LatLngType], resolve: p => p.vertices }),
+  }),
+});
+
+const PortGeofenceType = builder.objectRef<PortGeofence>('PortGeofence').implement({
+  fields: t => ({
+    unlocode:    t.exposeString('unlocode'),
+    polygons:    t.field({ type: [GeofencePolygonType], resolve: g => g.polygons }),
+    anchorageNm: t.float({ resolve: g => g.radii.anchorageNm }),
+    approachNm:  t.float({ resolve: g => g.radii.approachNm }),
+    outerNm:     t.float({ resolve: g => g.radii.outerNm }),
+    updatedBy:   t.exposeString('updatedBy'),
+    updatedAt:   t.exposeString('updatedAt'),
+  }),
+});
+
+const CongestionProfileType = builder.objectRef<ScoringProfile & { source?: string }>('CongestionProfile').implement({
+  fields: t => ({
+    id:                t.exposeString('id'),
+    source:            t.string({ nullable: true, resolve: p => p.source ?? null }),
+    anchorageWeight:   t.exposeFloat('anchorageWeight'),
+    approachWeight:    t.exposeFloat('approachWeight'),
+    moderateThreshold: t.float({ resolve: p => p.thresholds.moderate }),
+    highThreshold:     t.float({ resolve: p => p.thresholds.high }),
+    criticalThreshold: t.float({ resolve: p => p.thresholds.critical }),
+    berthCapacity:     t.exposeInt('berthCapacity', { nullable: true }),
+    effectiveThresholds: t.field({ type: 'JSON', resolve: p => effectiveThresholds(p) }),
+    typeWeights:       t.field({ type: 'JSON', resolve: p => p.typeWeights }),
+    sizeBands:         t.field({ type: 'JSON', resolve: p => p.sizeBands }),
+    updatedBy:         t.exposeString('updatedBy'),
+    updatedAt:         t.exposeString('updatedAt'),
+  }),
+});
+
+// ── Inputs ────────────────────────────────────────────────────────────────────
+
+const LatLngInputType = builder.inputType('LatLngInput', {
+  fields: t => ({
+    lat: t.float({ required: true }),
+    lng: t.float({ required: true }),
+  }),
+});
+
+const SizeBandInputType = builder.inputType('SizeBandInput', {
+  fields: t => ({
+    minGt:  t.float({ required: true }),
+    weight: t.float({ required: true }),
+  }),
+});
+
+const GeofencePolygonInputType = builder.inputType('GeofencePolygonInput', {
+  fields: t => ({
+    id:       t.string(),
+    zone:     t.string({ required: true }),
+    name:     t.string(),
+    vertices: t.field({ type: [LatLngInputType], required: true }),
+  }),
+});
+
+// ── Queries ───────────────────────────────────────────────────────────────────
+
+builder.queryField('portCongestionHistory', t =>
+  t.field({
+    type: [CongestionSeriesType],
+    args: {
+      portCodes: t.arg.stringList({ required: true }),
+      from:      t.arg.string(),
+      to:        t.arg.string(),
+      interval:  t.arg.string({ defaultValue: 'hour' }),
+    },
+    resolve: (_, { portCodes, from, to, interval }) => getCongestionHistory(portCodes, {
+      from:     from ? new Date(from) : undefined,
+      to:       to   ? new Date(to)   : undefined,
+      interval: parseInterval(interval),
+    }),
+  })
+);
+
+builder.queryField('congestionForecast', t =>
+  t.field({
+    type:     CongestionForecastType,
+    nullable: true,
+    args: {
+      unlocode: t.arg.string({ required: true }),
+      at:       t.arg.string({ required: true }),
+    },
+    resolve: (_, { unlocode, at }) => {
+      const when = new Date(at);
+      if (isNaN(when.getTime())) throw new Error('at must be an ISO timestamp');
+      return congestionForecast(unlocode, when);
+    },
+  })
+);
+
+builder.queryField('anchorageDwell', t =>
+  t.field({
+    type:     AnchorageDwellReportType,
+    nullable: true,
+    args: {
+      unlocode: t.arg.string({ required: true }),
+      days:     t.arg.int({ defaultValue: 7 }),
+      limit:    t.arg.int({ defaultValue: 10 }),
+    },
+    resolve: (_, { unlocode, days, limit }) =>
+      getAnchorageDwell(unlocode, Math.min(Math.max(days ?? 7, 1), 30), Math.min(Math.max(limit ?? 10, 1), 100)),
+  })
+);
+
+builder.queryField('portGeofence', t =>
+  t.field({
+    type:     PortGeofenceType,
+    nullable: true,
+    args:     { unlocode: t.arg.string({ required: true }) },
+    resolve:  (_, { unlocode }) => getPortGeofence(unlocode),
+  })
+);
+
+builder.queryField('portGeofences', t =>
+  t.field({
+    type:    [PortGeofenceType],
+    resolve: () => listPortGeofences(),
+  })
+);
+
+builder.queryField('congestionProfile', t =>
+  t.field({
+    type:    CongestionProfileType,
+    args:    { unlocode: t.arg.string({ required: true }) },
+    resolve: (_, { unlocode }) => {
+      const { profile, source } = resolveScoringProfile(unlocode);
+      return { ...profile, source };
+    },
+  })
+);
+
+builder.queryField('congestionProfiles', t =>
+  t.field({
+    type:    [CongestionProfileType],
+    resolve: () => listScoringProfiles(),
+  })
+);
+
+// ── Mutations ─────────────────────────────────────────────────────────────────
+
+builder.mutationField('setPortGeofence', t =>
+  t.field({
+    type: PortGeofenceType,
+    args: {
+      unlocode:    t.arg.string({ required: true }),
+      polygons:    t.arg({ type: [GeofencePolygonInputType], required: true }),
+      anchorageNm: t.arg.float(),
+      approachNm:  t.arg.float(),
+      outerNm:     t.arg.float(),
+      updatedBy:   t.arg.string(),
+    },
+    resolve: (_, args) => {
+      const fence = setPortGeofence(args.unlocode, {
+        polygons: args.polygons.map(p => ({
+          id:       p.id ?? undefined,
+          zone:     p.zone as GeofenceZone,
+          name:     p.name ?? null,
+          vertices: p.vertices,
+        })),
+        radii: {
+          ...(args.anchorageNm != null ? { anchorageNm: args.anchorageNm } : {}),
+          ...(args.approachNm  != null ? { approachNm:  args.approachNm }  : {}),
+          ...(args.outerNm     != null ? { outerNm:     args.outerNm }     : {}),
+        },
+        updatedBy: args.updatedBy ?? undefined,
+      });
+      invalidateCongestionCache(fence.unlocode);
+      return fence;
+    },
+  })
+);
+
+builder.mutationField('deletePortGeofence', t =>
+  t.field({
+    type:    'Boolean',
+    args:    { unlocode: t.arg.string({ required: true }) },
+    resolve: (_, { unlocode }) => {
+      const ok = deletePortGeofence(unlocode);
+      if (ok) invalidateCongestionCache(unlocode);
+      return ok;
+    },
+  })
+);
+
+builder.mutationField('setCongestionProfile', t =>
+  t.field({
+    type: CongestionProfileType,
+    args: {
+      unlocode:          t.arg.string({ required: true }),
+      anchorageWeight:   t.arg.float(),
+      approachWeight:    t.arg.float(),
+      moderateThreshold: t.arg.float(),
+      highThreshold:     t.arg.float(),
+      criticalThreshold: t.arg.float(),
+      berthCapacity:     t.arg.int(),
+      typeWeights:       t.arg({ type: 'JSON' }),
+      sizeBands:         t.arg({ type: [SizeBandInputType] }),
+      updatedBy:         t.arg.string(),
+    },
+    resolve: (_, args) => {
+      const profile = setScoringProfile(args.unlocode, {
+        anchorageWeight: args.anchorageWeight ?? undefined,
+        approachWeight:  args.approachWeight  ?? undefined,
+        thresholds: {
+          ...(args.moderateThreshold != null ? { moderate: args.moderateThreshold } : {}),
+          ...(args.highThreshold     != null ? { high:     args.highThreshold }     : {}),
+          ...(args.criticalThreshold != null ? { critical: args.criticalThreshold } : {}),
+        },
+        berthCapacity: args.berthCapacity ?? undefined,
+        typeWeights:   (args.typeWeights as ScoringProfile['typeWeights']) ?? undefined,
+        sizeBands:     args.sizeBands ?? undefined,
+        updatedBy:     args.updatedBy ?? undefined,
+      });
+      invalidateCongestionCache(profile.id === 'DEFAULT' ? undefined : profile.id);
+      return profile;
+    },
+  })
+);
+
+builder.mutationField('deleteCongestionProfile', t =>
+  t.field({
+    type:    'Boolean',
+    args:    { unlocode: t.arg.string({ required: true }) },
+    resolve: (_, { unlocode }) => {
+      const ok = deleteScoringProfile(unlocode);
+      if (ok) invalidateCongestionCache();
+      return ok;
+    },
+  })
+);
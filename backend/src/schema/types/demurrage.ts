@@ -4,7 +4,7 @@
  * Queries:
  *   ddRecord(blNumber: String!): DDRecord
  *   ddRecords(portCode, status, limit): [DDRecord!]!
- *   ddDashboard: DDDashboard!
+ *   ddDashboard(currency): DDDashboard!
  *   ddAlerts: [DDRecord!]!
  *
  * Mutations:
@@ -21,6 +21,7 @@ import {
   getDDAlerts, getDDDashboard, refreshAllDD,
   type DDRecord, type DDContainerDetail, type DDDashboard,
 } from '../../agent/demurrage.js';
+import type { FxAmount } from '../../agent/fx-rates.js';
 
 // ── Object types ──────────────────────────────────────────────────────────────
 
@@ -47,7 +48,13 @@ const DDRecordType = builder.objectRef<DDRecord>('DDRecord').implement({
     vesselName:           t.exposeString('vesselName', { nullable: true }),
     voyageNumber:         t.exposeString('voyageNumber', { nullable: true }),
     status:               t.exposeString('status'),
+    currency:             t.string({ resolve: r => r.rules.currency }),
+    totalLiability:       t.exposeFloat('totalLiability'),
+    fx:                   t.field({ type: 'JSON', nullable: true, resolve: r => r.fx }),
     totalLiabilityUsd:    t.exposeFloat('totalLiabilityUsd'),
+    reportingCurrency:    t.exposeString('reportingCurrency', { nullable: true }),
+    reporting:            t.field({ type: 'JSON', nullable: true, resolve: r => r.reporting }),
+    fxNote:               t.exposeString('fxNote', { nullable: true }),
     alertThresholdUsd:    t.exposeFloat('alertThresholdUsd'),
     alertFired:           t.exposeBoolean('alertFired'),
     containers:           t.field({ type: [DDContainerType], resolve: r => r.containers }),
@@ -59,7 +66,8 @@ const DDRecordType = builder.objectRef<DDRecord>('DDRecord').implement({
 interface DDDashboardType {
   totalBLs: number; openBLs: number; totalLiabilityUsd: number;
   demurrageLiabilityUsd: number; detentionLiabilityUsd: number;
-  alertCount: number; clearedBLs: number;
+  alertCount: number; clearedBLs: number; unconvertedBLs: number;
+  reporting: FxAmount | null; fxNote: string | null;
 }
 
 const DDDashboardType = builder.objectRef<DDDashboardType>('DDDashboard').implement({
@@ -71,6 +79,9 @@ const DDDashboardType = builder.objectRef<DDDashboardType>('DDDashboard').implem
     detentionLiabilityUsd: t.exposeFloat('detentionLiabilityUsd'),
     alertCount:            t.exposeInt('alertCount'),
     clearedBLs:            t.exposeInt('clearedBLs'),
+    unconvertedBLs:        t.exposeInt('unconvertedBLs'),
+    reporting:             t.field({ type: 'JSON', nullable: true, resolve: d => d.reporting }),
+    fxNote:                t.exposeString('fxNote', { nullable: true }),
   }),
 });
 
@@ -105,7 +116,8 @@ builder.queryField('ddRecords', t =>
 builder.queryField('ddDashboard', t =>
   t.field({
     type:    DDDashboardType,
-    resolve: () => getDDDashboard() as DDDashboardType,
+    args:    { currency: t.arg.string() },
+    resolve: (_, { currency }) => getDDDashboard(currency ?? undefined) as DDDashboardType,
   })
 );
 
@@ -134,6 +146,7 @@ const DDRulesInput = builder.inputType('DDRulesInput', {
     demurrageRatePerDay: t.float(),
     freeDaysDetention:   t.int(),
     detentionRatePerDay: t.float(),
+    currency:            t.string(),
   }),
 });
 
@@ -146,6 +159,7 @@ const DDInput = builder.inputType('DDInput', {
     voyageNumber:      t.string(),
     containers:        t.field({ type: [DDContainerInput], required: true }),
     rules:             t.field({ type: DDRulesInput }),
+    reportingCurrency: t.string(),
     alertThresholdUsd: t.float(),
   }),
 });
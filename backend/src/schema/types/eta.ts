@@ -32,6 +32,8 @@ const EtaRecordType = builder.objectRef<EtaRecord>('EtaRecord').implement({
     deltaMins:   t.exposeInt('deltaMins'),
     source:      t.exposeString('source'),
     remarks:     t.exposeString('remarks', { nullable: true }),
+    ata:         t.exposeString('ata', { nullable: true }),
+    arrivedBy:   t.exposeString('arrivedBy', { nullable: true }),
     history:     t.field({ type: [EtaHistoryType], resolve: r => r.history }),
     createdAt:   t.exposeString('createdAt'),
     updatedAt:   t.exposeString('updatedAt'),
@@ -122,9 +124,12 @@ builder.mutationField('markArrived', t =>
     type:     EtaRecordType,
     nullable: true,
     args:     {
-      voyageId: t.arg.string({ required: true }),
-      remarks:  t.arg.string(),
+      voyageId:  t.arg.string({ required: true }),
+      remarks:   t.arg.string(),
+      at:        t.arg.string(),
+      updatedBy: t.arg.string(),
     },
-    resolve: (_, { voyageId, remarks }) => markArrived(voyageId, remarks ?? undefined),
+    resolve: (_, { voyageId, remarks, at, updatedBy }) =>
+      markArrived(voyageId, remarks ?? undefined, { at: at ?? undefined, updatedBy: updatedBy ?? undefined }),
   })
 )
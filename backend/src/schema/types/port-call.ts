@@ -6,23 +6,38 @@
  *   portCallsByPort(portCode, activeOnly): [PortCallRecord!]!
  *   portCallsByVoyage(voyageId): [PortCallRecord!]!
  *   portCallDashboard: PortCallDashboard!
+ *   daLedger(portCallId): DALedger
+ *   daLedgers(portCode, status): [DALedger!]!
+ *   daVariance(portCallId): JSON (DAVarianceReport)
  *
  * Mutations:
  *   openPortCall(input: PortCallInput!): PortCallRecord!
  *   advancePortCall(portCallId, notes, updatedBy): PortCallRecord!
- *   setPortCallStage(portCallId, stage, notes, updatedBy): PortCallRecord!
- *   setDAEstimate(portCallId, da: DAInput!): PortCallRecord!
+ *   setPortCallStage(portCallId, stage, notes, updatedBy, at): PortCallRecord!
+ *   setPortCallAutoTracking(portCallId, enabled): PortCallRecord!
+ *   setDAEstimate(portCallId, da: DAInput!, reportingCurrency): PortCallRecord!
+ *   addProformaDA(portCallId, items, fxDate, notes, createdBy, principal, reportingCurrency): DALedger!
+ *   proformaDAFromForecast(portCallId, grt, loa, teu, cargoTonnes, createdBy, principal, reportingCurrency): DALedger!
+ *   requestDAFunds(portCallId, amountUsd, amount, currency, reference, requestedBy): DALedger!
+ *   recordDAFunds(portCallId, amountUsd, amount, currency, receivedAt, reference, notes, recordedBy): DALedger!
+ *   addFinalDA(portCallId, items, fxDate, notes, createdBy): DALedger!
  *
  * © 2026 ANKR Labs — Mari8X Community Edition
  */
 
 import { builder } from '../builder.js';
 import {
-  openPortCall, advancePortCall, setPortCallStage, setDAEstimate,
+  openPortCall, advancePortCall, setPortCallStage, setPortCallAutoTracking, setDAEstimate,
   getPortCall, getPortCallsByVoyage, listPortCallsByPort, listAllPortCalls,
   getPortCallDashboard,
   type PortCallRecord, type PortCallEvent, type DAEstimate, type PortCallDashboard,
 } from '../../agent/port-call.js';
+import {
+  getDALedger, listDALedgers, addProformaDA, proformaDAFromForecast, addFinalDA,
+  requestDAFunds, recordDAFunds, getDAVariance,
+  type DALedgerView, type DAVersion, type DALineItem, type DALedgerSummary,
+  type DALineItemInput, type DAStatus,
+} from '../../agent/da-ledger.js';
 
 // ── Object types ──────────────────────────────────────────────────────────────
 
@@ -44,6 +59,8 @@ const DAEstimateType = builder.objectRef<DAEstimate>('DAEstimate').implement({
     miscUsd:      t.exposeFloat('miscUsd'),
     totalUsd:     t.exposeFloat('totalUsd'),
     currency:     t.exposeString('currency'),
+    reporting:    t.field({ type: 'JSON', nullable: true, resolve: d => d.reporting ?? null }),
+    fxNote:       t.string({ nullable: true, resolve: d => d.fxNote ?? null }),
     estimatedAt:  t.exposeString('estimatedAt'),
   }),
 });
@@ -57,8 +74,10 @@ const PortCallRecordType = builder.objectRef<PortCallRecord>('PortCallRecord').i
     portCode:     t.exposeString('portCode'),
     portName:     t.exposeString('portName', { nullable: true }),
     eta:          t.exposeString('eta', { nullable: true }),
+    anchoredAt:   t.exposeString('anchoredAt', { nullable: true }),
     ata:          t.exposeString('ata', { nullable: true }),
     atd:          t.exposeString('atd', { nullable: true }),
+    autoTracking: t.boolean({ resolve: r => r.autoTracking !== false }),
     currentStage: t.exposeString('currentStage'),
     events:       t.field({ type: [PortCallEventType], resolve: r => r.events }),
     da:           t.field({ type: DAEstimateType, nullable: true, resolve: r => r.da }),
@@ -67,8 +86,65 @@ const PortCallRecordType = builder.objectRef<PortCallRecord>('PortCallRecord').i
   }),
 });
 
+const DALineItemType = builder.objectRef<DALineItem>('DALineItem').implement({
+  fields: t => ({
+    id:          t.exposeString('id'),
+    category:    t.exposeString('category'),
+    description: t.exposeString('description', { nullable: true }),
+    currency:    t.exposeString('currency'),
+    amount:      t.exposeFloat('amount'),
+    amountUsd:   t.exposeFloat('amountUsd'),
+    fx:          t.field({ type: 'JSON', nullable: true, resolve: i => i.fx }),
+    invoiceRef:  t.exposeString('invoiceRef', { nullable: true }),
+    supplier:    t.exposeString('supplier', { nullable: true }),
+  }),
+});
+
+const DAVersionType = builder.objectRef<DAVersion>('DAVersion').implement({
+  fields: t => ({
+    version:   t.exposeInt('version'),
+    items:     t.field({ type: [DALineItemType], resolve: v => v.items }),
+    totalUsd:  t.exposeFloat('totalUsd'),
+    source:    t.exposeString('source'),
+    notes:     t.exposeString('notes', { nullable: true }),
+    createdBy: t.exposeString('createdBy'),
+    createdAt: t.exposeString('createdAt'),
+  }),
+});
+
+const DALedgerSummaryType = builder.objectRef<DALedgerSummary>('DALedgerSummary').implement({
+  fields: t => ({
+    status:            t.exposeString('status'),
+    proformaUsd:       t.exposeFloat('proformaUsd', { nullable: true }),
+    finalUsd:          t.exposeFloat('finalUsd', { nullable: true }),
+    fundsRequestedUsd: t.exposeFloat('fundsRequestedUsd'),
+    fundsReceivedUsd:  t.exposeFloat('fundsReceivedUsd'),
+    balanceUsd:        t.exposeFloat('balanceUsd'),
+    balanceType:       t.exposeString('balanceType'),
+    reporting:         t.field({ type: 'JSON', nullable: true, resolve: s => s.reporting }),
+  }),
+});
+
+const DALedgerType = builder.objectRef<DALedgerView>('DALedger').implement({
+  fields: t => ({
+    portCallId:        t.exposeString('portCallId'),
+    voyageId:          t.exposeString('voyageId'),
+    vesselName:        t.exposeString('vesselName'),
+    portCode:          t.exposeString('portCode'),
+    principal:         t.exposeString('principal', { nullable: true }),
+    reportingCurrency: t.string({ resolve: l => l.reportingCurrency ?? 'USD' }),
+    proformas:         t.field({ type: [DAVersionType], resolve: l => l.proformas }),
+    finals:            t.field({ type: [DAVersionType], resolve: l => l.finals }),
+    fundsRequests:     t.field({ type: ['JSON'], resolve: l => l.fundsRequests }),
+    fundsReceived:     t.field({ type: ['JSON'], resolve: l => l.fundsReceived }),
+    summary:           t.field({ type: DALedgerSummaryType, resolve: l => l.summary }),
+    createdAt:         t.exposeString('createdAt'),
+    updatedAt:         t.exposeString('updatedAt'),
+  }),
+});
+
 interface PCByStage {
-  NOA_RECEIVED: number; BERTHING_REQUESTED: number; BERTHED: number;
+  NOA_RECEIVED: number; BERTHING_REQUESTED: number; ANCHORED: number; BERTHED: number;
   CARGO_OPS: number; DEPARTURE_CLEARED: number; DEPARTED: number;
 }
 
@@ -81,6 +157,7 @@ const PortCallByStageType = builder.objectRef<PCByStage>('PortCallByStage').impl
   fields: t => ({
     NOA_RECEIVED:       t.exposeInt('NOA_RECEIVED'),
     BERTHING_REQUESTED: t.exposeInt('BERTHING_REQUESTED'),
+    ANCHORED:           t.exposeInt('ANCHORED'),
     BERTHED:            t.exposeInt('BERTHED'),
     CARGO_OPS:          t.exposeInt('CARGO_OPS'),
     DEPARTURE_CLEARED:  t.exposeInt('DEPARTURE_CLEARED'),
@@ -144,6 +221,36 @@ builder.queryField('portCallDashboard', t =>
   })
 );
 
+builder.queryField('daLedger', t =>
+  t.field({
+    type:     DALedgerType,
+    nullable: true,
+    args:     { portCallId: t.arg.string({ required: true }) },
+    resolve:  (_, { portCallId }) => getDALedger(portCallId),
+  })
+);
+
+builder.queryField('daLedgers', t =>
+  t.field({
+    type:    [DALedgerType],
+    args:    {
+      portCode: t.arg.string(),
+      status:   t.arg.string(),
+    },
+    resolve: (_, { portCode, status }) =>
+      listDALedgers({ portCode: portCode ?? undefined, status: (status ?? undefined) as DAStatus | undefined }),
+  })
+);
+
+builder.queryField('daVariance', t =>
+  t.field({
+    type:     'JSON',
+    nullable: true,
+    args:     { portCallId: t.arg.string({ required: true }) },
+    resolve:  (_, { portCallId }) => getDAVariance(portCallId),
+  })
+);
+
 // ── Inputs ────────────────────────────────────────────────────────────────────
 
 const PortCallInputType = builder.inputType('PortCallInput', {
@@ -171,6 +278,18 @@ const DAInputType = builder.inputType('DAInput', {
   }),
 });
 
+const DALineItemInputType = builder.inputType('DALineItemInput', {
+  fields: t => ({
+    category:    t.string({ required: true }),
+    amountUsd:   t.float(),
+    amount:      t.float(),
+    currency:    t.string(),
+    description: t.string(),
+    invoiceRef:  t.string(),
+    supplier:    t.string(),
+  }),
+});
+
 // ── Mutations ─────────────────────────────────────────────────────────────────
 
 builder.mutationField('openPortCall', t =>
@@ -202,20 +321,35 @@ builder.mutationField('setPortCallStage', t =>
       stage:      t.arg.string({ required: true }),
       notes:      t.arg.string(),
       updatedBy:  t.arg.string(),
+      at:         t.arg.string(),
     },
-    resolve: (_, { portCallId, stage, notes, updatedBy }) =>
-      setPortCallStage(portCallId, stage as any, { notes: notes ?? null, updatedBy: updatedBy ?? 'system' }),
+    resolve: (_, { portCallId, stage, notes, updatedBy, at }) =>
+      setPortCallStage(portCallId, stage as any, {
+        notes: notes ?? null, updatedBy: updatedBy ?? 'system', at: at ?? undefined,
+      }),
   })
 );
 
-builder.mutationField('setDAEstimate', t =>
+builder.mutationField('setPortCallAutoTracking', t =>
   t.field({
     type:    PortCallRecordType,
     args:    {
       portCallId: t.arg.string({ required: true }),
-      da:         t.arg({ type: DAInputType, required: true }),
+      enabled:    t.arg.boolean({ required: true }),
+    },
+    resolve: (_, { portCallId, enabled }) => setPortCallAutoTracking(portCallId, enabled),
+  })
+);
+
+builder.mutationField('setDAEstimate', t =>
+  t.field({
+    type:    PortCallRecordType,
+    args:    {
+      portCallId:        t.arg.string({ required: true }),
+      da:                t.arg({ type: DAInputType, required: true }),
+      reportingCurrency: t.arg.string(),
     },
-    resolve: (_, { portCallId, da }) => setDAEstimate(portCallId, {
+    resolve: (_, { portCallId, da, reportingCurrency }) => setDAEstimate(portCallId, {
       portDuesUsd:  da.portDuesUsd,
       pilotageUsd:  da.pilotageUsd,
       towageUsd:    da.towageUsd,
@@ -223,6 +357,119 @@ builder.mutationField('setDAEstimate', t =>
       miscUsd:      da.miscUsd,
       totalUsd:     da.totalUsd,
       currency:     da.currency ?? 'USD',
+    }, reportingCurrency),
+  })
+);
+
+builder.mutationField('addProformaDA', t =>
+  t.field({
+    type:    DALedgerType,
+    args:    {
+      portCallId:        t.arg.string({ required: true }),
+      items:             t.arg({ type: [DALineItemInputType], required: true }),
+      fxDate:            t.arg.string(),
+      notes:             t.arg.string(),
+      createdBy:         t.arg.string(),
+      principal:         t.arg.string(),
+      reportingCurrency: t.arg.string(),
+    },
+    resolve: (_, { portCallId, items, fxDate, notes, createdBy, principal, reportingCurrency }) =>
+      addProformaDA(portCallId, {
+        items:             items as DALineItemInput[],
+        fxDate:            fxDate ?? undefined,
+        notes:             notes ?? null,
+        createdBy:         createdBy ?? undefined,
+        principal:         principal ?? undefined,
+        reportingCurrency: reportingCurrency ?? undefined,
+      }),
+  })
+);
+
+builder.mutationField('proformaDAFromForecast', t =>
+  t.field({
+    type:    DALedgerType,
+    args:    {
+      portCallId:        t.arg.string({ required: true }),
+      grt:               t.arg.int({ required: true }),
+      loa:               t.arg.int({ required: true }),
+      teu:               t.arg.int(),
+      cargoTonnes:       t.arg.float(),
+      createdBy:         t.arg.string(),
+      principal:         t.arg.string(),
+      reportingCurrency: t.arg.string(),
+    },
+    resolve: (_, { portCallId, grt, loa, teu, cargoTonnes, createdBy, principal, reportingCurrency }) =>
+      proformaDAFromForecast(portCallId, {
+        vessel:            { grt, loaMetres: loa, teuCapacity: teu ?? undefined, cargoTonnes: cargoTonnes ?? undefined },
+        createdBy:         createdBy ?? undefined,
+        principal:         principal ?? undefined,
+        reportingCurrency: reportingCurrency ?? undefined,
+      }),
+  })
+);
+
+builder.mutationField('requestDAFunds', t =>
+  t.field({
+    type:    DALedgerType,
+    args:    {
+      portCallId:  t.arg.string({ required: true }),
+      amountUsd:   t.arg.float(),
+      amount:      t.arg.float(),
+      currency:    t.arg.string(),
+      reference:   t.arg.string(),
+      requestedBy: t.arg.string(),
+    },
+    resolve: (_, { portCallId, amountUsd, amount, currency, reference, requestedBy }) => requestDAFunds(portCallId, {
+      amountUsd:   amountUsd ?? undefined,
+      amount:      amount ?? undefined,
+      currency:    currency ?? undefined,
+      reference:   reference ?? null,
+      requestedBy: requestedBy ?? undefined,
+    }),
+  })
+);
+
+builder.mutationField('recordDAFunds', t =>
+  t.field({
+    type:    DALedgerType,
+    args:    {
+      portCallId: t.arg.string({ required: true }),
+      amountUsd:  t.arg.float(),
+      amount:     t.arg.float(),
+      currency:   t.arg.string(),
+      receivedAt: t.arg.string(),
+      reference:  t.arg.string(),
+      notes:      t.arg.string(),
+      recordedBy: t.arg.string(),
+    },
+    resolve: (_, { portCallId, amountUsd, amount, currency, receivedAt, reference, notes, recordedBy }) =>
+      recordDAFunds(portCallId, {
+        amountUsd:  amountUsd ?? undefined,
+        amount:     amount ?? undefined,
+        currency:   currency ?? undefined,
+        receivedAt: receivedAt ?? undefined,
+        reference:  reference ?? null,
+        notes:      notes ?? null,
+        recordedBy: recordedBy ?? undefined,
+      }),
+  })
+);
+
+builder.mutationField('addFinalDA', t =>
+  t.field({
+    type:    DALedgerType,
+    args:    {
+      portCallId: t.arg.string({ required: true }),
+      items:      t.arg({ type: [DALineItemInputType], required: true }),
+      fxDate:     t.arg.string(),
+      notes:      t.arg.string(),
+      createdBy:  t.arg.string(),
+    },
+    resolve: (_, { portCallId, items, fxDate, notes, createdBy }) => addFinalDA(portCallId, {
+      items:     items as DALineItemInput[],
+      fxDate:    fxDate ?? undefined,
+      notes:     notes ?? null,
+      createdBy: createdBy ?? undefined,
     }),
   })
 );
@@ -1,10 +1,29 @@
 /**
  * Routing GraphQL Types - Community Edition
+ *
+ * Routes follow the bundled sea-lane network (routing/network.ts), with
+ * optional passages (suez, panama, ...) and areas to avoid. Routes and
+ * voyage plans report their mileage inside emission control areas
+ * (routing/eca.ts) and the risk zones they cross (routing/risk-zones.ts).
+ * Given a vessel, calculateRoute also prices the canal transits from the
+ * editable canal tariffs (routing/canal-dues.ts).
  */
 
 import { builder } from '../builder.js';
-import { prisma } from '../../lib/prisma.js';
-import { haversineDistance, generateWaypoints } from '../../lib/geo-utils.js';
+import { findPortRoute, listRoutingOptions, type SeaRoute, type AvoidArea } from '../../routing/sea-route.js';
+import type { PassageId } from '../../routing/network.js';
+import {
+  listRiskZones, setRiskZone, deleteRiskZone,
+  type RiskZone, type RiskZoneInput,
+} from '../../routing/risk-zones.js';
+import {
+  getCanalTariffs, setCanalTariff, resetCanalTariff, calculateCanalDues, canalDuesFor, resolveCanalVessel,
+  type CanalTariffInput, type CanalVessel,
+} from '../../routing/canal-dues.js';
+import {
+  planVoyage, applyVoyagePlan,
+  type VoyagePlan, type VoyagePlanLeg, type VoyagePlanCall,
+} from '../../routing/voyage-plan.js';
 
 // Route result type
 const RouteResult = builder.objectRef<{
@@ -16,6 +35,12 @@ const RouteResult = builder.objectRef<{
   fromPort: { unlocode: string; name: string; lat: number; lng: number };
   toPort: { unlocode: string; name: string; lat: number; lng: number };
   waypoints: Array<{ lat: number; lng: number }>;
+  passages: SeaRoute['passages'];
+  legs: SeaRoute['legs'];
+  avoided: SeaRoute['avoided'];
+  eca: SeaRoute['eca'];
+  riskZones: SeaRoute['riskZones'];
+  canalDues: ReturnType<typeof canalDuesFor> | null;
 }>('RouteResult').implement({
   fields: (t) => ({
     distanceNm: t.exposeFloat('distanceNm'),
@@ -35,73 +60,320 @@ const RouteResult = builder.objectRef<{
       type: ['JSON'],
       resolve: (parent) => parent.waypoints,
     }),
+    passages: t.field({
+      type: ['JSON'],
+      resolve: (parent) => parent.passages,
+    }),
+    legs: t.field({
+      type: ['JSON'],
+      resolve: (parent) => parent.legs,
+    }),
+    avoided: t.field({
+      type: 'JSON',
+      resolve: (parent) => parent.avoided,
+    }),
+    ecaDistanceNm: t.float({
+      resolve: (parent) => parent.eca.distanceNm,
+    }),
+    ecaSegments: t.field({
+      type: ['JSON'],
+      resolve: (parent) => parent.eca.segments,
+    }),
+    riskZones: t.field({
+      type: ['JSON'],
+      resolve: (parent) => parent.riskZones,
+    }),
+    canalDues: t.field({
+      type: 'JSON',
+      nullable: true,
+      resolve: (parent) => parent.canalDues,
+    }),
+  }),
+});
+
+// Voyage plan types
+const VoyagePlanLegType = builder.objectRef<VoyagePlanLeg>('VoyagePlanLeg').implement({
+  fields: (t) => ({
+    legNo: t.exposeInt('legNo'),
+    from: t.exposeString('from'),
+    to: t.exposeString('to'),
+    distanceNm: t.exposeFloat('distanceNm'),
+    speedKnots: t.exposeFloat('speedKnots'),
+    sailingHours: t.exposeFloat('sailingHours'),
+    departure: t.exposeString('departure'),
+    arrival: t.exposeString('arrival'),
+    passages: t.exposeStringList('passages'),
+    ecaDistanceNm: t.exposeFloat('ecaDistanceNm'),
+    ecas: t.field({
+      type: ['JSON'],
+      resolve: (parent) => parent.ecas,
+    }),
+    riskZones: t.field({
+      type: ['JSON'],
+      resolve: (parent) => parent.riskZones,
+    }),
+  }),
+});
+
+const VoyagePlanCallType = builder.objectRef<VoyagePlanCall>('VoyagePlanCall').implement({
+  fields: (t) => ({
+    callNo: t.exposeInt('callNo'),
+    unlocode: t.exposeString('unlocode'),
+    name: t.exposeString('name'),
+    eta: t.exposeString('eta', { nullable: true }),
+    etd: t.exposeString('etd'),
+    stayHours: t.exposeFloat('stayHours'),
+  }),
+});
+
+const VoyagePlanType = builder.objectRef<VoyagePlan>('VoyagePlan').implement({
+  fields: (t) => ({
+    departure: t.exposeString('departure'),
+    arrival: t.exposeString('arrival'),
+    completion: t.exposeString('completion'),
+    totalDistanceNm: t.exposeFloat('totalDistanceNm'),
+    totalEcaDistanceNm: t.exposeFloat('totalEcaDistanceNm'),
+    totalSailingHours: t.exposeFloat('totalSailingHours'),
+    totalPortHours: t.exposeFloat('totalPortHours'),
+    totalHours: t.exposeFloat('totalHours'),
+    totalDays: t.exposeFloat('totalDays'),
+    legs: t.field({
+      type: [VoyagePlanLegType],
+      resolve: (parent) => parent.legs,
+    }),
+    calls: t.field({
+      type: [VoyagePlanCallType],
+      resolve: (parent) => parent.calls,
+    }),
+  }),
+});
+
+const AppliedVoyagePlan = builder.objectRef<{ plan: VoyagePlan; etas: unknown[]; removed: string[] }>('AppliedVoyagePlan').implement({
+  fields: (t) => ({
+    plan: t.field({
+      type: VoyagePlanType,
+      resolve: (parent) => parent.plan,
+    }),
+    etas: t.field({
+      type: ['JSON'],
+      resolve: (parent) => parent.etas,
+    }),
+    removed: t.exposeStringList('removed'),
+  }),
+});
+
+// Risk zone type
+const RiskZoneType = builder.objectRef<RiskZone>('RiskZone').implement({
+  fields: (t) => ({
+    id: t.exposeString('id'),
+    name: t.exposeString('name'),
+    category: t.exposeString('category'),
+    severity: t.exposeString('severity'),
+    polygon: t.field({
+      type: ['JSON'],
+      resolve: (parent) => parent.polygon,
+    }),
+    notes: t.exposeString('notes', { nullable: true }),
+    active: t.exposeBoolean('active'),
+    updatedBy: t.exposeString('updatedBy'),
+    updatedAt: t.exposeString('updatedAt'),
   }),
 });
 
 // Queries
 builder.queryFields((t) => ({
-  // Calculate great circle route
+  // Shortest sea route over the sea-lane network
   calculateRoute: t.field({
     type: RouteResult,
     args: {
       fromUnlocode: t.arg.string({ required: true }),
       toUnlocode: t.arg.string({ required: true }),
       speedKnots: t.arg.float({ defaultValue: 14 }),
+      avoidPassages: t.arg.stringList(),
+      avoidAreas: t.arg({ type: ['JSON'] }),
+      vesselIMO: t.arg.string(),     // registered vessel, for canal dues
+      grossTonnage: t.arg.float(),   // or its particulars
+      vesselType: t.arg.string(),
+      laden: t.arg.boolean({ defaultValue: true }),
     },
     resolve: async (_, args) => {
-      // Get ports
-      const fromPort = await prisma.port.findUnique({
-        where: { unlocode: args.fromUnlocode },
-      });
-      const toPort = await prisma.port.findUnique({
-        where: { unlocode: args.toUnlocode },
+      const vessel = args.vesselIMO || args.grossTonnage ? resolveCanalVessel({
+        imo: args.vesselIMO ?? undefined,
+        gt: args.grossTonnage ?? undefined,
+        type: (args.vesselType ?? undefined) as CanalVessel['type'] | undefined,
+        laden: args.laden ?? true,
+      }) : null;
+      const { fromPort, toPort, route } = await findPortRoute(args.fromUnlocode, args.toUnlocode, {
+        avoidPassages: (args.avoidPassages ?? []) as PassageId[],
+        avoidAreas: (args.avoidAreas ?? []) as AvoidArea[],
       });
 
-      if (!fromPort || !toPort || !fromPort.lat || !toPort.lat) {
-        throw new Error('Port not found or missing coordinates');
-      }
-
-      // Calculate distance
-      const distanceNm = haversineDistance(
-        fromPort.lat,
-        fromPort.lng!,
-        toPort.lat,
-        toPort.lng!
-      );
-
+      const speedKnots = args.speedKnots ?? 14;
+      const distanceNm = route.distanceNm;
       const distanceKm = distanceNm * 1.852;
-      const estimatedHours = distanceNm / args.speedKnots;
+      const estimatedHours = distanceNm / speedKnots;
       const estimatedDays = estimatedHours / 24;
 
-      // Generate waypoints
-      const waypoints = generateWaypoints(
-        fromPort.lat,
-        fromPort.lng!,
-        toPort.lat,
-        toPort.lng!,
-        20
-      );
-
       return {
         distanceNm,
         distanceKm,
         estimatedDays,
         estimatedHours,
-        speedKnots: args.speedKnots,
-        fromPort: {
-          unlocode: fromPort.unlocode,
-          name: fromPort.name,
-          lat: fromPort.lat,
-          lng: fromPort.lng!,
-        },
-        toPort: {
-          unlocode: toPort.unlocode,
-          name: toPort.name,
-          lat: toPort.lat,
-          lng: toPort.lng!,
-        },
-        waypoints,
+        speedKnots,
+        fromPort,
+        toPort,
+        waypoints: route.waypoints,
+        passages: route.passages,
+        legs: route.legs,
+        avoided: route.avoided,
+        eca: route.eca,
+        riskZones: route.riskZones,
+        canalDues: vessel ? canalDuesFor(route.passages.map((p) => p.id), vessel) : null,
       };
     },
   }),
+
+  // Canal tariff tables in force (Suez, Panama, Kiel)
+  canalTariffs: t.field({
+    type: ['JSON'],
+    resolve: () => getCanalTariffs(),
+  }),
+
+  // Dues for one canal transit
+  canalDues: t.field({
+    type: 'JSON',
+    args: {
+      passage: t.arg.string({ required: true }),
+      vesselIMO: t.arg.string(),
+      grossTonnage: t.arg.float(),
+      vesselType: t.arg.string(),
+      laden: t.arg.boolean({ defaultValue: true }),
+      scnt: t.arg.float(),
+      pcums: t.arg.float(),
+    },
+    resolve: (_, args) =>
+      calculateCanalDues(args.passage, resolveCanalVessel({
+        imo: args.vesselIMO ?? undefined,
+        gt: args.grossTonnage ?? undefined,
+        type: (args.vesselType ?? undefined) as CanalVessel['type'] | undefined,
+        laden: args.laden ?? true,
+        scnt: args.scnt ?? undefined,
+        pcums: args.pcums ?? undefined,
+      })),
+  }),
+
+  // Passages, named areas and risk zones accepted by calculateRoute, and the bundled ECAs
+  routingOptions: t.field({
+    type: 'JSON',
+    resolve: () => listRoutingOptions(),
+  }),
+
+  // Piracy, war-risk and sanctioned zones
+  riskZones: t.field({
+    type: [RiskZoneType],
+    args: {
+      activeOnly: t.arg.boolean({ defaultValue: false }),
+    },
+    resolve: (_, args) => listRiskZones(args.activeOnly ?? false),
+  }),
 }));
+
+// Multi-leg voyage planning
+builder.queryField('planVoyage', (t) =>
+  t.field({
+    type: VoyagePlanType,
+    args: {
+      ports: t.arg.stringList({ required: true }),
+      departure: t.arg.string({ required: true }),
+      speedKnots: t.arg.floatList(),
+      portStayHours: t.arg.floatList(),
+      avoidPassages: t.arg.stringList(),
+      avoidAreas: t.arg({ type: ['JSON'] }),
+    },
+    resolve: (_, args) =>
+      planVoyage({
+        ports: args.ports,
+        departure: args.departure,
+        speedKnots: args.speedKnots ?? undefined,
+        portStayHours: args.portStayHours ?? undefined,
+        avoidPassages: (args.avoidPassages ?? []) as PassageId[],
+        avoidAreas: (args.avoidAreas ?? []) as AvoidArea[],
+      }),
+  })
+);
+
+// Plan a voyage and push each call's ETA into the ETA tracker
+builder.mutationField('applyVoyagePlan', (t) =>
+  t.field({
+    type: AppliedVoyagePlan,
+    args: {
+      voyageId: t.arg.string({ required: true }),
+      vesselName: t.arg.string({ required: true }),
+      vesselIMO: t.arg.string(),
+      ports: t.arg.stringList({ required: true }),
+      departure: t.arg.string({ required: true }),
+      speedKnots: t.arg.floatList(),
+      portStayHours: t.arg.floatList(),
+      avoidPassages: t.arg.stringList(),
+      avoidAreas: t.arg({ type: ['JSON'] }),
+    },
+    resolve: (_, args) =>
+      applyVoyagePlan({
+        voyageId: args.voyageId,
+        vesselName: args.vesselName,
+        vesselIMO: args.vesselIMO ?? undefined,
+        ports: args.ports,
+        departure: args.departure,
+        speedKnots: args.speedKnots ?? undefined,
+        portStayHours: args.portStayHours ?? undefined,
+        avoidPassages: (args.avoidPassages ?? []) as PassageId[],
+        avoidAreas: (args.avoidAreas ?? []) as AvoidArea[],
+      }),
+  })
+);
+
+// Create or replace a risk zone
+builder.mutationField('setRiskZone', (t) =>
+  t.field({
+    type: RiskZoneType,
+    args: {
+      id: t.arg.string({ required: true }),
+      zone: t.arg({ type: 'JSON', required: true }),
+    },
+    resolve: (_, args) => setRiskZone(args.id, args.zone as RiskZoneInput),
+  })
+);
+
+builder.mutationField('deleteRiskZone', (t) =>
+  t.field({
+    type: 'Boolean',
+    args: {
+      id: t.arg.string({ required: true }),
+    },
+    resolve: (_, args) => deleteRiskZone(args.id),
+  })
+);
+
+// Edit a canal tariff; `tariff` follows CanalTariffInput in routing/canal-dues.ts
+builder.mutationField('setCanalTariff', (t) =>
+  t.field({
+    type: 'JSON',
+    args: {
+      passage: t.arg.string({ required: true }),
+      tariff: t.arg({ type: 'JSON', required: true }),
+    },
+    resolve: (_, args) => setCanalTariff(args.passage, args.tariff as CanalTariffInput),
+  })
+);
+
+// Back to the bundled tariff
+builder.mutationField('resetCanalTariff', (t) =>
+  t.field({
+    type: 'JSON',
+    nullable: true,
+    args: {
+      passage: t.arg.string({ required: true }),
+    },
+    resolve: (_, args) => resetCanalTariff(args.passage),
+  })
+);
@@ -34,6 +34,8 @@ const VesselParticularsType = builder.objectRef<VesselParticulars>('VesselPartic
     type:         t.exposeString('type'),
     dwt:          t.exposeFloat('dwt',            { nullable: true }),
     gt:           t.exposeFloat('gt',             { nullable: true }),
+    loaMetres:    t.exposeFloat('loaMetres',      { nullable: true }),
+    teuCapacity:  t.exposeInt('teuCapacity',      { nullable: true }),
     builtYear:    t.exposeInt('builtYear',        { nullable: true }),
     classSociety: t.exposeString('classSociety',  { nullable: true }),
     owner:        t.exposeString('owner',         { nullable: true }),
@@ -110,6 +112,8 @@ builder.mutationField('registerVessel', t =>
       type:         t.arg.string({ required: false }),
       dwt:          t.arg.float({ required: false }),
       gt:           t.arg.float({ required: false }),
+      loaMetres:    t.arg.float({ required: false }),
+      teuCapacity:  t.arg.int({ required: false }),
       builtYear:    t.arg.int({ required: false }),
       classSociety: t.arg.string({ required: false }),
       owner:        t.arg.string({ required: false }),
@@ -15,6 +15,15 @@ builder.prismaObject('Vessel', {
     mmsi: t.exposeString('mmsi', { nullable: true }),
     dwt: t.exposeFloat('dwt', { nullable: true }),
     yearBuilt: t.exposeInt('yearBuilt', { nullable: true }),
+    callsign: t.exposeString('callsign', { nullable: true }),
+    shipType: t.exposeInt('shipType', { nullable: true }),
+    lengthM: t.exposeFloat('lengthM', { nullable: true }),
+    beamM: t.exposeFloat('beamM', { nullable: true }),
+    draught: t.exposeFloat('draught', { nullable: true }),
+    destination: t.exposeString('destination', { nullable: true }),
+    destinationUnlocode: t.exposeString('destinationUnlocode', { nullable: true }),
+    reportedEta: t.expose('reportedEta', { type: 'DateTime', nullable: true }),
+    voyageDataAt: t.expose('voyageDataAt', { type: 'DateTime', nullable: true }),
     positions: t.relation('positions', {
       args: {
         take: t.arg.int({ defaultValue: 100 }),
@@ -35,6 +44,8 @@ builder.prismaObject('VesselPosition', {
     heading: t.exposeFloat('heading', { nullable: true }),
     timestamp: t.expose('timestamp', { type: 'DateTime' }),
     navigationStatus: t.exposeInt('navigationStatus', { nullable: true }),
+    source: t.exposeString('source'),
+    quality: t.exposeString('quality'),
     vessel: t.relation('vessel'),
   }),
 });
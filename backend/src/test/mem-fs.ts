@@ -0,0 +1,71 @@
+/**
+ * In-memory stand-in for the parts of `fs` the JSON stores use, so specs
+ * never touch /root/.ankr. In a spec:
+ *
+ *   vi.mock('fs', () => import('../test/mem-fs.js'));
+ *   import { files } from '../test/mem-fs.js';
+ *   beforeEach(() => files.clear());
+ */
+
+/** path → file contents. Directories exist implicitly. */
+export const files = new Map<string, string>();
+
+const mtimes = new Map<string, number>();
+let tick = 0;
+
+function read(p: string): string {
+  const s = files.get(p);
+  if (s == null) throw new Error(`ENOENT: no such file, open '${p}'`);
+  return s;
+}
+
+function write(p: string, data: string): void {
+  files.set(p, data);
+  mtimes.set(p, ++tick);
+}
+
+export function existsSync(p: string): boolean {
+  return files.has(p) || [...files.keys()].some(k => k.startsWith(`${p}/`));
+}
+
+export function mkdirSync(): undefined {
+  return undefined;
+}
+
+export function readFileSync(p: string): string {
+  return read(p);
+}
+
+export function writeFileSync(p: string, data: string): void {
+  write(p, String(data));
+}
+
+export function appendFileSync(p: string, data: string): void {
+  write(p, (files.get(p) ?? '') + String(data));
+}
+
+export function statSync(p: string): { mtimeMs: number; size: number } {
+  return { mtimeMs: mtimes.get(p) ?? 0, size: read(p).length };
+}
+
+export function readdirSync(dir: string): string[] {
+  const names = [...files.keys()]
+    .filter(k => k.startsWith(`${dir}/`))
+    .map(k => k.slice(dir.length + 1).split('/')[0]);
+  return [...new Set(names)];
+}
+
+export function unlinkSync(p: string): void {
+  read(p);
+  files.delete(p);
+  mtimes.delete(p);
+}
+
+export function rmSync(p: string, opts: { force?: boolean } = {}): void {
+  if (!files.has(p) && opts.force) return;
+  unlinkSync(p);
+}
+
+export default {
+  existsSync, mkdirSync, readFileSync, writeFileSync, appendFileSync, statSync, readdirSync, unlinkSync, rmSync,
+};